@@ -10,20 +10,44 @@ import StemPage from "@/pages/stem";
 import SearchPage from "@/pages/search";
 import BannerPage from "@/pages/banner";
 import LiveBannerPage from "@/pages/livebanner";
+import LoginPage from "@/pages/login";
+import AnalyticsPage from "@/pages/analytics";
+import { RequireAuth } from "@/lib/protected-route";
+import { SiteProvider } from "@/lib/sites";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/view/config">{() => <Home config />}</Route>
+      <Route path="/view/config">{() => <RequireAuth><Home config /></RequireAuth>}</Route>
       <Route path="/view/embed">{() => <Home embed />}</Route>
       <Route path="/view">{() => <Home />}</Route>
-      <Route path="/play/config">{() => <PlayPage config />}</Route>
+      <Route path="/play/config">{() => <RequireAuth><PlayPage config /></RequireAuth>}</Route>
       <Route path="/play/embed">{() => <PlayPage embed />}</Route>
       <Route path="/play">{() => <PlayPage />}</Route>
       <Route path="/stem" component={StemPage} />
-      <Route path="/search" component={SearchPage} />
+      <Route path="/search">{() => <RequireAuth><SearchPage /></RequireAuth>}</Route>
+      <Route path="/analytics">{() => <RequireAuth><AnalyticsPage /></RequireAuth>}</Route>
+      <Route path="/s/:site" nest>
+        {({ site }) => (
+          <SiteProvider site={site}>
+            <Switch>
+              <Route path="/view/config">{() => <RequireAuth><Home config /></RequireAuth>}</Route>
+              <Route path="/view/embed">{() => <Home embed />}</Route>
+              <Route path="/view">{() => <Home />}</Route>
+              <Route path="/play/config">{() => <RequireAuth><PlayPage config /></RequireAuth>}</Route>
+              <Route path="/play/embed">{() => <PlayPage embed />}</Route>
+              <Route path="/play">{() => <PlayPage />}</Route>
+              <Route path="/stem" component={StemPage} />
+              <Route path="/search">{() => <RequireAuth><SearchPage /></RequireAuth>}</Route>
+              <Route path="/analytics">{() => <RequireAuth><AnalyticsPage /></RequireAuth>}</Route>
+              <Route component={NotFound} />
+            </Switch>
+          </SiteProvider>
+        )}
+      </Route>
       <Route path="/banner" component={BannerPage} />
       <Route path="/livebanner" component={LiveBannerPage} />
+      <Route path="/login" component={LoginPage} />
       <Route path="/">
         <Redirect to="/view/config" />
       </Route>
@@ -0,0 +1,397 @@
+import * as React from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { GripVertical, ListMusic, Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+import { MAX_CROSSFADE_SECONDS, type AudioQueueItem, type AudioQueueSummary, type AudioQueueWithItems, type InsertAudioQueueItem, type UpdateAudioQueue } from "@shared/schema";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { audioQueueApiUrl, audioQueueQueryKey, audioQueuesQueryKey } from "@/lib/audio-queues";
+import { measureLoudness } from "@/lib/loudness";
+import { useSite } from "@/lib/sites";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { MediaLibraryPicker } from "@/components/ui/media-library-picker";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+
+type NameMode = "new" | "rename";
+
+const NO_QUEUE = "none";
+
+export interface AudioQueueManagerProps {
+  /** Queue the page plays; null plays the single audio URL. */
+  queueId: number | null;
+  onQueueChange: (queueId: number | null) => void;
+  /** Audio URL in the page's URL field, offered as a quick add. */
+  audioUrl: string;
+  /** Track currently playing, highlighted in the list. */
+  playingItemId?: number;
+}
+
+function moveItem<T>(list: T[], from: number, to: number): T[] {
+  const next = list.slice();
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+function stripExtension(name: string): string {
+  return name.replace(/\.[a-z0-9]+$/i, "");
+}
+
+function titleFromUrl(url: string): string {
+  try {
+    return stripExtension(decodeURIComponent(new URL(url, window.location.origin).pathname.split("/").pop() ?? ""));
+  } catch {
+    return "";
+  }
+}
+
+function formatLoudness(loudnessDb: number | null): string {
+  return loudnessDb === null ? "not measured" : `${loudnessDb.toFixed(1)} dB`;
+}
+
+export function AudioQueueManager({ queueId, onQueueChange, audioUrl, playingItemId }: AudioQueueManagerProps) {
+  const { toast } = useToast();
+  const site = useSite();
+  const [nameMode, setNameMode] = React.useState<NameMode | null>(null);
+  const [nameDraft, setNameDraft] = React.useState("");
+  const [trackUrl, setTrackUrl] = React.useState("");
+  const [trackTitle, setTrackTitle] = React.useState("");
+  const [crossfadeDraft, setCrossfadeDraft] = React.useState<number[] | null>(null);
+  const [dragId, setDragId] = React.useState<number | null>(null);
+  const [dropIndex, setDropIndex] = React.useState<number | null>(null);
+
+  const listsKey = audioQueuesQueryKey(site);
+  const { data: queues = [] } = useQuery<AudioQueueSummary[]>({ queryKey: listsKey, staleTime: 0 });
+  const current = queues.find((q) => q.id === queueId);
+  const queueKey = audioQueueQueryKey(site, queueId ?? 0);
+  const { data: queue } = useQuery<AudioQueueWithItems>({
+    queryKey: queueKey,
+    enabled: current !== undefined,
+    staleTime: 0,
+  });
+  const items = queue?.items ?? [];
+
+  React.useEffect(() => {
+    setCrossfadeDraft(null);
+  }, [queueId]);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: listsKey });
+
+  const createMutation = useMutation({
+    mutationFn: async (name: string) => (await apiRequest("POST", listsKey[0], { name })).json() as Promise<AudioQueueSummary>,
+    onSuccess: (created) => {
+      invalidate();
+      onQueueChange(created.id);
+      setNameMode(null);
+      toast({ title: "Audio queue created", description: created.name });
+    },
+    onError: (err) => toast({ title: "Audio queue not created", description: apiErrorMessage(err), variant: "destructive" }),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (data: UpdateAudioQueue) => apiRequest("PATCH", audioQueueApiUrl(site, queueId!), data),
+    onSuccess: () => {
+      invalidate();
+      setNameMode(null);
+    },
+    onError: (err) => toast({ title: "Update failed", description: apiErrorMessage(err), variant: "destructive" }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", audioQueueApiUrl(site, queueId!)),
+    onSuccess: () => {
+      onQueueChange(null);
+      invalidate();
+      toast({ title: "Audio queue deleted" });
+    },
+    onError: (err) => toast({ title: "Delete failed", description: apiErrorMessage(err), variant: "destructive" }),
+  });
+
+  // Loudness is measured here, once, so players only apply the stored gain.
+  const addMutation = useMutation({
+    mutationFn: async ({ url, title }: { url: string; title: string }) => {
+      const item: InsertAudioQueueItem = { url, title: title || titleFromUrl(url), loudnessDb: await measureLoudness(url) };
+      return (await apiRequest("POST", `${audioQueueApiUrl(site, queueId!)}/items`, { items: [item] })).json() as Promise<AudioQueueItem[]>;
+    },
+    onSuccess: ([added]) => {
+      invalidate();
+      setTrackUrl("");
+      setTrackTitle("");
+      toast({
+        title: "Track added",
+        description: added?.loudnessDb === null ? "Loudness could not be measured; the track plays unadjusted" : added?.title,
+      });
+    },
+    onError: (err) => toast({ title: "Track not added", description: apiErrorMessage(err), variant: "destructive" }),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `${audioQueueApiUrl(site, queueId!)}/items`, { ids: [id] }),
+    onSuccess: invalidate,
+    onError: (err) => toast({ title: "Failed to remove", description: apiErrorMessage(err), variant: "destructive" }),
+  });
+
+  // Reorders optimistically so the dropped row stays put while the server catches up.
+  const reorderMutation = useMutation({
+    mutationFn: (ordered: AudioQueueItem[]) =>
+      apiRequest("PUT", `${audioQueueApiUrl(site, queueId!)}/order`, { ids: ordered.map((item) => item.id) }),
+    onMutate: (ordered) => {
+      const previous = queryClient.getQueryData<AudioQueueWithItems>(queueKey);
+      if (previous) queryClient.setQueryData(queueKey, { ...previous, items: ordered });
+      return { previous };
+    },
+    onError: (err, _ordered, context) => {
+      if (context?.previous) queryClient.setQueryData(queueKey, context.previous);
+      toast({ title: "Reorder failed", description: apiErrorMessage(err), variant: "destructive" });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queueKey }),
+  });
+
+  const openNameInput = (mode: NameMode) => {
+    setNameMode(mode);
+    setNameDraft(mode === "rename" && current ? current.name : "");
+  };
+
+  const submitName = () => {
+    const name = nameDraft.trim();
+    if (!name) return;
+    if (nameMode === "new") createMutation.mutate(name);
+    else if (nameMode === "rename") updateMutation.mutate({ name });
+  };
+
+  const handleDrop = () => {
+    const from = items.findIndex((item) => item.id === dragId);
+    if (from !== -1 && dropIndex !== null) {
+      const to = dropIndex > from ? dropIndex - 1 : dropIndex;
+      if (to !== from) reorderMutation.mutate(moveItem(items, from, to));
+    }
+    setDragId(null);
+    setDropIndex(null);
+  };
+
+  const crossfade = crossfadeDraft ?? [current?.crossfadeSeconds ?? 0];
+
+  return (
+    <div className="space-y-3" data-testid="audio-queue-manager">
+      <div className="flex items-center gap-1">
+        <Label className="text-xs font-medium flex items-center gap-1 text-muted-foreground shrink-0">
+          <ListMusic className="w-3 h-3" />
+          Queue
+        </Label>
+        <Select
+          value={queueId !== null ? String(queueId) : NO_QUEUE}
+          onValueChange={(value) => onQueueChange(value === NO_QUEUE ? null : Number(value))}
+        >
+          <SelectTrigger className="h-8 flex-1 min-w-0" data-testid="select-audio-queue">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_QUEUE}>None (single audio URL)</SelectItem>
+            {queues.map((q) => (
+              <SelectItem key={q.id} value={String(q.id)}>
+                {q.name} ({q.itemCount})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button size="icon" variant="ghost" aria-label="New audio queue" onClick={() => openNameInput("new")} data-testid="button-audio-queue-new">
+          <Plus className="w-4 h-4" />
+        </Button>
+        <Button size="icon" variant="ghost" aria-label="Rename audio queue" disabled={!current} onClick={() => openNameInput("rename")} data-testid="button-audio-queue-rename">
+          <Pencil className="w-4 h-4" />
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          aria-label="Delete audio queue"
+          disabled={!current || deleteMutation.isPending}
+          onClick={() => deleteMutation.mutate()}
+          data-testid="button-audio-queue-delete"
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {nameMode && (
+        <div className="flex items-center gap-1">
+          <Input
+            autoFocus
+            value={nameDraft}
+            onChange={(e) => setNameDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") submitName();
+              if (e.key === "Escape") setNameMode(null);
+            }}
+            placeholder={nameMode === "new" ? "New queue name" : "Queue name"}
+            className="h-8"
+            data-testid="input-audio-queue-name"
+          />
+          <Button size="sm" onClick={submitName} disabled={!nameDraft.trim()} data-testid="button-audio-queue-name-submit">
+            {nameMode === "new" ? "Create" : "Rename"}
+          </Button>
+          <Button size="icon" variant="ghost" aria-label="Cancel" onClick={() => setNameMode(null)}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+
+      {current && (
+        <>
+          <div className="space-y-3 p-3 bg-muted rounded-md">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs">Crossfade</Label>
+                <span className="text-xs text-muted-foreground">{crossfade[0] > 0 ? `${crossfade[0]}s` : "Off"}</span>
+              </div>
+              <Slider
+                value={crossfade}
+                onValueChange={setCrossfadeDraft}
+                onValueCommit={(value) => updateMutation.mutate({ crossfadeSeconds: value[0] })}
+                min={0}
+                max={MAX_CROSSFADE_SECONDS}
+                step={0.5}
+                data-testid="slider-audio-queue-crossfade"
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="audio-queue-gapless" className="text-xs">Gapless transitions</Label>
+              <Switch
+                id="audio-queue-gapless"
+                checked={current.gapless}
+                disabled={crossfade[0] > 0}
+                onCheckedChange={(gapless) => updateMutation.mutate({ gapless })}
+                data-testid="switch-audio-queue-gapless"
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="audio-queue-normalize" className="text-xs">Normalize loudness</Label>
+              <Switch
+                id="audio-queue-normalize"
+                checked={current.normalize}
+                onCheckedChange={(normalize) => updateMutation.mutate({ normalize })}
+                data-testid="switch-audio-queue-normalize"
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="audio-queue-loop" className="text-xs">Loop queue</Label>
+              <Switch
+                id="audio-queue-loop"
+                checked={current.loop}
+                onCheckedChange={(loop) => updateMutation.mutate({ loop })}
+                data-testid="switch-audio-queue-loop"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Input
+                value={trackUrl}
+                onChange={(e) => setTrackUrl(e.target.value)}
+                placeholder="Track URL"
+                className="h-8"
+                data-testid="input-audio-queue-track-url"
+              />
+              <MediaLibraryPicker
+                kinds={["audio", "video"]}
+                value={trackUrl}
+                onSelect={(url, asset) => {
+                  setTrackUrl(url);
+                  setTrackTitle(asset.metadata.tags?.title || stripExtension(asset.originalName));
+                }}
+                testId="media-library-queue"
+              />
+            </div>
+            <Input
+              value={trackTitle}
+              onChange={(e) => setTrackTitle(e.target.value)}
+              placeholder="Title (optional)"
+              className="h-8"
+              data-testid="input-audio-queue-track-title"
+            />
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                className="flex-1"
+                disabled={!trackUrl.trim() || addMutation.isPending}
+                onClick={() => addMutation.mutate({ url: trackUrl.trim(), title: trackTitle.trim() })}
+                data-testid="button-audio-queue-add"
+              >
+                {addMutation.isPending ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Plus className="w-4 h-4 mr-1" />}
+                Add track
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!audioUrl.trim() || addMutation.isPending}
+                onClick={() => addMutation.mutate({ url: audioUrl.trim(), title: "" })}
+                data-testid="button-audio-queue-add-current"
+              >
+                Add audio URL
+              </Button>
+            </div>
+          </div>
+
+          {items.length === 0 && (
+            <p className="text-xs text-muted-foreground">This queue is empty; the single audio URL plays until tracks are added.</p>
+          )}
+
+          <div
+            onDragOver={(e) => {
+              if (dragId === null) return;
+              e.preventDefault();
+              if (e.target === e.currentTarget) setDropIndex(items.length);
+            }}
+            onDrop={(e) => { e.preventDefault(); handleDrop(); }}
+          >
+            {items.map((item, index) => (
+              <div
+                key={item.id}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = "move";
+                  e.dataTransfer.setData("text/plain", String(item.id));
+                  setDragId(item.id);
+                }}
+                onDragOver={(e) => {
+                  if (dragId === null) return;
+                  e.preventDefault();
+                  const rect = e.currentTarget.getBoundingClientRect();
+                  setDropIndex(e.clientY < rect.top + rect.height / 2 ? index : index + 1);
+                }}
+                onDragEnd={() => { setDragId(null); setDropIndex(null); }}
+                className={[
+                  "flex items-center gap-2 p-2 rounded-md group border-y-2 border-transparent",
+                  item.id === playingItemId ? "bg-primary/10 ring-1 ring-primary/30" : "",
+                  item.id === dragId ? "opacity-50" : "",
+                  dragId !== null && dropIndex === index ? "border-t-primary" : "",
+                  dragId !== null && dropIndex === items.length && index === items.length - 1 ? "border-b-primary" : "",
+                ].join(" ")}
+                data-testid={`audio-queue-item-${item.id}`}
+              >
+                <GripVertical className="w-4 h-4 shrink-0 text-muted-foreground cursor-grab" aria-hidden />
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs font-medium truncate" title={item.url}>{item.title || item.url}</p>
+                  <p className="text-[10px] text-muted-foreground">{formatLoudness(item.loudnessDb)}</p>
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="shrink-0 invisible group-hover:visible"
+                  onClick={() => removeMutation.mutate(item.id)}
+                  aria-label="Remove from queue"
+                  data-testid={`audio-queue-remove-${item.id}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
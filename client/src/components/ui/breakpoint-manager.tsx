@@ -0,0 +1,145 @@
+import * as React from "react";
+import { useMutation } from "@tanstack/react-query";
+import { ExternalLink, Save } from "lucide-react";
+import type { RouteSettings } from "@shared/schema";
+import { formatRange, previewWidth } from "@shared/breakpoints";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { profileApiUrl } from "@/lib/profiles";
+import { sitePath, useSite } from "@/lib/sites";
+import { breakpointsQueryKey } from "@/hooks/use-breakpoint-layout";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+export interface BreakpointManagerProps {
+  route: string;
+  profile: string;
+  layouts: RouteSettings[];
+  activeId?: number;
+  viewportWidth: number;
+}
+
+function parseBound(value: string): number | null {
+  const n = parseInt(value, 10);
+  return isNaN(n) ? null : n;
+}
+
+function BreakpointRow({ route, profile, layout, active }: {
+  route: string;
+  profile: string;
+  layout: RouteSettings;
+  active: boolean;
+}) {
+  const { toast } = useToast();
+  const site = useSite();
+  const [minDraft, setMinDraft] = React.useState(layout.minWidth?.toString() ?? "");
+  const [maxDraft, setMaxDraft] = React.useState(layout.maxWidth?.toString() ?? "");
+
+  React.useEffect(() => {
+    setMinDraft(layout.minWidth?.toString() ?? "");
+    setMaxDraft(layout.maxWidth?.toString() ?? "");
+  }, [layout.minWidth, layout.maxWidth]);
+
+  const minWidth = parseBound(minDraft);
+  const maxWidth = parseBound(maxDraft);
+  const dirty = minWidth !== layout.minWidth || maxWidth !== layout.maxWidth;
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("PATCH", `${profileApiUrl(site, route, profile)}/breakpoints/${layout.width}`, {
+        minWidth,
+        maxWidth,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: breakpointsQueryKey(site, route, profile) });
+      toast({ title: "Breakpoint saved", description: `${layout.width}px layout: ${formatRange({ ...layout, minWidth, maxWidth })}` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Breakpoint not saved", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const handlePreview = () => {
+    const params = new URLSearchParams(window.location.search);
+    const width = previewWidth({ ...layout, minWidth, maxWidth });
+    window.open(`${sitePath(site, `/${route}`)}?${params.toString()}`, `preview-${route}-${layout.width}`, `width=${width},height=${window.innerHeight}`);
+  };
+
+  return (
+    <div className="space-y-2 p-2" data-testid={`row-breakpoint-${layout.width}`}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium">{layout.width}px</span>
+          {active && <Badge variant="secondary">Active</Badge>}
+        </div>
+        <span className="text-xs text-muted-foreground">{formatRange(layout)}</span>
+      </div>
+      <div className="flex items-center gap-1">
+        <Input
+          type="number"
+          min={0}
+          value={minDraft}
+          onChange={(e) => setMinDraft(e.target.value)}
+          placeholder="Min"
+          aria-label={`Minimum width for ${layout.width}px layout`}
+          data-testid={`input-breakpoint-min-${layout.width}`}
+        />
+        <span className="text-xs text-muted-foreground">to</span>
+        <Input
+          type="number"
+          min={0}
+          value={maxDraft}
+          onChange={(e) => setMaxDraft(e.target.value)}
+          placeholder="Max"
+          aria-label={`Maximum width for ${layout.width}px layout`}
+          data-testid={`input-breakpoint-max-${layout.width}`}
+        />
+        <Button
+          size="icon"
+          variant="ghost"
+          aria-label="Save range"
+          disabled={!dirty || saveMutation.isPending}
+          onClick={() => saveMutation.mutate()}
+          data-testid={`button-breakpoint-save-${layout.width}`}
+        >
+          <Save className="w-4 h-4" />
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          aria-label="Preview layout"
+          onClick={handlePreview}
+          data-testid={`button-breakpoint-preview-${layout.width}`}
+        >
+          <ExternalLink className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function BreakpointManager({ route, profile, layouts, activeId, viewportWidth }: BreakpointManagerProps) {
+  return (
+    <div className="space-y-2" data-testid="breakpoint-manager">
+      <p className="text-xs text-muted-foreground">
+        Window is {viewportWidth}px. Leave min or max empty for an open-ended range, or both for closest-width matching.
+      </p>
+      {layouts.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No saved layouts yet. Save Settings to create one at the current width.</p>
+      ) : (
+        <div className="rounded-md border divide-y">
+          {layouts.map((layout) => (
+            <BreakpointRow
+              key={layout.id}
+              route={route}
+              profile={profile}
+              layout={layout}
+              active={layout.id === activeId}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
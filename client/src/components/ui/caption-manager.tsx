@@ -0,0 +1,89 @@
+import * as React from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Captions as CaptionsIcon, Trash2, Upload } from "lucide-react";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { attachCaptions, captionsQueryKey, captionTrackApiUrl } from "@/lib/captions";
+import { useSite } from "@/lib/sites";
+import { useToast } from "@/hooks/use-toast";
+import { useCaptions } from "@/hooks/use-captions";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+
+export interface CaptionManagerProps {
+  /** Track the captions belong to; empty while nothing is loaded. */
+  mediaUrl: string;
+}
+
+/** Attaches a WebVTT or LRC file to the loaded track, or removes the one it has. */
+export function CaptionManager({ mediaUrl }: CaptionManagerProps) {
+  const { toast } = useToast();
+  const site = useSite();
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const { track } = useCaptions(site, mediaUrl);
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: captionsQueryKey(site, mediaUrl) });
+
+  const attachMutation = useMutation({
+    mutationFn: (file: File) => attachCaptions(site, mediaUrl, file),
+    onSuccess: invalidate,
+    onError: (err) => toast({ title: "Captions not attached", description: apiErrorMessage(err), variant: "destructive" }),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", captionTrackApiUrl(site, id)),
+    onSuccess: invalidate,
+    onError: (err) => toast({ title: "Remove failed", description: apiErrorMessage(err), variant: "destructive" }),
+  });
+
+  return (
+    <div className="space-y-2" data-testid="caption-manager">
+      <Label className="text-xs font-medium flex items-center gap-1 text-muted-foreground">
+        <CaptionsIcon className="w-3 h-3" />
+        Captions file
+      </Label>
+      {track ? (
+        <div className="flex items-center gap-2 p-1.5 rounded-md border" data-testid="caption-track">
+          <div className="flex-1 min-w-0">
+            <p className="text-xs font-medium truncate">{track.fileName}</p>
+            <p className="text-[10px] text-muted-foreground">{track.format === "vtt" ? "WebVTT" : "LRC"}, {track.cueCount} lines</p>
+          </div>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="w-7 h-7 shrink-0"
+            aria-label="Remove captions"
+            disabled={removeMutation.isPending}
+            onClick={() => removeMutation.mutate(track.id)}
+            data-testid="button-caption-remove"
+          >
+            <Trash2 className="w-3 h-3" />
+          </Button>
+        </div>
+      ) : (
+        <p className="text-[10px] text-muted-foreground">{mediaUrl ? "This track has no captions." : "Load a track first."}</p>
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".vtt,.lrc,text/vtt"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) attachMutation.mutate(file);
+          e.target.value = "";
+        }}
+        data-testid="input-caption-file"
+      />
+      <Button
+        size="sm"
+        variant="outline"
+        className="w-full"
+        disabled={!mediaUrl || attachMutation.isPending}
+        onClick={() => fileInputRef.current?.click()}
+        data-testid="button-caption-attach"
+      >
+        <Upload className="w-4 h-4 mr-1" />
+        {track ? "Replace with .vtt or .lrc" : "Attach .vtt or .lrc"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import type { CSSProperties } from "react";
+import type { CaptionPosition, ViewSettings } from "@shared/schema";
+import { activeCaption, type CaptionCue } from "@shared/captions";
+import { CAPTION_FONT_FAMILIES } from "@/lib/captions";
+
+export type CaptionStyle = Pick<ViewSettings, "captionPosition" | "captionFont" | "captionFontSize" | "captionColor" | "captionBgColor" | "captionBgOpacity">;
+
+export interface CaptionOverlayProps {
+  cues: CaptionCue[];
+  /** The page's progress clock, so captions move in step with the scrubber. */
+  currentTime: number;
+  captionStyle: CaptionStyle;
+}
+
+// Kept clear of the container's edge, which is curved for circles and ovals, and of the mute button.
+const POSITION_STYLES: Record<CaptionPosition, CSSProperties> = {
+  top: { top: "14%" },
+  middle: { top: "50%", transform: "translateY(-50%)" },
+  bottom: { bottom: "26%" },
+};
+
+/** The caption line at `currentTime`, drawn inside the media container. */
+export function CaptionOverlay({ cues, currentTime, captionStyle }: CaptionOverlayProps) {
+  const cue = activeCaption(cues, currentTime);
+  if (!cue) return null;
+  const { captionPosition, captionFont, captionFontSize, captionColor, captionBgColor, captionBgOpacity } = captionStyle;
+  return (
+    <div className="absolute inset-x-[12%] flex justify-center pointer-events-none" style={POSITION_STYLES[captionPosition]} data-testid="caption-overlay">
+      <p
+        className="max-w-full rounded px-2 py-0.5 text-center leading-snug whitespace-pre-line break-words"
+        style={{
+          fontFamily: CAPTION_FONT_FAMILIES[captionFont].css,
+          fontSize: captionFontSize,
+          color: captionColor,
+          background: `color-mix(in srgb, ${captionBgColor} ${Math.round(captionBgOpacity * 100)}%, transparent)`,
+        }}
+        data-testid="text-caption"
+      >
+        {cue.text}
+      </p>
+    </div>
+  );
+}
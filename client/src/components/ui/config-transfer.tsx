@@ -0,0 +1,170 @@
+import * as React from "react";
+import { Download, Upload } from "lucide-react";
+import type { ConfigBundle, ConfigBundleDiff, FieldChange } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { profileApiUrl, profilesQueryKey } from "@/lib/profiles";
+import { useSite } from "@/lib/sites";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+export interface ConfigTransferProps {
+  route: string;
+  profile: string;
+  /** Called after an import has been applied so the page can reload the profile. */
+  onImported: () => void;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "—";
+  if (typeof value === "string") return value === "" ? '""' : value;
+  return JSON.stringify(value);
+}
+
+function ChangeList({ changes }: { changes: FieldChange[] }) {
+  return (
+    <ul className="space-y-1 pl-2">
+      {changes.map((change) => (
+        <li key={change.field} className="text-xs font-mono break-all">
+          <span className="font-semibold">{change.field}</span>:{" "}
+          <span className="text-muted-foreground line-through">{formatValue(change.before)}</span>{" "}
+          → <span>{formatValue(change.after)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+const STATUS_VARIANTS = {
+  added: "default",
+  removed: "destructive",
+  changed: "secondary",
+  unchanged: "outline",
+} as const;
+
+export function ConfigTransfer({ route, profile, onImported }: ConfigTransferProps) {
+  const { toast } = useToast();
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const [pending, setPending] = React.useState<{ bundle: ConfigBundle; diff: ConfigBundleDiff } | null>(null);
+  const [busy, setBusy] = React.useState(false);
+
+  const site = useSite();
+  const profileUrl = profileApiUrl(site, route, profile);
+
+  const handleExport = async () => {
+    try {
+      const res = await apiRequest("GET", `${profileUrl}/export`);
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${route}-${profile}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      toast({ title: "Export failed", description: (err as Error).message, variant: "destructive" });
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      const bundle = JSON.parse(await file.text()) as ConfigBundle;
+      const res = await apiRequest("POST", `${profileUrl}/import/preview`, bundle);
+      const diff = (await res.json()) as ConfigBundleDiff;
+      setPending({ bundle, diff });
+    } catch (err) {
+      const message = err instanceof SyntaxError ? "File is not valid JSON" : (err as Error).message;
+      toast({ title: "Import failed", description: message, variant: "destructive" });
+    }
+  };
+
+  const handleApply = async () => {
+    if (!pending) return;
+    setBusy(true);
+    try {
+      await apiRequest("POST", `${profileUrl}/import`, pending.bundle);
+      queryClient.invalidateQueries({ queryKey: profilesQueryKey(site, route) });
+      onImported();
+      toast({ title: "Configuration imported", description: `Applied to ${profile}` });
+      setPending(null);
+    } catch (err) {
+      toast({ title: "Import failed", description: (err as Error).message, variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const diff = pending?.diff;
+  const hasChanges = !!diff && (diff.globalUrls.length > 0 || diff.layouts.some((l) => l.status !== "unchanged"));
+
+  return (
+    <div className="flex gap-2">
+      <Button variant="outline" size="sm" className="flex-1" onClick={handleExport} data-testid="button-export-config">
+        <Download className="w-4 h-4 mr-2" />
+        Export configuration
+      </Button>
+      <Button variant="outline" size="sm" className="flex-1" onClick={() => fileInputRef.current?.click()} data-testid="button-import-config">
+        <Upload className="w-4 h-4 mr-2" />
+        Import configuration
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = "";
+          if (file) handleFile(file);
+        }}
+        data-testid="input-import-config"
+      />
+
+      <Dialog open={!!pending} onOpenChange={(open) => { if (!open) setPending(null); }}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Import configuration</DialogTitle>
+            <DialogDescription>
+              {pending && `From ${pending.bundle.profile}, exported ${new Date(pending.bundle.exportedAt).toLocaleString()}. `}
+              Review what will change in {profile}.
+            </DialogDescription>
+          </DialogHeader>
+          {diff && (
+            <div className="max-h-[50vh] overflow-y-auto space-y-3" data-testid="import-diff">
+              {!hasChanges && <p className="text-sm text-muted-foreground">No changes. The bundle matches this profile.</p>}
+              {diff.globalUrls.length > 0 && (
+                <div className="space-y-1">
+                  <div className="text-sm font-medium">Global URLs</div>
+                  <ChangeList changes={diff.globalUrls} />
+                </div>
+              )}
+              {diff.layouts.filter((l) => l.status !== "unchanged").map((layout) => (
+                <div key={layout.width} className="space-y-1">
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    {layout.width}px layout
+                    <Badge variant={STATUS_VARIANTS[layout.status]}>{layout.status}</Badge>
+                  </div>
+                  {layout.changes.length > 0 && <ChangeList changes={layout.changes} />}
+                </div>
+              ))}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setPending(null)}>Cancel</Button>
+            <Button onClick={handleApply} disabled={busy || !hasChanges} data-testid="button-apply-import">
+              Apply import
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { Fragment } from "react";
+import type { CuePoint } from "@shared/schema";
+import { formatCueTime } from "@/lib/cue-points";
+import { cn } from "@/lib/utils";
+
+export interface CueMarkersProps {
+  cues: CuePoint[];
+  duration: number;
+  onJump: (cue: CuePoint) => void;
+  className?: string;
+}
+
+/** A strip of cue markers lined up with the scrubber below it; loop regions also show their length. */
+export function CueMarkers({ cues, duration, onJump, className }: CueMarkersProps) {
+  if (duration <= 0 || cues.length === 0) return null;
+  const percent = (seconds: number) => Math.max(0, Math.min(100, (seconds / duration) * 100));
+
+  return (
+    <div className={cn("relative w-full h-4", className)} data-testid="cue-markers">
+      {cues.map((cue, index) => {
+        const shortcut = index < 9 ? ` (${index + 1})` : "";
+        const label = cue.endSeconds === null
+          ? `${cue.name} at ${formatCueTime(cue.startSeconds)}${shortcut}`
+          : `${cue.name}: ${formatCueTime(cue.startSeconds)}–${formatCueTime(cue.endSeconds)}${shortcut}`;
+        return (
+          <Fragment key={cue.id}>
+            {cue.endSeconds !== null && (
+              <div
+                className="absolute bottom-0 h-1 rounded-full bg-amber-300/60 pointer-events-none"
+                style={{ left: `${percent(cue.startSeconds)}%`, width: `${percent(cue.endSeconds) - percent(cue.startSeconds)}%` }}
+              />
+            )}
+            <button
+              type="button"
+              className="absolute top-0 -translate-x-1/2 w-2.5 h-2.5 rounded-full bg-amber-300 border border-amber-600 hover:scale-125 transition-transform"
+              style={{ left: `${percent(cue.startSeconds)}%` }}
+              title={label}
+              aria-label={`Jump to ${label}`}
+              onClick={() => onJump(cue)}
+              data-testid={`cue-marker-${cue.id}`}
+            />
+          </Fragment>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import * as React from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Bookmark, Check, Pencil, Play, Repeat, Trash2, X } from "lucide-react";
+import type { CuePoint, InsertCuePoint, UpdateCuePoint } from "@shared/schema";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { cuePointApiUrl, cuePointsApiUrl, cuePointsQueryKey, formatCueTime } from "@/lib/cue-points";
+import { useSite } from "@/lib/sites";
+import { useToast } from "@/hooks/use-toast";
+import { useCuePoints } from "@/hooks/use-cue-points";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+export interface CuePointManagerProps {
+  /** Track the cues belong to; empty while nothing is loaded. */
+  mediaUrl: string;
+  currentTime: number;
+  /** The page's loop range, offered as a new region; `loopEndSeconds` is 0 when the loop runs to the end. */
+  loopStartSeconds: number;
+  loopEndSeconds: number;
+  onJump: (cue: CuePoint) => void;
+}
+
+export function CuePointManager({ mediaUrl, currentTime, loopStartSeconds, loopEndSeconds, onJump }: CuePointManagerProps) {
+  const { toast } = useToast();
+  const site = useSite();
+  const [nameDraft, setNameDraft] = React.useState("");
+  const [editingId, setEditingId] = React.useState<number | null>(null);
+  const [editDraft, setEditDraft] = React.useState("");
+
+  const cues = useCuePoints(site, mediaUrl);
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: cuePointsQueryKey(site, mediaUrl) });
+
+  const createMutation = useMutation({
+    mutationFn: (data: InsertCuePoint) => apiRequest("POST", cuePointsApiUrl(site), data),
+    onSuccess: () => {
+      invalidate();
+      setNameDraft("");
+    },
+    onError: (err) => toast({ title: "Cue not saved", description: apiErrorMessage(err), variant: "destructive" }),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: number; data: UpdateCuePoint }) => apiRequest("PATCH", cuePointApiUrl(site, id), data),
+    onSuccess: () => {
+      invalidate();
+      setEditingId(null);
+    },
+    onError: (err) => toast({ title: "Update failed", description: apiErrorMessage(err), variant: "destructive" }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", cuePointApiUrl(site, id)),
+    onSuccess: invalidate,
+    onError: (err) => toast({ title: "Delete failed", description: apiErrorMessage(err), variant: "destructive" }),
+  });
+
+  const hasRegion = loopEndSeconds > loopStartSeconds;
+  const nextName = (kind: string) => nameDraft.trim() || `${kind} ${cues.length + 1}`;
+
+  const submitEdit = () => {
+    const name = editDraft.trim();
+    if (editingId !== null && name) updateMutation.mutate({ id: editingId, data: { name } });
+  };
+
+  return (
+    <div className="space-y-2" data-testid="cue-point-manager">
+      <Label className="text-xs font-medium flex items-center gap-1 text-muted-foreground">
+        <Bookmark className="w-3 h-3" />
+        Cue points
+      </Label>
+      <Input
+        value={nameDraft}
+        onChange={(e) => setNameDraft(e.target.value)}
+        placeholder="Name (optional)"
+        className="h-8"
+        disabled={!mediaUrl}
+        data-testid="input-cue-name"
+      />
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          className="flex-1"
+          disabled={!mediaUrl || createMutation.isPending}
+          onClick={() => createMutation.mutate({ mediaUrl, name: nextName("Cue"), startSeconds: currentTime, endSeconds: null })}
+          data-testid="button-cue-add-point"
+        >
+          <Bookmark className="w-4 h-4 mr-1" />
+          Cue at {formatCueTime(currentTime)}
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="flex-1"
+          disabled={!mediaUrl || !hasRegion || createMutation.isPending}
+          title={hasRegion ? undefined : "Set a loop end first"}
+          onClick={() => createMutation.mutate({ mediaUrl, name: nextName("Loop"), startSeconds: loopStartSeconds, endSeconds: loopEndSeconds })}
+          data-testid="button-cue-add-region"
+        >
+          <Repeat className="w-4 h-4 mr-1" />
+          Save loop
+        </Button>
+      </div>
+
+      {cues.length > 0 && (
+        <p className="text-[10px] text-muted-foreground">Keys 1–9 jump to a cue; [ and ] to the previous and next one.</p>
+      )}
+
+      <div>
+        {cues.map((cue, index) => (
+          <div key={cue.id} className="flex items-center gap-2 p-1.5 rounded-md group" data-testid={`cue-point-${cue.id}`}>
+            <span className="w-4 text-[10px] text-muted-foreground text-right shrink-0">{index < 9 ? index + 1 : ""}</span>
+            {editingId === cue.id ? (
+              <>
+                <Input
+                  autoFocus
+                  value={editDraft}
+                  onChange={(e) => setEditDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") submitEdit();
+                    if (e.key === "Escape") setEditingId(null);
+                  }}
+                  className="h-7 flex-1"
+                  data-testid={`input-cue-rename-${cue.id}`}
+                />
+                <Button size="icon" variant="ghost" className="w-7 h-7" aria-label="Save name" disabled={!editDraft.trim()} onClick={submitEdit}>
+                  <Check className="w-4 h-4" />
+                </Button>
+                <Button size="icon" variant="ghost" className="w-7 h-7" aria-label="Cancel" onClick={() => setEditingId(null)}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </>
+            ) : (
+              <>
+                <button
+                  type="button"
+                  className="flex-1 min-w-0 text-left"
+                  onClick={() => onJump(cue)}
+                  data-testid={`button-cue-jump-${cue.id}`}
+                >
+                  <p className="text-xs font-medium truncate">{cue.name}</p>
+                  <p className="text-[10px] text-muted-foreground">
+                    {cue.endSeconds === null ? formatCueTime(cue.startSeconds) : `${formatCueTime(cue.startSeconds)}–${formatCueTime(cue.endSeconds)} loop`}
+                  </p>
+                </button>
+                <Button size="icon" variant="ghost" className="w-7 h-7 shrink-0" aria-label={`Jump to ${cue.name}`} onClick={() => onJump(cue)}>
+                  {cue.endSeconds === null ? <Play className="w-3 h-3" /> : <Repeat className="w-3 h-3" />}
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="w-7 h-7 shrink-0 invisible group-hover:visible"
+                  aria-label="Rename cue"
+                  onClick={() => { setEditingId(cue.id); setEditDraft(cue.name); }}
+                  data-testid={`button-cue-rename-${cue.id}`}
+                >
+                  <Pencil className="w-3 h-3" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="w-7 h-7 shrink-0 invisible group-hover:visible"
+                  aria-label="Delete cue"
+                  onClick={() => deleteMutation.mutate(cue.id)}
+                  data-testid={`button-cue-delete-${cue.id}`}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+import * as React from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { FlaskConical, Play, Plus, Square, Trash2, Upload } from "lucide-react";
+import type { Experiment, ExperimentResults, ExperimentVariant, UpdateExperiment, VariantResult } from "@shared/schema";
+import { settingsOverrides, SIGNIFICANCE_LEVEL } from "@shared/experiments";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { siteApiUrl, useSite } from "@/lib/sites";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+type SettingsPayload = { settings: Record<string, unknown>; globalUrls: Record<string, unknown> };
+type VariantPayload = Pick<ExperimentVariant, "settings" | "globalUrls">;
+
+export interface ExperimentManagerProps {
+  route: string;
+  profile: string;
+  /** The saved layout variants are compared against; only fields that differ are stored. */
+  baseline?: { settings: unknown; globalUrls: unknown };
+  /** Returns the settings currently shown in the editor, as sent to the save endpoint. */
+  captureSettings: () => SettingsPayload;
+}
+
+const STATUS_VARIANTS = {
+  draft: "outline",
+  running: "default",
+  stopped: "secondary",
+} as const;
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+}
+
+function formatRate(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+function formatLift(lift: number | null): string {
+  if (lift === null) return "—";
+  return `${lift >= 0 ? "+" : ""}${(lift * 100).toFixed(1)}%`;
+}
+
+function SignificanceBadge({ pValue }: { pValue: number | null }) {
+  if (pValue === null) return <span className="text-muted-foreground">—</span>;
+  const significant = pValue < SIGNIFICANCE_LEVEL;
+  return (
+    <Badge variant={significant ? "default" : "outline"} title={`p = ${pValue.toFixed(4)}`}>
+      {significant ? "Significant" : `p ${pValue.toFixed(2)}`}
+    </Badge>
+  );
+}
+
+function ResultsTable({ results }: { results: VariantResult[] }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs" data-testid="table-experiment-results">
+        <thead className="text-muted-foreground">
+          <tr className="text-left">
+            <th className="py-1 pr-2 font-medium">Variant</th>
+            <th className="py-1 pr-2 font-medium text-right">Sessions</th>
+            <th className="py-1 pr-2 font-medium text-right">Clicks</th>
+            <th className="py-1 pr-2 font-medium text-right">Lift</th>
+            <th className="py-1 pr-2 font-medium text-right">Conv.</th>
+            <th className="py-1 font-medium text-right">Clicks vs control</th>
+          </tr>
+        </thead>
+        <tbody>
+          {results.map((r) => (
+            <tr key={r.key} className="border-t">
+              <td className="py-1 pr-2">{r.name}</td>
+              <td className="py-1 pr-2 text-right">{r.impressions}</td>
+              <td className="py-1 pr-2 text-right">{formatRate(r.clickRate)}</td>
+              <td className="py-1 pr-2 text-right">{formatLift(r.clickLift)}</td>
+              <td className="py-1 pr-2 text-right">{formatRate(r.conversionRate)}</td>
+              <td className="py-1 text-right"><SignificanceBadge pValue={r.clickPValue} /></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function ExperimentCard({ experiment, listKey, captureVariant }: {
+  experiment: Experiment;
+  listKey: string[];
+  captureVariant: () => VariantPayload;
+}) {
+  const { toast } = useToast();
+  const site = useSite();
+  const experimentUrl = siteApiUrl(site, `/experiments/${experiment.id}`);
+  const [showResults, setShowResults] = React.useState(false);
+
+  const { data: results } = useQuery<ExperimentResults>({
+    queryKey: [`${experimentUrl}/results`],
+    enabled: showResults,
+    staleTime: 0,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (data: UpdateExperiment) => apiRequest("PATCH", experimentUrl, data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: listKey }),
+    onError: (err) => toast({ title: "Experiment not saved", description: apiErrorMessage(err), variant: "destructive" }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", experimentUrl),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: listKey }),
+    onError: (err) => toast({ title: "Delete failed", description: apiErrorMessage(err), variant: "destructive" }),
+  });
+
+  const updateVariants = (variants: ExperimentVariant[]) => updateMutation.mutate({ variants });
+
+  const setWeight = (key: string, weight: number) => {
+    updateVariants(experiment.variants.map((v) => (v.key === key ? { ...v, weight } : v)));
+  };
+
+  const replaceWithCurrent = (key: string) => {
+    updateVariants(experiment.variants.map((v) => (v.key === key ? { ...v, ...captureVariant() } : v)));
+  };
+
+  const addCurrent = () => {
+    const taken = new Set(experiment.variants.map((v) => v.key));
+    const letter = "abcdefghijklmnopqrstuvwxyz".split("").find((l) => !taken.has(l)) ?? String(Date.now());
+    updateVariants([
+      ...experiment.variants,
+      { key: letter, name: `Variant ${letter.toUpperCase()}`, weight: 50, ...captureVariant() },
+    ]);
+  };
+
+  const removeVariant = (key: string) => updateVariants(experiment.variants.filter((v) => v.key !== key));
+
+  const running = experiment.status === "running";
+
+  return (
+    <div className="space-y-2 rounded-md border p-2" data-testid={`card-experiment-${experiment.id}`}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="text-sm font-medium truncate">{experiment.name}</span>
+          <Badge variant={STATUS_VARIANTS[experiment.status as keyof typeof STATUS_VARIANTS] ?? "outline"}>{experiment.status}</Badge>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            size="icon"
+            variant="ghost"
+            aria-label={running ? "Stop experiment" : "Start experiment"}
+            disabled={updateMutation.isPending}
+            onClick={() => updateMutation.mutate({ status: running ? "stopped" : "running" })}
+            data-testid={`button-experiment-toggle-${experiment.id}`}
+          >
+            {running ? <Square className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            aria-label="Delete experiment"
+            disabled={deleteMutation.isPending}
+            onClick={() => deleteMutation.mutate()}
+            data-testid={`button-experiment-delete-${experiment.id}`}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="divide-y">
+        {experiment.variants.map((variant, index) => (
+          <div key={variant.key} className="flex items-center gap-2 py-1" data-testid={`row-variant-${variant.key}`}>
+            <div className="flex-1 min-w-0">
+              <div className="text-xs font-medium truncate">{variant.name}</div>
+              <div className="text-xs text-muted-foreground">
+                {index === 0 ? "Control" : `${Object.keys(variant.settings).length + Object.keys(variant.globalUrls).length} overrides`}
+              </div>
+            </div>
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              key={variant.weight}
+              defaultValue={variant.weight}
+              onBlur={(e) => {
+                const weight = parseInt(e.target.value, 10);
+                if (!isNaN(weight) && weight !== variant.weight) setWeight(variant.key, weight);
+              }}
+              className="w-16 h-8"
+              aria-label={`Traffic weight for ${variant.name}`}
+              data-testid={`input-variant-weight-${variant.key}`}
+            />
+            {index > 0 && (
+              <>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  aria-label={`Use current settings for ${variant.name}`}
+                  title="Use current settings"
+                  onClick={() => replaceWithCurrent(variant.key)}
+                  data-testid={`button-variant-capture-${variant.key}`}
+                >
+                  <Upload className="w-4 h-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  aria-label={`Remove ${variant.name}`}
+                  disabled={experiment.variants.length <= 2}
+                  onClick={() => removeVariant(variant.key)}
+                  data-testid={`button-variant-remove-${variant.key}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button size="sm" variant="outline" onClick={addCurrent} disabled={experiment.variants.length >= 6} data-testid={`button-variant-add-${experiment.id}`}>
+          <Plus className="w-3 h-3 mr-1" />
+          Add current settings
+        </Button>
+        <Button size="sm" variant="ghost" onClick={() => setShowResults(!showResults)} data-testid={`button-experiment-results-${experiment.id}`}>
+          {showResults ? "Hide results" : "Results"}
+        </Button>
+      </div>
+
+      {showResults && results && <ResultsTable results={results.variants} />}
+    </div>
+  );
+}
+
+export function ExperimentManager({ route, profile, baseline, captureSettings }: ExperimentManagerProps) {
+  const { toast } = useToast();
+  const site = useSite();
+  const [name, setName] = React.useState("");
+
+  const listUrl = `${siteApiUrl(site, "/experiments")}?${new URLSearchParams({ route, profile }).toString()}`;
+  const listKey = [listUrl];
+  const { data: experiments = [] } = useQuery<Experiment[]>({ queryKey: listKey, staleTime: 0 });
+
+  // Variants only store what differs from the saved layout, so later edits to
+  // the profile still reach every variant.
+  const captureVariant = (): VariantPayload => {
+    const current = captureSettings();
+    return {
+      settings: settingsOverrides(asRecord(baseline?.settings), current.settings),
+      globalUrls: settingsOverrides(asRecord(baseline?.globalUrls), current.globalUrls) as Record<string, string>,
+    };
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (experimentName: string) =>
+      apiRequest("POST", siteApiUrl(site, "/experiments"), {
+        route,
+        profile,
+        name: experimentName,
+        variants: [
+          { key: "a", name: "Control", weight: 50, settings: {}, globalUrls: {} },
+          { key: "b", name: "Variant B", weight: 50, ...captureVariant() },
+        ],
+      }),
+    onSuccess: () => {
+      setName("");
+      queryClient.invalidateQueries({ queryKey: listKey });
+      toast({ title: "Experiment created", description: "Variant B uses the settings currently shown" });
+    },
+    onError: (err) => toast({ title: "Experiment not created", description: apiErrorMessage(err), variant: "destructive" }),
+  });
+
+  return (
+    <div className="space-y-3" data-testid="experiment-manager">
+      <p className="text-xs text-muted-foreground">
+        Visitors get a sticky variant by weight. The control shows the saved profile; other variants override it with the settings captured from this editor.
+      </p>
+      <div className="flex items-center gap-1">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Button color test"
+          data-testid="input-experiment-name"
+        />
+        <Button
+          size="sm"
+          disabled={!name.trim() || createMutation.isPending}
+          onClick={() => createMutation.mutate(name.trim())}
+          data-testid="button-experiment-create"
+        >
+          <FlaskConical className="w-4 h-4 mr-1" />
+          Create
+        </Button>
+      </div>
+      {experiments.length === 0 && <p className="text-xs text-muted-foreground">No experiments for this profile yet.</p>}
+      {experiments.map((experiment) => (
+        <ExperimentCard key={experiment.id} experiment={experiment} listKey={listKey} captureVariant={captureVariant} />
+      ))}
+    </div>
+  );
+}
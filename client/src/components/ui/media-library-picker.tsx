@@ -0,0 +1,248 @@
+import * as React from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { AlertCircle, Check, Clock, FileAudio, FileVideo, FolderOpen, ImageIcon, Loader2, Trash2, Upload } from "lucide-react";
+import { MEDIA_MIME_TYPES, type MediaAssetWithJobs, type MediaBandwidthSummary, type MediaJob, type MediaJobStatus, type MediaKind, type MediaOutput } from "@shared/schema";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { formatBytes, mediaApiUrl, mediaBandwidthQueryKey, mediaFileUrl, mediaHlsUrl, mediaJobRetryUrl, mediaOutputUrl, mediaPlaybackUrl, mediaQueryKey, uploadMedia } from "@/lib/media";
+import { useSite } from "@/lib/sites";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+
+const KIND_ICONS: Record<MediaKind, typeof FileAudio> = {
+  audio: FileAudio,
+  video: FileVideo,
+  image: ImageIcon,
+};
+
+const JOB_ICONS: Record<MediaJobStatus, typeof Clock> = {
+  queued: Clock,
+  running: Loader2,
+  done: Check,
+  failed: AlertCircle,
+};
+
+const JOB_POLL_MS = 3000;
+
+function outputLabel(output: MediaOutput, kind: MediaKind): string {
+  switch (output) {
+    case "web": return kind === "video" ? "MP4" : "AAC";
+    case "opus": return "Opus";
+    case "hls": return "HLS";
+    case "poster": return "Poster";
+  }
+}
+
+function isPending(job: MediaJob): boolean {
+  return job.status === "queued" || job.status === "running";
+}
+
+export interface MediaLibraryPickerProps {
+  /** Kinds listed and accepted for upload, e.g. audio and video for the audio player. */
+  kinds: MediaKind[];
+  onSelect: (url: string, asset: MediaAssetWithJobs) => void;
+  /** Library URL currently in use, highlighted in the list. */
+  value?: string;
+  /** Hand out the HLS playlist of a video instead of its file; videos are usable once their renditions are ready. */
+  hls?: boolean;
+  testId?: string;
+}
+
+function formatDuration(seconds: number | null): string | null {
+  if (seconds === null) return null;
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}
+
+function assetDetails(asset: MediaAssetWithJobs, served: MediaBandwidthSummary | undefined): string {
+  return [
+    formatDuration(asset.durationSeconds),
+    asset.width && asset.height ? `${asset.width}×${asset.height}` : null,
+    formatBytes(asset.sizeBytes),
+    served ? `${formatBytes(served.bytesServed)} served in 30 days` : null,
+  ].filter(Boolean).join(" · ");
+}
+
+function JobStatusRow({ asset, onRetry, retrying, testId }: { asset: MediaAssetWithJobs; onRetry: (job: MediaJob) => void; retrying: boolean; testId: string }) {
+  if (asset.jobs.length === 0) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-x-2 gap-y-0.5 text-[11px] text-muted-foreground">
+      {asset.jobs.map((job) => {
+        const Icon = JOB_ICONS[job.status as MediaJobStatus] ?? Clock;
+        const label = outputLabel(job.output as MediaOutput, asset.kind as MediaKind);
+        const icon = <Icon className={`w-3 h-3 ${job.status === "running" ? "animate-spin" : ""} ${job.status === "failed" ? "text-destructive" : ""}`} />;
+        if (job.status === "failed") {
+          return (
+            <button
+              key={job.id}
+              type="button"
+              className="flex items-center gap-0.5 hover:text-foreground disabled:opacity-50"
+              title={`${job.error ?? "Failed"}. Click to retry.`}
+              disabled={retrying}
+              onClick={() => onRetry(job)}
+              data-testid={`button-${testId}-retry-${job.id}`}
+            >
+              {icon}
+              {label} failed, retry
+            </button>
+          );
+        }
+        return (
+          <span key={job.id} className="flex items-center gap-0.5" title={job.status === "queued" && job.error ? `Retrying after: ${job.error}` : job.status}>
+            {icon}
+            {label}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
+
+export function MediaLibraryPicker({ kinds, onSelect, value, hls = false, testId = "media-library" }: MediaLibraryPickerProps) {
+  const { toast } = useToast();
+  const site = useSite();
+  const [open, setOpen] = React.useState(false);
+  const [uploadProgress, setUploadProgress] = React.useState<number | null>(null);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const listKey = mediaQueryKey(site);
+  const { data: assets = [], isLoading } = useQuery<MediaAssetWithJobs[]>({
+    queryKey: listKey,
+    enabled: open,
+    staleTime: 0,
+    // Keep job statuses moving while transcodes are queued or running.
+    refetchInterval: (query) => (query.state.data?.some((asset) => asset.jobs.some(isPending)) ? JOB_POLL_MS : false),
+  });
+  const visible = assets.filter((asset) => kinds.includes(asset.kind as MediaKind));
+  const { data: bandwidth = [] } = useQuery<MediaBandwidthSummary[]>({ queryKey: mediaBandwidthQueryKey(site), enabled: open });
+  const servedById = new Map(bandwidth.map((row) => [row.assetId, row]));
+
+  const uploadMutation = useMutation({
+    mutationFn: (file: File) => uploadMedia(site, file, setUploadProgress),
+    onSuccess: (asset) => {
+      queryClient.invalidateQueries({ queryKey: listKey });
+      toast({ title: "Uploaded", description: asset.originalName });
+    },
+    onError: (err) => toast({ title: "Upload failed", description: apiErrorMessage(err), variant: "destructive" }),
+    onSettled: () => setUploadProgress(null),
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: (job: MediaJob) => apiRequest("POST", mediaJobRetryUrl(site, job.assetId, job.id)),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: listKey }),
+    onError: (err) => toast({ title: "Retry failed", description: apiErrorMessage(err), variant: "destructive" }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", mediaApiUrl(site, id)),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: listKey }),
+    onError: (err) => toast({ title: "Delete failed", description: apiErrorMessage(err), variant: "destructive" }),
+  });
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) uploadMutation.mutate(file);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" data-testid={`button-${testId}`}>
+          <FolderOpen className="w-4 h-4 mr-1" />
+          Library
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Media library</DialogTitle>
+          <DialogDescription>Upload files to this site or pick one already uploaded.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={kinds.flatMap((kind) => MEDIA_MIME_TYPES[kind]).join(",")}
+            className="hidden"
+            onChange={handleFile}
+            data-testid={`input-${testId}-file`}
+          />
+          <Button
+            size="sm"
+            className="w-full"
+            disabled={uploadMutation.isPending}
+            onClick={() => fileInputRef.current?.click()}
+            data-testid={`button-${testId}-upload`}
+          >
+            {uploadMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+            Upload file
+          </Button>
+          {uploadProgress !== null && <Progress value={uploadProgress} className="h-2" />}
+        </div>
+
+        <div className="max-h-80 overflow-y-auto rounded-md border divide-y" data-testid={`list-${testId}`}>
+          {isLoading && <p className="p-3 text-xs text-muted-foreground">Loading...</p>}
+          {!isLoading && visible.length === 0 && (
+            <p className="p-3 text-xs text-muted-foreground">Nothing uploaded yet</p>
+          )}
+          {visible.map((asset) => {
+            const Icon = KIND_ICONS[asset.kind as MediaKind] ?? FileAudio;
+            // Images are never transcoded, so they keep the long-cached upload URL.
+            const url = hls ? mediaHlsUrl(site, asset.id) : asset.kind === "image" ? mediaFileUrl(site, asset.id) : mediaPlaybackUrl(site, asset.id);
+            const poster = asset.jobs.find((job) => job.output === "poster" && job.status === "done");
+            const thumbnail = asset.kind === "image" ? url : poster ? mediaOutputUrl(site, asset.id, "poster") : null;
+            const usable = !hls || asset.jobs.some((job) => job.output === "hls" && job.status === "done");
+            return (
+              <div
+                key={asset.id}
+                className={`flex items-center gap-2 p-2 group ${url === value ? "bg-primary/10" : ""}`}
+                data-testid={`${testId}-item-${asset.id}`}
+              >
+                {thumbnail ? (
+                  <img src={thumbnail} alt="" className="w-10 h-10 rounded object-cover shrink-0" loading="lazy" />
+                ) : (
+                  <Icon className="w-5 h-5 mx-2.5 shrink-0 text-muted-foreground" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate" title={asset.originalName}>
+                    {asset.metadata.tags?.title || asset.originalName}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {[asset.metadata.tags?.artist, assetDetails(asset, servedById.get(asset.id))].filter(Boolean).join(" · ")}
+                  </p>
+                  <JobStatusRow asset={asset} onRetry={(job) => retryMutation.mutate(job)} retrying={retryMutation.isPending} testId={testId} />
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={!usable}
+                  title={usable ? undefined : "HLS renditions are not ready yet"}
+                  onClick={() => {
+                    onSelect(url, asset);
+                    setOpen(false);
+                  }}
+                  data-testid={`button-${testId}-select-${asset.id}`}
+                >
+                  Use
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="invisible group-hover:visible"
+                  aria-label={`Delete ${asset.originalName}`}
+                  disabled={deleteMutation.isPending}
+                  onClick={() => deleteMutation.mutate(asset.id)}
+                  data-testid={`button-${testId}-delete-${asset.id}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
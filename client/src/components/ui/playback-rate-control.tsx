@@ -0,0 +1,49 @@
+import { Gauge } from "lucide-react";
+import { MAX_PLAYBACK_RATE, MIN_PLAYBACK_RATE } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { cn } from "@/lib/utils";
+
+export interface PlaybackRateControlProps {
+  value: number;
+  onChange: (rate: number) => void;
+  /** "overlay" is the white-on-dark style of the hidden-container controls. */
+  variant?: "default" | "overlay";
+  testId?: string;
+}
+
+function formatPlaybackRate(rate: number): string {
+  return `${Number(rate.toFixed(2))}x`;
+}
+
+/** Speed slider from 0.25x to 2x in 0.05 steps, with a button back to normal speed. */
+export function PlaybackRateControl({ value, onChange, variant = "default", testId = "playback-rate" }: PlaybackRateControlProps) {
+  const overlay = variant === "overlay";
+  return (
+    <div className="flex items-center gap-2 w-full" data-testid={testId}>
+      <Gauge className={cn("w-4 h-4 shrink-0", overlay ? "text-white/60" : "text-muted-foreground")} aria-hidden />
+      <Slider
+        variant={overlay ? "volume" : "default"}
+        value={[value]}
+        onValueChange={(v) => onChange(v[0])}
+        min={MIN_PLAYBACK_RATE}
+        max={MAX_PLAYBACK_RATE}
+        step={0.05}
+        className="flex-1"
+        aria-label="Playback speed"
+        data-testid={`slider-${testId}`}
+      />
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={() => onChange(1)}
+        disabled={value === 1}
+        className={cn("w-14 shrink-0 text-xs tabular-nums", overlay && "text-white/80 border border-white/20 disabled:opacity-70")}
+        title="Back to normal speed"
+        data-testid={`button-${testId}-reset`}
+      >
+        {formatPlaybackRate(value)}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,351 @@
+import * as React from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ArrowRightLeft, GripVertical, ListMusic, Pencil, Plus, Trash2, X } from "lucide-react";
+import type { PlaylistItem, PlaylistSummary } from "@shared/schema";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { playlistApiUrl, playlistItemsQueryKey, playlistsQueryKey } from "@/lib/playlists";
+import { useSite } from "@/lib/sites";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+type NameMode = "new" | "rename";
+
+export interface PlaylistManagerProps {
+  /** The list shown; null until the lists have loaded and one is picked. */
+  playlistId: number | null;
+  onPlaylistChange: (playlistId: number) => void;
+  /** Video currently loaded in the player, highlighted in the list. */
+  activeVideoId: string;
+  onPlay: (item: PlaylistItem) => void;
+  /** Hides every action that changes playlists, for visitors who are not editors. */
+  readOnly?: boolean;
+}
+
+function moveItem<T>(list: T[], from: number, to: number): T[] {
+  const next = list.slice();
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+export function PlaylistManager({ playlistId, onPlaylistChange, activeVideoId, onPlay, readOnly }: PlaylistManagerProps) {
+  const { toast } = useToast();
+  const site = useSite();
+  const [nameMode, setNameMode] = React.useState<NameMode | null>(null);
+  const [nameDraft, setNameDraft] = React.useState("");
+  const [selected, setSelected] = React.useState<Set<number>>(new Set());
+  const [dragId, setDragId] = React.useState<number | null>(null);
+  const [dropIndex, setDropIndex] = React.useState<number | null>(null);
+
+  const listsKey = playlistsQueryKey(site);
+  const { data: playlists = [] } = useQuery<PlaylistSummary[]>({ queryKey: listsKey, staleTime: 0 });
+  const current = playlists.find((p) => p.id === playlistId);
+  const itemsKey = playlistItemsQueryKey(site, playlistId ?? 0);
+  const { data: items = [], isLoading } = useQuery<PlaylistItem[]>({
+    queryKey: itemsKey,
+    enabled: current !== undefined,
+    staleTime: 0,
+  });
+
+  // Fall back to the default (oldest) list when the remembered one is gone.
+  React.useEffect(() => {
+    if (playlists.length > 0 && !current) onPlaylistChange(playlists[0].id);
+  }, [playlists, current, onPlaylistChange]);
+
+  React.useEffect(() => {
+    setSelected(new Set());
+  }, [playlistId]);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: listsKey });
+
+  const createMutation = useMutation({
+    mutationFn: async (name: string) => (await apiRequest("POST", listsKey[0], { name })).json() as Promise<PlaylistSummary>,
+    onSuccess: (created) => {
+      invalidate();
+      onPlaylistChange(created.id);
+      setNameMode(null);
+      toast({ title: "Playlist created", description: created.name });
+    },
+    onError: (err) => toast({ title: "Playlist not created", description: apiErrorMessage(err), variant: "destructive" }),
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: (name: string) => apiRequest("PATCH", playlistApiUrl(site, playlistId!), { name }),
+    onSuccess: () => {
+      invalidate();
+      setNameMode(null);
+    },
+    onError: (err) => toast({ title: "Rename failed", description: apiErrorMessage(err), variant: "destructive" }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", playlistApiUrl(site, playlistId!)),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Playlist deleted" });
+    },
+    onError: (err) => toast({ title: "Delete failed", description: apiErrorMessage(err), variant: "destructive" }),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (ids: number[]) => apiRequest("DELETE", `${playlistApiUrl(site, playlistId!)}/items`, { ids }),
+    onSuccess: (_res, ids) => {
+      invalidate();
+      setSelected(new Set());
+      toast({ title: ids.length === 1 ? "Removed from playlist" : `Removed ${ids.length} videos` });
+    },
+    onError: (err) => toast({ title: "Failed to remove", description: apiErrorMessage(err), variant: "destructive" }),
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: ({ ids, targetPlaylistId }: { ids: number[]; targetPlaylistId: number }) =>
+      apiRequest("POST", `${playlistApiUrl(site, playlistId!)}/items/move`, { ids, targetPlaylistId }),
+    onSuccess: (_res, { ids, targetPlaylistId }) => {
+      invalidate();
+      setSelected(new Set());
+      const target = playlists.find((p) => p.id === targetPlaylistId);
+      toast({ title: `Moved ${ids.length} ${ids.length === 1 ? "video" : "videos"}`, description: target ? `to ${target.name}` : undefined });
+    },
+    onError: (err) => toast({ title: "Move failed", description: apiErrorMessage(err), variant: "destructive" }),
+  });
+
+  // Reorders optimistically so the dropped row stays put while the server catches up.
+  const reorderMutation = useMutation({
+    mutationFn: (ordered: PlaylistItem[]) =>
+      apiRequest("PUT", `${playlistApiUrl(site, playlistId!)}/order`, { ids: ordered.map((item) => item.id) }),
+    onMutate: (ordered) => {
+      const previous = queryClient.getQueryData<PlaylistItem[]>(itemsKey);
+      queryClient.setQueryData(itemsKey, ordered);
+      return { previous };
+    },
+    onError: (err, _ordered, context) => {
+      if (context?.previous) queryClient.setQueryData(itemsKey, context.previous);
+      toast({ title: "Reorder failed", description: apiErrorMessage(err), variant: "destructive" });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: itemsKey }),
+  });
+
+  const openNameInput = (mode: NameMode) => {
+    setNameMode(mode);
+    setNameDraft(mode === "rename" && current ? current.name : "");
+  };
+
+  const submitName = () => {
+    const name = nameDraft.trim();
+    if (!name) return;
+    if (nameMode === "new") createMutation.mutate(name);
+    else if (nameMode === "rename") renameMutation.mutate(name);
+  };
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const handleDrop = () => {
+    const from = items.findIndex((item) => item.id === dragId);
+    if (from !== -1 && dropIndex !== null) {
+      const to = dropIndex > from ? dropIndex - 1 : dropIndex;
+      if (to !== from) reorderMutation.mutate(moveItem(items, from, to));
+    }
+    setDragId(null);
+    setDropIndex(null);
+  };
+
+  const selectedIds = items.filter((item) => selected.has(item.id)).map((item) => item.id);
+  const otherPlaylists = playlists.filter((p) => p.id !== playlistId);
+  const isDefault = playlists[0]?.id === playlistId;
+
+  return (
+    <div className="space-y-2" data-testid="playlist-section">
+      <div className="flex items-center gap-1">
+        <Label className="text-xs font-medium flex items-center gap-1 text-muted-foreground shrink-0">
+          <ListMusic className="w-3 h-3" />
+          Playlist
+        </Label>
+        <Select
+          value={playlistId !== null ? String(playlistId) : undefined}
+          onValueChange={(value) => onPlaylistChange(Number(value))}
+        >
+          <SelectTrigger className="h-8 flex-1 min-w-0" data-testid="select-playlist">
+            <SelectValue placeholder="Loading..." />
+          </SelectTrigger>
+          <SelectContent>
+            {playlists.map((p) => (
+              <SelectItem key={p.id} value={String(p.id)}>
+                {p.name} ({p.itemCount})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {!readOnly && (
+          <>
+            <Button size="icon" variant="ghost" aria-label="New playlist" onClick={() => openNameInput("new")} data-testid="button-playlist-new">
+              <Plus className="w-4 h-4" />
+            </Button>
+            <Button size="icon" variant="ghost" aria-label="Rename playlist" disabled={!current} onClick={() => openNameInput("rename")} data-testid="button-playlist-rename">
+              <Pencil className="w-4 h-4" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              aria-label="Delete playlist"
+              title={isDefault ? "The default playlist cannot be deleted" : undefined}
+              disabled={!current || isDefault || deleteMutation.isPending}
+              onClick={() => deleteMutation.mutate()}
+              data-testid="button-playlist-delete"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </>
+        )}
+      </div>
+
+      {nameMode && (
+        <div className="flex items-center gap-1">
+          <Input
+            autoFocus
+            value={nameDraft}
+            onChange={(e) => setNameDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") submitName();
+              if (e.key === "Escape") setNameMode(null);
+            }}
+            placeholder={nameMode === "new" ? "New playlist name" : "Playlist name"}
+            className="h-8"
+            data-testid="input-playlist-name"
+          />
+          <Button size="sm" onClick={submitName} disabled={!nameDraft.trim()} data-testid="button-playlist-name-submit">
+            {nameMode === "new" ? "Create" : "Rename"}
+          </Button>
+          <Button size="icon" variant="ghost" aria-label="Cancel" onClick={() => setNameMode(null)}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+
+      {!readOnly && selectedIds.length > 0 && (
+        <div className="flex items-center gap-1 rounded-md bg-muted/50 p-1" data-testid="playlist-selection-bar">
+          <span className="text-xs px-1 flex-1">{selectedIds.length} selected</span>
+          {otherPlaylists.length > 0 && (
+            <Select
+              value=""
+              onValueChange={(value) => moveMutation.mutate({ ids: selectedIds, targetPlaylistId: Number(value) })}
+            >
+              <SelectTrigger className="h-8 w-36" data-testid="select-playlist-move">
+                <ArrowRightLeft className="w-3 h-3 mr-1" />
+                <SelectValue placeholder="Move to..." />
+              </SelectTrigger>
+              <SelectContent>
+                {otherPlaylists.map((p) => (
+                  <SelectItem key={p.id} value={String(p.id)}>{p.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button
+            size="sm"
+            variant="ghost"
+            disabled={removeMutation.isPending}
+            onClick={() => removeMutation.mutate(selectedIds)}
+            data-testid="button-playlist-remove-selected"
+          >
+            <Trash2 className="w-4 h-4 mr-1" />
+            Remove
+          </Button>
+          <Button size="icon" variant="ghost" aria-label="Clear selection" onClick={() => setSelected(new Set())}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+
+      {current && !isLoading && items.length === 0 && (
+        <p className="text-xs text-muted-foreground py-2">This playlist is empty. Save videos from the search results.</p>
+      )}
+
+      <div
+        onDragOver={(e) => {
+          if (dragId === null) return;
+          e.preventDefault();
+          if (e.target === e.currentTarget) setDropIndex(items.length);
+        }}
+        onDrop={(e) => { e.preventDefault(); handleDrop(); }}
+      >
+        {items.map((item, index) => (
+          <div
+            key={item.id}
+            draggable={!readOnly}
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = "move";
+              e.dataTransfer.setData("text/plain", String(item.id));
+              setDragId(item.id);
+            }}
+            onDragOver={(e) => {
+              if (dragId === null) return;
+              e.preventDefault();
+              const rect = e.currentTarget.getBoundingClientRect();
+              setDropIndex(e.clientY < rect.top + rect.height / 2 ? index : index + 1);
+            }}
+            onDragEnd={() => { setDragId(null); setDropIndex(null); }}
+            className={[
+              "flex items-center gap-2 p-2 rounded-md cursor-pointer hover-elevate group border-y-2 border-transparent",
+              item.videoId === activeVideoId ? "bg-primary/10 ring-1 ring-primary/30" : "",
+              item.id === dragId ? "opacity-50" : "",
+              dragId !== null && dropIndex === index ? "border-t-primary" : "",
+              dragId !== null && dropIndex === items.length && index === items.length - 1 ? "border-b-primary" : "",
+            ].join(" ")}
+            onClick={() => onPlay(item)}
+            data-testid={`playlist-item-${item.id}`}
+          >
+            {!readOnly && (
+              <>
+                <GripVertical className="w-4 h-4 shrink-0 text-muted-foreground cursor-grab" aria-hidden />
+                <Checkbox
+                  checked={selected.has(item.id)}
+                  onCheckedChange={(checked) => toggleSelected(item.id, checked === true)}
+                  onClick={(e) => e.stopPropagation()}
+                  aria-label={`Select ${item.title}`}
+                  data-testid={`checkbox-playlist-item-${item.id}`}
+                />
+              </>
+            )}
+            <div className="relative shrink-0 w-24 aspect-video rounded-md overflow-hidden bg-muted">
+              {item.thumbnail && (
+                <img src={item.thumbnail} alt={item.title} className="w-full h-full object-cover" loading="lazy" draggable={false} />
+              )}
+              {item.duration && (
+                <span className="absolute bottom-1 right-1 bg-black/80 text-white text-[10px] px-1 py-0.5 rounded">
+                  {item.duration}
+                </span>
+              )}
+            </div>
+            <div className="flex-1 min-w-0 space-y-0.5">
+              <p className="text-sm font-medium leading-tight line-clamp-2" data-testid={`playlist-item-title-${item.id}`}>{item.title}</p>
+              {item.channel && <p className="text-xs text-muted-foreground">{item.channel}</p>}
+            </div>
+            {!readOnly && (
+              <Button
+                size="icon"
+                variant="ghost"
+                className="shrink-0 invisible group-hover:visible self-center"
+                onClick={(e) => { e.stopPropagation(); removeMutation.mutate([item.id]); }}
+                aria-label="Remove from playlist"
+                data-testid={`playlist-remove-${item.id}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
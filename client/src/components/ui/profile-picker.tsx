@@ -0,0 +1,221 @@
+import * as React from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Copy, History, Pencil, Plus, RotateCcw } from "lucide-react";
+import { DEFAULT_PROFILE, profileNameSchema, type RouteProfileSummary, type RouteSettingsVersion } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { profileApiUrl, profilesQueryKey } from "@/lib/profiles";
+import { useSite } from "@/lib/sites";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+type NameMode = "new" | "rename" | "duplicate";
+
+const NAME_MODE_LABELS: Record<NameMode, string> = {
+  new: "Create",
+  rename: "Rename",
+  duplicate: "Duplicate",
+};
+
+export interface ProfilePickerProps {
+  /** Route the profiles belong to, e.g. "view" or "play". */
+  route: string;
+  profile: string;
+  /** Hides the actions that change saved profiles, for visitors who are not signed in. */
+  readOnly?: boolean;
+  onProfileChange: (profile: string) => void;
+  /** Called after a version has been restored so the page can reload it. */
+  onRestored: () => void;
+}
+
+export function ProfilePicker({ route, profile, readOnly, onProfileChange, onRestored }: ProfilePickerProps) {
+  const { toast } = useToast();
+  const [nameMode, setNameMode] = React.useState<NameMode | null>(null);
+  const [nameDraft, setNameDraft] = React.useState("");
+  const [historyOpen, setHistoryOpen] = React.useState(false);
+
+  const site = useSite();
+  const profilesKey = profilesQueryKey(site, route);
+  const profileUrl = profileApiUrl(site, route, profile);
+  const versionsKey = [...profilesKey, profile, "versions"];
+
+  const { data: profiles = [] } = useQuery<RouteProfileSummary[]>({
+    queryKey: profilesKey,
+    staleTime: 0,
+  });
+
+  const { data: versions = [] } = useQuery<RouteSettingsVersion[]>({
+    queryKey: versionsKey,
+    enabled: historyOpen,
+    staleTime: 0,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: profilesKey });
+
+  const renameMutation = useMutation({
+    mutationFn: (name: string) =>
+      apiRequest("POST", `${profileUrl}/rename`, { name }),
+    onSuccess: (_res, name) => {
+      invalidate();
+      onProfileChange(name);
+      toast({ title: "Profile renamed", description: `${profile} is now ${name}` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Rename failed", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const duplicateMutation = useMutation({
+    mutationFn: (name: string) =>
+      apiRequest("POST", `${profileUrl}/duplicate`, { name }),
+    onSuccess: (_res, name) => {
+      invalidate();
+      onProfileChange(name);
+      toast({ title: "Profile duplicated", description: `Copied ${profile} to ${name}` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Duplicate failed", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: (versionId: number) =>
+      apiRequest("POST", `${profileUrl}/rollback`, { versionId }),
+    onSuccess: () => {
+      invalidate();
+      onRestored();
+      toast({ title: "Version restored" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Restore failed", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const saved = profiles.some((p) => p.name === profile);
+  const names = Array.from(new Set([DEFAULT_PROFILE, ...profiles.map((p) => p.name), profile]));
+
+  const startNameMode = (mode: NameMode) => {
+    setNameMode(mode);
+    setNameDraft(mode === "rename" ? profile : "");
+  };
+
+  const submitName = () => {
+    if (!nameMode) return;
+    const parsed = profileNameSchema.safeParse(nameDraft);
+    if (!parsed.success) {
+      toast({ title: "Invalid profile name", description: parsed.error.issues[0]?.message, variant: "destructive" });
+      return;
+    }
+    const name = parsed.data;
+    if (nameMode === "new") {
+      onProfileChange(name);
+    } else if (nameMode === "rename") {
+      if (name !== profile) renameMutation.mutate(name);
+    } else {
+      duplicateMutation.mutate(name);
+    }
+    setNameMode(null);
+  };
+
+  return (
+    <div className="space-y-2" data-testid="profile-picker">
+      <Label className="text-sm font-medium">Profile</Label>
+      <div className="flex items-center gap-1">
+        <Select value={profile} onValueChange={onProfileChange}>
+          <SelectTrigger className="flex-1" data-testid="select-profile">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {names.map((name) => (
+              <SelectItem key={name} value={name} data-testid={`option-profile-${name}`}>
+                {name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {!readOnly && (
+          <>
+            <Button size="icon" variant="ghost" aria-label="New profile" onClick={() => startNameMode("new")} data-testid="button-profile-new">
+              <Plus className="w-4 h-4" />
+            </Button>
+            <Button size="icon" variant="ghost" aria-label="Rename profile" disabled={!saved || profile === DEFAULT_PROFILE} onClick={() => startNameMode("rename")} data-testid="button-profile-rename">
+              <Pencil className="w-4 h-4" />
+            </Button>
+            <Button size="icon" variant="ghost" aria-label="Duplicate profile" disabled={!saved} onClick={() => startNameMode("duplicate")} data-testid="button-profile-duplicate">
+              <Copy className="w-4 h-4" />
+            </Button>
+            <Button
+              size="icon"
+              variant={historyOpen ? "secondary" : "ghost"}
+              aria-label="Version history"
+              disabled={!saved}
+              onClick={() => setHistoryOpen(!historyOpen)}
+              data-testid="button-profile-history"
+            >
+              <History className="w-4 h-4" />
+            </Button>
+          </>
+        )}
+      </div>
+
+      {nameMode && (
+        <div className="flex items-center gap-1">
+          <Input
+            autoFocus
+            value={nameDraft}
+            onChange={(e) => setNameDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") submitName();
+              if (e.key === "Escape") setNameMode(null);
+            }}
+            placeholder="spring-promo"
+            data-testid="input-profile-name"
+          />
+          <Button size="sm" onClick={submitName} data-testid="button-profile-name-submit">
+            {NAME_MODE_LABELS[nameMode]}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setNameMode(null)}>
+            Cancel
+          </Button>
+        </div>
+      )}
+
+      {!saved && !readOnly && (
+        <p className="text-xs text-muted-foreground">Not saved yet. Save Settings to create this profile.</p>
+      )}
+
+      {historyOpen && saved && (
+        <div className="max-h-48 overflow-y-auto rounded-md border divide-y" data-testid="list-profile-versions">
+          {versions.length === 0 && (
+            <p className="p-2 text-xs text-muted-foreground">No versions yet</p>
+          )}
+          {versions.map((v) => (
+            <div key={v.id} className="flex items-center justify-between gap-2 p-2" data-testid={`row-profile-version-${v.id}`}>
+              <div className="min-w-0">
+                <div className="text-xs font-medium">
+                  v{v.version} · {v.width}px
+                </div>
+                <div className="text-xs text-muted-foreground truncate">
+                  {new Date(v.createdAt).toLocaleString()}
+                  {v.note ? ` · ${v.note}` : ""}
+                </div>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={rollbackMutation.isPending}
+                onClick={() => rollbackMutation.mutate(v.id)}
+                data-testid={`button-restore-version-${v.id}`}
+              >
+                <RotateCcw className="w-3 h-3 mr-1" />
+                Restore
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import * as React from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format, isSameDay } from "date-fns";
+import { CalendarClock, Trash2 } from "lucide-react";
+import type { InsertSettingsSchedule, RouteSchedules } from "@shared/schema";
+import { SCHEDULE_RECURRENCES, type ScheduleRecurrence } from "@shared/schedule";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { siteApiUrl, useSite } from "@/lib/sites";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const RECURRENCE_LABELS: Record<ScheduleRecurrence, string> = {
+  none: "Once",
+  daily: "Every day",
+  weekly: "Every week",
+};
+
+export interface ScheduleManagerProps {
+  route: string;
+  /** Profile new schedules will activate. */
+  profile: string;
+}
+
+function browserTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+function timezoneOptions(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: "timeZone") => string[] };
+  return intl.supportedValuesOf?.("timeZone") ?? [browserTimezone(), "UTC"];
+}
+
+export function ScheduleManager({ route, profile }: ScheduleManagerProps) {
+  const { toast } = useToast();
+  const site = useSite();
+  const schedulesUrl = siteApiUrl(site, `/route-settings/${route}/schedules`);
+  const [selectedDay, setSelectedDay] = React.useState<Date | undefined>(new Date());
+  const [startsAt, setStartsAt] = React.useState("");
+  const [endsAt, setEndsAt] = React.useState("");
+  const [timezone, setTimezone] = React.useState(browserTimezone);
+  const [recurrence, setRecurrence] = React.useState<ScheduleRecurrence>("none");
+  const [until, setUntil] = React.useState("");
+  const timezones = React.useMemo(timezoneOptions, []);
+
+  const { data } = useQuery<RouteSchedules>({ queryKey: [schedulesUrl], staleTime: 0 });
+  const schedules = data?.schedules ?? [];
+  const upcoming = React.useMemo(
+    () => (data?.upcoming ?? []).map((s) => ({ ...s, at: new Date(s.at) })),
+    [data],
+  );
+  const switchDays = upcoming.map((s) => s.at);
+  const daySwitches = selectedDay ? upcoming.filter((s) => isSameDay(s.at, selectedDay)) : [];
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: [schedulesUrl] });
+
+  const createMutation = useMutation({
+    mutationFn: (schedule: InsertSettingsSchedule) => apiRequest("POST", schedulesUrl, schedule),
+    onSuccess: () => {
+      invalidate();
+      setStartsAt("");
+      setEndsAt("");
+      setUntil("");
+      toast({ title: "Schedule added", description: `${profile} will switch on automatically` });
+    },
+    onError: (err) => toast({ title: "Schedule not added", description: apiErrorMessage(err), variant: "destructive" }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `${schedulesUrl}/${id}`),
+    onSuccess: invalidate,
+    onError: (err) => toast({ title: "Delete failed", description: apiErrorMessage(err), variant: "destructive" }),
+  });
+
+  const handleAdd = () => {
+    createMutation.mutate({
+      profile,
+      startsAt,
+      endsAt,
+      timezone,
+      recurrence,
+      until: recurrence !== "none" && until ? until : null,
+    });
+  };
+
+  return (
+    <div className="space-y-3" data-testid="schedule-manager">
+      <Calendar
+        mode="single"
+        selected={selectedDay}
+        onSelect={setSelectedDay}
+        modifiers={{ scheduled: switchDays }}
+        modifiersClassNames={{ scheduled: "font-bold underline decoration-primary decoration-2 underline-offset-4" }}
+        className="rounded-md border"
+      />
+
+      <div className="space-y-1" data-testid="list-schedule-day-switches">
+        {selectedDay && daySwitches.length === 0 && (
+          <p className="text-xs text-muted-foreground">No switches on {format(selectedDay, "PP")}</p>
+        )}
+        {daySwitches.map((s) => (
+          <div key={`${s.scheduleId}-${s.kind}-${s.at.getTime()}`} className="text-xs">
+            <span className="font-medium">{format(s.at, "p")}</span>{" "}
+            {s.kind === "start" ? `switches to ${s.profile}` : `${s.profile} ends`}
+          </div>
+        ))}
+      </div>
+
+      <div className="rounded-md border divide-y">
+        {schedules.length === 0 && <p className="p-2 text-xs text-muted-foreground">No schedules yet</p>}
+        {schedules.map((s) => (
+          <div key={s.id} className="flex items-center justify-between gap-2 p-2" data-testid={`row-schedule-${s.id}`}>
+            <div className="min-w-0">
+              <div className="flex items-center gap-1 text-xs font-medium">
+                {s.profile}
+                {data?.activeScheduleId === s.id && <Badge variant="secondary">Active</Badge>}
+              </div>
+              <div className="text-xs text-muted-foreground truncate">
+                {s.startsAt.replace("T", " ")} → {s.endsAt.replace("T", " ")} · {s.timezone}
+              </div>
+              {s.recurrence !== "none" && (
+                <div className="text-xs text-muted-foreground">
+                  {RECURRENCE_LABELS[s.recurrence as ScheduleRecurrence] ?? s.recurrence}
+                  {s.until ? ` until ${s.until}` : ""}
+                </div>
+              )}
+            </div>
+            <Button
+              size="icon"
+              variant="ghost"
+              aria-label="Delete schedule"
+              disabled={deleteMutation.isPending}
+              onClick={() => deleteMutation.mutate(s.id)}
+              data-testid={`button-schedule-delete-${s.id}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-xs">Schedule {profile}</Label>
+        <div className="grid grid-cols-2 gap-2">
+          <Input type="datetime-local" value={startsAt} onChange={(e) => setStartsAt(e.target.value)} aria-label="Starts at" data-testid="input-schedule-start" />
+          <Input type="datetime-local" value={endsAt} onChange={(e) => setEndsAt(e.target.value)} aria-label="Ends at" data-testid="input-schedule-end" />
+        </div>
+        <Input
+          list="schedule-timezones"
+          value={timezone}
+          onChange={(e) => setTimezone(e.target.value)}
+          aria-label="Timezone"
+          data-testid="input-schedule-timezone"
+        />
+        <datalist id="schedule-timezones">
+          {timezones.map((tz) => <option key={tz} value={tz} />)}
+        </datalist>
+        <div className="grid grid-cols-2 gap-2">
+          <Select value={recurrence} onValueChange={(value) => setRecurrence(value as ScheduleRecurrence)}>
+            <SelectTrigger data-testid="select-schedule-recurrence">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SCHEDULE_RECURRENCES.map((r) => (
+                <SelectItem key={r} value={r}>{RECURRENCE_LABELS[r]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {recurrence !== "none" && (
+            <Input type="date" value={until} onChange={(e) => setUntil(e.target.value)} aria-label="Repeat until" data-testid="input-schedule-until" />
+          )}
+        </div>
+        <Button
+          size="sm"
+          className="w-full"
+          disabled={!startsAt || !endsAt || createMutation.isPending}
+          onClick={handleAdd}
+          data-testid="button-schedule-add"
+        >
+          <CalendarClock className="w-4 h-4 mr-2" />
+          Add schedule
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import * as React from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Trash2, UserPlus } from "lucide-react";
+import type { PublicUser } from "@shared/schema";
+import { hasRole } from "@shared/permissions";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { useSite } from "@/lib/sites";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+/**
+ * Lets admins choose which editors and viewers may work on the current site.
+ * Admins need no membership, so they are not offered.
+ */
+export function SiteMembersManager() {
+  const { toast } = useToast();
+  const site = useSite();
+  const membersUrl = `/api/sites/${encodeURIComponent(site)}/members`;
+  const [userId, setUserId] = React.useState("");
+
+  const { data: members = [] } = useQuery<PublicUser[]>({ queryKey: [membersUrl], staleTime: 0 });
+  const { data: users = [] } = useQuery<PublicUser[]>({ queryKey: ["/api/users"], staleTime: 0 });
+  const memberIds = new Set(members.map((member) => member.id));
+  const candidates = users.filter((user) => !memberIds.has(user.id) && !hasRole(user.role, "admin"));
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: [membersUrl] });
+
+  const addMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("PUT", `${membersUrl}/${encodeURIComponent(id)}`),
+    onSuccess: () => {
+      invalidate();
+      setUserId("");
+    },
+    onError: (err) => toast({ title: "Member not added", description: apiErrorMessage(err), variant: "destructive" }),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `${membersUrl}/${encodeURIComponent(id)}`),
+    onSuccess: invalidate,
+    onError: (err) => toast({ title: "Remove failed", description: apiErrorMessage(err), variant: "destructive" }),
+  });
+
+  return (
+    <div className="space-y-3" data-testid="site-members-manager">
+      <div className="rounded-md border divide-y">
+        {members.length === 0 && <p className="p-2 text-xs text-muted-foreground">Only admins can edit this site</p>}
+        {members.map((member) => (
+          <div key={member.id} className="flex items-center justify-between gap-2 p-2" data-testid={`row-member-${member.username}`}>
+            <div className="flex items-center gap-1 text-xs font-medium min-w-0">
+              <span className="truncate">{member.username}</span>
+              <Badge variant="secondary" className="capitalize">{member.role}</Badge>
+            </div>
+            <Button
+              size="icon"
+              variant="ghost"
+              aria-label={`Remove ${member.username}`}
+              disabled={removeMutation.isPending}
+              onClick={() => removeMutation.mutate(member.id)}
+              data-testid={`button-member-remove-${member.username}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-xs">Add a user to this site</Label>
+        <div className="flex gap-2">
+          <Select value={userId} onValueChange={setUserId} disabled={candidates.length === 0}>
+            <SelectTrigger className="flex-1" data-testid="select-member-user">
+              <SelectValue placeholder={candidates.length === 0 ? "Everyone is a member" : "Choose a user"} />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates.map((user) => (
+                <SelectItem key={user.id} value={user.id}>{user.username} ({user.role})</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" disabled={!userId || addMutation.isPending} onClick={() => addMutation.mutate(userId)} data-testid="button-member-add">
+            <UserPlus className="w-4 h-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import * as React from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Check, Copy, Download, Library, Loader2 } from "lucide-react";
+import { MIXDOWN_FORMATS, type MediaAssetWithJobs, type MixdownFormat, type StemMix, type StemMixdown, type StemName } from "@shared/schema";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { mediaPlaybackUrl, mediaQueryKey } from "@/lib/media";
+import { useSite } from "@/lib/sites";
+import { stemMixdownUrl } from "@/lib/stems";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+
+export interface StemMixdownPanelProps {
+  jobId: number;
+  /** Name of the separated track, the default name of the mix. */
+  sourceName: string;
+  mix: Partial<Record<StemName, StemMix>>;
+}
+
+/** The name from a Content-Disposition header, preferring the UTF-8 form. */
+function attachmentName(header: string | null): string | null {
+  if (!header) return null;
+  const encoded = /filename\*=UTF-8''([^;]+)/i.exec(header);
+  if (encoded) return decodeURIComponent(encoded[1]);
+  return /filename="([^"]+)"/i.exec(header)?.[1] ?? null;
+}
+
+function saveBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 10_000);
+}
+
+/** Renders the current stem mix on the server, as a download or into the media library for use as a /play audio URL. */
+export function StemMixdownPanel({ jobId, sourceName, mix }: StemMixdownPanelProps) {
+  const { toast } = useToast();
+  const site = useSite();
+  const [format, setFormat] = React.useState<MixdownFormat>("wav");
+  const [name, setName] = React.useState("");
+  const [saved, setSaved] = React.useState<MediaAssetWithJobs | null>(null);
+  const [copied, setCopied] = React.useState(false);
+
+  const defaultName = `${sourceName.replace(/\.[^.]+$/, "")} (mix)`;
+  const request = (saveToLibrary: boolean): StemMixdown => ({ format, mix, saveToLibrary, name: name.trim() || undefined });
+
+  const downloadMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", stemMixdownUrl(site, jobId), request(false));
+      saveBlob(await res.blob(), attachmentName(res.headers.get("Content-Disposition")) ?? `${name.trim() || defaultName}.${format}`);
+    },
+    onError: (err) => toast({ title: "Export failed", description: apiErrorMessage(err), variant: "destructive" }),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (): Promise<MediaAssetWithJobs> => {
+      const res = await apiRequest("POST", stemMixdownUrl(site, jobId), request(true));
+      return res.json();
+    },
+    onSuccess: (asset) => {
+      queryClient.invalidateQueries({ queryKey: mediaQueryKey(site) });
+      setSaved(asset);
+      setCopied(false);
+    },
+    onError: (err) => toast({ title: "Save failed", description: apiErrorMessage(err), variant: "destructive" }),
+  });
+
+  const busy = downloadMutation.isPending || saveMutation.isPending;
+  const playbackUrl = saved ? new URL(mediaPlaybackUrl(site, saved.id), window.location.origin).toString() : "";
+
+  return (
+    <div className="rounded-lg border border-white/10 bg-white/5 p-3 space-y-3" data-testid="stem-mixdown-panel">
+      <Label className="text-xs font-medium text-white/70">Export mix</Label>
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={defaultName}
+          className="h-8 flex-1 min-w-[10rem]"
+          aria-label="Mix name"
+          data-testid="input-stem-mixdown-name"
+        />
+        <ToggleGroup
+          type="single"
+          value={format}
+          onValueChange={(value) => value && setFormat(value as MixdownFormat)}
+          size="sm"
+          variant="outline"
+          data-testid="toggle-stem-mixdown-format"
+        >
+          {MIXDOWN_FORMATS.map((option) => (
+            <ToggleGroupItem key={option} value={option} className="h-8 px-3 text-xs uppercase">
+              {option}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+      <div className="flex gap-2">
+        <Button size="sm" variant="outline" className="flex-1" disabled={busy} onClick={() => downloadMutation.mutate()} data-testid="button-stem-mixdown-download">
+          {downloadMutation.isPending ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Download className="w-4 h-4 mr-1" />}
+          Download
+        </Button>
+        <Button size="sm" variant="outline" className="flex-1" disabled={busy} onClick={() => saveMutation.mutate()} data-testid="button-stem-mixdown-save">
+          {saveMutation.isPending ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Library className="w-4 h-4 mr-1" />}
+          Save to library
+        </Button>
+      </div>
+      {saved && (
+        <div className="space-y-1" data-testid="stem-mixdown-saved">
+          <p className="text-[10px] text-white/60">
+            Saved as {saved.originalName}. Pick it with the Library button on /play/config, or paste this as the audio URL:
+          </p>
+          <div className="flex gap-2">
+            <Input readOnly value={playbackUrl} className="h-8 text-xs" onFocus={(e) => e.target.select()} data-testid="input-stem-mixdown-url" />
+            <Button
+              size="icon"
+              variant="ghost"
+              className="w-8 h-8 shrink-0"
+              aria-label="Copy audio URL"
+              onClick={() => navigator.clipboard.writeText(playbackUrl).then(() => setCopied(true), () => {})}
+              data-testid="button-stem-mixdown-copy"
+            >
+              {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import * as React from "react";
+import { cn } from "@/lib/utils";
+
+export interface WaveformCanvasProps {
+  /** Levels from 0 to 1, spread evenly across the width. */
+  peaks: number[];
+  /** Share of the waveform already played, from 0 to 1; drawn brighter. */
+  progress: number;
+  className?: string;
+  playedColor?: string;
+  color?: string;
+  "data-testid"?: string;
+}
+
+/** Bars of a waveform drawn to a canvas sized to its box at the screen's pixel density. */
+export function WaveformCanvas({
+  peaks,
+  progress,
+  className,
+  playedColor = "rgba(255, 255, 255, 0.85)",
+  color = "rgba(255, 255, 255, 0.35)",
+  "data-testid": testId,
+}: WaveformCanvasProps) {
+  const canvasRef = React.useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = React.useState({ width: 0, height: 0 });
+
+  React.useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  React.useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || size.width === 0 || peaks.length === 0) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(size.width * ratio);
+    canvas.height = Math.round(size.height * ratio);
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, size.width, size.height);
+
+    // One bar per 3 CSS pixels, each taking the loudest peak it covers.
+    const bars = Math.max(1, Math.floor(size.width / 3));
+    const barWidth = size.width / bars;
+    const middle = size.height / 2;
+    const playedX = progress * size.width;
+    for (let bar = 0; bar < bars; bar++) {
+      const from = Math.floor((bar / bars) * peaks.length);
+      const to = Math.max(from + 1, Math.floor(((bar + 1) / bars) * peaks.length));
+      let level = 0;
+      for (let i = from; i < to && i < peaks.length; i++) level = Math.max(level, peaks[i]);
+      const height = Math.max(1, level * size.height);
+      const x = bar * barWidth;
+      ctx.fillStyle = x < playedX ? playedColor : color;
+      ctx.fillRect(x, middle - height / 2, Math.max(1, barWidth - 1), height);
+    }
+  }, [peaks, progress, size, playedColor, color]);
+
+  return <canvas ref={canvasRef} className={cn("block w-full h-full", className)} aria-hidden="true" data-testid={testId} />;
+}
@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useRef } from "react";
+import type { AnalyticsEventType, SettingsRoute } from "@shared/schema";
+import { onBeforeFlush, trackEvent } from "@/lib/analytics";
+import { siteApiUrl } from "@/lib/sites";
+import type { ExperimentAssignment } from "@/hooks/use-experiment";
+
+/**
+ * Records engagement events for a public player page and the seconds it spends
+ * playing. Pass `enabled: false` in config mode so editors don't skew the numbers.
+ * Events are tagged with the visitor's experiment variant, if any, and an
+ * `impression` is recorded once the variant is known.
+ */
+export function useAnalytics({ site, route, profile, playing, enabled, experiment }: {
+  site: string;
+  route: SettingsRoute;
+  profile: string;
+  playing: boolean;
+  enabled: boolean;
+  experiment?: ExperimentAssignment | null;
+}) {
+  const experimentId = experiment?.experimentId ?? null;
+  const variant = experiment?.variant.key ?? null;
+  const contextRef = useRef({ url: siteApiUrl(site, "/events"), route, profile, enabled, experimentId, variant });
+  useEffect(() => {
+    contextRef.current = { url: siteApiUrl(site, "/events"), route, profile, enabled, experimentId, variant };
+  }, [site, route, profile, enabled, experimentId, variant]);
+
+  const track = useCallback((type: AnalyticsEventType, value = 1) => {
+    const { url, route, profile, enabled, experimentId, variant } = contextRef.current;
+    if (!enabled) return;
+    trackEvent(url, { route, profile, type, value, experimentId, variant });
+  }, []);
+
+  useEffect(() => {
+    if (experimentId !== null && variant !== null) track("impression");
+  }, [experimentId, variant, track]);
+
+  const playingSinceRef = useRef<number | null>(null);
+
+  const closeWatchSpan = useCallback(() => {
+    const since = playingSinceRef.current;
+    if (since === null) return;
+    const seconds = Math.round((Date.now() - since) / 1000);
+    playingSinceRef.current = Date.now();
+    if (seconds > 0) track("watch_time", seconds);
+  }, [track]);
+
+  useEffect(() => {
+    if (!playing) return;
+    playingSinceRef.current = Date.now();
+    const unsubscribe = onBeforeFlush(closeWatchSpan);
+    return () => {
+      unsubscribe();
+      closeWatchSpan();
+      playingSinceRef.current = null;
+    };
+  }, [playing, closeWatchSpan]);
+
+  return track;
+}
@@ -0,0 +1,301 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { AudioQueueItem, AudioQueueWithItems } from "@shared/schema";
+import { audioQueueQueryKey } from "@/lib/audio-queues";
+import type { AudioEngine } from "@/lib/audio-engine";
+import { normalizationGain } from "@/lib/loudness";
+
+/** Gapless transitions are scheduled once the current track has this much left. */
+const GAPLESS_LOOKAHEAD_SECONDS = 0.5;
+/** Fade used when a track is skipped by hand, capped by the queue's crossfade. */
+const SKIP_FADE_SECONDS = 0.4;
+const TICK_MS = 100;
+/** Extra time the outgoing deck keeps playing after a fade, so the page has moved its listeners before it pauses. */
+const FADE_SETTLE_MS = 250;
+
+type Deck = 0 | 1;
+type DeckRef = (element: HTMLAudioElement | null) => void;
+
+export interface AudioQueuePlayback {
+  /** True while a queue with tracks drives the decks instead of the single audio URL. */
+  active: boolean;
+  queue: AudioQueueWithItems | undefined;
+  current: AudioQueueItem | undefined;
+  /** 1-based place of `current` in the queue. */
+  position: number;
+  /** URL loaded on the deck `audioRef` points at. */
+  url: string;
+  /** Flips on every track change so listeners can move to the new deck. */
+  activeDeck: Deck;
+  /** Ref callbacks for the two <audio> elements. */
+  deckRefs: [DeckRef, DeckRef];
+  next: () => void;
+  previous: () => void;
+  /** Call when the active deck ended; returns false once a queue that does not loop has finished. */
+  handleEnded: () => boolean;
+}
+
+interface AudioQueueOptions {
+  site: string;
+  queueId: number | null;
+  /** Played on the active deck when no queue is set. */
+  audioUrl: string;
+  engine: AudioEngine;
+  /** Kept pointing at the active deck, so the page's transport controls follow track changes. */
+  audioRef: React.MutableRefObject<HTMLAudioElement | null>;
+  isPlaying: boolean;
+}
+
+/** Points the element at `url` unless it already has it, so a preloaded deck keeps its buffer. */
+function load(element: HTMLAudioElement, url: string) {
+  if ((element.dataset.src ?? "") === url) return;
+  element.dataset.src = url;
+  if (url) {
+    element.src = url;
+  } else {
+    element.removeAttribute("src");
+    element.load();
+  }
+}
+
+/**
+ * Plays a saved audio queue on two decks: the next track is preloaded on the
+ * idle deck and started before the current one ends, crossfading in the
+ * shared audio graph or starting back to back when transitions are gapless.
+ */
+export function useAudioQueue({ site, queueId, audioUrl, engine, audioRef, isPlaying }: AudioQueueOptions): AudioQueuePlayback {
+  const { data: queue } = useQuery<AudioQueueWithItems>({
+    queryKey: audioQueueQueryKey(site, queueId ?? 0),
+    enabled: queueId !== null,
+  });
+  const active = queueId !== null && queue !== undefined && queue.items.length > 0;
+  const [activeDeck, setActiveDeck] = useState<Deck>(0);
+  const [currentId, setCurrentId] = useState<number | null>(null);
+
+  const decks = useRef<[HTMLAudioElement | null, HTMLAudioElement | null]>([null, null]);
+  const activeDeckRef = useRef<Deck>(0);
+  const currentIdRef = useRef<number | null>(null);
+  // The deck fading out and the timer that stops it once the fade is over.
+  const fade = useRef<{ outgoing: HTMLAudioElement | null; timer: number | null }>({ outgoing: null, timer: null });
+  const gaplessTimer = useRef<number | null>(null);
+  const latest = useRef({ queue, active, isPlaying });
+  latest.current = { queue, active, isPlaying };
+
+  const deckRefs = useMemo<[DeckRef, DeckRef]>(() => {
+    const bind = (deck: Deck): DeckRef => (element) => {
+      decks.current[deck] = element;
+      if (activeDeckRef.current === deck) audioRef.current = element;
+    };
+    return [bind(0), bind(1)];
+  }, [audioRef]);
+
+  const items = queue?.items ?? [];
+  const indexOfCurrent = useCallback(() => {
+    const list = latest.current.queue?.items ?? [];
+    return Math.max(0, list.findIndex((item) => item.id === currentIdRef.current));
+  }, []);
+
+  const following = useCallback((index: number): number => {
+    const q = latest.current.queue;
+    if (!q || q.items.length === 0) return -1;
+    if (index + 1 < q.items.length) return index + 1;
+    return q.loop ? 0 : -1;
+  }, []);
+
+  const gainFor = useCallback((item: AudioQueueItem) => {
+    return latest.current.queue?.normalize ? normalizationGain(item.loudnessDb) : 1;
+  }, []);
+
+  const selectTrack = useCallback((item: AudioQueueItem) => {
+    currentIdRef.current = item.id;
+    setCurrentId(item.id);
+  }, []);
+
+  /** Preloads the track after the current one on the idle deck. */
+  const armStandby = useCallback(() => {
+    const standby = decks.current[activeDeckRef.current === 0 ? 1 : 0];
+    if (!standby || standby === fade.current.outgoing) return;
+    const nextIndex = following(indexOfCurrent());
+    const item = nextIndex >= 0 ? latest.current.queue?.items[nextIndex] : undefined;
+    standby.pause();
+    standby.preload = "auto";
+    load(standby, item?.url ?? "");
+  }, [following, indexOfCurrent]);
+
+  const cancelGapless = useCallback(() => {
+    if (gaplessTimer.current !== null) window.clearTimeout(gaplessTimer.current);
+    gaplessTimer.current = null;
+  }, []);
+
+  /** Ends a running fade at once: the outgoing deck stops and becomes the standby deck. */
+  const finishFade = useCallback(() => {
+    const { outgoing, timer } = fade.current;
+    if (timer !== null) window.clearTimeout(timer);
+    fade.current = { outgoing: null, timer: null };
+    if (outgoing) {
+      outgoing.pause();
+      engine.setGain(outgoing, 0);
+    }
+    if (latest.current.active) armStandby();
+  }, [armStandby, engine]);
+
+  const startTrack = useCallback((index: number, fadeSeconds: number, play: boolean) => {
+    const target = latest.current.queue?.items[index];
+    if (!target) return;
+    cancelGapless();
+    finishFade();
+    const from = activeDeckRef.current;
+    const to: Deck = from === 0 ? 1 : 0;
+    const outgoing = decks.current[from];
+    const incoming = decks.current[to];
+    if (!outgoing || !incoming) return;
+
+    load(incoming, target.url);
+    incoming.currentTime = 0;
+    incoming.volume = outgoing.volume;
+    incoming.muted = outgoing.muted;
+    incoming.defaultPlaybackRate = outgoing.defaultPlaybackRate;
+    incoming.playbackRate = outgoing.playbackRate;
+    engine.connect(outgoing);
+    engine.connect(incoming);
+    engine.setGain(incoming, 0);
+    activeDeckRef.current = to;
+    audioRef.current = incoming;
+
+    if (play) {
+      incoming.play().catch(() => {});
+      engine.rampGain(incoming, gainFor(target), fadeSeconds);
+      engine.rampGain(outgoing, 0, fadeSeconds);
+      fade.current = { outgoing, timer: window.setTimeout(finishFade, fadeSeconds * 1000 + FADE_SETTLE_MS) };
+    } else {
+      outgoing.pause();
+      engine.setGain(outgoing, 0);
+      engine.setGain(incoming, gainFor(target));
+    }
+    selectTrack(target);
+    setActiveDeck(to);
+    if (!play) armStandby();
+  }, [armStandby, audioRef, cancelGapless, engine, finishFade, gainFor, selectTrack]);
+
+  // Without a queue the active deck plays the single audio URL at unity gain.
+  useEffect(() => {
+    if (active) return;
+    cancelGapless();
+    finishFade();
+    const current = decks.current[activeDeckRef.current];
+    const standby = decks.current[activeDeckRef.current === 0 ? 1 : 0];
+    if (standby) {
+      standby.pause();
+      load(standby, "");
+    }
+    if (current) {
+      engine.setGain(current, 1);
+      load(current, audioUrl);
+    }
+  }, [active, audioUrl, cancelGapless, engine, finishFade]);
+
+  // (Re)load the queue, carrying on with the track playing if it is still in it.
+  const itemsKey = items.map((item) => `${item.id}:${item.url}:${item.loudnessDb}`).join(",");
+  useEffect(() => {
+    const q = latest.current.queue;
+    if (!active || !q) return;
+    const keep = q.items.find((item) => item.id === currentIdRef.current) ?? q.items[0];
+    selectTrack(keep);
+    const current = decks.current[activeDeckRef.current];
+    if (current) {
+      load(current, keep.url);
+      if (!fade.current.outgoing) engine.setGain(current, gainFor(keep));
+    }
+    armStandby();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [active, itemsKey, queue?.normalize, queue?.loop]);
+
+  // Connect both decks on first play; the context may only start after a user gesture.
+  useEffect(() => {
+    const elements = decks.current.filter((el): el is HTMLAudioElement => el !== null);
+    const onPlay = () => {
+      elements.forEach((el) => engine.connect(el));
+      engine.resume();
+    };
+    elements.forEach((el) => el.addEventListener("play", onPlay));
+    return () => elements.forEach((el) => el.removeEventListener("play", onPlay));
+  }, [engine]);
+
+  // Watches the time left on the active deck and starts the next track early enough to overlap or butt up.
+  useEffect(() => {
+    if (!active || !isPlaying) return;
+    const tick = () => {
+      const q = latest.current.queue;
+      const element = decks.current[activeDeckRef.current];
+      if (!q || !element || element.paused || fade.current.outgoing || gaplessTimer.current !== null) return;
+      const remaining = element.duration - element.currentTime;
+      if (!isFinite(remaining)) return;
+      const nextIndex = following(indexOfCurrent());
+      if (nextIndex < 0) return;
+      if (q.crossfadeSeconds > 0) {
+        // Short tracks cannot spend more than half their length fading.
+        if (remaining <= Math.min(q.crossfadeSeconds, element.duration / 2)) startTrack(nextIndex, remaining, true);
+      } else if (q.gapless && remaining <= GAPLESS_LOOKAHEAD_SECONDS) {
+        const delay = (remaining * 1000) / (element.playbackRate || 1);
+        gaplessTimer.current = window.setTimeout(() => {
+          gaplessTimer.current = null;
+          startTrack(nextIndex, 0, true);
+        }, Math.max(0, delay - TICK_MS / 10));
+      }
+    };
+    const interval = window.setInterval(tick, TICK_MS);
+    return () => {
+      window.clearInterval(interval);
+      cancelGapless();
+    };
+  }, [active, isPlaying, cancelGapless, following, indexOfCurrent, startTrack]);
+
+  // Pausing mid-fade settles on the incoming track.
+  useEffect(() => {
+    if (!isPlaying) finishFade();
+  }, [isPlaying, finishFade]);
+
+  useEffect(() => () => {
+    cancelGapless();
+    if (fade.current.timer !== null) window.clearTimeout(fade.current.timer);
+  }, [cancelGapless]);
+
+  const skip = useCallback((delta: 1 | -1) => {
+    const q = latest.current.queue;
+    if (!latest.current.active || !q) return;
+    const count = q.items.length;
+    const target = (indexOfCurrent() + delta + count) % count;
+    startTrack(target, Math.min(q.crossfadeSeconds, SKIP_FADE_SECONDS), latest.current.isPlaying);
+  }, [indexOfCurrent, startTrack]);
+
+  const next = useCallback(() => skip(1), [skip]);
+  const previous = useCallback(() => skip(-1), [skip]);
+
+  const handleEnded = useCallback((): boolean => {
+    if (!latest.current.active) return false;
+    // Already handed over to the other deck; this deck just ran out during the fade.
+    if (fade.current.outgoing) return true;
+    const nextIndex = following(indexOfCurrent());
+    if (nextIndex < 0) {
+      // Rewind to the first track so pressing play starts the queue over.
+      startTrack(0, 0, false);
+      return false;
+    }
+    startTrack(nextIndex, 0, true);
+    return true;
+  }, [following, indexOfCurrent, startTrack]);
+
+  const current = active ? items.find((item) => item.id === currentId) : undefined;
+  return {
+    active,
+    queue,
+    current,
+    position: current ? items.indexOf(current) + 1 : 0,
+    url: active ? current?.url ?? "" : audioUrl,
+    activeDeck,
+    deckRefs,
+    next,
+    previous,
+    handleEnded,
+  };
+}
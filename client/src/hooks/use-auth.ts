@@ -0,0 +1,35 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { InsertUser, SessionUser } from "@shared/schema";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+
+const USER_QUERY_KEY = ["/api/user"];
+
+export function useAuth() {
+  const { data: user, isLoading } = useQuery<SessionUser | null>({
+    queryKey: USER_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: InsertUser) => {
+      const res = await apiRequest("POST", "/api/login", credentials);
+      return (await res.json()) as SessionUser;
+    },
+    onSuccess: (signedIn) => queryClient.setQueryData(USER_QUERY_KEY, signedIn),
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: InsertUser) => {
+      const res = await apiRequest("POST", "/api/register", credentials);
+      return (await res.json()) as SessionUser;
+    },
+    onSuccess: (created) => queryClient.setQueryData(USER_QUERY_KEY, created),
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/logout"),
+    onSuccess: () => queryClient.setQueryData(USER_QUERY_KEY, null),
+  });
+
+  return { user: user ?? null, isLoading, loginMutation, registerMutation, logoutMutation };
+}
@@ -0,0 +1,55 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { RouteSettings } from "@shared/schema";
+import { resolveBreakpoint } from "@shared/breakpoints";
+import { profilesQueryKey } from "@/lib/profiles";
+
+const RESIZE_DEBOUNCE_MS = 250;
+
+export function breakpointsQueryKey(site: string, route: string, profile: string) {
+  return [...profilesQueryKey(site, route), profile, "breakpoints"];
+}
+
+/**
+ * Tracks the saved layouts of a route profile and calls `onMatch` whenever a
+ * window resize makes a different layout match. The first match is only
+ * recorded, since the page has already loaded it through the settings endpoint.
+ */
+export function useBreakpointLayout(site: string, route: string, profile: string, onMatch: (layout: RouteSettings) => void) {
+  const { data: layouts } = useQuery<RouteSettings[]>({
+    queryKey: breakpointsQueryKey(site, route, profile),
+    staleTime: 0,
+  });
+  const [viewportWidth, setViewportWidth] = useState(() => window.innerWidth);
+  const appliedIdRef = useRef<number | null>(null);
+  const onMatchRef = useRef(onMatch);
+  useEffect(() => { onMatchRef.current = onMatch; }, [onMatch]);
+
+  useEffect(() => {
+    let timer: number | null = null;
+    const handleResize = () => {
+      if (timer !== null) window.clearTimeout(timer);
+      timer = window.setTimeout(() => setViewportWidth(window.innerWidth), RESIZE_DEBOUNCE_MS);
+    };
+    window.addEventListener("resize", handleResize);
+    return () => {
+      window.removeEventListener("resize", handleResize);
+      if (timer !== null) window.clearTimeout(timer);
+    };
+  }, []);
+
+  const active = layouts ? resolveBreakpoint(layouts, viewportWidth) : undefined;
+
+  useEffect(() => {
+    if (!active) return;
+    if (appliedIdRef.current === null) {
+      appliedIdRef.current = active.id;
+      return;
+    }
+    if (active.id === appliedIdRef.current) return;
+    appliedIdRef.current = active.id;
+    onMatchRef.current(active);
+  }, [active]);
+
+  return { layouts: layouts ?? [], active, viewportWidth };
+}
@@ -0,0 +1,21 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { CaptionTrack } from "@shared/schema";
+import { parseCaptions, type CaptionCue } from "@shared/captions";
+import { captionsQueryKey, findCaptionTrack } from "@/lib/captions";
+
+export interface Captions {
+  track: CaptionTrack | null;
+  cues: CaptionCue[];
+}
+
+/** The captions attached to the track at `mediaUrl`, parsed into timed lines. */
+export function useCaptions(site: string, mediaUrl: string): Captions {
+  const { data: track = null } = useQuery<CaptionTrack | null>({
+    queryKey: captionsQueryKey(site, mediaUrl),
+    queryFn: () => findCaptionTrack(site, mediaUrl),
+    enabled: mediaUrl !== "",
+  });
+  const cues = useMemo(() => (track ? parseCaptions(track.format, track.content) : []), [track]);
+  return { track, cues };
+}
@@ -0,0 +1,43 @@
+import { useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { CuePoint } from "@shared/schema";
+import { adjacentCue, cuePointsQueryKey } from "@/lib/cue-points";
+
+/** Saved cue points and loop regions of the track at `mediaUrl`, sorted by start. */
+export function useCuePoints(site: string, mediaUrl: string): CuePoint[] {
+  const { data } = useQuery<CuePoint[]>({
+    queryKey: cuePointsQueryKey(site, mediaUrl),
+    enabled: mediaUrl !== "",
+  });
+  return data ?? [];
+}
+
+function isTyping(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+}
+
+/**
+ * Keyboard shortcuts for cues: `[` and `]` jump to the previous and next cue,
+ * 1–9 to the cue with that number. Ignored while typing in a field.
+ */
+export function useCueShortcuts(cues: CuePoint[], currentTime: number, onJump: (cue: CuePoint) => void) {
+  const latest = useRef({ cues, currentTime, onJump });
+  latest.current = { cues, currentTime, onJump };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey || isTyping(e.target)) return;
+      const { cues, currentTime, onJump } = latest.current;
+      let cue: CuePoint | undefined;
+      if (e.key === "[") cue = adjacentCue(cues, currentTime, "previous");
+      else if (e.key === "]") cue = adjacentCue(cues, currentTime, "next");
+      else if (/^[1-9]$/.test(e.key)) cue = cues[Number(e.key) - 1];
+      if (!cue) return;
+      e.preventDefault();
+      onJump(cue);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+}
@@ -0,0 +1,49 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { Experiment, ExperimentVariant, SettingsRoute } from "@shared/schema";
+import { DEFAULT_PROFILE } from "@shared/schema";
+import { assignVariant } from "@shared/experiments";
+import { visitorId } from "@/lib/analytics";
+import { siteApiUrl } from "@/lib/sites";
+
+export interface ExperimentAssignment {
+  experimentId: number;
+  variant: ExperimentVariant;
+}
+
+function assignmentKey(experimentId: number) {
+  return `experiment-${experimentId}-variant`;
+}
+
+/** Returns the visitor's stored variant, or assigns one by weight and remembers it. */
+function stickyVariant(experiment: Experiment): ExperimentVariant | undefined {
+  try {
+    const stored = localStorage.getItem(assignmentKey(experiment.id));
+    const match = experiment.variants.find((v) => v.key === stored && v.weight > 0);
+    if (match) return match;
+  } catch {
+    // Storage can be unavailable (private mode, sandboxed embeds); hashing alone is still sticky.
+  }
+  const variant = assignVariant(visitorId(), experiment.id, experiment.variants);
+  try {
+    if (variant) localStorage.setItem(assignmentKey(experiment.id), variant.key);
+  } catch {
+    // See above.
+  }
+  return variant;
+}
+
+/** Loads the running experiment of a route profile and assigns this visitor a sticky variant. */
+export function useExperiment(site: string, route: SettingsRoute, profile: string, enabled: boolean): ExperimentAssignment | null {
+  const params = profile === DEFAULT_PROFILE ? "" : `?profile=${encodeURIComponent(profile)}`;
+  const { data: experiment } = useQuery<Experiment | null>({
+    queryKey: [siteApiUrl(site, `/route-settings/${route}/experiment${params}`)],
+    enabled,
+  });
+
+  return useMemo(() => {
+    if (!enabled || !experiment) return null;
+    const variant = stickyVariant(experiment);
+    return variant ? { experimentId: experiment.id, variant } : null;
+  }, [enabled, experiment]);
+}
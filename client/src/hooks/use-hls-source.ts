@@ -0,0 +1,122 @@
+import { useEffect, useRef, useState } from "react";
+import Hls, { type Level } from "hls.js";
+
+export interface HlsLevel {
+  /** Index in the manifest, as hls.js addresses it. */
+  index: number;
+  height: number;
+  /** Bits per second advertised by the manifest. */
+  bitrate: number;
+}
+
+export interface HlsPlayback {
+  /** Renditions in the manifest, tallest first; empty until it is parsed or when the browser plays HLS natively. */
+  levels: HlsLevel[];
+  /** Rendition playing now; with automatic quality this is what the player picked for the connection. */
+  playingLevel: HlsLevel | null;
+  /** Measured download speed in bits per second, rounded to 100 kbit/s. */
+  bandwidth: number | null;
+  /** True when the browser plays the stream itself (Safari without MSE) and picks renditions on its own. */
+  native: boolean;
+  error: string | null;
+}
+
+const EMPTY: HlsPlayback = { levels: [], playingLevel: null, bandwidth: null, native: false, error: null };
+
+function toLevels(levels: Level[]): HlsLevel[] {
+  return levels
+    .map((level, index) => ({ index, height: level.height, bitrate: level.bitrate }))
+    .sort((a, b) => b.height - a.height || b.bitrate - a.bitrate);
+}
+
+/** The best rendition no taller than `height`, or -1 (automatic) when there is none. */
+function levelIndexFor(levels: HlsLevel[], height: number | null): number {
+  if (height === null) return -1;
+  return levels.find((level) => level.height <= height)?.index ?? -1;
+}
+
+/**
+ * Plays an HLS manifest on a <video> element with hls.js, or natively where
+ * the browser can and MSE is missing. `quality` locks playback to a rendition
+ * height; null leaves it to hls.js' bandwidth-based switching. The element
+ * keeps firing the usual media events, so time, duration and looping work as
+ * they do for progressive files.
+ */
+export function useHlsSource(
+  videoRef: React.MutableRefObject<HTMLVideoElement | null>,
+  url: string | null,
+  quality: number | null,
+): HlsPlayback {
+  const [state, setState] = useState<HlsPlayback>(EMPTY);
+  const hlsRef = useRef<Hls | null>(null);
+  const qualityRef = useRef(quality);
+  qualityRef.current = quality;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    setState(EMPTY);
+    if (!url || !video) return;
+
+    if (!Hls.isSupported()) {
+      if (video.canPlayType("application/vnd.apple.mpegurl")) {
+        video.src = url;
+        setState({ ...EMPTY, native: true });
+      } else {
+        setState({ ...EMPTY, error: "This browser cannot play HLS streams" });
+      }
+      return () => {
+        video.removeAttribute("src");
+        video.load();
+      };
+    }
+
+    const hls = new Hls();
+    hlsRef.current = hls;
+    const levelAt = (index: number) => {
+      const level = hls.levels[index];
+      return level ? { index, height: level.height, bitrate: level.bitrate } : null;
+    };
+
+    hls.on(Hls.Events.MANIFEST_PARSED, (_event, data) => {
+      const levels = toLevels(data.levels);
+      hls.currentLevel = levelIndexFor(levels, qualityRef.current);
+      setState((prev) => ({ ...prev, levels, error: null }));
+    });
+    hls.on(Hls.Events.LEVEL_SWITCHED, (_event, data) => {
+      setState((prev) => ({ ...prev, playingLevel: levelAt(data.level) }));
+    });
+    hls.on(Hls.Events.FRAG_LOADED, () => {
+      const estimate = hls.bandwidthEstimate;
+      if (!isFinite(estimate) || estimate <= 0) return;
+      const bandwidth = Math.round(estimate / 100_000) * 100_000;
+      setState((prev) => (prev.bandwidth === bandwidth ? prev : { ...prev, bandwidth }));
+    });
+    hls.on(Hls.Events.ERROR, (_event, data) => {
+      if (!data.fatal) return;
+      // Network and decode failures are usually transient; anything else ends playback.
+      if (data.type === Hls.ErrorTypes.NETWORK_ERROR) {
+        hls.startLoad();
+      } else if (data.type === Hls.ErrorTypes.MEDIA_ERROR) {
+        hls.recoverMediaError();
+      } else {
+        setState((prev) => ({ ...prev, error: data.details }));
+        hls.destroy();
+        hlsRef.current = null;
+      }
+    });
+
+    hls.loadSource(url);
+    hls.attachMedia(video);
+    return () => {
+      hls.destroy();
+      if (hlsRef.current === hls) hlsRef.current = null;
+    };
+  }, [videoRef, url]);
+
+  useEffect(() => {
+    const hls = hlsRef.current;
+    if (hls && state.levels.length > 0) hls.currentLevel = levelIndexFor(state.levels, quality);
+  }, [quality, state.levels]);
+
+  return state;
+}
@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { PlaylistItem, RepeatMode } from "@shared/schema";
+import { playlistItemsQueryKey } from "@/lib/playlists";
+
+/** What the player should do once the current item has ended. */
+export type PlaylistAdvance = "next" | "repeat" | "stop";
+
+export interface PlaylistPlayback {
+  items: PlaylistItem[];
+  /** Item to play; undefined when no playlist is set or it is empty. */
+  current: PlaylistItem | undefined;
+  /** 1-based place of `current` in the play order. */
+  position: number;
+  next: () => void;
+  previous: () => void;
+  /** Moves on after the current item ended, honoring repeat mode. */
+  advance: () => PlaylistAdvance;
+}
+
+function shuffled<T>(list: T[]): T[] {
+  const next = list.slice();
+  for (let i = next.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [next[i], next[j]] = [next[j], next[i]];
+  }
+  return next;
+}
+
+/** Play order of item ids; when shuffling, `firstId` stays first so the item playing is not interrupted. */
+function playOrder(ids: number[], shuffle: boolean, firstId: number | null): number[] {
+  if (!shuffle) return ids;
+  const rest = shuffled(ids.filter((id) => id !== firstId));
+  return firstId !== null && ids.includes(firstId) ? [firstId, ...rest] : rest;
+}
+
+export function usePlaylistPlayback(
+  site: string,
+  playlistId: number | null,
+  { shuffle, repeatMode }: { shuffle: boolean; repeatMode: RepeatMode },
+): PlaylistPlayback {
+  const { data: items = [] } = useQuery<PlaylistItem[]>({
+    queryKey: playlistItemsQueryKey(site, playlistId ?? 0),
+    enabled: playlistId !== null,
+  });
+  const [order, setOrder] = useState<number[]>([]);
+  const [currentId, setCurrentId] = useState<number | null>(null);
+
+  const ids = useMemo(() => (playlistId === null ? [] : items.map((item) => item.id)), [items, playlistId]);
+  const idsKey = ids.join(",");
+
+  // The YouTube callbacks are created once, so the step functions read the latest state from a ref.
+  const latest = useRef({ order, currentId, shuffle, repeatMode });
+  latest.current = { order, currentId, shuffle, repeatMode };
+
+  // Rebuild the order when the list or shuffle changes, carrying on with the item playing.
+  useEffect(() => {
+    const playing = latest.current.currentId;
+    const keep = playing !== null && ids.includes(playing) ? playing : null;
+    const nextOrder = playOrder(ids, shuffle, keep);
+    setOrder(nextOrder);
+    setCurrentId(keep ?? nextOrder[0] ?? null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [idsKey, shuffle]);
+
+  const step = useCallback((delta: 1 | -1, wrap: boolean): boolean => {
+    const { order: list, currentId: id, shuffle: shuffling } = latest.current;
+    if (list.length === 0) return false;
+    const index = Math.max(0, list.indexOf(id ?? -1));
+    const target = index + delta;
+    if (target >= 0 && target < list.length) {
+      setCurrentId(list[target]);
+      return true;
+    }
+    if (!wrap) return false;
+    if (delta === 1 && shuffling) {
+      // A fresh shuffle for the next round, avoiding an immediate replay of the last item.
+      const reshuffled = playOrder(list, true, null);
+      if (reshuffled.length > 1 && reshuffled[0] === id) reshuffled.push(reshuffled.shift()!);
+      setOrder(reshuffled);
+      setCurrentId(reshuffled[0]);
+      return true;
+    }
+    setCurrentId(list[(target + list.length) % list.length]);
+    return true;
+  }, []);
+
+  const next = useCallback(() => { step(1, true); }, [step]);
+  const previous = useCallback(() => { step(-1, true); }, [step]);
+
+  const advance = useCallback((): PlaylistAdvance => {
+    const { order: list, repeatMode: mode } = latest.current;
+    if (mode === "one" || (mode === "all" && list.length === 1)) return "repeat";
+    return step(1, mode === "all") ? "next" : "stop";
+  }, [step]);
+
+  const current = items.find((item) => item.id === currentId);
+  return {
+    items,
+    current: playlistId === null ? undefined : current,
+    position: current ? order.indexOf(current.id) + 1 : 0,
+    next,
+    previous,
+    advance,
+  };
+}
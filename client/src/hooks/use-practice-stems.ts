@@ -0,0 +1,154 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { DEFAULT_STEM_MIX, type StemJob, type StemMix, type StemName } from "@shared/schema";
+import type { AudioEngine } from "@/lib/audio-engine";
+import { START_LEAD_SECONDS, StemEngine } from "@/lib/stem-engine";
+import { findStemJobForUrl, stemFileUrl, stemSourceQueryKey } from "@/lib/stems";
+
+/** The stems are moved back onto the deck's position once they are this far off it. */
+const DRIFT_TOLERANCE_SECONDS = 0.1;
+const SYNC_INTERVAL_MS = 250;
+const SYNC_EVENTS = ["play", "playing", "pause", "seeking", "seeked", "waiting", "ratechange", "volumechange"] as const;
+const NO_STEMS: StemName[] = [];
+
+export interface PracticeStems {
+  /** Stems of the playing track; empty until a finished separation is linked to its URL. */
+  stems: StemName[];
+  mix: Partial<Record<StemName, StemMix>>;
+  /** True while the stems play in place of the deck. */
+  active: boolean;
+  loading: boolean;
+  error: string | null;
+  toggleMute: (stem: StemName) => void;
+  toggleSolo: (stem: StemName) => void;
+  reset: () => void;
+}
+
+interface PracticeStemsOptions {
+  site: string;
+  /** Audio URL on the deck; "" turns practice off. */
+  url: string;
+  engine: AudioEngine;
+  audioRef: React.MutableRefObject<HTMLAudioElement | null>;
+}
+
+/**
+ * Practice mode for /play: once a stem is muted or soloed, the track's stems
+ * play through the deck's audio graph in its place. The deck keeps playing
+ * silently as the clock, so play, pause, seeking, the A-B loop, speed and
+ * volume all stay on the <audio> element and the stems follow it.
+ */
+export function usePracticeStems({ site, url, engine, audioRef }: PracticeStemsOptions): PracticeStems {
+  const { data: job } = useQuery<StemJob | null>({
+    queryKey: stemSourceQueryKey(site, url),
+    queryFn: () => findStemJobForUrl(site, url),
+    enabled: url !== "",
+  });
+  const readyJobId = url !== "" && job?.status === "done" ? job.id : null;
+  const stems = readyJobId !== null && job ? job.stems : NO_STEMS;
+
+  const [mix, setMix] = useState<Partial<Record<StemName, StemMix>>>({});
+  const [loadedJobId, setLoadedJobId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const stemEngineRef = useRef<StemEngine | null>(null);
+
+  const wanted = stems.some((stem) => mix[stem]?.muted || mix[stem]?.solo);
+  const active = wanted && readyJobId !== null && loadedJobId === readyJobId;
+
+  // A new track starts with every stem back in.
+  useEffect(() => {
+    setMix({});
+    setError(null);
+  }, [url]);
+
+  useEffect(() => () => {
+    stemEngineRef.current?.close();
+    stemEngineRef.current = null;
+  }, []);
+
+  // Stems are only downloaded once a student first takes one out.
+  useEffect(() => {
+    if (!wanted || readyJobId === null || loadedJobId === readyJobId) return;
+    let cancelled = false;
+    const stemEngine = (stemEngineRef.current ??= new StemEngine(engine.input()));
+    setLoading(true);
+    setError(null);
+    Promise.all(stems.map(async (stem): Promise<[StemName, AudioBuffer]> => {
+      const response = await fetch(stemFileUrl(site, readyJobId, stem), { credentials: "include" });
+      if (!response.ok) throw new Error(`Failed to load ${stem}: ${response.status} ${response.statusText}`);
+      return [stem, await stemEngine.decode(await response.arrayBuffer())];
+    }))
+      .then((buffers) => {
+        if (cancelled) return;
+        stemEngine.setStems(new Map(buffers));
+        setLoadedJobId(readyJobId);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+      setLoading(false);
+    };
+  }, [wanted, readyJobId, loadedJobId, stems, site, engine]);
+
+  useEffect(() => {
+    const stemEngine = stemEngineRef.current;
+    if (!stemEngine || loadedJobId === null) return;
+    for (const stem of stems) stemEngine.setMix(stem, mix[stem] ?? DEFAULT_STEM_MIX);
+  }, [mix, stems, loadedJobId]);
+
+  useEffect(() => {
+    if (!active) return;
+    engine.setDecksMuted(true);
+    return () => engine.setDecksMuted(false);
+  }, [engine, active]);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    const stemEngine = stemEngineRef.current;
+    if (!active || !audio || !stemEngine) return;
+    const follow = () => {
+      stemEngine.setRate(audio.playbackRate);
+      stemEngine.setVolume(audio.muted ? 0 : audio.volume);
+      if (audio.paused || audio.seeking || audio.readyState < HTMLMediaElement.HAVE_FUTURE_DATA) {
+        stemEngine.pause();
+        stemEngine.seek(audio.currentTime);
+        return;
+      }
+      // Started stems sound a moment after they are scheduled, so they start that far ahead of the deck.
+      const target = audio.currentTime + START_LEAD_SECONDS * audio.playbackRate;
+      if (!stemEngine.isPlaying) {
+        if (target >= stemEngine.duration) return;
+        stemEngine.seek(target);
+        void stemEngine.play();
+      } else if (Math.abs(stemEngine.currentTime - audio.currentTime) > DRIFT_TOLERANCE_SECONDS) {
+        stemEngine.seek(target);
+      }
+    };
+    follow();
+    SYNC_EVENTS.forEach((type) => audio.addEventListener(type, follow));
+    const timer = window.setInterval(follow, SYNC_INTERVAL_MS);
+    return () => {
+      SYNC_EVENTS.forEach((type) => audio.removeEventListener(type, follow));
+      window.clearInterval(timer);
+      stemEngine.pause();
+    };
+  }, [active, audioRef]);
+
+  const toggle = useCallback((stem: StemName, key: "muted" | "solo") => {
+    setMix((previous) => {
+      const current = previous[stem] ?? DEFAULT_STEM_MIX;
+      return { ...previous, [stem]: { ...current, [key]: !current[key] } };
+    });
+  }, []);
+  const toggleMute = useCallback((stem: StemName) => toggle(stem, "muted"), [toggle]);
+  const toggleSolo = useCallback((stem: StemName) => toggle(stem, "solo"), [toggle]);
+  const reset = useCallback(() => setMix({}), []);
+
+  return { stems, mix, active, loading, error, toggleMute, toggleSolo, reset };
+}
@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useRef } from "react";
+import { NEXT_SWITCH_HEADER } from "@shared/schedule";
+
+// setTimeout overflows past ~24.8 days; the page simply re-arms after reloading.
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+const SWITCH_GRACE_MS = 1000;
+
+/**
+ * Re-runs `reload` when the scheduled profile is due to change, based on the
+ * next-switch header of a settings response. Each call replaces the previous timer.
+ */
+export function useScheduleReload() {
+  const timerRef = useRef<number | null>(null);
+
+  const clear = useCallback(() => {
+    if (timerRef.current !== null) window.clearTimeout(timerRef.current);
+    timerRef.current = null;
+  }, []);
+
+  useEffect(() => clear, [clear]);
+
+  return useCallback((res: Response, reload: () => void) => {
+    clear();
+    const next = res.headers.get(NEXT_SWITCH_HEADER);
+    const delay = next ? Date.parse(next) - Date.now() : NaN;
+    if (isNaN(delay)) return;
+    timerRef.current = window.setTimeout(reload, Math.min(Math.max(delay, 0) + SWITCH_GRACE_MS, MAX_TIMEOUT_MS));
+  }, [clear]);
+}
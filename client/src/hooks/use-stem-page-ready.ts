@@ -0,0 +1,19 @@
+import { useEffect, useRef, type RefObject } from "react";
+import { isStemReadyMessage } from "@/lib/stem-messages";
+
+/**
+ * Calls `onReady` each time the stem page in `iframeRef` says it is listening,
+ * which is the moment to send it the track; its iframe `load` event can come
+ * before the page has mounted.
+ */
+export function useStemPageReady(iframeRef: RefObject<HTMLIFrameElement | null>, onReady: () => void): void {
+  const onReadyRef = useRef(onReady);
+  onReadyRef.current = onReady;
+  useEffect(() => {
+    const onMessage = (event: MessageEvent) => {
+      if (isStemReadyMessage(event, iframeRef.current?.contentWindow)) onReadyRef.current();
+    };
+    window.addEventListener("message", onMessage);
+    return () => window.removeEventListener("message", onMessage);
+  }, [iframeRef]);
+}
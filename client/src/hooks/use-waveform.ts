@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query";
+import { loadWaveform, type WaveformAnalysis } from "@/lib/waveform";
+
+/**
+ * Waveform of the audio at `url`, loaded once per URL for the session (and
+ * from localStorage on later visits). Null while loading or when the file
+ * cannot be analysed, in which case the scrubber stays a plain slider.
+ */
+export function useWaveform(url: string, enabled = true): WaveformAnalysis | null {
+  const { data } = useQuery({
+    queryKey: ["waveform", url],
+    queryFn: () => loadWaveform(url),
+    enabled: enabled && url !== "",
+    staleTime: Infinity,
+    retry: false,
+  });
+  return data ?? null;
+}
@@ -0,0 +1,83 @@
+import type { InsertAnalyticsEvent } from "@shared/schema";
+
+const FLUSH_DELAY_MS = 5000;
+const MAX_BATCH = 100;
+const SESSION_KEY = "analytics-session-id";
+const VISITOR_KEY = "analytics-visitor-id";
+
+const queues = new Map<string, InsertAnalyticsEvent[]>();
+const beforeFlush = new Set<() => void>();
+let flushTimer: number | null = null;
+let listening = false;
+
+function sessionId(): string {
+  try {
+    const existing = sessionStorage.getItem(SESSION_KEY);
+    if (existing) return existing;
+    const id = crypto.randomUUID();
+    sessionStorage.setItem(SESSION_KEY, id);
+    return id;
+  } catch {
+    return "anonymous";
+  }
+}
+
+/** Long-lived id for this browser, used to keep experiment variants sticky across visits. */
+export function visitorId(): string {
+  try {
+    const existing = localStorage.getItem(VISITOR_KEY);
+    if (existing) return existing;
+    const id = crypto.randomUUID();
+    localStorage.setItem(VISITOR_KEY, id);
+    return id;
+  } catch {
+    return sessionId();
+  }
+}
+
+function send(url: string, events: InsertAnalyticsEvent[]) {
+  const body = JSON.stringify({ events });
+  const blob = new Blob([body], { type: "application/json" });
+  if (navigator.sendBeacon?.(url, blob)) return;
+  fetch(url, { method: "POST", headers: { "Content-Type": "application/json" }, body, keepalive: true }).catch(() => {});
+}
+
+/** Sends every queued event. Runs on a timer and whenever the page is hidden or unloaded. */
+export function flushEvents() {
+  beforeFlush.forEach((callback) => callback());
+  if (flushTimer !== null) {
+    window.clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  queues.forEach((events, url) => {
+    for (let i = 0; i < events.length; i += MAX_BATCH) send(url, events.slice(i, i + MAX_BATCH));
+  });
+  queues.clear();
+}
+
+function listen() {
+  if (listening) return;
+  listening = true;
+  window.addEventListener("pagehide", flushEvents);
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "hidden") flushEvents();
+  });
+}
+
+/** Queues an event for `url` (the site's `/events` endpoint); events are sent in batches. */
+export function trackEvent(url: string, event: Omit<InsertAnalyticsEvent, "sessionId">) {
+  listen();
+  const queue = queues.get(url) ?? [];
+  queue.push({ ...event, sessionId: sessionId() });
+  queues.set(url, queue);
+  if (flushTimer === null) flushTimer = window.setTimeout(flushEvents, FLUSH_DELAY_MS);
+}
+
+/** Registers a callback that runs right before queued events are sent, e.g. to close an open watch-time span. */
+export function onBeforeFlush(callback: () => void): () => void {
+  listen();
+  beforeFlush.add(callback);
+  return () => {
+    beforeFlush.delete(callback);
+  };
+}
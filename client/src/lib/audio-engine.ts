@@ -0,0 +1,154 @@
+/**
+ * Web Audio graph shared by the /play decks: each <audio> element feeds its own
+ * gain node into one analyser, so crossfades and loudness corrections happen in
+ * the graph and the visualizer keeps drawing the mix across track changes.
+ * A pitch shifter can sit between the decks and the analyser. Other sources,
+ * such as the practice stems, can join the graph at the same point.
+ */
+import pitchShiftProcessorUrl from "@/workers/pitch-shift-processor.ts?worker&url";
+
+const FADE_CURVE_POINTS = 32;
+
+export class AudioEngine {
+  private context: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  /** Where the deck gains meet, so they can be muted together. */
+  private decks: GainNode | null = null;
+  /** Where the decks and any other sources meet, ahead of the pitch shifter. */
+  private bus: GainNode | null = null;
+  private pitchShifter: AudioWorkletNode | null = null;
+  private pitchShifterLoading = false;
+  private pitchRatio = 1;
+  private gains = new WeakMap<HTMLMediaElement, GainNode>();
+
+  /**
+   * Routes the element through the graph; calling it again is a no-op. The
+   * context starts suspended until `resume` runs after a user gesture.
+   */
+  connect(element: HTMLMediaElement): void {
+    if (this.gains.has(element)) return;
+    try {
+      const ctx = this.ensureContext();
+      const gain = ctx.createGain();
+      ctx.createMediaElementSource(element).connect(gain);
+      gain.connect(this.decks!);
+      this.gains.set(element, gain);
+    } catch { /* already connected to another context */ }
+  }
+
+  /** Null until the first element has been connected. */
+  getAnalyser(): AnalyserNode | null {
+    return this.analyser;
+  }
+
+  /**
+   * The context and the node another source connects to, to be heard through
+   * the pitch shifter and visualizer the way the decks are.
+   */
+  input(): { context: AudioContext; destination: AudioNode } {
+    const context = this.ensureContext();
+    return { context, destination: this.bus! };
+  }
+
+  resume(): void {
+    if (this.context?.state === "suspended") this.context.resume().catch(() => {});
+  }
+
+  setGain(element: HTMLMediaElement, value: number): void {
+    this.rampGain(element, value, 0);
+  }
+
+  /** Fades the element to `value` over `seconds` on an equal-power curve; 0 seconds jumps straight there. */
+  rampGain(element: HTMLMediaElement, value: number, seconds: number): void {
+    const gain = this.gains.get(element);
+    if (!gain || !this.context) return;
+    const param = gain.gain;
+    const now = this.context.currentTime;
+    const from = param.value;
+    param.cancelScheduledValues(now);
+    if (seconds <= 0 || from === value) {
+      param.setValueAtTime(value, now);
+      return;
+    }
+    // Rising gains follow sin and falling ones cos, so two decks crossing keep constant power.
+    const curve = new Float32Array(FADE_CURVE_POINTS);
+    for (let i = 0; i < FADE_CURVE_POINTS; i++) {
+      const t = (i / (FADE_CURVE_POINTS - 1)) * (Math.PI / 2);
+      const shape = value > from ? Math.sin(t) : 1 - Math.cos(t);
+      curve[i] = from + (value - from) * shape;
+    }
+    param.setValueCurveAtTime(curve, now, seconds);
+  }
+
+  /** Silences every deck without pausing it, e.g. while the practice stems play in its place. */
+  setDecksMuted(muted: boolean): void {
+    if (!this.context || !this.decks) return;
+    this.decks.gain.setValueAtTime(muted ? 0 : 1, this.context.currentTime);
+  }
+
+  /**
+   * Shifts everything the graph plays by `semitones` without changing speed;
+   * 0 takes the shifter out of the graph. Kept until changed, including
+   * across `close`.
+   */
+  setPitch(semitones: number): void {
+    this.pitchRatio = 2 ** (semitones / 12);
+    if (this.pitchRatio !== 1) this.loadPitchShifter();
+    this.route();
+  }
+
+  close(): void {
+    this.context?.close().catch(() => {});
+    this.context = null;
+    this.analyser = null;
+    this.decks = null;
+    this.bus = null;
+    this.pitchShifter = null;
+    this.pitchShifterLoading = false;
+    this.gains = new WeakMap();
+  }
+
+  private loadPitchShifter(): void {
+    const ctx = this.context;
+    if (!ctx || this.pitchShifter || this.pitchShifterLoading) return;
+    this.pitchShifterLoading = true;
+    ctx.audioWorklet.addModule(pitchShiftProcessorUrl)
+      .then(() => {
+        if (this.context !== ctx) return;
+        this.pitchShifter = new AudioWorkletNode(ctx, "pitch-shift");
+        this.pitchShifter.connect(this.analyser!);
+        this.route();
+      })
+      // AudioWorklet needs a secure context; without it playback carries on unshifted.
+      .catch(() => {})
+      .finally(() => {
+        if (this.context === ctx) this.pitchShifterLoading = false;
+      });
+  }
+
+  private route(): void {
+    if (!this.context || !this.bus || !this.analyser) return;
+    this.bus.disconnect();
+    if (this.pitchRatio !== 1 && this.pitchShifter) {
+      this.pitchShifter.parameters.get("pitchRatio")!.setValueAtTime(this.pitchRatio, this.context.currentTime);
+      this.bus.connect(this.pitchShifter);
+    } else {
+      this.bus.connect(this.analyser);
+    }
+  }
+
+  private ensureContext(): AudioContext {
+    if (!this.context) {
+      this.context = new AudioContext();
+      this.analyser = this.context.createAnalyser();
+      this.analyser.fftSize = 64;
+      this.analyser.connect(this.context.destination);
+      this.bus = this.context.createGain();
+      this.bus.connect(this.analyser);
+      this.decks = this.context.createGain();
+      this.decks.connect(this.bus);
+      if (this.pitchRatio !== 1) this.loadPitchShifter();
+    }
+    return this.context;
+  }
+}
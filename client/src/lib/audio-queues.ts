@@ -0,0 +1,14 @@
+import { siteApiUrl } from "@/lib/sites";
+
+/** Also the prefix of every queue query, so invalidating it refreshes the list and each queue's tracks. */
+export function audioQueuesQueryKey(site: string) {
+  return [siteApiUrl(site, "/audio-queues")];
+}
+
+export function audioQueueQueryKey(site: string, queueId: number) {
+  return [siteApiUrl(site, "/audio-queues"), queueId];
+}
+
+export function audioQueueApiUrl(site: string, queueId: number): string {
+  return siteApiUrl(site, `/audio-queues/${queueId}`);
+}
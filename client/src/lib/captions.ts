@@ -0,0 +1,35 @@
+import type { CaptionFont, CaptionTrack } from "@shared/schema";
+import { siteApiUrl } from "@/lib/sites";
+
+export const CAPTION_FONT_FAMILIES: Record<CaptionFont, { label: string; css: string }> = {
+  sans: { label: "Sans", css: "ui-sans-serif, system-ui, sans-serif" },
+  serif: { label: "Serif", css: "ui-serif, Georgia, serif" },
+  mono: { label: "Mono", css: "ui-monospace, SFMono-Regular, monospace" },
+  rounded: { label: "Rounded", css: "ui-rounded, 'SF Pro Rounded', 'Nunito', sans-serif" },
+};
+
+export function captionsQueryKey(site: string, mediaUrl: string) {
+  return [siteApiUrl(site, "/captions"), mediaUrl];
+}
+
+export function captionTrackApiUrl(site: string, id: number): string {
+  return siteApiUrl(site, `/captions/${id}`);
+}
+
+/** The captions attached to the track at `mediaUrl`, or null when it has none. */
+export async function findCaptionTrack(site: string, mediaUrl: string): Promise<CaptionTrack | null> {
+  const res = await fetch(siteApiUrl(site, `/captions?mediaUrl=${encodeURIComponent(mediaUrl)}`), { credentials: "include" });
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+  return res.json();
+}
+
+/** Attaches a .vtt or .lrc file to the track, replacing its captions; editors only. */
+export async function attachCaptions(site: string, mediaUrl: string, file: File): Promise<CaptionTrack> {
+  const body = new FormData();
+  body.append("mediaUrl", mediaUrl);
+  body.append("file", file);
+  const res = await fetch(siteApiUrl(site, "/captions"), { method: "PUT", body, credentials: "include" });
+  if (!res.ok) throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+  return res.json();
+}
@@ -0,0 +1,37 @@
+import type { CuePoint } from "@shared/schema";
+import { siteApiUrl } from "@/lib/sites";
+
+export function cuePointsQueryKey(site: string, mediaUrl: string) {
+  return [siteApiUrl(site, `/cue-points?mediaUrl=${encodeURIComponent(mediaUrl)}`)];
+}
+
+export function cuePointsApiUrl(site: string): string {
+  return siteApiUrl(site, "/cue-points");
+}
+
+export function cuePointApiUrl(site: string, id: number): string {
+  return siteApiUrl(site, `/cue-points/${id}`);
+}
+
+/** Cue points of a YouTube video are stored under its watch URL. */
+export function youtubeMediaUrl(videoId: string): string {
+  return `https://www.youtube.com/watch?v=${videoId}`;
+}
+
+/** m:ss.s, precise enough to tell cues a beat apart. */
+export function formatCueTime(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  return `${mins}:${(seconds % 60).toFixed(1).padStart(4, "0")}`;
+}
+
+/** Within this much of a cue's start, "previous" skips to the cue before it, like a track's previous button. */
+const PREVIOUS_GRACE_SECONDS = 1;
+
+/** The cue after `time`, or the one before it; `cues` are sorted by start. */
+export function adjacentCue(cues: CuePoint[], time: number, direction: "previous" | "next"): CuePoint | undefined {
+  if (direction === "next") return cues.find((cue) => cue.startSeconds > time + 0.05);
+  for (let i = cues.length - 1; i >= 0; i--) {
+    if (cues[i].startSeconds < time - PREVIOUS_GRACE_SECONDS) return cues[i];
+  }
+  return undefined;
+}
@@ -0,0 +1,63 @@
+/**
+ * Track loudness for audio queue normalization. Tracks are measured once, in
+ * the editor's browser when they are added, as gated RMS in dBFS: the
+ * BS.1770 gating scheme without its K-weighting filter, which is close enough
+ * to even out levels between songs.
+ */
+
+/** Level every normalized track is brought to. */
+export const TARGET_LOUDNESS_DB = -18;
+/** Quiet tracks are lifted less than loud ones are cut, to keep boosted peaks from clipping. */
+const MAX_BOOST_DB = 6;
+const MAX_CUT_DB = 12;
+const BLOCK_SECONDS = 0.4;
+const ABSOLUTE_GATE_DB = -70;
+const RELATIVE_GATE_DB = -10;
+
+function toDb(power: number): number {
+  return 10 * Math.log10(power);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function gatedLoudness(buffer: AudioBuffer): number | null {
+  const blockLength = Math.max(1, Math.floor(buffer.sampleRate * BLOCK_SECONDS));
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < buffer.numberOfChannels; c++) channels.push(buffer.getChannelData(c));
+  const blocks: number[] = [];
+  for (let start = 0; start + blockLength <= buffer.length; start += blockLength) {
+    let sum = 0;
+    for (const data of channels) {
+      for (let i = start; i < start + blockLength; i++) sum += data[i] * data[i];
+    }
+    blocks.push(sum / (blockLength * channels.length));
+  }
+  const audible = blocks.filter((power) => power > 0 && toDb(power) > ABSOLUTE_GATE_DB);
+  if (audible.length === 0) return null;
+  const threshold = toDb(mean(audible)) + RELATIVE_GATE_DB;
+  const gated = audible.filter((power) => toDb(power) > threshold);
+  return toDb(mean(gated.length > 0 ? gated : audible));
+}
+
+/** Downloads and decodes the file; null when it cannot be fetched (e.g. no CORS headers) or decoded. */
+export async function measureLoudness(url: string): Promise<number | null> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const data = await response.arrayBuffer();
+    const buffer = await new OfflineAudioContext(1, 1, 44100).decodeAudioData(data);
+    const loudness = gatedLoudness(buffer);
+    return loudness === null ? null : Math.round(loudness * 10) / 10;
+  } catch {
+    return null;
+  }
+}
+
+/** Linear gain that brings a track measured at `loudnessDb` to the target; unmeasured tracks play unchanged. */
+export function normalizationGain(loudnessDb: number | null): number {
+  if (loudnessDb === null) return 1;
+  const db = Math.max(-MAX_CUT_DB, Math.min(MAX_BOOST_DB, TARGET_LOUDNESS_DB - loudnessDb));
+  return Math.pow(10, db / 20);
+}
@@ -0,0 +1,69 @@
+import type { MediaAssetWithJobs, MediaOutput } from "@shared/schema";
+import { siteApiUrl } from "@/lib/sites";
+
+export function mediaQueryKey(site: string) {
+  return [siteApiUrl(site, "/media")];
+}
+
+/** Bytes served per file over the last 30 days; editors only. */
+export function mediaBandwidthQueryKey(site: string) {
+  return [siteApiUrl(site, "/media/bandwidth")];
+}
+
+export function mediaApiUrl(site: string, id: number): string {
+  return siteApiUrl(site, `/media/${id}`);
+}
+
+/** The upload exactly as it was sent. */
+export function mediaFileUrl(site: string, id: number): string {
+  return siteApiUrl(site, `/media/${id}/file`);
+}
+
+/** Same-origin URL the players load a library file from: the web-safe copy once transcoding has made it. */
+export function mediaPlaybackUrl(site: string, id: number): string {
+  return siteApiUrl(site, `/media/${id}/playback`);
+}
+
+export function mediaOutputUrl(site: string, id: number, output: Exclude<MediaOutput, "hls">): string {
+  return siteApiUrl(site, `/media/${id}/outputs/${output}`);
+}
+
+/** Master playlist of a video's HLS renditions, for the HLS source mode on /view. */
+export function mediaHlsUrl(site: string, id: number): string {
+  return siteApiUrl(site, `/media/${id}/hls/master.m3u8`);
+}
+
+export function mediaJobRetryUrl(site: string, id: number, jobId: number): string {
+  return siteApiUrl(site, `/media/${id}/jobs/${jobId}/retry`);
+}
+
+/**
+ * Uploads one file to the site's media library. Uses XMLHttpRequest rather
+ * than fetch so large videos can report progress; errors carry the same
+ * "status: body" message as `apiRequest`, so `apiErrorMessage` reads them.
+ */
+export function uploadMedia(site: string, file: File, onProgress?: (percent: number) => void): Promise<MediaAssetWithJobs> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", siteApiUrl(site, "/media"));
+    xhr.withCredentials = true;
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress?.(Math.round((e.loaded / e.total) * 100));
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) resolve(JSON.parse(xhr.responseText));
+      else reject(new Error(`${xhr.status}: ${xhr.responseText || xhr.statusText}`));
+    };
+    xhr.onerror = () => reject(new Error("Upload failed: network error"));
+    const body = new FormData();
+    body.append("file", file);
+    xhr.send(body);
+  });
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
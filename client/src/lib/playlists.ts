@@ -0,0 +1,14 @@
+import { siteApiUrl } from "@/lib/sites";
+
+/** Also the prefix of every item query, so invalidating it refreshes all lists and their items. */
+export function playlistsQueryKey(site: string) {
+  return [siteApiUrl(site, "/playlists")];
+}
+
+export function playlistItemsQueryKey(site: string, playlistId: number) {
+  return [siteApiUrl(site, "/playlists"), playlistId, "items"];
+}
+
+export function playlistApiUrl(site: string, playlistId: number): string {
+  return siteApiUrl(site, `/playlists/${playlistId}`);
+}
@@ -0,0 +1,32 @@
+import { DEFAULT_PROFILE } from "@shared/schema";
+import { siteApiUrl } from "@/lib/sites";
+
+export function getProfileFromLocation(): string {
+  const profile = new URLSearchParams(window.location.search).get("profile");
+  return profile && profile.trim() ? profile.trim() : DEFAULT_PROFILE;
+}
+
+export function setProfileInLocation(profile: string) {
+  const url = new URL(window.location.href);
+  if (profile === DEFAULT_PROFILE) {
+    url.searchParams.delete("profile");
+  } else {
+    url.searchParams.set("profile", profile);
+  }
+  window.history.replaceState(window.history.state, "", url.toString());
+}
+
+/** Settings URL for a profile; a null profile lets the server pick the currently scheduled one. */
+export function routeSettingsUrl(site: string, route: string, width: number, profile: string | null): string {
+  const params = new URLSearchParams({ width: String(width) });
+  if (profile !== null) params.set("profile", profile);
+  return siteApiUrl(site, `/route-settings/${route}?${params.toString()}`);
+}
+
+export function profilesQueryKey(site: string, route: string) {
+  return [siteApiUrl(site, "/route-settings"), route, "profiles"];
+}
+
+export function profileApiUrl(site: string, route: string, profile: string): string {
+  return siteApiUrl(site, `/route-settings/${route}/profiles/${encodeURIComponent(profile)}`);
+}
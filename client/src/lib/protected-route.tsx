@@ -0,0 +1,24 @@
+import type { ReactNode } from "react";
+import { Redirect } from "wouter";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+export function RequireAuth({ children }: { children: ReactNode }) {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    const next = window.location.pathname + window.location.search;
+    // "~" keeps the redirect absolute when rendered inside the nested /s/:site routes.
+    return <Redirect to={`~/login?next=${encodeURIComponent(next)}`} />;
+  }
+
+  return <>{children}</>;
+}
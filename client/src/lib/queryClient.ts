@@ -7,6 +7,17 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+/** Turns an `apiRequest` error ("401: {\"error\":\"...\"}") into the server's message. */
+export function apiErrorMessage(err: unknown): string {
+  const text = err instanceof Error ? err.message.replace(/^\d+:\s*/, "") : String(err);
+  try {
+    const body = JSON.parse(text);
+    return typeof body?.error === "string" ? body.error : text;
+  } catch {
+    return text;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -0,0 +1,41 @@
+import { createContext, useContext, type ReactNode } from "react";
+import { DEFAULT_PROFILE, DEFAULT_SITE } from "@shared/schema";
+
+export interface SiteInfo {
+  slug: string;
+  name: string;
+  defaultUrls: Record<string, string>;
+}
+
+const SiteContext = createContext<string>(DEFAULT_SITE);
+
+export function SiteProvider({ site, children }: { site: string; children: ReactNode }) {
+  return <SiteContext.Provider value={site}>{children}</SiteContext.Provider>;
+}
+
+/** Slug of the site the current page belongs to; the default site outside `/s/:site`. */
+export function useSite(): string {
+  return useContext(SiteContext);
+}
+
+/** API URL scoped to a site. The default site keeps the unprefixed `/api` paths. */
+export function siteApiUrl(site: string, path: string): string {
+  return site === DEFAULT_SITE ? `/api${path}` : `/api/sites/${encodeURIComponent(site)}${path}`;
+}
+
+/** Page path scoped to a site, e.g. `/s/acme/view` for `/view`. */
+export function sitePath(site: string, path: string): string {
+  return site === DEFAULT_SITE ? path : `/s/${encodeURIComponent(site)}${path}`;
+}
+
+/** Absolute URL of a route's embed view for a site and profile, for use in an iframe. */
+export function siteEmbedUrl(site: string, route: string, profile: string): string {
+  const url = new URL(sitePath(site, `/${route}/embed`), window.location.origin);
+  if (profile !== DEFAULT_PROFILE) url.searchParams.set("profile", profile);
+  return url.toString();
+}
+
+/** The stem separator page for a site, as the players open it in an iframe. */
+export function stemPageUrl(site: string): string {
+  return sitePath(site, "/stem");
+}
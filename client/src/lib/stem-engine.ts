@@ -0,0 +1,203 @@
+/**
+ * Web Audio graph for the /stem mixer: every stem is a decoded buffer with
+ * its own gain and pan, all started against the same context time so they
+ * stay locked to the sample however long they play. /play's practice mode
+ * runs one inside its `AudioEngine` graph instead of a context of its own.
+ */
+import { DEFAULT_STEM_MIX, effectiveStemGains, type StemMix, type StemName } from "@shared/schema";
+
+/** Sources are scheduled this far ahead so every stem is queued before the first one sounds. */
+export const START_LEAD_SECONDS = 0.05;
+/** Time constant for gain changes, short enough to feel instant without clicking. */
+const GAIN_SMOOTHING_SECONDS = 0.015;
+
+interface StemTrack {
+  buffer: AudioBuffer;
+  gain: GainNode;
+  panner: StereoPannerNode;
+  source: AudioBufferSourceNode | null;
+  mix: StemMix;
+}
+
+export interface StemEngineOutput {
+  context: AudioContext;
+  destination: AudioNode;
+}
+
+export class StemEngine {
+  private context: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private tracks = new Map<StemName, StemTrack>();
+  /** Context time of the last start or rate change; only meaningful while playing. */
+  private anchorTime = 0;
+  /** Position at `anchorTime` while playing, and the position while paused. */
+  private offset = 0;
+  private rate = 1;
+  private volume = 1;
+  private playing = false;
+  /** Called when playback runs off the end of the longest stem. */
+  onEnded: (() => void) | null = null;
+
+  /** With `output`, plays into that node of someone else's context, which `close` then leaves open. */
+  constructor(private readonly output?: StemEngineOutput) {}
+
+  /** Decodes a stem file at the context's sample rate, so no stem is resampled differently from another. */
+  decode(data: ArrayBuffer): Promise<AudioBuffer> {
+    return this.ensureContext().decodeAudioData(data);
+  }
+
+  /** Replaces every stem, keeping the mix of stems that stay; playback stops and goes back to the start. */
+  setStems(buffers: Map<StemName, AudioBuffer>): void {
+    this.stop();
+    this.offset = 0;
+    const ctx = this.ensureContext();
+    const previous = this.tracks;
+    this.tracks = new Map();
+    for (const [name, buffer] of Array.from(buffers)) {
+      const gain = ctx.createGain();
+      const panner = ctx.createStereoPanner();
+      gain.connect(panner);
+      panner.connect(this.master!);
+      this.tracks.set(name, { buffer, gain, panner, source: null, mix: previous.get(name)?.mix ?? DEFAULT_STEM_MIX });
+    }
+    for (const track of Array.from(previous.values())) track.panner.disconnect();
+    this.applyMix(true);
+  }
+
+  get duration(): number {
+    let longest = 0;
+    for (const track of Array.from(this.tracks.values())) longest = Math.max(longest, track.buffer.duration);
+    return longest;
+  }
+
+  get isPlaying(): boolean {
+    return this.playing;
+  }
+
+  get currentTime(): number {
+    if (!this.playing || !this.context) return this.offset;
+    return Math.min(this.duration, this.offset + Math.max(0, this.context.currentTime - this.anchorTime) * this.rate);
+  }
+
+  /** Starts every stem from the current position; must follow a user gesture the first time. */
+  async play(): Promise<void> {
+    if (this.playing || this.tracks.size === 0) return;
+    const ctx = this.ensureContext();
+    if (ctx.state === "suspended") await ctx.resume();
+    // Another call may have started the stems while the context resumed.
+    if (this.playing) return;
+    if (this.offset >= this.duration) this.offset = 0;
+    const when = ctx.currentTime + START_LEAD_SECONDS;
+    this.anchorTime = when;
+    let longest: AudioBufferSourceNode | null = null;
+    let longestDuration = -1;
+    for (const track of Array.from(this.tracks.values())) {
+      const source = ctx.createBufferSource();
+      source.buffer = track.buffer;
+      source.playbackRate.value = this.rate;
+      source.connect(track.gain);
+      if (this.offset < track.buffer.duration) source.start(when, this.offset);
+      track.source = source;
+      if (track.buffer.duration > longestDuration) {
+        longest = source;
+        longestDuration = track.buffer.duration;
+      }
+    }
+    this.playing = true;
+    longest!.onended = () => {
+      // Stopping on pause or seek also fires this; only a source still in use has really reached the end.
+      if (!this.playing || !Array.from(this.tracks.values()).some((track) => track.source === longest)) return;
+      this.stop();
+      this.offset = 0;
+      this.onEnded?.();
+    };
+  }
+
+  pause(): void {
+    if (!this.playing) return;
+    this.offset = this.currentTime;
+    this.stop();
+  }
+
+  seek(seconds: number): void {
+    const wasPlaying = this.playing;
+    this.stop();
+    this.offset = Math.min(Math.max(0, seconds), this.duration);
+    if (wasPlaying) void this.play();
+  }
+
+  /** Changes speed from the current position on; like a plain buffer source, pitch moves with it. */
+  setRate(rate: number): void {
+    if (rate === this.rate) return;
+    if (this.playing && this.context) {
+      this.offset = this.currentTime;
+      this.anchorTime = Math.max(this.context.currentTime, this.anchorTime);
+      for (const track of Array.from(this.tracks.values())) track.source?.playbackRate.setValueAtTime(rate, this.anchorTime);
+    }
+    this.rate = rate;
+  }
+
+  /** Overall level, 0 to 1, on top of the mix. */
+  setVolume(volume: number): void {
+    if (volume === this.volume) return;
+    this.volume = volume;
+    if (this.context && this.master) this.master.gain.setTargetAtTime(volume, this.context.currentTime, GAIN_SMOOTHING_SECONDS);
+  }
+
+  setMix(name: StemName, mix: Partial<StemMix>): void {
+    const track = this.tracks.get(name);
+    if (!track) return;
+    track.mix = { ...track.mix, ...mix };
+    this.applyMix(false);
+  }
+
+  close(): void {
+    this.stop();
+    if (this.output) this.master?.disconnect();
+    else this.context?.close().catch(() => {});
+    this.context = null;
+    this.master = null;
+    this.tracks = new Map();
+    this.offset = 0;
+  }
+
+  private applyMix(immediate: boolean): void {
+    if (!this.context) return;
+    const entries = Array.from(this.tracks);
+    const gains = effectiveStemGains(entries.map(([name]) => name), Object.fromEntries(entries.map(([name, track]) => [name, track.mix])));
+    const now = this.context.currentTime;
+    for (const [name, track] of entries) {
+      const gain = gains[name] ?? 0;
+      if (immediate) {
+        track.gain.gain.setValueAtTime(gain, now);
+        track.panner.pan.setValueAtTime(track.mix.pan, now);
+      } else {
+        track.gain.gain.setTargetAtTime(gain, now, GAIN_SMOOTHING_SECONDS);
+        track.panner.pan.setTargetAtTime(track.mix.pan, now, GAIN_SMOOTHING_SECONDS);
+      }
+    }
+  }
+
+  private stop(): void {
+    this.playing = false;
+    for (const track of Array.from(this.tracks.values())) {
+      if (!track.source) continue;
+      const source = track.source;
+      track.source = null;
+      try {
+        source.stop();
+      } catch { /* never started: the stem is shorter than the position */ }
+      source.disconnect();
+    }
+  }
+
+  private ensureContext(): AudioContext {
+    if (!this.context) {
+      this.context = this.output?.context ?? new AudioContext();
+      this.master = this.context.createGain();
+      this.master.gain.value = this.volume;
+      this.master.connect(this.output?.destination ?? this.context.destination);
+    }
+    return this.context;
+  }
+}
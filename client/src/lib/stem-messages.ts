@@ -0,0 +1,46 @@
+/**
+ * The messages passed between a player and the /stem page it opens in an
+ * iframe. Both sides are this app, so messages are only sent to and accepted
+ * from its own origin.
+ */
+
+/** Player to stem page: the track to separate. */
+export interface StemPageMessage {
+  type: "load-audio-url";
+  url: string;
+}
+
+/** Stem page to player: its listener is up, so the track can be sent. */
+export interface StemReadyMessage {
+  type: "stem-ready";
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+export function postToStemPage(target: Window, message: StemPageMessage): void {
+  target.postMessage(message, window.location.origin);
+}
+
+export function postStemReady(target: Window): void {
+  const message: StemReadyMessage = { type: "stem-ready" };
+  target.postMessage(message, window.location.origin);
+}
+
+/** The message when it is a well-formed `StemPageMessage` from this origin, otherwise null. */
+export function readStemPageMessage(event: MessageEvent): StemPageMessage | null {
+  const data: unknown = event.data;
+  if (event.origin !== window.location.origin || !isRecord(data)) return null;
+  if (data.type === "load-audio-url" && typeof data.url === "string") {
+    return { type: "load-audio-url", url: data.url };
+  }
+  return null;
+}
+
+/** True for a ready message from `source`, the stem page's window. */
+export function isStemReadyMessage(event: MessageEvent, source: Window | null | undefined): boolean {
+  const data: unknown = event.data;
+  return event.origin === window.location.origin && source != null && event.source === source
+    && isRecord(data) && data.type === "stem-ready";
+}
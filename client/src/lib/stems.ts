@@ -0,0 +1,115 @@
+import type { StemJob, StemModel, StemName } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { siteApiUrl } from "@/lib/sites";
+
+export const STEM_MODEL_LABELS: Record<StemModel, { name: string; hint: string }> = {
+  htdemucs: { name: "HTDemucs", hint: "High quality" },
+  htdemucs_ft: { name: "HTDemucs FT", hint: "Fine-tuned, 4x slower" },
+  htdemucs_6s: { name: "6-Stem", hint: "Adds guitar and piano" },
+  mdx_extra: { name: "MDX Extra", hint: "Balanced" },
+};
+
+export const STEM_COLORS: Record<StemName, string> = {
+  vocals: "#ff3366",
+  drums: "#ffcc00",
+  bass: "#00ff88",
+  guitar: "#ff8833",
+  piano: "#cc66ff",
+  other: "#3399ff",
+};
+
+export function stemFileUrl(site: string, jobId: number, stem: StemName): string {
+  return siteApiUrl(site, `/stems/${jobId}/${stem}`);
+}
+
+/** Cache key for `findStemJobForUrl`. */
+export function stemSourceQueryKey(site: string, sourceUrl: string) {
+  return [siteApiUrl(site, "/stems"), "source", sourceUrl];
+}
+
+export function stemMixdownUrl(site: string, jobId: number): string {
+  return siteApiUrl(site, `/stems/${jobId}/mixdown`);
+}
+
+/** Hex SHA-256 of the file, which is how the server recognises a track it has separated before. */
+export async function sha256Hex(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function lookupStemJob(site: string, query: string): Promise<StemJob | null> {
+  const res = await fetch(siteApiUrl(site, `/stems?${query}`), { credentials: "include" });
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+  return res.json();
+}
+
+/** The site's earlier separation of this track with `model`, or null when there is none. */
+export function findStemJob(site: string, sha256: string, model: StemModel): Promise<StemJob | null> {
+  return lookupStemJob(site, `sha256=${sha256}&model=${model}`);
+}
+
+/** The separation last linked to this audio URL, or null when the track has not been separated from it. */
+export function findStemJobForUrl(site: string, sourceUrl: string): Promise<StemJob | null> {
+  return lookupStemJob(site, `sourceUrl=${encodeURIComponent(sourceUrl)}`);
+}
+
+/** Makes the job the stems `findStemJobForUrl` returns for `sourceUrl`; editors only. */
+export async function linkStemJobSource(site: string, jobId: number, sourceUrl: string): Promise<StemJob> {
+  const res = await apiRequest("PATCH", siteApiUrl(site, `/stems/${jobId}`), { sourceUrl });
+  return res.json();
+}
+
+/**
+ * Uploads a track for separation; editors only. Like `uploadMedia`, errors
+ * carry the "status: body" message that `apiErrorMessage` reads.
+ */
+export function queueStemSeparation(site: string, file: File, model: StemModel, onProgress?: (percent: number) => void): Promise<StemJob> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", siteApiUrl(site, "/stems"));
+    xhr.withCredentials = true;
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress?.(Math.round((e.loaded / e.total) * 100));
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) resolve(JSON.parse(xhr.responseText));
+      else reject(new Error(`${xhr.status}: ${xhr.responseText || xhr.statusText}`));
+    };
+    xhr.onerror = () => reject(new Error("Upload failed: network error"));
+    const body = new FormData();
+    body.append("model", model);
+    body.append("file", file);
+    xhr.send(body);
+  });
+}
+
+/**
+ * Follows the job's event stream, passing each update to `onUpdate`, until
+ * the stems are ready. Rejects when the job fails for good, the stream is
+ * lost, or `signal` aborts.
+ */
+export function watchStemJob(site: string, job: StemJob, onUpdate: (job: StemJob) => void, signal?: AbortSignal): Promise<StemJob> {
+  onUpdate(job);
+  if (job.status === "done") return Promise.resolve(job);
+  return new Promise((resolve, reject) => {
+    const events = new EventSource(siteApiUrl(site, `/stems/${job.id}/events`), { withCredentials: true });
+    const finish = (settle: () => void) => {
+      events.close();
+      signal?.removeEventListener("abort", abort);
+      settle();
+    };
+    const abort = () => finish(() => reject(new DOMException("Stopped watching the stem job", "AbortError")));
+    signal?.addEventListener("abort", abort);
+    events.onmessage = (event: MessageEvent<string>) => {
+      const update: StemJob = JSON.parse(event.data);
+      onUpdate(update);
+      if (update.status === "done") finish(() => resolve(update));
+      else if (update.status === "failed") finish(() => reject(new Error(`Separation failed: ${update.error ?? "unknown error"}`)));
+    };
+    // EventSource reconnects by itself after a dropped connection; only give up once it stops trying.
+    events.onerror = () => {
+      if (events.readyState === EventSource.CLOSED) finish(() => reject(new Error("Lost connection to the separation job")));
+    };
+  });
+}
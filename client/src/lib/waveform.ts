@@ -0,0 +1,118 @@
+/**
+ * Waveforms for the audio scrubber: peaks to draw plus the transients and
+ * silence edges the loop handles snap to. Each file is analysed once and
+ * kept in localStorage, so reopening the page draws it straight away.
+ */
+
+const BUCKETS = 1000;
+/** Decoding resamples to this rate: enough for levels and onsets, and a long song stays a few MB. */
+const DECODE_SAMPLE_RATE = 11025;
+/** Larger downloads are skipped rather than decoded into memory in full. */
+const MAX_DOWNLOAD_BYTES = 150 * 1024 * 1024;
+const CACHE_KEY = "play-waveforms";
+const CACHE_ENTRIES = 20;
+
+export interface WaveformRequest {
+  channels: Float32Array[];
+  sampleRate: number;
+  buckets: number;
+}
+
+export interface WaveformAnalysis {
+  duration: number;
+  /** Loudest sample per bucket across the file, scaled so the loudest bucket is 1. */
+  peaks: number[];
+  /** Seconds where a note or hit starts. */
+  transients: number[];
+  /** Seconds where a silence of at least 200 ms starts or ends. */
+  silenceEdges: number[];
+}
+
+interface CachedWaveform extends Omit<WaveformAnalysis, "peaks"> {
+  url: string;
+  /** Peaks as 0-255 to keep the cache small. */
+  peaks: number[];
+}
+
+function readCache(): CachedWaveform[] {
+  try {
+    const stored = localStorage.getItem(CACHE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch { return []; }
+}
+
+function cached(url: string): WaveformAnalysis | null {
+  const entry = readCache().find((e) => e.url === url);
+  if (!entry) return null;
+  return { ...entry, peaks: entry.peaks.map((p) => p / 255) };
+}
+
+function remember(url: string, waveform: WaveformAnalysis) {
+  const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+  const entry: CachedWaveform = {
+    url,
+    duration: waveform.duration,
+    peaks: waveform.peaks.map((p) => Math.round(p * 255)),
+    transients: waveform.transients.map(round),
+    silenceEdges: waveform.silenceEdges.map(round),
+  };
+  const entries = [entry, ...readCache().filter((e) => e.url !== url)].slice(0, CACHE_ENTRIES);
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(entries));
+  } catch { /* Storage full: the waveform is simply worked out again next time. */ }
+}
+
+function analyse(buffer: AudioBuffer): Promise<WaveformAnalysis> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("../workers/waveform-worker.ts", import.meta.url), { type: "module" });
+    const channels: Float32Array[] = [];
+    for (let c = 0; c < buffer.numberOfChannels; c++) channels.push(buffer.getChannelData(c).slice());
+    worker.onmessage = (event: MessageEvent<WaveformAnalysis>) => {
+      worker.terminate();
+      resolve(event.data);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message));
+    };
+    const request: WaveformRequest = { channels, sampleRate: buffer.sampleRate, buckets: BUCKETS };
+    worker.postMessage(request, channels.map((data) => data.buffer));
+  });
+}
+
+/** The file's waveform from the cache, or downloaded and analysed; null when it cannot be fetched (e.g. no CORS headers) or decoded. */
+export async function loadWaveform(url: string): Promise<WaveformAnalysis | null> {
+  const hit = cached(url);
+  if (hit) return hit;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    if (Number(response.headers.get("Content-Length")) > MAX_DOWNLOAD_BYTES) return null;
+    const data = await response.arrayBuffer();
+    const buffer = await new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE).decodeAudioData(data);
+    const waveform = await analyse(buffer);
+    remember(url, waveform);
+    return waveform;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The transient or silence edge nearest `seconds`, when one is within
+ * `toleranceSeconds`; otherwise `seconds` unchanged.
+ */
+export function snapToWaveform(waveform: WaveformAnalysis, seconds: number, toleranceSeconds: number): number {
+  let best = seconds;
+  let bestDistance = toleranceSeconds;
+  for (const points of [waveform.transients, waveform.silenceEdges]) {
+    for (const point of points) {
+      const distance = Math.abs(point - seconds);
+      if (distance <= bestDistance) {
+        best = point;
+        bestDistance = distance;
+      }
+    }
+  }
+  return best;
+}
@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { BarChart3, Loader2 } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { DEFAULT_PROFILE, type AnalyticsSummary, type RouteProfileSummary, type SettingsRoute } from "@shared/schema";
+import { apiErrorMessage } from "@/lib/queryClient";
+import { profilesQueryKey } from "@/lib/profiles";
+import { siteApiUrl, useSite } from "@/lib/sites";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+const ALL_PROFILES = "__all__";
+const DAY_RANGES = [7, 30, 90];
+
+const engagementConfig = {
+  visit_open: { label: "Visit Site opens", color: "hsl(var(--chart-1))" },
+  cta_click: { label: "CTA clicks", color: "hsl(var(--chart-2))" },
+  qr_open: { label: "QR opens", color: "hsl(var(--chart-3))" },
+  play: { label: "Plays", color: "hsl(var(--chart-4))" },
+  unmute: { label: "Unmutes", color: "hsl(var(--chart-5))" },
+} satisfies ChartConfig;
+
+const watchConfig = {
+  minutes: { label: "Minutes watched", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function percent(part: number, whole: number): string {
+  return whole > 0 ? `${((part / whole) * 100).toFixed(1)}%` : "—";
+}
+
+function StatCard({ title, value, hint, testId }: { title: string; value: string; hint?: string; testId: string }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardDescription>{title}</CardDescription>
+        <CardTitle className="text-2xl" data-testid={testId}>{value}</CardTitle>
+      </CardHeader>
+      {hint && <CardContent className="pt-0 text-xs text-muted-foreground">{hint}</CardContent>}
+    </Card>
+  );
+}
+
+export default function AnalyticsPage() {
+  const site = useSite();
+  const [route, setRoute] = useState<SettingsRoute>("view");
+  const [profile, setProfile] = useState(ALL_PROFILES);
+  const [days, setDays] = useState(30);
+
+  const { data: profiles = [] } = useQuery<RouteProfileSummary[]>({
+    queryKey: profilesQueryKey(site, route),
+  });
+
+  const params = new URLSearchParams({ days: String(days) });
+  if (profile !== ALL_PROFILES) params.set("profile", profile);
+  const { data: summary, isLoading, error } = useQuery<AnalyticsSummary>({
+    queryKey: [siteApiUrl(site, `/analytics/${route}?${params.toString()}`)],
+    staleTime: 0,
+  });
+
+  const profileNames = Array.from(new Set([DEFAULT_PROFILE, ...profiles.map((p) => p.name)]));
+  const totals = summary?.totals;
+  const watchDaily = summary?.daily.map((d) => ({ date: d.date, minutes: Math.round(d.watch_time / 6) / 10 })) ?? [];
+
+  return (
+    <div className="min-h-screen w-full bg-gray-50">
+      <div className="max-w-6xl mx-auto p-4 sm:p-6 space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <BarChart3 className="w-6 h-6" />
+            <h1 className="text-2xl font-semibold">Analytics</h1>
+          </div>
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Route</Label>
+              <Select value={route} onValueChange={(value) => { setRoute(value as SettingsRoute); setProfile(ALL_PROFILES); }}>
+                <SelectTrigger className="w-32" data-testid="select-analytics-route">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="view">/view</SelectItem>
+                  <SelectItem value="play">/play</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Profile</Label>
+              <Select value={profile} onValueChange={setProfile}>
+                <SelectTrigger className="w-40" data-testid="select-analytics-profile">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_PROFILES}>All profiles</SelectItem>
+                  {profileNames.map((name) => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Period</Label>
+              <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+                <SelectTrigger className="w-32" data-testid="select-analytics-days">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DAY_RANGES.map((n) => (
+                    <SelectItem key={n} value={String(n)}>Last {n} days</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        {isLoading && (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {error && (
+          <Card>
+            <CardContent className="pt-6 text-sm text-destructive" data-testid="text-analytics-error">
+              {apiErrorMessage(error)}
+            </CardContent>
+          </Card>
+        )}
+
+        {summary && totals && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <StatCard
+                title="Visit Site opens"
+                value={String(totals.visit_open)}
+                hint={`${percent(totals.visit_open, summary.sessions)} of sessions`}
+                testId="stat-visit-open"
+              />
+              <StatCard
+                title="CTA clicks"
+                value={String(totals.cta_click)}
+                hint={`${percent(totals.cta_click, totals.visit_open)} of visits`}
+                testId="stat-cta-click"
+              />
+              <StatCard
+                title="Click-throughs"
+                value={String(totals.visit_through)}
+                hint={`${percent(totals.visit_through, totals.visit_open)} of visits opened the site`}
+                testId="stat-visit-through"
+              />
+              <StatCard title="QR opens" value={String(totals.qr_open)} testId="stat-qr-open" />
+              <StatCard title="Sessions" value={String(summary.sessions)} testId="stat-sessions" />
+              <StatCard title="Plays" value={String(totals.play)} hint={`${totals.pause} pauses`} testId="stat-play" />
+              <StatCard title="Unmutes" value={String(totals.unmute)} hint={`${totals.mute} mutes`} testId="stat-unmute" />
+              <StatCard
+                title="Watch time"
+                value={formatDuration(totals.watch_time)}
+                hint={summary.sessions > 0 ? `${formatDuration(Math.round(totals.watch_time / summary.sessions))} per session` : undefined}
+                testId="stat-watch-time"
+              />
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Engagement per day</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {summary.daily.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No events recorded in this period.</p>
+                ) : (
+                  <ChartContainer config={engagementConfig} className="h-72 w-full aspect-auto" data-testid="chart-engagement">
+                    <LineChart data={summary.daily}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="date" tickLine={false} axisLine={false} />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      {Object.keys(engagementConfig).map((key) => (
+                        <Line key={key} type="monotone" dataKey={key} stroke={`var(--color-${key})`} strokeWidth={2} dot={false} />
+                      ))}
+                    </LineChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Watch time per day</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {watchDaily.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No playback recorded in this period.</p>
+                ) : (
+                  <ChartContainer config={watchConfig} className="h-56 w-full aspect-auto" data-testid="chart-watch-time">
+                    <BarChart data={watchDaily}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="date" tickLine={false} axisLine={false} />
+                      <YAxis tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="minutes" fill="var(--color-minutes)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+
+            {summary.profiles.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">By profile</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table data-testid="table-analytics-profiles">
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Profile</TableHead>
+                        <TableHead className="text-right">Visit opens</TableHead>
+                        <TableHead className="text-right">CTA clicks</TableHead>
+                        <TableHead className="text-right">QR opens</TableHead>
+                        <TableHead className="text-right">Plays</TableHead>
+                        <TableHead className="text-right">Unmutes</TableHead>
+                        <TableHead className="text-right">Watch time</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {summary.profiles.map((row) => (
+                        <TableRow key={row.profile}>
+                          <TableCell className="font-medium">{row.profile}</TableCell>
+                          <TableCell className="text-right">{row.visit_open}</TableCell>
+                          <TableCell className="text-right">{row.cta_click}</TableCell>
+                          <TableCell className="text-right">{row.qr_open}</TableCell>
+                          <TableCell className="text-right">{row.play}</TableCell>
+                          <TableCell className="text-right">{row.unmute}</TableCell>
+                          <TableCell className="text-right">{formatDuration(row.watch_time)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
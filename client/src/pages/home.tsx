@@ -1,7 +1,27 @@
 import { useState, useCallback, useRef, useEffect } from "react";
-import { ArrowRight, Menu, Volume2, VolumeX, Play, Pause, Square, Repeat, Link, Clock, Maximize2, Palette, ExternalLink, Eye, EyeOff, SkipBack, SkipForward, Film, Music, Headphones, Search, X, GripHorizontal, Minus, Plus, QrCode, Save } from "lucide-react";
-import { apiRequest } from "@/lib/queryClient";
+import { ArrowRight, Menu, Volume2, VolumeX, Play, Pause, Square, Repeat, Link, Clock, Maximize2, Palette, ExternalLink, Eye, EyeOff, SkipBack, SkipForward, Film, Music, Headphones, Search, X, GripHorizontal, Minus, Plus, QrCode, Save, MonitorSmartphone, LogOut, BarChart3, FlaskConical, CalendarClock, ListMusic, Shuffle, Captions, Users } from "lucide-react";
+import { containerShapeSchema, DEFAULT_SITE, captionFontSchema, captionPositionSchema, DEFAULT_PROFILE, MAX_CAPTION_FONT_SIZE, MIN_CAPTION_FONT_SIZE, parseRouteSettings, SETTINGS_SCHEMA_VERSION, type ViewSettings, type ViewGlobalUrls, type RouteSettings, type SourceMode, type ContainerShape, type RepeatMode, type PlaylistSummary, type CuePoint, type CaptionFont, type CaptionPosition } from "@shared/schema";
+import { CAPTION_FONT_FAMILIES } from "@/lib/captions";
+import { useQuery } from "@tanstack/react-query";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { playlistsQueryKey } from "@/lib/playlists";
+import { youtubeMediaUrl } from "@/lib/cue-points";
+import { getProfileFromLocation, profilesQueryKey, routeSettingsUrl, setProfileInLocation } from "@/lib/profiles";
+import { siteApiUrl, siteEmbedUrl, sitePath, stemPageUrl, useSite, type SiteInfo } from "@/lib/sites";
+import { postToStemPage } from "@/lib/stem-messages";
 import { useToast } from "@/hooks/use-toast";
+import { useBreakpointLayout } from "@/hooks/use-breakpoint-layout";
+import { useAuth } from "@/hooks/use-auth";
+import { useAnalytics } from "@/hooks/use-analytics";
+import { useExperiment } from "@/hooks/use-experiment";
+import { useScheduleReload } from "@/hooks/use-schedule-reload";
+import { usePlaylistPlayback, type PlaylistAdvance } from "@/hooks/use-playlist-playback";
+import { useHlsSource } from "@/hooks/use-hls-source";
+import { useCuePoints, useCueShortcuts } from "@/hooks/use-cue-points";
+import { useCaptions } from "@/hooks/use-captions";
+import { useStemPageReady } from "@/hooks/use-stem-page-ready";
+import { withVariant } from "@shared/experiments";
+import { hasRole, siteRole } from "@shared/permissions";
 import { QRCodeSVG } from "qrcode.react";
 import { HexColorPicker } from "react-colorful";
 import { Button } from "@/components/ui/button";
@@ -13,10 +33,20 @@ import { Switch } from "@/components/ui/switch";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { DraggableResizablePanel } from "@/components/ui/draggable-resizable-panel";
+import { ProfilePicker } from "@/components/ui/profile-picker";
+import { ExperimentManager } from "@/components/ui/experiment-manager";
+import { ScheduleManager } from "@/components/ui/schedule-manager";
+import { SiteMembersManager } from "@/components/ui/site-members-manager";
+import { MediaLibraryPicker } from "@/components/ui/media-library-picker";
+import { CueMarkers } from "@/components/ui/cue-markers";
+import { CuePointManager } from "@/components/ui/cue-point-manager";
+import { CaptionManager } from "@/components/ui/caption-manager";
+import { CaptionOverlay } from "@/components/ui/caption-overlay";
+import { PlaybackRateControl } from "@/components/ui/playback-rate-control";
+import { BreakpointManager } from "@/components/ui/breakpoint-manager";
+import { ConfigTransfer } from "@/components/ui/config-transfer";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 
-type SourceMode = "youtube" | "mp4";
-
 declare global {
   interface Window {
     YT: {
@@ -55,6 +85,9 @@ interface YouTubePlayer {
   getCurrentTime: () => number;
   getDuration: () => number;
   seekTo: (seconds: number, allowSeekAhead: boolean) => void;
+  /** Rounded by YouTube to a rate the video supports. */
+  setPlaybackRate: (suggestedRate: number) => void;
+  getPlaybackRate: () => number;
   cueVideoById: (videoId: string) => void;
   loadVideoById: (videoId: string) => void;
   destroy: () => void;
@@ -64,6 +97,7 @@ const DEFAULT_VIDEO_ID = "Gai7-HR2YZk";
 
 const YOUTUBE_URLS_KEY = "view-youtube-urls";
 const MP4_URLS_KEY = "view-mp4-urls";
+const HLS_URLS_KEY = "view-hls-urls";
 const MAX_HISTORY = 20;
 
 function loadUrlHistory(key: string): string[] {
@@ -107,8 +141,6 @@ function getLabelForUrl(url: string): string {
   }
 }
 
-type ContainerShape = "circle" | "oval" | "square" | "rectangle";
-
 const shapeStyles: Record<ContainerShape, { borderRadius: string; aspect: string; widthClass: string; heightClass: string }> = {
   circle: { borderRadius: "9999px", aspect: "1/1", widthClass: "w-[180px] sm:w-[220px] md:w-[280px]", heightClass: "h-[180px] sm:h-[220px] md:h-[280px]" },
   oval: { borderRadius: "9999px", aspect: "3/2", widthClass: "w-[270px] sm:w-[330px] md:w-[420px]", heightClass: "h-[180px] sm:h-[220px] md:h-[280px]" },
@@ -129,6 +161,15 @@ function extractVideoId(url: string): string | null {
   return null;
 }
 
+/** MP4 files and HLS streams both play on the page's own <video> element; only YouTube uses the iframe player. */
+function usesVideoElement(mode: SourceMode): boolean {
+  return mode !== "youtube";
+}
+
+function formatBitrate(bitsPerSecond: number): string {
+  return bitsPerSecond >= 1_000_000 ? `${(bitsPerSecond / 1_000_000).toFixed(1)} Mbps` : `${Math.round(bitsPerSecond / 1000)} kbps`;
+}
+
 function formatTime(seconds: number): string {
   if (!isFinite(seconds) || seconds < 0) return "0:00";
   const mins = Math.floor(seconds / 60);
@@ -194,7 +235,7 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
   const [isHovered, setIsHovered] = useState(false);
   const [title, setTitle] = useState("Click the Video Button");
   const [buttonLabel, setButtonLabel] = useState("Visit Site");
-  const [buttonUrl, setButtonUrl] = useState("https://rodbiz.digiucard.com/portfolio");
+  const [buttonUrl, setButtonUrl] = useState("");
   const [buttonColor, setButtonColor] = useState("#667eea");
   const [buttonPosX, setButtonPosX] = useState(50);
   const [buttonPosY, setButtonPosY] = useState(50);
@@ -211,7 +252,7 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
   const [ctaVisible, setCtaVisible] = useState(true);
   const [ctaFadeInSeconds, setCtaFadeInSeconds] = useState(1);
   const [ctaImageUrl, setCtaImageUrl] = useState("");
-  const [ctaShape, setCtaShape] = useState<"circle" | "oval" | "square" | "rectangle">("circle");
+  const [ctaShape, setCtaShape] = useState<ContainerShape>("circle");
   const [ctaBorderColor, setCtaBorderColor] = useState("#ffffff33");
   const [ctaBorderThickness, setCtaBorderThickness] = useState(4);
   const [ctaShadow3d, setCtaShadow3d] = useState(true);
@@ -219,6 +260,7 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
   const [ctaFadeComplete, setCtaFadeComplete] = useState(false);
   const [youtubeHistory, setYoutubeHistory] = useState<string[]>(() => loadUrlHistory(YOUTUBE_URLS_KEY));
   const [mp4History, setMp4History] = useState<string[]>(() => loadUrlHistory(MP4_URLS_KEY));
+  const [hlsHistory, setHlsHistory] = useState<string[]>(() => loadUrlHistory(HLS_URLS_KEY));
   const [videoUrl, setVideoUrl] = useState(() => {
     const history = loadUrlHistory(YOUTUBE_URLS_KEY);
     return history.length > 0 ? history[0] : `https://www.youtube.com/watch?v=${DEFAULT_VIDEO_ID}`;
@@ -235,13 +277,29 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
     const history = loadUrlHistory(MP4_URLS_KEY);
     return history.length > 0 ? history[0] : "";
   });
+  const [hlsUrl, setHlsUrl] = useState(() => {
+    const history = loadUrlHistory(HLS_URLS_KEY);
+    return history.length > 0 ? history[0] : "";
+  });
+  const [hlsQuality, setHlsQuality] = useState<number | null>(null);
   const [sourceMode, setSourceMode] = useState<SourceMode>("youtube");
+  const [playlistId, setPlaylistId] = useState<number | null>(null);
+  const [shuffle, setShuffle] = useState(false);
+  const [repeatMode, setRepeatMode] = useState<RepeatMode>("off");
   const [volume, setVolume] = useState([50]);
   const [isMuted, setIsMuted] = useState(true);
   const [isPlaying, setIsPlaying] = useState(true);
   const [isLooping, setIsLooping] = useState(true);
   const [loopStart, setLoopStart] = useState("0");
   const [loopEnd, setLoopEnd] = useState("");
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [captionsVisible, setCaptionsVisible] = useState(true);
+  const [captionPosition, setCaptionPosition] = useState<CaptionPosition>("bottom");
+  const [captionFont, setCaptionFont] = useState<CaptionFont>("sans");
+  const [captionFontSize, setCaptionFontSize] = useState(16);
+  const [captionColor, setCaptionColor] = useState("#ffffff");
+  const [captionBgColor, setCaptionBgColor] = useState("#000000");
+  const [captionBgOpacity, setCaptionBgOpacity] = useState(0.6);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [progress, setProgress] = useState([0]);
@@ -290,6 +348,7 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
   const [settingsOpen, setSettingsOpen] = useState(false);
   const stemIframeRef = useRef<HTMLIFrameElement | null>(null);
   const playerRef = useRef<YouTubePlayer | null>(null);
+  // The <video> element for both MP4 files and HLS streams.
   const mp4VideoRef = useRef<HTMLVideoElement | null>(null);
   const isLoopingRef = useRef(isLooping);
   const loopStartRef = useRef(0);
@@ -301,20 +360,51 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
   const progressIntervalRef = useRef<number | null>(null);
   const isSeeking = useRef(false);
   const volumeRef = useRef(50);
+  const playbackRateRef = useRef(1);
   const muteTogglingRef = useRef(false);
   const sourceModeRef = useRef<SourceMode>(sourceMode);
   useEffect(() => { sourceModeRef.current = sourceMode; }, [sourceMode]);
+  const videoSrc = sourceMode === "hls" ? hlsUrl : mp4Url;
+  const hls = useHlsSource(mp4VideoRef, sourceMode === "hls" && hlsUrl ? hlsUrl : null, hlsQuality);
 
   const { toast } = useToast();
   const settingsLoadedRef = useRef(false);
+  const site = useSite();
+  const { user, logoutMutation } = useAuth();
+  const canEdit = hasRole(siteRole(user, site), "editor");
+  const canEditLinks = hasRole(siteRole(user, site), "admin");
+  const [profile, setProfile] = useState(getProfileFromLocation);
+  // Visitors without an explicit ?profile= get whichever profile is scheduled right now.
+  const followScheduleRef = useRef(!config && profile === DEFAULT_PROFILE);
+  const scheduleReload = useScheduleReload();
+  const experiment = useExperiment(site, "view", profile, !config);
+  const experimentRef = useRef(experiment);
+  useEffect(() => { experimentRef.current = experiment; }, [experiment]);
+  const track = useAnalytics({ site, route: "view", profile, playing: isPlaying, enabled: !config, experiment });
+
+  // A saved playlist replaces the single YouTube URL; the ended handler asks it what comes next.
+  const playback = usePlaylistPlayback(site, sourceMode === "youtube" ? playlistId : null, { shuffle, repeatMode });
+  const playlistAdvanceRef = useRef<(() => PlaylistAdvance) | null>(null);
+  useEffect(() => {
+    playlistAdvanceRef.current = playback.current ? playback.advance : null;
+  }, [playback.current, playback.advance]);
+  useEffect(() => {
+    if (playback.current) setVideoId(playback.current.videoId);
+  }, [playback.current]);
+  const { data: playlists = [] } = useQuery<PlaylistSummary[]>({
+    queryKey: playlistsQueryKey(site),
+    enabled: !!config && canEdit,
+  });
 
   const collectSettings = useCallback(() => {
-    const settings: Record<string, unknown> = {
+    const settings: ViewSettings = {
+      schemaVersion: SETTINGS_SCHEMA_VERSION,
       title, buttonLabel, buttonColor, buttonPosX, buttonPosY, buttonScale,
       visitModalWidth, qrButtonPosY, qrButtonVisible, qrButtonColor,
       ctaAsButton, ctaX, ctaY, ctaScale, ctaVisible, ctaFadeInSeconds,
       ctaShape, ctaBorderColor, ctaBorderThickness, ctaShadow3d, ctaGlow,
-      sourceMode, volume, isMuted, isLooping, loopStart, loopEnd,
+      sourceMode, playlistId, shuffle, repeatMode, hlsQuality, volume, isMuted, isLooping, loopStart, loopEnd, playbackRate,
+      captionsVisible, captionPosition, captionFont, captionFontSize, captionColor, captionBgColor, captionBgOpacity,
       shape, containerRounded, scale, containerPosX, containerPosY,
       containerWidth, containerHeight, lockViewportScrollY, lockViewportScrollX,
       mediaZIndex, bgColor, borderColor, containerVisible,
@@ -323,8 +413,8 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
       iframe2PosX, iframe2PosY, iframe2Scale, iframe2Width, iframe2Height, iframe2Visible,
       iframe2Rounded, lockIframe2ScrollY, lockIframe2ScrollX, iframe2ZIndex,
     };
-    const globalUrls: Record<string, string> = {
-      buttonUrl, videoUrl: videoUrl || "", mp4Url: mp4Url || "",
+    const globalUrls: ViewGlobalUrls = {
+      buttonUrl, videoUrl: videoUrl || "", mp4Url: mp4Url || "", hlsUrl: hlsUrl || "",
       ctaImageUrl, iframe1Url, iframe2Url,
     };
     return { settings, globalUrls };
@@ -332,7 +422,8 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
     visitModalWidth, qrButtonPosY, qrButtonVisible, qrButtonColor,
     ctaAsButton, ctaX, ctaY, ctaScale, ctaVisible, ctaFadeInSeconds,
     ctaShape, ctaBorderColor, ctaBorderThickness, ctaShadow3d, ctaGlow,
-    sourceMode, volume, isMuted, isLooping, loopStart, loopEnd,
+    sourceMode, playlistId, shuffle, repeatMode, hlsQuality, volume, isMuted, isLooping, loopStart, loopEnd, playbackRate,
+    captionsVisible, captionPosition, captionFont, captionFontSize, captionColor, captionBgColor, captionBgOpacity,
     shape, containerRounded, scale, containerPosX, containerPosY,
     containerWidth, containerHeight, lockViewportScrollY, lockViewportScrollX,
     mediaZIndex, bgColor, borderColor, containerVisible,
@@ -340,105 +431,157 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
     iframe1Rounded, lockIframe1ScrollY, lockIframe1ScrollX, iframe1ZIndex,
     iframe2PosX, iframe2PosY, iframe2Scale, iframe2Width, iframe2Height, iframe2Visible,
     iframe2Rounded, lockIframe2ScrollY, lockIframe2ScrollX, iframe2ZIndex,
-    buttonUrl, videoUrl, mp4Url, ctaImageUrl, iframe1Url, iframe2Url]);
+    buttonUrl, videoUrl, mp4Url, hlsUrl, ctaImageUrl, iframe1Url, iframe2Url]);
 
   const handleSaveSettings = useCallback(async () => {
     const width = window.innerWidth;
     const { settings, globalUrls } = collectSettings();
     try {
-      await apiRequest("POST", "/api/route-settings", {
-        route: "view", width, settings, globalUrls,
+      await apiRequest("POST", siteApiUrl(site, "/route-settings"), {
+        route: "view", profile, width, settings, globalUrls,
       });
-      toast({ title: "Settings saved", description: `Saved for width ${width}px` });
-    } catch {
-      toast({ title: "Save failed", description: "Could not save settings", variant: "destructive" });
+      queryClient.invalidateQueries({ queryKey: profilesQueryKey(site, "view") });
+      toast({ title: "Settings saved", description: `Saved ${profile} for width ${width}px` });
+    } catch (err) {
+      toast({ title: "Save failed", description: apiErrorMessage(err), variant: "destructive" });
     }
-  }, [collectSettings, toast]);
+  }, [collectSettings, profile, site, toast]);
 
-  const applySettings = useCallback((data: { settings: Record<string, unknown>; globalUrls: Record<string, string> }) => {
+  const applySettings = useCallback((data: { settings: Partial<ViewSettings>; globalUrls: Partial<ViewGlobalUrls> }) => {
     const s = data.settings;
     const u = data.globalUrls;
-    if (s.title !== undefined) setTitle(s.title as string);
-    if (s.buttonLabel !== undefined) setButtonLabel(s.buttonLabel as string);
-    if (s.buttonColor !== undefined) setButtonColor(s.buttonColor as string);
-    if (s.buttonPosX !== undefined) setButtonPosX(s.buttonPosX as number);
-    if (s.buttonPosY !== undefined) setButtonPosY(s.buttonPosY as number);
-    if (s.buttonScale !== undefined) setButtonScale(s.buttonScale as number[]);
-    if (s.visitModalWidth !== undefined) setVisitModalWidth(s.visitModalWidth as number);
-    if (s.qrButtonPosY !== undefined) setQrButtonPosY(s.qrButtonPosY as number);
-    if (s.qrButtonVisible !== undefined) setQrButtonVisible(s.qrButtonVisible as boolean);
-    if (s.qrButtonColor !== undefined) setQrButtonColor(s.qrButtonColor as string);
-    if (s.ctaAsButton !== undefined) setCtaAsButton(s.ctaAsButton as boolean);
-    if (s.ctaX !== undefined) setCtaX(s.ctaX as number);
-    if (s.ctaY !== undefined) setCtaY(s.ctaY as number);
-    if (s.ctaScale !== undefined) setCtaScale(s.ctaScale as number[]);
-    if (s.ctaVisible !== undefined) setCtaVisible(s.ctaVisible as boolean);
-    if (s.ctaFadeInSeconds !== undefined) setCtaFadeInSeconds(s.ctaFadeInSeconds as number);
-    if (s.ctaShape !== undefined) setCtaShape(s.ctaShape as "circle" | "oval" | "square" | "rectangle");
-    if (s.ctaBorderColor !== undefined) setCtaBorderColor(s.ctaBorderColor as string);
-    if (s.ctaBorderThickness !== undefined) setCtaBorderThickness(s.ctaBorderThickness as number);
-    if (s.ctaShadow3d !== undefined) setCtaShadow3d(s.ctaShadow3d as boolean);
-    if (s.ctaGlow !== undefined) setCtaGlow(s.ctaGlow as boolean);
-    if (s.sourceMode !== undefined) setSourceMode(s.sourceMode as SourceMode);
-    if (s.volume !== undefined) setVolume(s.volume as number[]);
-    if (s.isMuted !== undefined) setIsMuted(s.isMuted as boolean);
-    if (s.isLooping !== undefined) setIsLooping(s.isLooping as boolean);
-    if (s.loopStart !== undefined) setLoopStart(s.loopStart as string);
-    if (s.loopEnd !== undefined) setLoopEnd(s.loopEnd as string);
-    if (s.shape !== undefined) setShape(s.shape as ContainerShape);
-    if (s.containerRounded !== undefined) setContainerRounded(s.containerRounded as boolean);
-    if (s.scale !== undefined) setScale(s.scale as number[]);
-    if (s.containerPosX !== undefined) setContainerPosX(s.containerPosX as number);
-    if (s.containerPosY !== undefined) setContainerPosY(s.containerPosY as number);
-    if (s.containerWidth !== undefined) setContainerWidth(s.containerWidth as number[]);
-    if (s.containerHeight !== undefined) setContainerHeight(s.containerHeight as number[]);
-    if (s.lockViewportScrollY !== undefined) setLockViewportScrollY(s.lockViewportScrollY as boolean);
-    if (s.lockViewportScrollX !== undefined) setLockViewportScrollX(s.lockViewportScrollX as boolean);
-    if (s.mediaZIndex !== undefined) setMediaZIndex(s.mediaZIndex as number);
-    if (s.bgColor !== undefined) setBgColor(s.bgColor as string);
-    if (s.borderColor !== undefined) setBorderColor(s.borderColor as string);
-    if (s.containerVisible !== undefined) setContainerVisible(s.containerVisible as boolean);
-    if (s.iframe1PosX !== undefined) setIframe1PosX(s.iframe1PosX as number);
-    if (s.iframe1PosY !== undefined) setIframe1PosY(s.iframe1PosY as number);
-    if (s.iframe1Scale !== undefined) setIframe1Scale(s.iframe1Scale as number[]);
-    if (s.iframe1Width !== undefined) setIframe1Width(s.iframe1Width as number[]);
-    if (s.iframe1Height !== undefined) setIframe1Height(s.iframe1Height as number[]);
-    if (s.iframe1Visible !== undefined) setIframe1Visible(s.iframe1Visible as boolean);
-    if (s.iframe1Rounded !== undefined) setIframe1Rounded(s.iframe1Rounded as boolean);
-    if (s.lockIframe1ScrollY !== undefined) setLockIframe1ScrollY(s.lockIframe1ScrollY as boolean);
-    if (s.lockIframe1ScrollX !== undefined) setLockIframe1ScrollX(s.lockIframe1ScrollX as boolean);
-    if (s.iframe1ZIndex !== undefined) setIframe1ZIndex(s.iframe1ZIndex as number);
-    if (s.iframe2PosX !== undefined) setIframe2PosX(s.iframe2PosX as number);
-    if (s.iframe2PosY !== undefined) setIframe2PosY(s.iframe2PosY as number);
-    if (s.iframe2Scale !== undefined) setIframe2Scale(s.iframe2Scale as number[]);
-    if (s.iframe2Width !== undefined) setIframe2Width(s.iframe2Width as number[]);
-    if (s.iframe2Height !== undefined) setIframe2Height(s.iframe2Height as number[]);
-    if (s.iframe2Visible !== undefined) setIframe2Visible(s.iframe2Visible as boolean);
-    if (s.iframe2Rounded !== undefined) setIframe2Rounded(s.iframe2Rounded as boolean);
-    if (s.lockIframe2ScrollY !== undefined) setLockIframe2ScrollY(s.lockIframe2ScrollY as boolean);
-    if (s.lockIframe2ScrollX !== undefined) setLockIframe2ScrollX(s.lockIframe2ScrollX as boolean);
-    if (s.iframe2ZIndex !== undefined) setIframe2ZIndex(s.iframe2ZIndex as number);
+    if (s.title !== undefined) setTitle(s.title);
+    if (s.buttonLabel !== undefined) setButtonLabel(s.buttonLabel);
+    if (s.buttonColor !== undefined) setButtonColor(s.buttonColor);
+    if (s.buttonPosX !== undefined) setButtonPosX(s.buttonPosX);
+    if (s.buttonPosY !== undefined) setButtonPosY(s.buttonPosY);
+    if (s.buttonScale !== undefined) setButtonScale(s.buttonScale);
+    if (s.visitModalWidth !== undefined) setVisitModalWidth(s.visitModalWidth);
+    if (s.qrButtonPosY !== undefined) setQrButtonPosY(s.qrButtonPosY);
+    if (s.qrButtonVisible !== undefined) setQrButtonVisible(s.qrButtonVisible);
+    if (s.qrButtonColor !== undefined) setQrButtonColor(s.qrButtonColor);
+    if (s.ctaAsButton !== undefined) setCtaAsButton(s.ctaAsButton);
+    if (s.ctaX !== undefined) setCtaX(s.ctaX);
+    if (s.ctaY !== undefined) setCtaY(s.ctaY);
+    if (s.ctaScale !== undefined) setCtaScale(s.ctaScale);
+    if (s.ctaVisible !== undefined) setCtaVisible(s.ctaVisible);
+    if (s.ctaFadeInSeconds !== undefined) setCtaFadeInSeconds(s.ctaFadeInSeconds);
+    if (s.ctaShape !== undefined) setCtaShape(s.ctaShape);
+    if (s.ctaBorderColor !== undefined) setCtaBorderColor(s.ctaBorderColor);
+    if (s.ctaBorderThickness !== undefined) setCtaBorderThickness(s.ctaBorderThickness);
+    if (s.ctaShadow3d !== undefined) setCtaShadow3d(s.ctaShadow3d);
+    if (s.ctaGlow !== undefined) setCtaGlow(s.ctaGlow);
+    if (s.sourceMode !== undefined) setSourceMode(s.sourceMode);
+    if (s.playlistId !== undefined) setPlaylistId(s.playlistId);
+    if (s.shuffle !== undefined) setShuffle(s.shuffle);
+    if (s.repeatMode !== undefined) setRepeatMode(s.repeatMode);
+    if (s.hlsQuality !== undefined) setHlsQuality(s.hlsQuality);
+    if (s.volume !== undefined) setVolume(s.volume);
+    if (s.isMuted !== undefined) setIsMuted(s.isMuted);
+    if (s.isLooping !== undefined) setIsLooping(s.isLooping);
+    if (s.loopStart !== undefined) setLoopStart(s.loopStart);
+    if (s.loopEnd !== undefined) setLoopEnd(s.loopEnd);
+    if (s.playbackRate !== undefined) setPlaybackRate(s.playbackRate);
+    if (s.captionsVisible !== undefined) setCaptionsVisible(s.captionsVisible);
+    if (s.captionPosition !== undefined) setCaptionPosition(s.captionPosition);
+    if (s.captionFont !== undefined) setCaptionFont(s.captionFont);
+    if (s.captionFontSize !== undefined) setCaptionFontSize(s.captionFontSize);
+    if (s.captionColor !== undefined) setCaptionColor(s.captionColor);
+    if (s.captionBgColor !== undefined) setCaptionBgColor(s.captionBgColor);
+    if (s.captionBgOpacity !== undefined) setCaptionBgOpacity(s.captionBgOpacity);
+    if (s.shape !== undefined) setShape(s.shape);
+    if (s.containerRounded !== undefined) setContainerRounded(s.containerRounded);
+    if (s.scale !== undefined) setScale(s.scale);
+    if (s.containerPosX !== undefined) setContainerPosX(s.containerPosX);
+    if (s.containerPosY !== undefined) setContainerPosY(s.containerPosY);
+    if (s.containerWidth !== undefined) setContainerWidth(s.containerWidth);
+    if (s.containerHeight !== undefined) setContainerHeight(s.containerHeight);
+    if (s.lockViewportScrollY !== undefined) setLockViewportScrollY(s.lockViewportScrollY);
+    if (s.lockViewportScrollX !== undefined) setLockViewportScrollX(s.lockViewportScrollX);
+    if (s.mediaZIndex !== undefined) setMediaZIndex(s.mediaZIndex);
+    if (s.bgColor !== undefined) setBgColor(s.bgColor);
+    if (s.borderColor !== undefined) setBorderColor(s.borderColor);
+    if (s.containerVisible !== undefined) setContainerVisible(s.containerVisible);
+    if (s.iframe1PosX !== undefined) setIframe1PosX(s.iframe1PosX);
+    if (s.iframe1PosY !== undefined) setIframe1PosY(s.iframe1PosY);
+    if (s.iframe1Scale !== undefined) setIframe1Scale(s.iframe1Scale);
+    if (s.iframe1Width !== undefined) setIframe1Width(s.iframe1Width);
+    if (s.iframe1Height !== undefined) setIframe1Height(s.iframe1Height);
+    if (s.iframe1Visible !== undefined) setIframe1Visible(s.iframe1Visible);
+    if (s.iframe1Rounded !== undefined) setIframe1Rounded(s.iframe1Rounded);
+    if (s.lockIframe1ScrollY !== undefined) setLockIframe1ScrollY(s.lockIframe1ScrollY);
+    if (s.lockIframe1ScrollX !== undefined) setLockIframe1ScrollX(s.lockIframe1ScrollX);
+    if (s.iframe1ZIndex !== undefined) setIframe1ZIndex(s.iframe1ZIndex);
+    if (s.iframe2PosX !== undefined) setIframe2PosX(s.iframe2PosX);
+    if (s.iframe2PosY !== undefined) setIframe2PosY(s.iframe2PosY);
+    if (s.iframe2Scale !== undefined) setIframe2Scale(s.iframe2Scale);
+    if (s.iframe2Width !== undefined) setIframe2Width(s.iframe2Width);
+    if (s.iframe2Height !== undefined) setIframe2Height(s.iframe2Height);
+    if (s.iframe2Visible !== undefined) setIframe2Visible(s.iframe2Visible);
+    if (s.iframe2Rounded !== undefined) setIframe2Rounded(s.iframe2Rounded);
+    if (s.lockIframe2ScrollY !== undefined) setLockIframe2ScrollY(s.lockIframe2ScrollY);
+    if (s.lockIframe2ScrollX !== undefined) setLockIframe2ScrollX(s.lockIframe2ScrollX);
+    if (s.iframe2ZIndex !== undefined) setIframe2ZIndex(s.iframe2ZIndex);
     if (u.buttonUrl !== undefined) setButtonUrl(u.buttonUrl);
     if (u.videoUrl !== undefined) setVideoUrl(u.videoUrl);
     if (u.mp4Url !== undefined) setMp4Url(u.mp4Url);
+    if (u.hlsUrl !== undefined) setHlsUrl(u.hlsUrl);
     if (u.ctaImageUrl !== undefined) setCtaImageUrl(u.ctaImageUrl);
     if (u.iframe1Url !== undefined) setIframe1Url(u.iframe1Url);
     if (u.iframe2Url !== undefined) setIframe2Url(u.iframe2Url);
   }, []);
 
-  useEffect(() => {
-    if (settingsLoadedRef.current) return;
-    settingsLoadedRef.current = true;
-    const width = window.innerWidth;
-    fetch(`/api/route-settings/view?width=${width}`)
-      .then(r => r.json())
-      .then(data => {
+  const applyStoredSettings = useCallback((row: Pick<RouteSettings, "settings" | "globalUrls">) => {
+    const variant = experimentRef.current?.variant;
+    const { settings, globalUrls } = parseRouteSettings("view", variant ? withVariant(row, variant) : row);
+    const dropped = [...settings.dropped, ...globalUrls.dropped];
+    // Visitors get the defaults for these silently; editors are told so they can save over them.
+    if (config && dropped.length > 0) {
+      toast({ title: "Some saved settings were ignored", description: `Invalid values for ${dropped.join(", ")} were replaced with defaults.` });
+    }
+    applySettings({ settings: settings.value, globalUrls: globalUrls.value });
+  }, [applySettings, config, toast]);
+
+  const loadSettings = useCallback((profileName: string) => {
+    const followSchedule = followScheduleRef.current;
+    fetch(routeSettingsUrl(site, "view", window.innerWidth, followSchedule ? null : profileName))
+      .then(r => {
+        if (followSchedule) scheduleReload(r, () => loadSettings(profileName));
+        return r.json();
+      })
+      .then(async data => {
         if (data && data.settings) {
-          applySettings({ settings: data.settings as Record<string, unknown>, globalUrls: (data.globalUrls || {}) as Record<string, string> });
+          if (followSchedule) setProfile(data.profile);
+          applyStoredSettings(data);
+          return;
         }
+        // Nothing saved for this profile yet: start from the site's default URLs.
+        const info: SiteInfo = await fetch(`/api/sites/${encodeURIComponent(site)}`).then(r => r.json());
+        if (info?.defaultUrls) applyStoredSettings({ settings: {}, globalUrls: info.defaultUrls });
       })
       .catch(() => {});
-  }, [applySettings]);
+  }, [applyStoredSettings, scheduleReload, site]);
+
+  useEffect(() => {
+    if (settingsLoadedRef.current) return;
+    settingsLoadedRef.current = true;
+    loadSettings(profile);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loadSettings]);
+
+  const handleProfileChange = useCallback((next: string) => {
+    followScheduleRef.current = false;
+    setProfile(next);
+    setProfileInLocation(next);
+    loadSettings(next);
+  }, [loadSettings]);
+
+  // The variant can arrive after the saved layout has been applied; layer it on top then.
+  useEffect(() => {
+    if (experiment) applyStoredSettings({ settings: {}, globalUrls: {} });
+  }, [experiment, applyStoredSettings]);
+
+  const { layouts, active: activeLayout, viewportWidth } = useBreakpointLayout(site, "view", profile, applyStoredSettings);
 
   useEffect(() => {
     if (!ctaAsButton) {
@@ -460,6 +603,9 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
     if (mp4Url.trim() && mp4History.length === 0) {
       setMp4History(saveUrlToHistory(MP4_URLS_KEY, mp4Url));
     }
+    if (hlsUrl.trim() && hlsHistory.length === 0) {
+      setHlsHistory(saveUrlToHistory(HLS_URLS_KEY, hlsUrl));
+    }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
@@ -480,6 +626,7 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
   useEffect(() => { durationRef.current = duration; }, [duration]);
   useEffect(() => { currentVideoIdRef.current = videoId; }, [videoId]);
   useEffect(() => { volumeRef.current = volume[0]; }, [volume]);
+  useEffect(() => { playbackRateRef.current = playbackRate; }, [playbackRate]);
 
   useEffect(() => {
     if (playerInitializedRef.current) return;
@@ -501,6 +648,8 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
             if (event.data === 1) {
               const dur = event.target.getDuration();
               if (dur > 0) setDuration(dur);
+              // Loading another video resets the speed.
+              if (event.target.getPlaybackRate() !== playbackRateRef.current) event.target.setPlaybackRate(playbackRateRef.current);
               setIsPlaying(true);
             } else if (event.data === 2) {
               if (muteTogglingRef.current) {
@@ -509,9 +658,15 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
                 setIsPlaying(false);
               }
             }
-            if (event.data === 0 && isLoopingRef.current) {
-              event.target.seekTo(loopStartRef.current, true);
-              event.target.playVideo();
+            if (event.data === 0) {
+              // In playlist mode the repeat mode decides; otherwise the loop toggle does.
+              const outcome = playlistAdvanceRef.current?.();
+              if (outcome === "stop") {
+                setIsPlaying(false);
+              } else if (outcome === "repeat" || (!outcome && isLoopingRef.current)) {
+                event.target.seekTo(loopStartRef.current, true);
+                event.target.playVideo();
+              }
             }
           },
         },
@@ -543,7 +698,7 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
   }, []);
 
   useEffect(() => {
-    if (sourceMode !== "mp4") return;
+    if (!usesVideoElement(sourceMode)) return;
     const video = mp4VideoRef.current;
     if (!video) return;
 
@@ -592,11 +747,11 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
       video.removeEventListener("pause", onPause);
       video.removeEventListener("durationchange", onDurationChange);
     };
-  }, [sourceMode, mp4Url]);
+  }, [sourceMode, videoSrc]);
 
   useEffect(() => {
     if (sourceMode === "youtube" && (!playerReady || !playerRef.current)) return;
-    if (sourceMode === "mp4" && !mp4VideoRef.current) return;
+    if (usesVideoElement(sourceMode) && !mp4VideoRef.current) return;
 
     const updateProgress = () => {
       if (isSeeking.current) return;
@@ -616,7 +771,7 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
             }
           }
         } catch { /* Player may not be ready */ }
-      } else if (sourceModeRef.current === "mp4" && mp4VideoRef.current) {
+      } else if (usesVideoElement(sourceModeRef.current) && mp4VideoRef.current) {
         const video = mp4VideoRef.current;
         const time = video.currentTime;
         const dur = video.duration;
@@ -631,7 +786,7 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
     };
     progressIntervalRef.current = window.setInterval(updateProgress, 200);
     return () => { if (progressIntervalRef.current) window.clearInterval(progressIntervalRef.current); };
-  }, [playerReady, sourceMode, mp4Url]);
+  }, [playerReady, sourceMode, videoSrc]);
 
   useEffect(() => {
     if (sourceMode !== "youtube") return;
@@ -647,10 +802,21 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
     }
   }, [videoId, playerReady, isMuted, sourceMode]);
 
+  useEffect(() => {
+    if (sourceMode === "youtube" && playerReady && playerRef.current) {
+      if (typeof playerRef.current.setPlaybackRate === "function") playerRef.current.setPlaybackRate(playbackRate);
+    } else if (usesVideoElement(sourceMode) && mp4VideoRef.current) {
+      // The default rate survives the element loading another source.
+      mp4VideoRef.current.defaultPlaybackRate = playbackRate;
+      mp4VideoRef.current.playbackRate = playbackRate;
+      mp4VideoRef.current.preservesPitch = true;
+    }
+  }, [playbackRate, playerReady, sourceMode]);
+
   useEffect(() => {
     if (sourceMode === "youtube" && playerReady && playerRef.current) {
       if (typeof playerRef.current.setVolume === "function") playerRef.current.setVolume(volume[0]);
-    } else if (sourceMode === "mp4" && mp4VideoRef.current) {
+    } else if (usesVideoElement(sourceMode) && mp4VideoRef.current) {
       mp4VideoRef.current.volume = volume[0] / 100;
     }
   }, [volume, playerReady, sourceMode]);
@@ -665,7 +831,7 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
         if (typeof playerRef.current.unMute === "function") playerRef.current.unMute();
         if (typeof playerRef.current.setVolume === "function") playerRef.current.setVolume(volumeRef.current);
       }
-    } else if (sourceMode === "mp4" && mp4VideoRef.current) {
+    } else if (usesVideoElement(sourceMode) && mp4VideoRef.current) {
       mp4VideoRef.current.muted = isMuted;
     }
     const t = setTimeout(() => { muteTogglingRef.current = false; }, 200);
@@ -676,7 +842,7 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
     if (sourceMode === "youtube" && playerReady && playerRef.current) {
       if (isPlaying) { if (typeof playerRef.current.playVideo === "function") playerRef.current.playVideo(); }
       else { if (typeof playerRef.current.pauseVideo === "function") playerRef.current.pauseVideo(); }
-    } else if (sourceMode === "mp4" && mp4VideoRef.current) {
+    } else if (usesVideoElement(sourceMode) && mp4VideoRef.current) {
       if (isPlaying) mp4VideoRef.current.play().catch(() => {});
       else mp4VideoRef.current.pause();
     }
@@ -695,10 +861,21 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
     }
   }, [sourceMode]);
 
-  const handleClick = useCallback(() => { if (buttonUrl) setVisitModalOpen(true); }, [buttonUrl]);
+  const handleClick = useCallback(() => {
+    if (!buttonUrl) return;
+    track("visit_open");
+    setVisitModalOpen(true);
+  }, [buttonUrl, track]);
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
-    if (e.key === "Enter" || e.key === " ") { e.preventDefault(); if (buttonUrl) setVisitModalOpen(true); }
-  }, [buttonUrl]);
+    if (e.key === "Enter" || e.key === " ") { e.preventDefault(); handleClick(); }
+  }, [handleClick]);
+  const handleCtaClick = useCallback(() => {
+    if (buttonUrl) track("cta_click");
+    handleClick();
+  }, [buttonUrl, handleClick, track]);
+  const handleCtaKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (e.key === "Enter" || e.key === " ") { e.preventDefault(); handleCtaClick(); }
+  }, [handleCtaClick]);
   const handleVideoUrlChange = useCallback((value: string) => {
     setVideoUrl(value);
     const extractedId = extractVideoId(value);
@@ -719,6 +896,18 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
   const handleMp4UrlCommit = useCallback(() => {
     if (mp4Url.trim()) setMp4History(saveUrlToHistory(MP4_URLS_KEY, mp4Url));
   }, [mp4Url]);
+  const handleHlsUrlChange = useCallback((value: string) => {
+    setHlsUrl(value);
+    setCurrentTime(0);
+    setProgress([0]);
+    setDuration(0);
+    setPlayerReady(false);
+    setLoopEnd("");
+    setLoopStart("0");
+  }, []);
+  const handleHlsUrlCommit = useCallback(() => {
+    if (hlsUrl.trim()) setHlsHistory(saveUrlToHistory(HLS_URLS_KEY, hlsUrl));
+  }, [hlsUrl]);
   const handleYoutubeHistorySelect = useCallback((url: string) => {
     setVideoUrl(url);
     const extractedId = extractVideoId(url);
@@ -735,19 +924,24 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
     setLoopStart("0");
     setMp4History(saveUrlToHistory(MP4_URLS_KEY, url));
   }, []);
+  const handleHlsHistorySelect = useCallback((url: string) => {
+    handleHlsUrlChange(url);
+    setHlsHistory(saveUrlToHistory(HLS_URLS_KEY, url));
+  }, [handleHlsUrlChange]);
   const handleRemoveYoutubeUrl = useCallback((url: string) => {
     setYoutubeHistory(removeUrlFromHistory(YOUTUBE_URLS_KEY, url));
   }, []);
   const handleRemoveMp4Url = useCallback((url: string) => {
     setMp4History(removeUrlFromHistory(MP4_URLS_KEY, url));
   }, []);
-  const handleSourceModeToggle = useCallback((checked: boolean) => {
-    setSourceMode(checked ? "mp4" : "youtube");
-  }, []);
   const handleMuteToggle = useCallback((checked: boolean) => {
+    track(checked ? "mute" : "unmute");
     setIsMuted(checked); // Mute only: does not affect play/stop
-  }, []);
-  const handlePlayToggle = useCallback(() => { setIsPlaying((prev) => !prev); }, []);
+  }, [track]);
+  const handlePlayToggle = useCallback(() => {
+    track(isPlaying ? "pause" : "play");
+    setIsPlaying((prev) => !prev);
+  }, [isPlaying, track]);
   const handleLoopToggle = useCallback((checked: boolean) => { setIsLooping(checked); }, []);
   const handleProgressChange = useCallback((value: number[]) => { isSeeking.current = true; setProgress(value); }, []);
   const handleProgressCommit = useCallback((value: number[]) => {
@@ -755,13 +949,35 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
       const seekTime = (value[0] / 100) * durationRef.current;
       if (sourceModeRef.current === "youtube" && playerRef.current) {
         if (typeof playerRef.current.seekTo === "function") playerRef.current.seekTo(seekTime, true);
-      } else if (sourceModeRef.current === "mp4" && mp4VideoRef.current) {
+      } else if (usesVideoElement(sourceModeRef.current) && mp4VideoRef.current) {
         mp4VideoRef.current.currentTime = seekTime;
       }
       setCurrentTime(seekTime);
     }
     isSeeking.current = false;
   }, []);
+  const seekTo = useCallback((time: number) => {
+    if (sourceModeRef.current === "youtube" && playerRef.current) {
+      if (typeof playerRef.current.seekTo === "function") playerRef.current.seekTo(time, true);
+    } else if (usesVideoElement(sourceModeRef.current) && mp4VideoRef.current) {
+      mp4VideoRef.current.currentTime = time;
+    }
+    setCurrentTime(time);
+  }, []);
+  const cueMediaUrl = sourceMode === "youtube" ? (videoId ? youtubeMediaUrl(videoId) : "") : videoSrc;
+  const cuePoints = useCuePoints(site, cueMediaUrl);
+  const captions = useCaptions(site, cueMediaUrl);
+  const captionStyle = { captionPosition, captionFont, captionFontSize, captionColor, captionBgColor, captionBgOpacity };
+  // A loop region also becomes the page's loop range, so practice starts straight away.
+  const jumpToCue = useCallback((cue: CuePoint) => {
+    if (cue.endSeconds !== null) {
+      setLoopStart(formatMs(cue.startSeconds));
+      setLoopEnd(formatMs(cue.endSeconds));
+      setIsLooping(true);
+    }
+    seekTo(cue.startSeconds);
+  }, [seekTo]);
+  useCueShortcuts(cuePoints, currentTime, jumpToCue);
   const handleSetLoopStartToCurrent = useCallback(() => {
     const clamped = Math.min(currentTime, duration > 0 ? duration : currentTime);
     setLoopStart(formatMs(clamped));
@@ -772,12 +988,13 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
   }, [currentTime, duration, loopStart]);
 
   const sendAudioToStem = useCallback(() => {
-    const iframe = stemIframeRef.current;
-    if (!iframe?.contentWindow) return;
+    const target = stemIframeRef.current?.contentWindow;
+    if (!target) return;
     if (sourceMode === "mp4" && mp4Url) {
-      iframe.contentWindow.postMessage({ type: "load-audio-url", url: mp4Url }, "*");
+      postToStemPage(target, { type: "load-audio-url", url: mp4Url });
     }
   }, [sourceMode, mp4Url]);
+  useStemPageReady(stemIframeRef, sendAudioToStem);
 
   useEffect(() => {
     if (stemModalOpen) sendAudioToStem();
@@ -827,8 +1044,8 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
         {ctaAsButton && (
           <button
             type="button"
-            onClick={handleClick}
-            onKeyDown={handleKeyDown}
+            onClick={handleCtaClick}
+            onKeyDown={handleCtaKeyDown}
             className={`absolute cursor-pointer border-none p-0 z-[15] ${ctaGlow ? "animate-cta-glow" : ""}`}
             style={{
               left: `${ctaX}%`,
@@ -879,10 +1096,11 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
                 <div id="youtube-player" className="w-full h-full pointer-events-none" />
               </div>
 
-              {sourceMode === "mp4" && mp4Url && (
+              {usesVideoElement(sourceMode) && videoSrc && (
                 <video
+                  key={sourceMode}
                   ref={mp4VideoRef}
-                  src={mp4Url}
+                  src={sourceMode === "mp4" ? mp4Url : undefined}
                   className="absolute top-1/2 left-1/2 min-w-full min-h-full w-auto h-auto pointer-events-none object-cover"
                   style={{ transform: "translate(-50%, -50%)" }}
                   muted
@@ -897,6 +1115,8 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
                   animation: !noSpin && shape === "circle" && isPlaying ? "spin-record-reverse 4s linear infinite" : "none",
                 }}
               >
+                {captionsVisible && <CaptionOverlay cues={captions.cues} currentTime={currentTime} captionStyle={captionStyle} />}
+
                 <div
                   className="absolute pointer-events-auto"
                   style={{ bottom: "12%", right: "12%" }}
@@ -904,8 +1124,8 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
                   <div
                     role="button"
                     tabIndex={0}
-                    onClick={(e) => { e.preventDefault(); e.stopPropagation(); setIsMuted((m) => !m); }}
-                    onKeyDown={(e) => { if (e.key === "Enter" || e.key === " ") { e.preventDefault(); e.stopPropagation(); setIsMuted((m) => !m); } }}
+                    onClick={(e) => { e.preventDefault(); e.stopPropagation(); handleMuteToggle(!isMuted); }}
+                    onKeyDown={(e) => { if (e.key === "Enter" || e.key === " ") { e.preventDefault(); e.stopPropagation(); handleMuteToggle(!isMuted); } }}
                     className="rounded-full bg-black/50 text-white/80 w-9 h-9 flex items-center justify-center cursor-pointer"
                     aria-label={isMuted ? "Unmute video" : "Mute video"}
                     title={isMuted ? "Unmute (sound only, does not change play/stop)" : "Mute (sound only, does not change play/stop)"}
@@ -1018,22 +1238,125 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
             onClose={() => setSettingsOpen(false)}
             title="Settings"
             description="Customize video playback and button appearance"
-            stickyHeader={config ? (
-              <Button onClick={handleSaveSettings} className="w-full" data-testid="button-save-settings">
-                <Save className="w-4 h-4 mr-2" />
-                Save Settings
-              </Button>
+            stickyHeader={config && canEdit ? (
+              <div className="flex items-center gap-2">
+                <Button onClick={handleSaveSettings} className="flex-1" data-testid="button-save-settings">
+                  <Save className="w-4 h-4 mr-2" />
+                  Save Settings
+                </Button>
+                <Button size="icon" variant="ghost" aria-label="Analytics" asChild>
+                  <a href={sitePath(site, "/analytics")} data-testid="button-analytics">
+                    <BarChart3 className="w-4 h-4" />
+                  </a>
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  aria-label={`Sign out ${user?.username ?? ""}`}
+                  onClick={() => logoutMutation.mutate()}
+                  data-testid="button-logout"
+                >
+                  <LogOut className="w-4 h-4" />
+                </Button>
+              </div>
             ) : undefined}
           >
             <div className="flex flex-col gap-6">
-              {!config && (
+              {!config && canEdit && (
                 <Button onClick={handleSaveSettings} className="w-full" data-testid="button-save-settings">
                   <Save className="w-4 h-4 mr-2" />
                   Save Settings
                 </Button>
               )}
 
+              <ProfilePicker
+                route="view"
+                profile={profile}
+                readOnly={!canEdit}
+                onProfileChange={handleProfileChange}
+                onRestored={() => loadSettings(profile)}
+              />
+
+              {canEdit && (
+                <ConfigTransfer
+                  route="view"
+                  profile={profile}
+                  onImported={() => loadSettings(profile)}
+                />
+              )}
+
               <Accordion type="multiple" defaultValue={[]} className="w-full">
+            {config && (
+            <AccordionItem value="breakpoints">
+              <AccordionTrigger>
+                <Label className="text-sm font-medium flex items-center gap-2">
+                  <MonitorSmartphone className="w-4 h-4" />
+                  Breakpoints
+                </Label>
+              </AccordionTrigger>
+              <AccordionContent>
+                <div className="pt-2">
+                  <BreakpointManager
+                    route="view"
+                    profile={profile}
+                    layouts={layouts}
+                    activeId={activeLayout?.id}
+                    viewportWidth={viewportWidth}
+                  />
+                </div>
+              </AccordionContent>
+            </AccordionItem>
+            )}
+            {config && canEditLinks && site !== DEFAULT_SITE && (
+            <AccordionItem value="members">
+              <AccordionTrigger>
+                <Label className="text-sm font-medium flex items-center gap-2">
+                  <Users className="w-4 h-4" />
+                  Members
+                </Label>
+              </AccordionTrigger>
+              <AccordionContent>
+                <div className="pt-2">
+                  <SiteMembersManager />
+                </div>
+              </AccordionContent>
+            </AccordionItem>
+            )}
+            {config && canEdit && (
+            <AccordionItem value="schedule">
+              <AccordionTrigger>
+                <Label className="text-sm font-medium flex items-center gap-2">
+                  <CalendarClock className="w-4 h-4" />
+                  Schedule
+                </Label>
+              </AccordionTrigger>
+              <AccordionContent>
+                <div className="pt-2">
+                  <ScheduleManager route="view" profile={profile} />
+                </div>
+              </AccordionContent>
+            </AccordionItem>
+            )}
+            {config && canEdit && (
+            <AccordionItem value="experiments">
+              <AccordionTrigger>
+                <Label className="text-sm font-medium flex items-center gap-2">
+                  <FlaskConical className="w-4 h-4" />
+                  Experiments
+                </Label>
+              </AccordionTrigger>
+              <AccordionContent>
+                <div className="pt-2">
+                  <ExperimentManager
+                    route="view"
+                    profile={profile}
+                    baseline={activeLayout}
+                    captureSettings={collectSettings}
+                  />
+                </div>
+              </AccordionContent>
+            </AccordionItem>
+            )}
             <AccordionItem value="source">
               <AccordionTrigger>
                 <Label className="text-sm font-medium flex items-center gap-2">
@@ -1048,15 +1371,16 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
                       <Film className="w-4 h-4" />
                       Source
                     </Label>
-                    <div className="flex items-center gap-2">
-                      <span className={`text-xs font-medium ${sourceMode === "youtube" ? "text-foreground" : "text-muted-foreground"}`}>YouTube</span>
-                      <Switch
-                        checked={sourceMode === "mp4"}
-                        onCheckedChange={handleSourceModeToggle}
-                        data-testid="switch-source-mode"
-                      />
-                      <span className={`text-xs font-medium ${sourceMode === "mp4" ? "text-foreground" : "text-muted-foreground"}`}>MP4</span>
-                    </div>
+                    <Select value={sourceMode} onValueChange={(val) => setSourceMode(val as SourceMode)}>
+                      <SelectTrigger className="w-32 h-8 text-xs" data-testid="select-source-mode">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="youtube">YouTube</SelectItem>
+                        <SelectItem value="mp4">MP4</SelectItem>
+                        <SelectItem value="hls">HLS stream</SelectItem>
+                      </SelectContent>
+                    </Select>
                   </div>
 
                   <div className="space-y-3" style={{ display: sourceMode === "mp4" ? "block" : "none" }}>
@@ -1064,15 +1388,20 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
                 <Link className="w-4 h-4" />
                 MP4 URL
               </Label>
-              <Input
-                id="mp4-url-input"
-                value={mp4Url}
-                onChange={(e) => handleMp4UrlChange(e.target.value)}
-                onBlur={handleMp4UrlCommit}
-                onKeyDown={(e) => { if (e.key === "Enter") handleMp4UrlCommit(); }}
-                placeholder="Direct MP4 video file URL"
-                data-testid="input-mp4-url"
-              />
+              <div className="flex items-center gap-2">
+                <Input
+                  id="mp4-url-input"
+                  value={mp4Url}
+                  onChange={(e) => handleMp4UrlChange(e.target.value)}
+                  onBlur={handleMp4UrlCommit}
+                  onKeyDown={(e) => { if (e.key === "Enter") handleMp4UrlCommit(); }}
+                  placeholder="Direct MP4 video file URL"
+                  data-testid="input-mp4-url"
+                />
+                {canEdit && (
+                  <MediaLibraryPicker kinds={["video"]} value={mp4Url} onSelect={handleMp4HistorySelect} testId="media-library-mp4" />
+                )}
+              </div>
               {mp4History.length > 0 && (
                 <div className="space-y-1" data-testid="dropdown-mp4-history">
                   <Label className="text-xs text-muted-foreground">Recent MP4 URLs</Label>
@@ -1095,6 +1424,78 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
               )}
             </div>
 
+                  <div className="space-y-3" style={{ display: sourceMode === "hls" ? "block" : "none" }}>
+                    <Label htmlFor="hls-url-input" className="text-sm font-medium flex items-center gap-2">
+                      <Link className="w-4 h-4" />
+                      HLS manifest URL
+                    </Label>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        id="hls-url-input"
+                        value={hlsUrl}
+                        onChange={(e) => handleHlsUrlChange(e.target.value)}
+                        onBlur={handleHlsUrlCommit}
+                        onKeyDown={(e) => { if (e.key === "Enter") handleHlsUrlCommit(); }}
+                        placeholder="https://example.com/stream/master.m3u8"
+                        data-testid="input-hls-url"
+                      />
+                      {canEdit && (
+                        <MediaLibraryPicker kinds={["video"]} hls value={hlsUrl} onSelect={handleHlsHistorySelect} testId="media-library-hls" />
+                      )}
+                    </div>
+                    {hlsHistory.length > 0 && (
+                      <div className="space-y-1" data-testid="dropdown-hls-history">
+                        <Label className="text-xs text-muted-foreground">Recent HLS URLs</Label>
+                        <Select
+                          value={hlsUrl}
+                          onValueChange={(val) => handleHlsHistorySelect(val)}
+                        >
+                          <SelectTrigger className="text-xs" data-testid="select-hls-history">
+                            <SelectValue placeholder="Select a recent URL" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {hlsHistory.map((url) => (
+                              <SelectItem key={url} value={url} data-testid="hls-history-item">
+                                {getLabelForUrl(url)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                    <div className="flex items-center justify-between gap-2">
+                      <Label className="text-xs text-muted-foreground">Quality</Label>
+                      <Select
+                        value={hlsQuality === null ? "auto" : String(hlsQuality)}
+                        onValueChange={(val) => setHlsQuality(val === "auto" ? null : Number(val))}
+                        disabled={hls.native}
+                      >
+                        <SelectTrigger className="w-32 h-8 text-xs" data-testid="select-hls-quality">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="auto">Auto</SelectItem>
+                          {Array.from(new Set(hls.levels.map((level) => level.height))).map((height) => (
+                            <SelectItem key={height} value={String(height)}>{height}p</SelectItem>
+                          ))}
+                          {hlsQuality !== null && !hls.levels.some((level) => level.height === hlsQuality) && (
+                            <SelectItem value={String(hlsQuality)}>{hlsQuality}p</SelectItem>
+                          )}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <p className="text-xs text-muted-foreground" data-testid="text-hls-bitrate">
+                      {hls.error
+                        ? `Stream error: ${hls.error}`
+                        : hls.native
+                          ? "Quality is chosen by the browser"
+                          : [
+                              hls.playingLevel ? `${hlsQuality === null ? "Auto: " : ""}${hls.playingLevel.height}p at ${formatBitrate(hls.playingLevel.bitrate)}` : null,
+                              hls.bandwidth ? `connection ~${formatBitrate(hls.bandwidth)}` : null,
+                            ].filter(Boolean).join(" · ") || "Waiting for stream"}
+                    </p>
+                  </div>
+
                   <div className="space-y-3" style={{ display: sourceMode === "youtube" ? "block" : "none" }}>
                     <Label htmlFor="video-url-input" className="text-sm font-medium flex items-center gap-2">
                       <Link className="w-4 h-4" />
@@ -1129,6 +1530,60 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
                         </Select>
                       </div>
                     )}
+                    {canEdit && (
+                      <div className="space-y-2 pt-2 border-t" data-testid="playlist-playback-settings">
+                        <Label className="text-sm font-medium flex items-center gap-2">
+                          <ListMusic className="w-4 h-4" />
+                          Playlist
+                        </Label>
+                        <Select
+                          value={playlistId !== null ? String(playlistId) : "none"}
+                          onValueChange={(val) => setPlaylistId(val === "none" ? null : Number(val))}
+                        >
+                          <SelectTrigger className="text-xs" data-testid="select-view-playlist">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">None (play the URL above)</SelectItem>
+                            {playlists.map((p) => (
+                              <SelectItem key={p.id} value={String(p.id)}>{p.name} ({p.itemCount})</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {playlistId !== null && (
+                          <>
+                            <div className="flex items-center justify-between">
+                              <Label htmlFor="shuffle-toggle" className="text-xs flex items-center gap-2">
+                                <Shuffle className="w-3 h-3" />
+                                Shuffle
+                              </Label>
+                              <Switch id="shuffle-toggle" checked={shuffle} onCheckedChange={setShuffle} data-testid="switch-shuffle" />
+                            </div>
+                            <div className="flex items-center justify-between gap-2">
+                              <Label className="text-xs flex items-center gap-2">
+                                <Repeat className="w-3 h-3" />
+                                Repeat
+                              </Label>
+                              <Select value={repeatMode} onValueChange={(val) => setRepeatMode(val as RepeatMode)}>
+                                <SelectTrigger className="text-xs w-32" data-testid="select-repeat-mode">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="off">Off</SelectItem>
+                                  <SelectItem value="one">Repeat one</SelectItem>
+                                  <SelectItem value="all">Repeat all</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            </div>
+                            <p className="text-xs text-muted-foreground truncate" data-testid="text-playlist-now-playing">
+                              {playback.current
+                                ? `${playback.position}/${playback.items.length}: ${playback.current.title}`
+                                : "This playlist is empty"}
+                            </p>
+                          </>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </div>
               </AccordionContent>
@@ -1160,6 +1615,8 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
                       value={buttonUrl}
                       onChange={(e) => setButtonUrl(e.target.value)}
                       placeholder="https://example.com"
+                      disabled={!canEditLinks}
+                      title={canEditLinks ? undefined : "Only admins can change where the button links to"}
                       data-testid="input-button-url"
                     />
                   </div>
@@ -1289,7 +1746,12 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
                   </div>
                   <div className="space-y-2">
                     <Label className="text-xs">Button image URL</Label>
-                    <Input value={ctaImageUrl} onChange={(e) => setCtaImageUrl(e.target.value)} placeholder="https://example.com/image.jpg" className="text-xs" data-testid="input-cta-image-url" />
+                    <div className="flex items-center gap-2">
+                      <Input value={ctaImageUrl} onChange={(e) => setCtaImageUrl(e.target.value)} placeholder="https://example.com/image.jpg" className="text-xs" data-testid="input-cta-image-url" />
+                      {canEdit && (
+                        <MediaLibraryPicker kinds={["image"]} value={ctaImageUrl} onSelect={setCtaImageUrl} testId="media-library-cta" />
+                      )}
+                    </div>
                   </div>
                   <div className="space-y-2">
                     <Label className="text-xs">Button shape</Label>
@@ -1331,7 +1793,7 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
                     Shape
                   </Label>
               <div className="grid grid-cols-4 gap-2">
-                {(["circle", "oval", "square", "rectangle"] as ContainerShape[]).map((s) => (
+                {containerShapeSchema.options.map((s) => (
                   <Button
                     key={s}
                     size="sm"
@@ -1484,6 +1946,7 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
                   {formatTime(currentTime)} / {formatTime(duration)}
                 </span>
               </div>
+              <CueMarkers cues={cuePoints} duration={duration} onJump={jumpToCue} />
               <Slider value={progress} onValueChange={handleProgressChange} onValueCommit={handleProgressCommit} max={100} step={0.1} className="w-full" data-testid="slider-progress" />
                 </div>
               </AccordionContent>
@@ -1541,9 +2004,24 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
                     {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
                     Transport
                   </Label>
-                  <Button size="sm" variant="outline" onClick={handlePlayToggle} data-testid="button-transport">
-                    {isPlaying ? (<><Pause className="w-4 h-4 mr-2" />Pause</>) : (<><Play className="w-4 h-4 mr-2" />Play</>)}
-                  </Button>
+                  <div className="flex items-center gap-1">
+                    {playback.current && (
+                      <Button size="icon" variant="outline" onClick={playback.previous} aria-label="Previous video" data-testid="button-transport-previous">
+                        <SkipBack className="w-4 h-4" />
+                      </Button>
+                    )}
+                    <Button size="sm" variant="outline" onClick={handlePlayToggle} data-testid="button-transport">
+                      {isPlaying ? (<><Pause className="w-4 h-4 mr-2" />Pause</>) : (<><Play className="w-4 h-4 mr-2" />Play</>)}
+                    </Button>
+                    {playback.current && (
+                      <Button size="icon" variant="outline" onClick={playback.next} aria-label="Next video" data-testid="button-transport-next">
+                        <SkipForward className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <div className="pt-3">
+                  <PlaybackRateControl value={playbackRate} onChange={setPlaybackRate} />
                 </div>
               </AccordionContent>
             </AccordionItem>
@@ -1564,6 +2042,17 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
                     </Label>
                     <Switch id="loop-toggle" checked={isLooping} onCheckedChange={handleLoopToggle} data-testid="switch-loop" />
                   </div>
+                  {canEdit && (
+                    <div className="pb-4">
+                      <CuePointManager
+                        mediaUrl={cueMediaUrl}
+                        currentTime={currentTime}
+                        loopStartSeconds={loopStartSeconds}
+                        loopEndSeconds={loopEndSeconds}
+                        onJump={jumpToCue}
+                      />
+                    </div>
+                  )}
 
             {isLooping && (
               <div className="space-y-4 p-3 bg-muted rounded-md">
@@ -1627,6 +2116,60 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
               </AccordionContent>
             </AccordionItem>
 
+            <AccordionItem value="captions">
+              <AccordionTrigger>
+                <Label className="text-sm font-medium flex items-center gap-2">
+                  <Captions className="w-4 h-4" />
+                  Captions
+                </Label>
+              </AccordionTrigger>
+              <AccordionContent>
+                <div className="space-y-4 pt-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="captions-toggle" className="text-sm font-medium">Show captions</Label>
+                    <Switch id="captions-toggle" checked={captionsVisible} onCheckedChange={setCaptionsVisible} data-testid="switch-captions" />
+                  </div>
+                  {canEdit && <CaptionManager mediaUrl={cueMediaUrl} />}
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Position</Label>
+                    <div className="grid grid-cols-3 gap-2">
+                      {captionPositionSchema.options.map((option) => (
+                        <Button key={option} size="sm" variant={captionPosition === option ? "default" : "outline"} className="capitalize" onClick={() => setCaptionPosition(option)} data-testid={`button-caption-position-${option}`}>
+                          {option}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Font</Label>
+                    <div className="grid grid-cols-4 gap-2">
+                      {captionFontSchema.options.map((option) => (
+                        <Button key={option} size="sm" variant={captionFont === option ? "default" : "outline"} style={{ fontFamily: CAPTION_FONT_FAMILIES[option].css }} onClick={() => setCaptionFont(option)} data-testid={`button-caption-font-${option}`}>
+                          {CAPTION_FONT_FAMILIES[option].label}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label className="text-xs text-muted-foreground">Size</Label>
+                      <span className="text-sm text-muted-foreground">{captionFontSize}px</span>
+                    </div>
+                    <Slider value={[captionFontSize]} onValueChange={(v) => setCaptionFontSize(v[0])} min={MIN_CAPTION_FONT_SIZE} max={MAX_CAPTION_FONT_SIZE} step={1} className="w-full" data-testid="slider-caption-size" />
+                  </div>
+                  <ColorPickerField label="Text color" color={captionColor} onChange={setCaptionColor} testId="color-caption-text" />
+                  <ColorPickerField label="Background" color={captionBgColor} onChange={setCaptionBgColor} testId="color-caption-bg" />
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label className="text-xs text-muted-foreground">Background opacity</Label>
+                      <span className="text-sm text-muted-foreground">{Math.round(captionBgOpacity * 100)}%</span>
+                    </div>
+                    <Slider value={[captionBgOpacity]} onValueChange={(v) => setCaptionBgOpacity(v[0])} min={0} max={1} step={0.05} className="w-full" data-testid="slider-caption-bg-opacity" />
+                  </div>
+                </div>
+              </AccordionContent>
+            </AccordionItem>
+
             <AccordionItem value="iframe1">
               <AccordionTrigger>
                 <Label className="text-sm font-semibold flex items-center gap-2">
@@ -1675,7 +2218,7 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
                 </div>
                 <div className="space-y-1">
                   <Label className="text-xs">URL Source</Label>
-                  <Input value={iframe1Url} onChange={(e) => setIframe1Url(e.target.value)} placeholder="https://example.com" data-testid="input-iframe1-url" />
+                  <Input value={iframe1Url} onChange={(e) => setIframe1Url(e.target.value)} placeholder="https://example.com" disabled={!canEditLinks} title={canEditLinks ? undefined : "Only admins can change iFrame URLs"} data-testid="input-iframe1-url" />
                 </div>
                 <div className="space-y-2">
                   <div className="flex items-center justify-between">
@@ -1785,7 +2328,7 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
                 </div>
                 <div className="space-y-1">
                   <Label className="text-xs">URL Source</Label>
-                  <Input value={iframe2Url} onChange={(e) => setIframe2Url(e.target.value)} placeholder="https://example.com" data-testid="input-iframe2-url" />
+                  <Input value={iframe2Url} onChange={(e) => setIframe2Url(e.target.value)} placeholder="https://example.com" disabled={!canEditLinks} title={canEditLinks ? undefined : "Only admins can change iFrame URLs"} data-testid="input-iframe2-url" />
                 </div>
                 <div className="space-y-2">
                   <div className="flex items-center justify-between">
@@ -1864,7 +2407,7 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
           aria-label="Go to Play (audio) page"
           asChild
         >
-          <a href="/play/config" data-testid="button-launch-play">
+          <a href={sitePath(site, "/play/config")} data-testid="button-launch-play">
             <Headphones className="w-6 h-6" />
           </a>
         </Button>
@@ -1886,7 +2429,7 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
           onClick={() => {
             setIsPlaying(false);
             if (sourceMode === "youtube" && playerRef.current && typeof playerRef.current.pauseVideo === "function") playerRef.current.pauseVideo();
-            if (sourceMode === "mp4" && mp4VideoRef.current) mp4VideoRef.current.pause();
+            if (usesVideoElement(sourceMode) && mp4VideoRef.current) mp4VideoRef.current.pause();
             setStemModalOpen(true);
           }}
           data-testid="button-stem"
@@ -1925,11 +2468,10 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
             </button>
             <iframe
               ref={stemIframeRef}
-              src="/stem.html"
+              src={stemPageUrl(site)}
               className="w-full h-full border-0"
               title="StemSplit - AI Audio Separation"
               allow="autoplay; microphone"
-              onLoad={sendAudioToStem}
               data-testid="stem-modal-iframe"
             />
           </div>
@@ -1940,8 +2482,8 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
         {ctaAsButton && (
           <button
             type="button"
-            onClick={handleClick}
-            onKeyDown={handleKeyDown}
+            onClick={handleCtaClick}
+            onKeyDown={handleCtaKeyDown}
             className={`absolute cursor-pointer border-none p-0 z-[15] ${ctaGlow ? "animate-cta-glow" : ""}`}
             style={{
               left: `${ctaX}%`,
@@ -2009,10 +2551,11 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
               <div id="youtube-player" className="w-full h-full pointer-events-none" />
             </div>
 
-            {sourceMode === "mp4" && mp4Url && (
+            {usesVideoElement(sourceMode) && videoSrc && (
               <video
+                key={sourceMode}
                 ref={mp4VideoRef}
-                src={mp4Url}
+                src={sourceMode === "mp4" ? mp4Url : undefined}
                 className="absolute top-1/2 left-1/2 min-w-full min-h-full w-auto h-auto pointer-events-none object-cover"
                 style={{ transform: "translate(-50%, -50%)" }}
                 muted
@@ -2027,6 +2570,8 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
                 animation: shape === "circle" && isPlaying ? "spin-record-reverse 4s linear infinite" : "none",
               }}
             >
+              {captionsVisible && <CaptionOverlay cues={captions.cues} currentTime={currentTime} captionStyle={captionStyle} />}
+
               <div
                 className="absolute pointer-events-auto"
                 style={{ bottom: "12%", right: "12%" }}
@@ -2034,8 +2579,8 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
                 <div
                   role="button"
                   tabIndex={0}
-                  onClick={(e) => { e.preventDefault(); e.stopPropagation(); setIsMuted((m) => !m); }}
-                  onKeyDown={(e) => { if (e.key === "Enter" || e.key === " ") { e.preventDefault(); e.stopPropagation(); setIsMuted((m) => !m); } }}
+                  onClick={(e) => { e.preventDefault(); e.stopPropagation(); handleMuteToggle(!isMuted); }}
+                  onKeyDown={(e) => { if (e.key === "Enter" || e.key === " ") { e.preventDefault(); e.stopPropagation(); handleMuteToggle(!isMuted); } }}
                   className="rounded-full bg-black/50 text-white/80 w-9 h-9 flex items-center justify-center cursor-pointer"
                   aria-label={isMuted ? "Unmute video" : "Mute video"}
                   title={isMuted ? "Unmute (sound only, does not change play/stop)" : "Mute (sound only, does not change play/stop)"}
@@ -2155,7 +2700,7 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
           </button>
           <button
             type="button"
-            onClick={() => setQrModalOpen(true)}
+            onClick={() => { track("qr_open"); setQrModalOpen(true); }}
             className="w-14 h-14 rounded-full border-0 flex items-center justify-center text-white shadow-lg cursor-pointer flex-shrink-0"
             style={{
               background: qrButtonColor,
@@ -2182,7 +2727,7 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
         </div>
       )}
 
-      {qrModalOpen && <QRShareModal shareUrl={typeof window !== "undefined" ? window.location.href : ""} onClose={() => setQrModalOpen(false)} />}
+      {qrModalOpen && <QRShareModal shareUrl={typeof window !== "undefined" ? window.location.href : ""} embedUrl={siteEmbedUrl(site, "view", profile)} onClose={() => setQrModalOpen(false)} />}
 
       {!containerVisible && (
         <HiddenModeControls
@@ -2195,27 +2740,26 @@ export default function Home({ standalone, embed, config, embedFillContainer, em
           duration={duration}
           volume={volume}
           onPlayToggle={handlePlayToggle}
-          onMuteToggle={() => setIsMuted((m) => !m)}
+          onMuteToggle={() => handleMuteToggle(!isMuted)}
           onVolumeChange={setVolume}
-          onSeek={(time) => {
-            if (sourceMode === "youtube" && playerRef.current) {
-              if (typeof playerRef.current.seekTo === "function") playerRef.current.seekTo(time, true);
-            } else if (sourceMode === "mp4" && mp4VideoRef.current) {
-              mp4VideoRef.current.currentTime = time;
-            }
-            setCurrentTime(time);
-          }}
+          onSeek={seekTo}
           onSetLoopStart={handleSetLoopStartToCurrent}
           onSetLoopEnd={handleSetLoopEndToCurrent}
           onLoopStartChange={(s) => setLoopStart(formatMs(s))}
           onLoopEndChange={(s) => setLoopEnd(formatMs(s))}
           onClearLoopStart={() => setLoopStart("0")}
           onClearLoopEnd={() => setLoopEnd("")}
+          onPrevious={playback.current ? playback.previous : undefined}
+          onNext={playback.current ? playback.next : undefined}
           title={title}
+          cuePoints={cuePoints}
+          onJumpToCue={jumpToCue}
+          playbackRate={playbackRate}
+          onPlaybackRateChange={setPlaybackRate}
         />
       )}
 
-      {visitModalOpen && <VisitSiteModal url={buttonUrl} width={visitModalWidth} onClose={() => setVisitModalOpen(false)} />}
+      {visitModalOpen && <VisitSiteModal url={buttonUrl} width={visitModalWidth} onClose={() => setVisitModalOpen(false)} onOpenExternal={() => track("visit_through")} />}
       {searchModalOpen && <VisitSiteModal url="/search" width={100} onClose={() => setSearchModalOpen(false)} />}
     </div>
   );
@@ -2240,7 +2784,13 @@ function HiddenModeControls({
   onLoopEndChange,
   onClearLoopStart,
   onClearLoopEnd,
+  onPrevious,
+  onNext,
   title,
+  cuePoints,
+  onJumpToCue,
+  playbackRate,
+  onPlaybackRateChange,
 }: {
   isPlaying: boolean;
   isMuted: boolean;
@@ -2260,7 +2810,14 @@ function HiddenModeControls({
   onLoopEndChange: (seconds: number) => void;
   onClearLoopStart: () => void;
   onClearLoopEnd: () => void;
+  /** With a playlist playing, the skip buttons change item instead of seeking. */
+  onPrevious?: () => void;
+  onNext?: () => void;
   title: string;
+  cuePoints: CuePoint[];
+  onJumpToCue: (cue: CuePoint) => void;
+  playbackRate: number;
+  onPlaybackRateChange: (rate: number) => void;
 }) {
   const scrubBarRef = useRef<HTMLDivElement>(null);
   const draggingRef = useRef<{ handle: "start" | "end"; pointerId: number } | null>(null);
@@ -2303,14 +2860,16 @@ function HiddenModeControls({
   }, [duration, onSeek]);
 
   const handleSkipBack = useCallback(() => {
+    if (onPrevious) return onPrevious();
     const newTime = Math.max(rangeStart, currentTime - 5);
     onSeek(newTime);
-  }, [rangeStart, currentTime, onSeek]);
+  }, [rangeStart, currentTime, onSeek, onPrevious]);
 
   const handleSkipForward = useCallback(() => {
+    if (onNext) return onNext();
     const newTime = Math.min(rangeEnd, currentTime + 5);
     onSeek(newTime);
-  }, [rangeEnd, currentTime, onSeek]);
+  }, [rangeEnd, currentTime, onSeek, onNext]);
 
   return (
     <div className="flex flex-col items-center gap-6 w-full max-w-md px-4" data-testid="hidden-mode-controls">
@@ -2328,6 +2887,7 @@ function HiddenModeControls({
             <span className="text-white/70 text-xs font-medium">{formatTime(currentTime)}</span>
             <span className="text-white/70 text-xs font-medium">{formatTime(duration)}</span>
           </div>
+          <CueMarkers cues={cuePoints} duration={duration} onJump={onJumpToCue} />
           <div className="relative w-full" ref={scrubBarRef}>
             {isLooping && duration > 0 && (
               <div
@@ -2400,7 +2960,7 @@ function HiddenModeControls({
             variant="ghost"
             onClick={handleSkipBack}
             className="text-white bg-blue-500 border-2 border-blue-400 border-b-blue-700 border-r-blue-700 rounded-lg shadow-[0_4px_0_0_#1d4ed8,0_6px_8px_rgba(0,0,0,0.25)] active:translate-y-[2px] active:shadow-[0_1px_0_0_#1d4ed8,0_2px_4px_rgba(0,0,0,0.2)] transition-all hover:bg-blue-400"
-            aria-label="Skip back 5 seconds"
+            aria-label={onPrevious ? "Previous video" : "Skip back 5 seconds"}
             data-testid="button-hidden-skip-back"
           >
             <SkipBack className="w-5 h-5" />
@@ -2420,13 +2980,15 @@ function HiddenModeControls({
             variant="ghost"
             onClick={handleSkipForward}
             className="text-white bg-amber-500 border-2 border-amber-400 border-b-amber-700 border-r-amber-700 rounded-lg shadow-[0_4px_0_0_#b45309,0_6px_8px_rgba(0,0,0,0.25)] active:translate-y-[2px] active:shadow-[0_1px_0_0_#b45309,0_2px_4px_rgba(0,0,0,0.2)] transition-all hover:bg-amber-400"
-            aria-label="Skip forward 5 seconds"
+            aria-label={onNext ? "Next video" : "Skip forward 5 seconds"}
             data-testid="button-hidden-skip-forward"
           >
             <SkipForward className="w-5 h-5" />
           </Button>
         </div>
 
+        <PlaybackRateControl value={playbackRate} onChange={onPlaybackRateChange} variant="overlay" testId="hidden-playback-rate" />
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-start w-full">
           <div className="flex flex-col items-center gap-2 justify-self-start">
             {isLooping && (
@@ -2538,7 +3100,7 @@ function HiddenModeControls({
 const LAUNCH_MODAL_SLIDE_MS = 500;
 const VISIT_MODAL_CLOSE_THRESHOLD = 70; // sheet top % - when released past this, close and release
 
-function QRShareModal({ shareUrl, onClose }: { shareUrl: string; onClose: () => void }) {
+function QRShareModal({ shareUrl, embedUrl, onClose }: { shareUrl: string; embedUrl: string; onClose: () => void }) {
   const [sheetY, setSheetY] = useState(10);
   const [isDragging, setIsDragging] = useState(false);
   const [hasEntered, setHasEntered] = useState(false);
@@ -2595,6 +3157,11 @@ function QRShareModal({ shareUrl, onClose }: { shareUrl: string; onClose: () =>
     if (shareUrl) navigator.clipboard.writeText(shareUrl).catch(() => {});
   }, [shareUrl]);
 
+  const embedCode = `<iframe src="${embedUrl}" width="100%" height="600" style="border:0" allow="autoplay; fullscreen"></iframe>`;
+  const handleCopyEmbed = useCallback(() => {
+    navigator.clipboard.writeText(embedCode).catch(() => {});
+  }, [embedCode]);
+
   return (
     <div className="fixed inset-0 z-50 bg-black/60" onClick={handleClose} data-testid="qr-modal-overlay" aria-label="QR Share modal">
       <div
@@ -2650,6 +3217,19 @@ function QRShareModal({ shareUrl, onClose }: { shareUrl: string; onClose: () =>
             >
               Copy Link
             </button>
+            <div className="w-full">
+              <div className="bg-muted rounded-md px-3 py-2 text-xs font-mono text-muted-foreground break-all" data-testid="qr-modal-embed-code">
+                {embedCode}
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={handleCopyEmbed}
+              className="w-full py-3 rounded-lg border font-semibold transition-colors hover:bg-muted"
+              data-testid="button-qr-copy-embed"
+            >
+              Copy Embed Code
+            </button>
           </div>
         </div>
       </div>
@@ -2657,7 +3237,7 @@ function QRShareModal({ shareUrl, onClose }: { shareUrl: string; onClose: () =>
   );
 }
 
-function VisitSiteModal({ url, width = 100, onClose }: { url: string; width?: number; onClose: () => void }) {
+function VisitSiteModal({ url, width = 100, onClose, onOpenExternal }: { url: string; width?: number; onClose: () => void; onOpenExternal?: () => void }) {
   const [sheetY, setSheetY] = useState(10);
   const [isDragging, setIsDragging] = useState(false);
   const [hasEntered, setHasEntered] = useState(false);
@@ -2746,7 +3326,7 @@ function VisitSiteModal({ url, width = 100, onClose }: { url: string; width?: nu
               href={url}
               target="_blank"
               rel="noopener noreferrer"
-              onClick={(e) => e.stopPropagation()}
+              onClick={(e) => { e.stopPropagation(); onOpenExternal?.(); }}
               className="w-8 h-8 rounded-full flex items-center justify-center bg-yellow-400 text-black hover:bg-yellow-500 shrink-0"
               aria-label="Open in new window"
               data-testid="link-visit-modal-new-window"
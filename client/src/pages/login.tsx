@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { Redirect } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2, LogIn } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { apiErrorMessage } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+function safeNextPath(): string {
+  const next = new URLSearchParams(window.location.search).get("next");
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : "/view/config";
+}
+
+export default function LoginPage() {
+  const { user, isLoading, loginMutation, registerMutation } = useAuth();
+  const { data: setup } = useQuery<{ needsSetup: boolean }>({ queryKey: ["/api/auth/setup"] });
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (user) return <Redirect to={safeNextPath()} />;
+
+  const needsSetup = setup?.needsSetup ?? false;
+  const mutation = needsSetup ? registerMutation : loginMutation;
+  const error = mutation.error ? apiErrorMessage(mutation.error) : null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    mutation.mutate({ username, password });
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-sm mx-4">
+        <CardHeader>
+          <CardTitle>{needsSetup ? "Create the first account" : "Sign in"}</CardTitle>
+          <CardDescription>
+            {needsSetup
+              ? "No accounts exist yet. This account becomes the administrator."
+              : "Sign in to edit player configurations."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="login-username">Username</Label>
+              <Input
+                id="login-username"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                data-testid="input-username"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="login-password">Password</Label>
+              <Input
+                id="login-password"
+                type="password"
+                autoComplete={needsSetup ? "new-password" : "current-password"}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                data-testid="input-password"
+              />
+            </div>
+            {error && <p className="text-sm text-destructive" data-testid="text-login-error">{error}</p>}
+            <Button type="submit" className="w-full" disabled={mutation.isPending || !username || !password} data-testid="button-login">
+              {mutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <LogIn className="w-4 h-4 mr-2" />}
+              {needsSetup ? "Create account" : "Sign in"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,7 +1,28 @@
 import { useState, useCallback, useRef, useEffect } from "react";
-import { ArrowRight, Menu, Volume2, VolumeX, Play, Pause, Square, Repeat, Link, Clock, Maximize2, Palette, ExternalLink, Eye, EyeOff, SkipBack, SkipForward, Music, Film, X, GripHorizontal, ImageIcon, Minus, Plus, QrCode, Save } from "lucide-react";
-import { apiRequest } from "@/lib/queryClient";
+import { ArrowRight, Menu, Volume2, VolumeX, Play, Pause, Square, Repeat, Link, Clock, Maximize2, Palette, ExternalLink, Eye, EyeOff, SkipBack, SkipForward, Music, Film, X, GripHorizontal, AudioLines, Loader2, ImageIcon, Minus, Plus, QrCode, Save, MonitorSmartphone, LogOut, BarChart3, FlaskConical, CalendarClock, Captions, Users } from "lucide-react";
+import { containerShapeSchema, DEFAULT_SITE, DEFAULT_PROFILE, MAX_PITCH_SEMITONES, MAX_CAPTION_FONT_SIZE, MIN_CAPTION_FONT_SIZE, captionFontSchema, captionPositionSchema, parseRouteSettings, SETTINGS_SCHEMA_VERSION, type PlaySettings, type PlayGlobalUrls, type RouteSettings, type ContainerShape, type CuePoint, type DisplayMode, type CaptionFont, type CaptionPosition } from "@shared/schema";
+import { CAPTION_FONT_FAMILIES } from "@/lib/captions";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { getProfileFromLocation, profilesQueryKey, routeSettingsUrl, setProfileInLocation } from "@/lib/profiles";
+import { siteApiUrl, siteEmbedUrl, sitePath, stemPageUrl, useSite, type SiteInfo } from "@/lib/sites";
+import { postToStemPage } from "@/lib/stem-messages";
+import { STEM_COLORS } from "@/lib/stems";
 import { useToast } from "@/hooks/use-toast";
+import { useBreakpointLayout } from "@/hooks/use-breakpoint-layout";
+import { useAuth } from "@/hooks/use-auth";
+import { useAnalytics } from "@/hooks/use-analytics";
+import { useExperiment } from "@/hooks/use-experiment";
+import { useScheduleReload } from "@/hooks/use-schedule-reload";
+import { useAudioQueue } from "@/hooks/use-audio-queue";
+import { useWaveform } from "@/hooks/use-waveform";
+import { useCuePoints, useCueShortcuts } from "@/hooks/use-cue-points";
+import { useCaptions } from "@/hooks/use-captions";
+import { useStemPageReady } from "@/hooks/use-stem-page-ready";
+import { usePracticeStems, type PracticeStems } from "@/hooks/use-practice-stems";
+import { AudioEngine } from "@/lib/audio-engine";
+import { snapToWaveform, type WaveformAnalysis } from "@/lib/waveform";
+import { withVariant } from "@shared/experiments";
+import { hasRole, siteRole } from "@shared/permissions";
 import { QRCodeSVG } from "qrcode.react";
 import { HexColorPicker } from "react-colorful";
 import { Button } from "@/components/ui/button";
@@ -9,10 +30,24 @@ import { MicroAdjustButton } from "@/components/ui/micro-adjust-button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
+import { WaveformCanvas } from "@/components/ui/waveform-canvas";
 import { Switch } from "@/components/ui/switch";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { DraggableResizablePanel } from "@/components/ui/draggable-resizable-panel";
+import { ProfilePicker } from "@/components/ui/profile-picker";
+import { ExperimentManager } from "@/components/ui/experiment-manager";
+import { ScheduleManager } from "@/components/ui/schedule-manager";
+import { SiteMembersManager } from "@/components/ui/site-members-manager";
+import { AudioQueueManager } from "@/components/ui/audio-queue-manager";
+import { MediaLibraryPicker } from "@/components/ui/media-library-picker";
+import { CueMarkers } from "@/components/ui/cue-markers";
+import { CuePointManager } from "@/components/ui/cue-point-manager";
+import { CaptionManager } from "@/components/ui/caption-manager";
+import { CaptionOverlay } from "@/components/ui/caption-overlay";
+import { PlaybackRateControl } from "@/components/ui/playback-rate-control";
+import { BreakpointManager } from "@/components/ui/breakpoint-manager";
+import { ConfigTransfer } from "@/components/ui/config-transfer";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 
 const DEFAULT_AUDIO_URL = "https://xrwnptogkhxeyamjcxhd.supabase.co/storage/v1/object/public/attachments/1770396018869-OneDanceSnippet.mp4";
@@ -56,7 +91,6 @@ function getLabelForUrl(url: string): string {
   }
 }
 
-type ContainerShape = "circle" | "oval" | "square" | "rectangle";
 
 const shapeStyles: Record<ContainerShape, { borderRadius: string; aspect: string; widthClass: string; heightClass: string }> = {
   circle: { borderRadius: "9999px", aspect: "1/1", widthClass: "w-[180px] sm:w-[220px] md:w-[280px]", heightClass: "h-[180px] sm:h-[220px] md:h-[280px]" },
@@ -126,44 +160,24 @@ function ColorPickerField({ label, color, onChange, testId }: { label: string; c
   );
 }
 
-function AudioVisualizer({ audioRef, isPlaying }: { audioRef: React.RefObject<HTMLAudioElement | null>; isPlaying: boolean }) {
+/** Draws the engine's analyser, which sits after both decks, so the bars carry on across track changes. */
+function AudioVisualizer({ engine, isPlaying }: { engine: AudioEngine; isPlaying: boolean }) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const sourceRef = useRef<MediaElementAudioSourceNode | null>(null);
-  const contextRef = useRef<AudioContext | null>(null);
   const animFrameRef = useRef<number>(0);
 
   useEffect(() => {
-    const audio = audioRef.current;
     const canvas = canvasRef.current;
-    if (!audio || !canvas) return;
-
-    const initAnalyser = () => {
-      if (contextRef.current) return;
-      try {
-        const ctx = new AudioContext();
-        const analyser = ctx.createAnalyser();
-        analyser.fftSize = 64;
-        const source = ctx.createMediaElementSource(audio);
-        source.connect(analyser);
-        analyser.connect(ctx.destination);
-        contextRef.current = ctx;
-        analyserRef.current = analyser;
-        sourceRef.current = source;
-      } catch { /* already connected */ }
-    };
-
-    const handlePlay = () => { initAnalyser(); if (contextRef.current?.state === "suspended") contextRef.current.resume(); };
-    audio.addEventListener("play", handlePlay);
+    if (!canvas) return;
 
     const draw = () => {
       animFrameRef.current = requestAnimationFrame(draw);
-      if (!analyserRef.current || !canvas) return;
+      const analyser = engine.getAnalyser();
+      if (!analyser) return;
       const ctx2d = canvas.getContext("2d");
       if (!ctx2d) return;
-      const bufferLength = analyserRef.current.frequencyBinCount;
+      const bufferLength = analyser.frequencyBinCount;
       const dataArray = new Uint8Array(bufferLength);
-      analyserRef.current.getByteFrequencyData(dataArray);
+      analyser.getByteFrequencyData(dataArray);
       const w = canvas.width;
       const h = canvas.height;
       ctx2d.clearRect(0, 0, w, h);
@@ -184,11 +198,8 @@ function AudioVisualizer({ audioRef, isPlaying }: { audioRef: React.RefObject<HT
     };
     draw();
 
-    return () => {
-      cancelAnimationFrame(animFrameRef.current);
-      audio.removeEventListener("play", handlePlay);
-    };
-  }, [audioRef, isPlaying]);
+    return () => cancelAnimationFrame(animFrameRef.current);
+  }, [engine, isPlaying]);
 
   return <canvas ref={canvasRef} width={280} height={280} className="absolute inset-0 w-full h-full" />;
 }
@@ -197,7 +208,7 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
   const [isHovered, setIsHovered] = useState(false);
   const [title, setTitle] = useState("Click the Audio Button");
   const [buttonLabel, setButtonLabel] = useState("Visit Site");
-  const [buttonUrl, setButtonUrl] = useState("https://rodbiz.digiucard.com/portfolio");
+  const [buttonUrl, setButtonUrl] = useState("");
   const [buttonColor, setButtonColor] = useState("#667eea");
   const [buttonPosX, setButtonPosX] = useState(50);
   const [buttonPosY, setButtonPosY] = useState(50);
@@ -207,12 +218,22 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
     const history = loadUrlHistory(AUDIO_URLS_KEY);
     return history.length > 0 ? history[0] : DEFAULT_AUDIO_URL;
   });
+  const [audioQueueId, setAudioQueueId] = useState<number | null>(null);
   const [volume, setVolume] = useState([50]);
   const [isMuted, setIsMuted] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isLooping, setIsLooping] = useState(true);
   const [loopStart, setLoopStart] = useState("0");
   const [loopEnd, setLoopEnd] = useState("");
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [pitchSemitones, setPitchSemitones] = useState(0);
+  const [captionsVisible, setCaptionsVisible] = useState(true);
+  const [captionPosition, setCaptionPosition] = useState<CaptionPosition>("bottom");
+  const [captionFont, setCaptionFont] = useState<CaptionFont>("sans");
+  const [captionFontSize, setCaptionFontSize] = useState(16);
+  const [captionColor, setCaptionColor] = useState("#ffffff");
+  const [captionBgColor, setCaptionBgColor] = useState("#000000");
+  const [captionBgOpacity, setCaptionBgOpacity] = useState(0.6);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [progress, setProgress] = useState([0]);
@@ -255,7 +276,7 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
   const [iframe2Height, setIframe2Height] = useState([300]);
   const [iframe2Visible, setIframe2Visible] = useState(true);
 
-  const [displayMode, setDisplayMode] = useState<"visualizer" | "image">("visualizer");
+  const [displayMode, setDisplayMode] = useState<DisplayMode>("visualizer");
   const [imageUrl, setImageUrl] = useState("");
   const [stemModalOpen, setStemModalOpen] = useState(false);
   const [visitModalOpen, setVisitModalOpen] = useState(false);
@@ -271,7 +292,7 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
   const [ctaVisible, setCtaVisible] = useState(true);
   const [ctaFadeInSeconds, setCtaFadeInSeconds] = useState(1);
   const [ctaImageUrl, setCtaImageUrl] = useState("");
-  const [ctaShape, setCtaShape] = useState<"circle" | "oval" | "square" | "rectangle">("circle");
+  const [ctaShape, setCtaShape] = useState<ContainerShape>("circle");
   const [ctaBorderColor, setCtaBorderColor] = useState("#ffffff33");
   const [ctaBorderThickness, setCtaBorderThickness] = useState(4);
   const [ctaShadow3d, setCtaShadow3d] = useState(true);
@@ -288,27 +309,42 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
   const progressIntervalRef = useRef<number | null>(null);
   const isSeeking = useRef(false);
   const autoPlayAttempted = useRef(false);
+  const [engine] = useState(() => new AudioEngine());
 
   const { toast } = useToast();
   const settingsLoadedRef = useRef(false);
+  const site = useSite();
+  const { user, logoutMutation } = useAuth();
+  const canEdit = hasRole(siteRole(user, site), "editor");
+  const canEditLinks = hasRole(siteRole(user, site), "admin");
+  const [profile, setProfile] = useState(getProfileFromLocation);
+  // Visitors without an explicit ?profile= get whichever profile is scheduled right now.
+  const followScheduleRef = useRef(!config && profile === DEFAULT_PROFILE);
+  const scheduleReload = useScheduleReload();
+  const experiment = useExperiment(site, "play", profile, !config);
+  const experimentRef = useRef(experiment);
+  useEffect(() => { experimentRef.current = experiment; }, [experiment]);
+  const track = useAnalytics({ site, route: "play", profile, playing: isPlaying, enabled: !config, experiment });
 
   const collectSettings = useCallback(() => {
-    const settings: Record<string, unknown> = {
+    const settings: PlaySettings = {
+      schemaVersion: SETTINGS_SCHEMA_VERSION,
       title, buttonLabel, buttonColor, buttonPosX, buttonPosY, buttonScale,
       visitModalWidth, qrButtonPosY, qrButtonVisible, qrButtonColor,
       ctaAsButton, ctaX, ctaY, ctaScale, ctaVisible, ctaFadeInSeconds,
       ctaShape, ctaBorderColor, ctaBorderThickness, ctaShadow3d, ctaGlow,
-      volume, isMuted, isLooping, loopStart, loopEnd,
+      volume, isMuted, isLooping, loopStart, loopEnd, playbackRate, pitchSemitones,
+      captionsVisible, captionPosition, captionFont, captionFontSize, captionColor, captionBgColor, captionBgOpacity,
       shape, containerRounded, scale, containerPosX, containerPosY,
       containerWidth, containerHeight, lockViewportScrollY, lockViewportScrollX,
       mediaZIndex, bgColor, borderColor, containerVisible,
-      displayMode,
+      displayMode, audioQueueId,
       iframe1PosX, iframe1PosY, iframe1Scale, iframe1Width, iframe1Height, iframe1Visible,
       iframe1Rounded, lockIframe1ScrollY, lockIframe1ScrollX, iframe1ZIndex,
       iframe2PosX, iframe2PosY, iframe2Scale, iframe2Width, iframe2Height, iframe2Visible,
       iframe2Rounded, lockIframe2ScrollY, lockIframe2ScrollX, iframe2ZIndex,
     };
-    const globalUrls: Record<string, string> = {
+    const globalUrls: PlayGlobalUrls = {
       buttonUrl, audioUrl: audioUrl || "",
       ctaImageUrl, imageUrl, iframe1Url, iframe2Url,
     };
@@ -317,11 +353,12 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
     visitModalWidth, qrButtonPosY, qrButtonVisible, qrButtonColor,
     ctaAsButton, ctaX, ctaY, ctaScale, ctaVisible, ctaFadeInSeconds,
     ctaShape, ctaBorderColor, ctaBorderThickness, ctaShadow3d, ctaGlow,
-    volume, isMuted, isLooping, loopStart, loopEnd,
+    volume, isMuted, isLooping, loopStart, loopEnd, playbackRate, pitchSemitones,
+    captionsVisible, captionPosition, captionFont, captionFontSize, captionColor, captionBgColor, captionBgOpacity,
     shape, containerRounded, scale, containerPosX, containerPosY,
     containerWidth, containerHeight, lockViewportScrollY, lockViewportScrollX,
     mediaZIndex, bgColor, borderColor, containerVisible,
-    displayMode,
+    displayMode, audioQueueId,
     iframe1PosX, iframe1PosY, iframe1Scale, iframe1Width, iframe1Height, iframe1Visible,
     iframe1Rounded, lockIframe1ScrollY, lockIframe1ScrollX, iframe1ZIndex,
     iframe2PosX, iframe2PosY, iframe2Scale, iframe2Width, iframe2Height, iframe2Visible,
@@ -332,78 +369,89 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
     const width = window.innerWidth;
     const { settings, globalUrls } = collectSettings();
     try {
-      await apiRequest("POST", "/api/route-settings", {
-        route: "play", width, settings, globalUrls,
+      await apiRequest("POST", siteApiUrl(site, "/route-settings"), {
+        route: "play", profile, width, settings, globalUrls,
       });
-      toast({ title: "Settings saved", description: `Saved for width ${width}px` });
-    } catch {
-      toast({ title: "Save failed", description: "Could not save settings", variant: "destructive" });
+      queryClient.invalidateQueries({ queryKey: profilesQueryKey(site, "play") });
+      toast({ title: "Settings saved", description: `Saved ${profile} for width ${width}px` });
+    } catch (err) {
+      toast({ title: "Save failed", description: apiErrorMessage(err), variant: "destructive" });
     }
-  }, [collectSettings, toast]);
+  }, [collectSettings, profile, site, toast]);
 
-  const applySettings = useCallback((data: { settings: Record<string, unknown>; globalUrls: Record<string, string> }) => {
+  const applySettings = useCallback((data: { settings: Partial<PlaySettings>; globalUrls: Partial<PlayGlobalUrls> }) => {
     const s = data.settings;
     const u = data.globalUrls;
-    if (s.title !== undefined) setTitle(s.title as string);
-    if (s.buttonLabel !== undefined) setButtonLabel(s.buttonLabel as string);
-    if (s.buttonColor !== undefined) setButtonColor(s.buttonColor as string);
-    if (s.buttonPosX !== undefined) setButtonPosX(s.buttonPosX as number);
-    if (s.buttonPosY !== undefined) setButtonPosY(s.buttonPosY as number);
-    if (s.buttonScale !== undefined) setButtonScale(s.buttonScale as number[]);
-    if (s.visitModalWidth !== undefined) setVisitModalWidth(s.visitModalWidth as number);
-    if (s.qrButtonPosY !== undefined) setQrButtonPosY(s.qrButtonPosY as number);
-    if (s.qrButtonVisible !== undefined) setQrButtonVisible(s.qrButtonVisible as boolean);
-    if (s.qrButtonColor !== undefined) setQrButtonColor(s.qrButtonColor as string);
-    if (s.ctaAsButton !== undefined) setCtaAsButton(s.ctaAsButton as boolean);
-    if (s.ctaX !== undefined) setCtaX(s.ctaX as number);
-    if (s.ctaY !== undefined) setCtaY(s.ctaY as number);
-    if (s.ctaScale !== undefined) setCtaScale(s.ctaScale as number[]);
-    if (s.ctaVisible !== undefined) setCtaVisible(s.ctaVisible as boolean);
-    if (s.ctaFadeInSeconds !== undefined) setCtaFadeInSeconds(s.ctaFadeInSeconds as number);
-    if (s.ctaShape !== undefined) setCtaShape(s.ctaShape as "circle" | "oval" | "square" | "rectangle");
-    if (s.ctaBorderColor !== undefined) setCtaBorderColor(s.ctaBorderColor as string);
-    if (s.ctaBorderThickness !== undefined) setCtaBorderThickness(s.ctaBorderThickness as number);
-    if (s.ctaShadow3d !== undefined) setCtaShadow3d(s.ctaShadow3d as boolean);
-    if (s.ctaGlow !== undefined) setCtaGlow(s.ctaGlow as boolean);
-    if (s.volume !== undefined) setVolume(s.volume as number[]);
-    if (s.isMuted !== undefined) setIsMuted(s.isMuted as boolean);
-    if (s.isLooping !== undefined) setIsLooping(s.isLooping as boolean);
-    if (s.loopStart !== undefined) setLoopStart(s.loopStart as string);
-    if (s.loopEnd !== undefined) setLoopEnd(s.loopEnd as string);
-    if (s.shape !== undefined) setShape(s.shape as ContainerShape);
-    if (s.containerRounded !== undefined) setContainerRounded(s.containerRounded as boolean);
-    if (s.scale !== undefined) setScale(s.scale as number[]);
-    if (s.containerPosX !== undefined) setContainerPosX(s.containerPosX as number);
-    if (s.containerPosY !== undefined) setContainerPosY(s.containerPosY as number);
-    if (s.containerWidth !== undefined) setContainerWidth(s.containerWidth as number[]);
-    if (s.containerHeight !== undefined) setContainerHeight(s.containerHeight as number[]);
-    if (s.lockViewportScrollY !== undefined) setLockViewportScrollY(s.lockViewportScrollY as boolean);
-    if (s.lockViewportScrollX !== undefined) setLockViewportScrollX(s.lockViewportScrollX as boolean);
-    if (s.mediaZIndex !== undefined) setMediaZIndex(s.mediaZIndex as number);
-    if (s.bgColor !== undefined) setBgColor(s.bgColor as string);
-    if (s.borderColor !== undefined) setBorderColor(s.borderColor as string);
-    if (s.containerVisible !== undefined) setContainerVisible(s.containerVisible as boolean);
-    if (s.displayMode !== undefined) setDisplayMode(s.displayMode as "visualizer" | "image");
-    if (s.iframe1PosX !== undefined) setIframe1PosX(s.iframe1PosX as number);
-    if (s.iframe1PosY !== undefined) setIframe1PosY(s.iframe1PosY as number);
-    if (s.iframe1Scale !== undefined) setIframe1Scale(s.iframe1Scale as number[]);
-    if (s.iframe1Width !== undefined) setIframe1Width(s.iframe1Width as number[]);
-    if (s.iframe1Height !== undefined) setIframe1Height(s.iframe1Height as number[]);
-    if (s.iframe1Visible !== undefined) setIframe1Visible(s.iframe1Visible as boolean);
-    if (s.iframe1Rounded !== undefined) setIframe1Rounded(s.iframe1Rounded as boolean);
-    if (s.lockIframe1ScrollY !== undefined) setLockIframe1ScrollY(s.lockIframe1ScrollY as boolean);
-    if (s.lockIframe1ScrollX !== undefined) setLockIframe1ScrollX(s.lockIframe1ScrollX as boolean);
-    if (s.iframe1ZIndex !== undefined) setIframe1ZIndex(s.iframe1ZIndex as number);
-    if (s.iframe2PosX !== undefined) setIframe2PosX(s.iframe2PosX as number);
-    if (s.iframe2PosY !== undefined) setIframe2PosY(s.iframe2PosY as number);
-    if (s.iframe2Scale !== undefined) setIframe2Scale(s.iframe2Scale as number[]);
-    if (s.iframe2Width !== undefined) setIframe2Width(s.iframe2Width as number[]);
-    if (s.iframe2Height !== undefined) setIframe2Height(s.iframe2Height as number[]);
-    if (s.iframe2Visible !== undefined) setIframe2Visible(s.iframe2Visible as boolean);
-    if (s.iframe2Rounded !== undefined) setIframe2Rounded(s.iframe2Rounded as boolean);
-    if (s.lockIframe2ScrollY !== undefined) setLockIframe2ScrollY(s.lockIframe2ScrollY as boolean);
-    if (s.lockIframe2ScrollX !== undefined) setLockIframe2ScrollX(s.lockIframe2ScrollX as boolean);
-    if (s.iframe2ZIndex !== undefined) setIframe2ZIndex(s.iframe2ZIndex as number);
+    if (s.title !== undefined) setTitle(s.title);
+    if (s.buttonLabel !== undefined) setButtonLabel(s.buttonLabel);
+    if (s.buttonColor !== undefined) setButtonColor(s.buttonColor);
+    if (s.buttonPosX !== undefined) setButtonPosX(s.buttonPosX);
+    if (s.buttonPosY !== undefined) setButtonPosY(s.buttonPosY);
+    if (s.buttonScale !== undefined) setButtonScale(s.buttonScale);
+    if (s.visitModalWidth !== undefined) setVisitModalWidth(s.visitModalWidth);
+    if (s.qrButtonPosY !== undefined) setQrButtonPosY(s.qrButtonPosY);
+    if (s.qrButtonVisible !== undefined) setQrButtonVisible(s.qrButtonVisible);
+    if (s.qrButtonColor !== undefined) setQrButtonColor(s.qrButtonColor);
+    if (s.ctaAsButton !== undefined) setCtaAsButton(s.ctaAsButton);
+    if (s.ctaX !== undefined) setCtaX(s.ctaX);
+    if (s.ctaY !== undefined) setCtaY(s.ctaY);
+    if (s.ctaScale !== undefined) setCtaScale(s.ctaScale);
+    if (s.ctaVisible !== undefined) setCtaVisible(s.ctaVisible);
+    if (s.ctaFadeInSeconds !== undefined) setCtaFadeInSeconds(s.ctaFadeInSeconds);
+    if (s.ctaShape !== undefined) setCtaShape(s.ctaShape);
+    if (s.ctaBorderColor !== undefined) setCtaBorderColor(s.ctaBorderColor);
+    if (s.ctaBorderThickness !== undefined) setCtaBorderThickness(s.ctaBorderThickness);
+    if (s.ctaShadow3d !== undefined) setCtaShadow3d(s.ctaShadow3d);
+    if (s.ctaGlow !== undefined) setCtaGlow(s.ctaGlow);
+    if (s.volume !== undefined) setVolume(s.volume);
+    if (s.isMuted !== undefined) setIsMuted(s.isMuted);
+    if (s.isLooping !== undefined) setIsLooping(s.isLooping);
+    if (s.loopStart !== undefined) setLoopStart(s.loopStart);
+    if (s.loopEnd !== undefined) setLoopEnd(s.loopEnd);
+    if (s.playbackRate !== undefined) setPlaybackRate(s.playbackRate);
+    if (s.pitchSemitones !== undefined) setPitchSemitones(s.pitchSemitones);
+    if (s.captionsVisible !== undefined) setCaptionsVisible(s.captionsVisible);
+    if (s.captionPosition !== undefined) setCaptionPosition(s.captionPosition);
+    if (s.captionFont !== undefined) setCaptionFont(s.captionFont);
+    if (s.captionFontSize !== undefined) setCaptionFontSize(s.captionFontSize);
+    if (s.captionColor !== undefined) setCaptionColor(s.captionColor);
+    if (s.captionBgColor !== undefined) setCaptionBgColor(s.captionBgColor);
+    if (s.captionBgOpacity !== undefined) setCaptionBgOpacity(s.captionBgOpacity);
+    if (s.shape !== undefined) setShape(s.shape);
+    if (s.containerRounded !== undefined) setContainerRounded(s.containerRounded);
+    if (s.scale !== undefined) setScale(s.scale);
+    if (s.containerPosX !== undefined) setContainerPosX(s.containerPosX);
+    if (s.containerPosY !== undefined) setContainerPosY(s.containerPosY);
+    if (s.containerWidth !== undefined) setContainerWidth(s.containerWidth);
+    if (s.containerHeight !== undefined) setContainerHeight(s.containerHeight);
+    if (s.lockViewportScrollY !== undefined) setLockViewportScrollY(s.lockViewportScrollY);
+    if (s.lockViewportScrollX !== undefined) setLockViewportScrollX(s.lockViewportScrollX);
+    if (s.mediaZIndex !== undefined) setMediaZIndex(s.mediaZIndex);
+    if (s.bgColor !== undefined) setBgColor(s.bgColor);
+    if (s.borderColor !== undefined) setBorderColor(s.borderColor);
+    if (s.containerVisible !== undefined) setContainerVisible(s.containerVisible);
+    if (s.displayMode !== undefined) setDisplayMode(s.displayMode);
+    if (s.audioQueueId !== undefined) setAudioQueueId(s.audioQueueId);
+    if (s.iframe1PosX !== undefined) setIframe1PosX(s.iframe1PosX);
+    if (s.iframe1PosY !== undefined) setIframe1PosY(s.iframe1PosY);
+    if (s.iframe1Scale !== undefined) setIframe1Scale(s.iframe1Scale);
+    if (s.iframe1Width !== undefined) setIframe1Width(s.iframe1Width);
+    if (s.iframe1Height !== undefined) setIframe1Height(s.iframe1Height);
+    if (s.iframe1Visible !== undefined) setIframe1Visible(s.iframe1Visible);
+    if (s.iframe1Rounded !== undefined) setIframe1Rounded(s.iframe1Rounded);
+    if (s.lockIframe1ScrollY !== undefined) setLockIframe1ScrollY(s.lockIframe1ScrollY);
+    if (s.lockIframe1ScrollX !== undefined) setLockIframe1ScrollX(s.lockIframe1ScrollX);
+    if (s.iframe1ZIndex !== undefined) setIframe1ZIndex(s.iframe1ZIndex);
+    if (s.iframe2PosX !== undefined) setIframe2PosX(s.iframe2PosX);
+    if (s.iframe2PosY !== undefined) setIframe2PosY(s.iframe2PosY);
+    if (s.iframe2Scale !== undefined) setIframe2Scale(s.iframe2Scale);
+    if (s.iframe2Width !== undefined) setIframe2Width(s.iframe2Width);
+    if (s.iframe2Height !== undefined) setIframe2Height(s.iframe2Height);
+    if (s.iframe2Visible !== undefined) setIframe2Visible(s.iframe2Visible);
+    if (s.iframe2Rounded !== undefined) setIframe2Rounded(s.iframe2Rounded);
+    if (s.lockIframe2ScrollY !== undefined) setLockIframe2ScrollY(s.lockIframe2ScrollY);
+    if (s.lockIframe2ScrollX !== undefined) setLockIframe2ScrollX(s.lockIframe2ScrollX);
+    if (s.iframe2ZIndex !== undefined) setIframe2ZIndex(s.iframe2ZIndex);
     if (u.buttonUrl !== undefined) setButtonUrl(u.buttonUrl);
     if (u.audioUrl !== undefined) setAudioUrl(u.audioUrl);
     if (u.ctaImageUrl !== undefined) setCtaImageUrl(u.ctaImageUrl);
@@ -412,19 +460,57 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
     if (u.iframe2Url !== undefined) setIframe2Url(u.iframe2Url);
   }, []);
 
-  useEffect(() => {
-    if (settingsLoadedRef.current) return;
-    settingsLoadedRef.current = true;
-    const width = window.innerWidth;
-    fetch(`/api/route-settings/play?width=${width}`)
-      .then(r => r.json())
-      .then(data => {
+  const applyStoredSettings = useCallback((row: Pick<RouteSettings, "settings" | "globalUrls">) => {
+    const variant = experimentRef.current?.variant;
+    const { settings, globalUrls } = parseRouteSettings("play", variant ? withVariant(row, variant) : row);
+    const dropped = [...settings.dropped, ...globalUrls.dropped];
+    // Visitors get the defaults for these silently; editors are told so they can save over them.
+    if (config && dropped.length > 0) {
+      toast({ title: "Some saved settings were ignored", description: `Invalid values for ${dropped.join(", ")} were replaced with defaults.` });
+    }
+    applySettings({ settings: settings.value, globalUrls: globalUrls.value });
+  }, [applySettings, config, toast]);
+
+  const loadSettings = useCallback((profileName: string) => {
+    const followSchedule = followScheduleRef.current;
+    fetch(routeSettingsUrl(site, "play", window.innerWidth, followSchedule ? null : profileName))
+      .then(r => {
+        if (followSchedule) scheduleReload(r, () => loadSettings(profileName));
+        return r.json();
+      })
+      .then(async data => {
         if (data && data.settings) {
-          applySettings({ settings: data.settings as Record<string, unknown>, globalUrls: (data.globalUrls || {}) as Record<string, string> });
+          if (followSchedule) setProfile(data.profile);
+          applyStoredSettings(data);
+          return;
         }
+        // Nothing saved for this profile yet: start from the site's default URLs.
+        const info: SiteInfo = await fetch(`/api/sites/${encodeURIComponent(site)}`).then(r => r.json());
+        if (info?.defaultUrls) applyStoredSettings({ settings: {}, globalUrls: info.defaultUrls });
       })
       .catch(() => {});
-  }, [applySettings]);
+  }, [applyStoredSettings, scheduleReload, site]);
+
+  useEffect(() => {
+    if (settingsLoadedRef.current) return;
+    settingsLoadedRef.current = true;
+    loadSettings(profile);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loadSettings]);
+
+  const handleProfileChange = useCallback((next: string) => {
+    followScheduleRef.current = false;
+    setProfile(next);
+    setProfileInLocation(next);
+    loadSettings(next);
+  }, [loadSettings]);
+
+  // The variant can arrive after the saved layout has been applied; layer it on top then.
+  useEffect(() => {
+    if (experiment) applyStoredSettings({ settings: {}, globalUrls: {} });
+  }, [experiment, applyStoredSettings]);
+
+  const { layouts, active: activeLayout, viewportWidth } = useBreakpointLayout(site, "play", profile, applyStoredSettings);
 
   useEffect(() => {
     if (audioUrl.trim() && audioHistory.length === 0) {
@@ -449,6 +535,32 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
   }, [loopEnd]);
   useEffect(() => { durationRef.current = duration; }, [duration]);
 
+  const audioQueue = useAudioQueue({ site, queueId: audioQueueId, audioUrl, engine, audioRef, isPlaying });
+  const audioQueueRef = useRef(audioQueue);
+  audioQueueRef.current = audioQueue;
+  const playingUrl = audioQueue.url;
+  // Only the hidden-mode scrubber draws it, so nothing is downloaded while the container shows.
+  const waveform = useWaveform(playingUrl, !containerVisible);
+  const cuePoints = useCuePoints(site, playingUrl);
+  const captions = useCaptions(site, playingUrl);
+  const captionStyle = { captionPosition, captionFont, captionFontSize, captionColor, captionBgColor, captionBgOpacity };
+  // Practice stems follow the single audio URL only; queued tracks change decks under them.
+  const practice = usePracticeStems({ site, url: audioQueue.active ? "" : playingUrl, engine, audioRef });
+
+  useEffect(() => () => engine.close(), [engine]);
+  // Stems change pitch with speed, unlike the deck, so the shifter takes that back out while they play.
+  const practicePitchOffset = practice.active ? -12 * Math.log2(playbackRate) : 0;
+  useEffect(() => engine.setPitch(pitchSemitones + practicePitchOffset), [engine, pitchSemitones, practicePitchOffset]);
+
+  // Each queued track starts from the top with no loop region of its own.
+  useEffect(() => {
+    if (!audioQueue.active) return;
+    setCurrentTime(0);
+    setProgress([0]);
+    setLoopStart("0");
+    setLoopEnd("");
+  }, [audioQueue.active, audioQueue.current?.id]);
+
   useEffect(() => {
     const audio = audioRef.current;
     if (!audio) return;
@@ -465,6 +577,10 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
       }
     };
     const onEnded = () => {
+      if (audioQueueRef.current.active) {
+        if (!audioQueueRef.current.handleEnded()) setIsPlaying(false);
+        return;
+      }
       if (isLoopingRef.current) {
         audio.currentTime = loopStartRef.current;
         audio.play().catch(() => {});
@@ -493,7 +609,7 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
       audio.removeEventListener("pause", onPause);
       audio.removeEventListener("durationchange", onDurationChange);
     };
-  }, [audioUrl]);
+  }, [playingUrl, audioQueue.activeDeck]);
 
   useEffect(() => {
     if (!ctaAsButton) {
@@ -533,6 +649,15 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
     }
   }, [volume]);
 
+  // The default rate survives the deck loading another track.
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.defaultPlaybackRate = playbackRate;
+    audio.playbackRate = playbackRate;
+    audio.preservesPitch = true;
+  }, [playbackRate, audioQueue.activeDeck]);
+
   // Mute is independent of play: only toggle sound, never play/pause
   useEffect(() => {
     if (audioRef.current) {
@@ -575,14 +700,29 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
     setAudioHistory(removeUrlFromHistory(AUDIO_URLS_KEY, url));
   }, []);
 
-  const handleClick = useCallback(() => { if (buttonUrl) setVisitModalOpen(true); }, [buttonUrl]);
+  const handleClick = useCallback(() => {
+    if (!buttonUrl) return;
+    track("visit_open");
+    setVisitModalOpen(true);
+  }, [buttonUrl, track]);
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
-    if (e.key === "Enter" || e.key === " ") { e.preventDefault(); if (buttonUrl) setVisitModalOpen(true); }
-  }, [buttonUrl]);
+    if (e.key === "Enter" || e.key === " ") { e.preventDefault(); handleClick(); }
+  }, [handleClick]);
+  const handleCtaClick = useCallback(() => {
+    if (buttonUrl) track("cta_click");
+    handleClick();
+  }, [buttonUrl, handleClick, track]);
+  const handleCtaKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (e.key === "Enter" || e.key === " ") { e.preventDefault(); handleCtaClick(); }
+  }, [handleCtaClick]);
   const handleMuteToggle = useCallback((checked: boolean) => {
+    track(checked ? "mute" : "unmute");
     setIsMuted(checked); // Mute only: does not affect play/stop
-  }, []);
-  const handlePlayToggle = useCallback(() => { setIsPlaying((prev) => !prev); }, []);
+  }, [track]);
+  const handlePlayToggle = useCallback(() => {
+    track(isPlaying ? "pause" : "play");
+    setIsPlaying((prev) => !prev);
+  }, [isPlaying, track]);
   const handleLoopToggle = useCallback((checked: boolean) => { setIsLooping(checked); }, []);
   const handleProgressChange = useCallback((value: number[]) => { isSeeking.current = true; setProgress(value); }, []);
   const handleProgressCommit = useCallback((value: number[]) => {
@@ -593,6 +733,22 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
     }
     isSeeking.current = false;
   }, []);
+  const seekTo = useCallback((time: number) => {
+    if (audioRef.current) {
+      audioRef.current.currentTime = time;
+      setCurrentTime(time);
+    }
+  }, []);
+  // A loop region also becomes the page's loop range, so practice starts straight away.
+  const jumpToCue = useCallback((cue: CuePoint) => {
+    if (cue.endSeconds !== null) {
+      setLoopStart(formatMs(cue.startSeconds));
+      setLoopEnd(formatMs(cue.endSeconds));
+      setIsLooping(true);
+    }
+    seekTo(cue.startSeconds);
+  }, [seekTo]);
+  useCueShortcuts(cuePoints, currentTime, jumpToCue);
   const handleSetLoopStartToCurrent = useCallback(() => {
     const clamped = Math.min(currentTime, duration > 0 ? duration : currentTime);
     setLoopStart(formatMs(clamped));
@@ -603,10 +759,11 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
   }, [currentTime, duration, loopStart]);
 
   const sendAudioToStem = useCallback(() => {
-    const iframe = stemIframeRef.current;
-    if (!iframe?.contentWindow || !audioUrl) return;
-    iframe.contentWindow.postMessage({ type: "load-audio-url", url: audioUrl }, "*");
-  }, [audioUrl]);
+    const target = stemIframeRef.current?.contentWindow;
+    if (!target || !playingUrl) return;
+    postToStemPage(target, { type: "load-audio-url", url: playingUrl });
+  }, [playingUrl]);
+  useStemPageReady(stemIframeRef, sendAudioToStem);
 
   useEffect(() => {
     if (stemModalOpen) sendAudioToStem();
@@ -638,12 +795,13 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
   if (embed) {
     return (
       <div className="relative w-full min-h-screen" style={{ backgroundColor: bgColor }}>
-        <audio ref={audioRef} src={audioUrl} preload="metadata" crossOrigin="anonymous" />
+        <audio ref={audioQueue.deckRefs[0]} preload="metadata" crossOrigin="anonymous" />
+        <audio ref={audioQueue.deckRefs[1]} preload="metadata" crossOrigin="anonymous" />
         {ctaAsButton && (
           <button
             type="button"
-            onClick={handleClick}
-            onKeyDown={handleKeyDown}
+            onClick={handleCtaClick}
+            onKeyDown={handleCtaKeyDown}
             className={`absolute cursor-pointer border-none p-0 z-[15] ${ctaGlow ? "animate-cta-glow" : ""}`}
             style={{
               left: `${ctaX}%`,
@@ -703,7 +861,7 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
                 />
               ) : (
                 <>
-                  <AudioVisualizer audioRef={audioRef} isPlaying={isPlaying} />
+                  <AudioVisualizer engine={engine} isPlaying={isPlaying} />
                   <div className="absolute inset-0 flex items-center justify-center pointer-events-none" style={{ zIndex: 5 }}>
                     <Music className="w-12 h-12 md:w-16 md:h-16 text-white/30" />
                   </div>
@@ -716,6 +874,8 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
                   animation: shape === "circle" && isPlaying ? "spin-record-reverse 4s linear infinite" : "none",
                 }}
               >
+                {captionsVisible && <CaptionOverlay cues={captions.cues} currentTime={currentTime} captionStyle={captionStyle} />}
+
                 <div
                   className="absolute pointer-events-auto"
                   style={{ bottom: "12%", right: "12%" }}
@@ -723,8 +883,8 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
                   <div
                     role="button"
                     tabIndex={0}
-                    onClick={(e) => { e.stopPropagation(); setIsMuted((m) => !m); }}
-                    onKeyDown={(e) => { if (e.key === "Enter" || e.key === " ") { e.preventDefault(); e.stopPropagation(); setIsMuted((m) => !m); } }}
+                    onClick={(e) => { e.stopPropagation(); handleMuteToggle(!isMuted); }}
+                    onKeyDown={(e) => { if (e.key === "Enter" || e.key === " ") { e.preventDefault(); e.stopPropagation(); handleMuteToggle(!isMuted); } }}
                     className="rounded-full bg-black/50 text-white/80 w-9 h-9 flex items-center justify-center cursor-pointer"
                     aria-label={isMuted ? "Unmute audio" : "Mute audio"}
                     title={isMuted ? "Unmute (sound only, does not change play/stop)" : "Mute (sound only, does not change play/stop)"}
@@ -820,7 +980,8 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
 
   return (
     <div className="min-h-screen flex items-center justify-center p-5 relative" style={{ backgroundColor: bgColor }}>
-      <audio ref={audioRef} src={audioUrl} preload="metadata" crossOrigin="anonymous" />
+      <audio ref={audioQueue.deckRefs[0]} preload="metadata" crossOrigin="anonymous" />
+      <audio ref={audioQueue.deckRefs[1]} preload="metadata" crossOrigin="anonymous" />
 
       {!embed && (
       <div className="absolute top-4 left-4 right-4 flex flex-row items-center gap-2 z-10 flex-wrap">
@@ -839,22 +1000,125 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
             onClose={() => setSettingsOpen(false)}
             title="Settings"
             description="Customize audio playback and button appearance"
-            stickyHeader={config ? (
-              <Button onClick={handleSaveSettings} className="w-full" data-testid="button-save-settings">
-                <Save className="w-4 h-4 mr-2" />
-                Save Settings
-              </Button>
+            stickyHeader={config && canEdit ? (
+              <div className="flex items-center gap-2">
+                <Button onClick={handleSaveSettings} className="flex-1" data-testid="button-save-settings">
+                  <Save className="w-4 h-4 mr-2" />
+                  Save Settings
+                </Button>
+                <Button size="icon" variant="ghost" aria-label="Analytics" asChild>
+                  <a href={sitePath(site, "/analytics")} data-testid="button-analytics">
+                    <BarChart3 className="w-4 h-4" />
+                  </a>
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  aria-label={`Sign out ${user?.username ?? ""}`}
+                  onClick={() => logoutMutation.mutate()}
+                  data-testid="button-logout"
+                >
+                  <LogOut className="w-4 h-4" />
+                </Button>
+              </div>
             ) : undefined}
           >
             <div className="flex flex-col gap-6">
-              {!config && (
+              {!config && canEdit && (
                 <Button onClick={handleSaveSettings} className="w-full" data-testid="button-save-settings">
                   <Save className="w-4 h-4 mr-2" />
                   Save Settings
                 </Button>
               )}
 
+              <ProfilePicker
+                route="play"
+                profile={profile}
+                readOnly={!canEdit}
+                onProfileChange={handleProfileChange}
+                onRestored={() => loadSettings(profile)}
+              />
+
+              {canEdit && (
+                <ConfigTransfer
+                  route="play"
+                  profile={profile}
+                  onImported={() => loadSettings(profile)}
+                />
+              )}
+
               <Accordion type="multiple" defaultValue={[]} className="w-full">
+            {config && (
+            <AccordionItem value="breakpoints">
+              <AccordionTrigger>
+                <Label className="text-sm font-medium flex items-center gap-2">
+                  <MonitorSmartphone className="w-4 h-4" />
+                  Breakpoints
+                </Label>
+              </AccordionTrigger>
+              <AccordionContent>
+                <div className="pt-2">
+                  <BreakpointManager
+                    route="play"
+                    profile={profile}
+                    layouts={layouts}
+                    activeId={activeLayout?.id}
+                    viewportWidth={viewportWidth}
+                  />
+                </div>
+              </AccordionContent>
+            </AccordionItem>
+            )}
+            {config && canEditLinks && site !== DEFAULT_SITE && (
+            <AccordionItem value="members">
+              <AccordionTrigger>
+                <Label className="text-sm font-medium flex items-center gap-2">
+                  <Users className="w-4 h-4" />
+                  Members
+                </Label>
+              </AccordionTrigger>
+              <AccordionContent>
+                <div className="pt-2">
+                  <SiteMembersManager />
+                </div>
+              </AccordionContent>
+            </AccordionItem>
+            )}
+            {config && canEdit && (
+            <AccordionItem value="schedule">
+              <AccordionTrigger>
+                <Label className="text-sm font-medium flex items-center gap-2">
+                  <CalendarClock className="w-4 h-4" />
+                  Schedule
+                </Label>
+              </AccordionTrigger>
+              <AccordionContent>
+                <div className="pt-2">
+                  <ScheduleManager route="play" profile={profile} />
+                </div>
+              </AccordionContent>
+            </AccordionItem>
+            )}
+            {config && canEdit && (
+            <AccordionItem value="experiments">
+              <AccordionTrigger>
+                <Label className="text-sm font-medium flex items-center gap-2">
+                  <FlaskConical className="w-4 h-4" />
+                  Experiments
+                </Label>
+              </AccordionTrigger>
+              <AccordionContent>
+                <div className="pt-2">
+                  <ExperimentManager
+                    route="play"
+                    profile={profile}
+                    baseline={activeLayout}
+                    captureSettings={collectSettings}
+                  />
+                </div>
+              </AccordionContent>
+            </AccordionItem>
+            )}
             <AccordionItem value="audio-source">
               <AccordionTrigger>
                 <Label htmlFor="audio-url-input" className="text-sm font-medium flex items-center gap-2">
@@ -868,15 +1132,20 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
                     <Link className="w-4 h-4" />
                     Audio URL
                   </Label>
-              <Input
-                id="audio-url-input"
-                value={audioUrl}
-                onChange={(e) => handleAudioUrlChange(e.target.value)}
-                onBlur={handleAudioUrlCommit}
-                onKeyDown={(e) => { if (e.key === "Enter") handleAudioUrlCommit(); }}
-                placeholder="Audio file URL (.mp3, .mp4, .wav, .ogg...)"
-                data-testid="input-audio-url"
-              />
+              <div className="flex items-center gap-2">
+                <Input
+                  id="audio-url-input"
+                  value={audioUrl}
+                  onChange={(e) => handleAudioUrlChange(e.target.value)}
+                  onBlur={handleAudioUrlCommit}
+                  onKeyDown={(e) => { if (e.key === "Enter") handleAudioUrlCommit(); }}
+                  placeholder="Audio file URL (.mp3, .mp4, .wav, .ogg...)"
+                  data-testid="input-audio-url"
+                />
+                {canEdit && (
+                  <MediaLibraryPicker kinds={["audio", "video"]} value={audioUrl} onSelect={handleAudioHistorySelect} testId="media-library-audio" />
+                )}
+              </div>
               {audioHistory.length > 0 && (
                 <div className="space-y-1" data-testid="dropdown-audio-history">
                   <Label className="text-xs text-muted-foreground">Recent Audio URLs</Label>
@@ -902,6 +1171,14 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
                     ))}
                   </div>
                 </div>
+              )}
+              {config && canEdit && (
+                <AudioQueueManager
+                  queueId={audioQueueId}
+                  onQueueChange={setAudioQueueId}
+                  audioUrl={audioUrl}
+                  playingItemId={audioQueue.current?.id}
+                />
               )}
                 </div>
               </AccordionContent>
@@ -982,6 +1259,8 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
                       value={buttonUrl}
                       onChange={(e) => setButtonUrl(e.target.value)}
                       placeholder="https://example.com"
+                      disabled={!canEditLinks}
+                      title={canEditLinks ? undefined : "Only admins can change where the button links to"}
                       data-testid="input-button-url"
                     />
                   </div>
@@ -1111,7 +1390,12 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
                   </div>
                   <div className="space-y-2">
                     <Label className="text-xs">Button image URL</Label>
-                    <Input value={ctaImageUrl} onChange={(e) => setCtaImageUrl(e.target.value)} placeholder="https://example.com/image.jpg" className="text-xs" data-testid="input-cta-image-url" />
+                    <div className="flex items-center gap-2">
+                      <Input value={ctaImageUrl} onChange={(e) => setCtaImageUrl(e.target.value)} placeholder="https://example.com/image.jpg" className="text-xs" data-testid="input-cta-image-url" />
+                      {canEdit && (
+                        <MediaLibraryPicker kinds={["image"]} value={ctaImageUrl} onSelect={setCtaImageUrl} testId="media-library-cta" />
+                      )}
+                    </div>
                   </div>
                   <div className="space-y-2">
                     <Label className="text-xs">Button shape</Label>
@@ -1153,7 +1437,7 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
                     Shape
                   </Label>
               <div className="grid grid-cols-4 gap-2">
-                {(["circle", "oval", "square", "rectangle"] as ContainerShape[]).map((s) => (
+                {containerShapeSchema.options.map((s) => (
                   <Button
                     key={s}
                     size="sm"
@@ -1306,6 +1590,7 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
                   {formatTime(currentTime)} / {formatTime(duration)}
                 </span>
               </div>
+              <CueMarkers cues={cuePoints} duration={duration} onJump={jumpToCue} />
               <Slider value={progress} onValueChange={handleProgressChange} onValueCommit={handleProgressCommit} max={100} step={0.1} className="w-full" data-testid="slider-progress" />
                 </div>
               </AccordionContent>
@@ -1363,9 +1648,30 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
                     {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
                     Transport
                   </Label>
-                  <Button size="sm" variant="outline" onClick={handlePlayToggle} data-testid="button-transport">
-                    {isPlaying ? (<><Pause className="w-4 h-4 mr-2" />Pause</>) : (<><Play className="w-4 h-4 mr-2" />Play</>)}
-                  </Button>
+                  <div className="flex items-center gap-1">
+                    {audioQueue.active && (
+                      <Button size="icon" variant="outline" aria-label="Previous track" onClick={audioQueue.previous} data-testid="button-transport-previous">
+                        <SkipBack className="w-4 h-4" />
+                      </Button>
+                    )}
+                    <Button size="sm" variant="outline" onClick={handlePlayToggle} data-testid="button-transport">
+                      {isPlaying ? (<><Pause className="w-4 h-4 mr-2" />Pause</>) : (<><Play className="w-4 h-4 mr-2" />Play</>)}
+                    </Button>
+                    {audioQueue.active && (
+                      <Button size="icon" variant="outline" aria-label="Next track" onClick={audioQueue.next} data-testid="button-transport-next">
+                        <SkipForward className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                {audioQueue.active && audioQueue.current && (
+                  <p className="text-xs text-muted-foreground truncate pt-2" data-testid="text-audio-queue-position">
+                    {audioQueue.position}/{audioQueue.queue?.items.length}: {audioQueue.current.title || audioQueue.current.url}
+                  </p>
+                )}
+                <div className="pt-3 space-y-3">
+                  <PlaybackRateControl value={playbackRate} onChange={setPlaybackRate} />
+                  <PitchControl value={pitchSemitones} onChange={setPitchSemitones} />
                 </div>
               </AccordionContent>
             </AccordionItem>
@@ -1386,6 +1692,17 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
                     </Label>
                     <Switch id="loop-toggle" checked={isLooping} onCheckedChange={handleLoopToggle} data-testid="switch-loop" />
                   </div>
+                  {canEdit && (
+                    <div className="pb-4">
+                      <CuePointManager
+                        mediaUrl={playingUrl}
+                        currentTime={currentTime}
+                        loopStartSeconds={loopStartSeconds}
+                        loopEndSeconds={loopEndSeconds}
+                        onJump={jumpToCue}
+                      />
+                    </div>
+                  )}
 
             {isLooping && (
               <div className="space-y-4 p-3 bg-muted rounded-md">
@@ -1449,6 +1766,60 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
               </AccordionContent>
             </AccordionItem>
 
+            <AccordionItem value="captions">
+              <AccordionTrigger>
+                <Label className="text-sm font-medium flex items-center gap-2">
+                  <Captions className="w-4 h-4" />
+                  Captions
+                </Label>
+              </AccordionTrigger>
+              <AccordionContent>
+                <div className="space-y-4 pt-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="captions-toggle" className="text-sm font-medium">Show captions</Label>
+                    <Switch id="captions-toggle" checked={captionsVisible} onCheckedChange={setCaptionsVisible} data-testid="switch-captions" />
+                  </div>
+                  {canEdit && <CaptionManager mediaUrl={playingUrl} />}
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Position</Label>
+                    <div className="grid grid-cols-3 gap-2">
+                      {captionPositionSchema.options.map((option) => (
+                        <Button key={option} size="sm" variant={captionPosition === option ? "default" : "outline"} className="capitalize" onClick={() => setCaptionPosition(option)} data-testid={`button-caption-position-${option}`}>
+                          {option}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Font</Label>
+                    <div className="grid grid-cols-4 gap-2">
+                      {captionFontSchema.options.map((option) => (
+                        <Button key={option} size="sm" variant={captionFont === option ? "default" : "outline"} style={{ fontFamily: CAPTION_FONT_FAMILIES[option].css }} onClick={() => setCaptionFont(option)} data-testid={`button-caption-font-${option}`}>
+                          {CAPTION_FONT_FAMILIES[option].label}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label className="text-xs text-muted-foreground">Size</Label>
+                      <span className="text-sm text-muted-foreground">{captionFontSize}px</span>
+                    </div>
+                    <Slider value={[captionFontSize]} onValueChange={(v) => setCaptionFontSize(v[0])} min={MIN_CAPTION_FONT_SIZE} max={MAX_CAPTION_FONT_SIZE} step={1} className="w-full" data-testid="slider-caption-size" />
+                  </div>
+                  <ColorPickerField label="Text color" color={captionColor} onChange={setCaptionColor} testId="color-caption-text" />
+                  <ColorPickerField label="Background" color={captionBgColor} onChange={setCaptionBgColor} testId="color-caption-bg" />
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label className="text-xs text-muted-foreground">Background opacity</Label>
+                      <span className="text-sm text-muted-foreground">{Math.round(captionBgOpacity * 100)}%</span>
+                    </div>
+                    <Slider value={[captionBgOpacity]} onValueChange={(v) => setCaptionBgOpacity(v[0])} min={0} max={1} step={0.05} className="w-full" data-testid="slider-caption-bg-opacity" />
+                  </div>
+                </div>
+              </AccordionContent>
+            </AccordionItem>
+
             <AccordionItem value="iframe1">
               <AccordionTrigger>
                 <Label className="text-sm font-semibold flex items-center gap-2">
@@ -1497,7 +1868,7 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
                 </div>
                 <div className="space-y-1">
                   <Label className="text-xs">URL Source</Label>
-                  <Input value={iframe1Url} onChange={(e) => setIframe1Url(e.target.value)} placeholder="https://example.com" data-testid="input-iframe1-url" />
+                  <Input value={iframe1Url} onChange={(e) => setIframe1Url(e.target.value)} placeholder="https://example.com" disabled={!canEditLinks} title={canEditLinks ? undefined : "Only admins can change iFrame URLs"} data-testid="input-iframe1-url" />
                 </div>
                 <div className="space-y-2">
                   <div className="flex items-center justify-between">
@@ -1607,7 +1978,7 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
                 </div>
                 <div className="space-y-1">
                   <Label className="text-xs">URL Source</Label>
-                  <Input value={iframe2Url} onChange={(e) => setIframe2Url(e.target.value)} placeholder="https://example.com" data-testid="input-iframe2-url" />
+                  <Input value={iframe2Url} onChange={(e) => setIframe2Url(e.target.value)} placeholder="https://example.com" disabled={!canEditLinks} title={canEditLinks ? undefined : "Only admins can change iFrame URLs"} data-testid="input-iframe2-url" />
                 </div>
                 <div className="space-y-2">
                   <div className="flex items-center justify-between">
@@ -1686,7 +2057,7 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
           aria-label="Go to View (video) page"
           asChild
         >
-          <a href="/view/config" data-testid="button-launch-view">
+          <a href={sitePath(site, "/view/config")} data-testid="button-launch-view">
             <Film className="w-6 h-6" />
           </a>
         </Button>
@@ -1719,9 +2090,8 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
 
       {stemModalOpen && (
         <StemModal
-          audioUrl={audioUrl}
+          audioUrl={playingUrl}
           stemIframeRef={stemIframeRef}
-          onLoad={sendAudioToStem}
           onClose={() => setStemModalOpen(false)}
         />
       )}
@@ -1730,8 +2100,8 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
         {ctaAsButton && (
           <button
             type="button"
-            onClick={handleClick}
-            onKeyDown={handleKeyDown}
+            onClick={handleCtaClick}
+            onKeyDown={handleCtaKeyDown}
             className={`absolute cursor-pointer border-none p-0 z-[15] ${ctaGlow ? "animate-cta-glow" : ""}`}
             style={{
               left: `${ctaX}%`,
@@ -1802,7 +2172,7 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
               />
             ) : (
               <>
-                <AudioVisualizer audioRef={audioRef} isPlaying={isPlaying} />
+                <AudioVisualizer engine={engine} isPlaying={isPlaying} />
                 <div className="absolute inset-0 flex items-center justify-center pointer-events-none" style={{ zIndex: 5 }}>
                   <Music className="w-12 h-12 md:w-16 md:h-16 text-white/30" />
                 </div>
@@ -1815,6 +2185,8 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
                 animation: shape === "circle" && isPlaying ? "spin-record-reverse 4s linear infinite" : "none",
               }}
             >
+              {captionsVisible && <CaptionOverlay cues={captions.cues} currentTime={currentTime} captionStyle={captionStyle} />}
+
               <div
                 className="absolute pointer-events-auto"
                 style={{ bottom: "12%", right: "12%" }}
@@ -1822,8 +2194,8 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
                 <div
                   role="button"
                   tabIndex={0}
-                  onClick={(e) => { e.stopPropagation(); setIsMuted((m) => !m); }}
-                  onKeyDown={(e) => { if (e.key === "Enter" || e.key === " ") { e.preventDefault(); e.stopPropagation(); setIsMuted((m) => !m); } }}
+                  onClick={(e) => { e.stopPropagation(); handleMuteToggle(!isMuted); }}
+                  onKeyDown={(e) => { if (e.key === "Enter" || e.key === " ") { e.preventDefault(); e.stopPropagation(); handleMuteToggle(!isMuted); } }}
                   className="rounded-full bg-black/50 text-white/80 w-9 h-9 flex items-center justify-center cursor-pointer"
                   aria-label={isMuted ? "Unmute audio" : "Mute audio"}
                   title={isMuted ? "Unmute (sound only, does not change play/stop)" : "Mute (sound only, does not change play/stop)"}
@@ -1943,7 +2315,7 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
           </button>
           <button
             type="button"
-            onClick={() => setQrModalOpen(true)}
+            onClick={() => { track("qr_open"); setQrModalOpen(true); }}
             className="w-14 h-14 rounded-full border-0 flex items-center justify-center text-white shadow-lg cursor-pointer flex-shrink-0"
             style={{
               background: qrButtonColor,
@@ -1970,7 +2342,7 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
         </div>
       )}
 
-      {qrModalOpen && <QRShareModal shareUrl={typeof window !== "undefined" ? window.location.href : ""} onClose={() => setQrModalOpen(false)} />}
+      {qrModalOpen && <QRShareModal shareUrl={typeof window !== "undefined" ? window.location.href : ""} embedUrl={siteEmbedUrl(site, "play", profile)} onClose={() => setQrModalOpen(false)} />}
 
       {!containerVisible && (
         <HiddenModeControls
@@ -1983,14 +2355,9 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
           duration={duration}
           volume={volume}
           onPlayToggle={handlePlayToggle}
-          onMuteToggle={() => setIsMuted((m) => !m)}
+          onMuteToggle={() => handleMuteToggle(!isMuted)}
           onVolumeChange={setVolume}
-          onSeek={(time) => {
-            if (audioRef.current) {
-              audioRef.current.currentTime = time;
-              setCurrentTime(time);
-            }
-          }}
+          onSeek={seekTo}
           onSetLoopStart={handleSetLoopStartToCurrent}
           onSetLoopEnd={handleSetLoopEndToCurrent}
           onLoopStartChange={(s) => setLoopStart(formatMs(s))}
@@ -1998,14 +2365,110 @@ export default function PlayPage({ standalone, embed, config }: { standalone?: b
           onClearLoopStart={() => setLoopStart("0")}
           onClearLoopEnd={() => setLoopEnd("")}
           title={title}
+          waveform={waveform}
+          cuePoints={cuePoints}
+          onJumpToCue={jumpToCue}
+          playbackRate={playbackRate}
+          onPlaybackRateChange={setPlaybackRate}
+          pitchSemitones={pitchSemitones}
+          onPitchChange={setPitchSemitones}
+          practice={practice}
         />
       )}
 
-      {visitModalOpen && <VisitSiteModal url={buttonUrl} width={visitModalWidth} onClose={() => setVisitModalOpen(false)} />}
+      {visitModalOpen && <VisitSiteModal url={buttonUrl} width={visitModalWidth} onClose={() => setVisitModalOpen(false)} onOpenExternal={() => track("visit_through")} />}
+    </div>
+  );
+}
+
+function formatSemitones(semitones: number): string {
+  return semitones === 0 ? "0 st" : `${semitones > 0 ? "+" : "−"}${Math.abs(semitones)} st`;
+}
+
+/** Semitone steps for the engine's pitch shifter; the middle button resets to the original key. */
+function PitchControl({ value, onChange, variant = "default", testId = "pitch" }: {
+  value: number;
+  onChange: (semitones: number) => void;
+  variant?: "default" | "overlay";
+  testId?: string;
+}) {
+  const overlay = variant === "overlay";
+  const buttonClass = overlay ? "text-white/80 border border-white/20" : "";
+  return (
+    <div className="flex items-center gap-2 w-full" data-testid={testId}>
+      <Music className={`w-4 h-4 shrink-0 ${overlay ? "text-white/60" : "text-muted-foreground"}`} aria-hidden />
+      <span className={`text-xs flex-1 ${overlay ? "text-white/60" : "text-muted-foreground"}`}>Pitch</span>
+      <Button size="icon" variant="ghost" className={`w-8 h-8 ${buttonClass}`} disabled={value <= -MAX_PITCH_SEMITONES} onClick={() => onChange(value - 1)} aria-label="Pitch down a semitone" data-testid={`button-${testId}-down`}>
+        <Minus className="w-4 h-4" />
+      </Button>
+      <Button size="sm" variant="ghost" className={`w-14 text-xs tabular-nums ${buttonClass}`} disabled={value === 0} onClick={() => onChange(0)} title="Back to the original key" data-testid={`button-${testId}-reset`}>
+        {formatSemitones(value)}
+      </Button>
+      <Button size="icon" variant="ghost" className={`w-8 h-8 ${buttonClass}`} disabled={value >= MAX_PITCH_SEMITONES} onClick={() => onChange(value + 1)} aria-label="Pitch up a semitone" data-testid={`button-${testId}-up`}>
+        <Plus className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Karaoke and practice toggles for the track's stems, shown once it has been
+ * separated from this audio URL. Soloing a stem silences every other one, so
+ * the mute buttons wait while drums are isolated.
+ */
+function PracticeStemsControl({ practice }: { practice: PracticeStems }) {
+  const { stems, mix, loading, error } = practice;
+  const anySolo = stems.some((stem) => mix[stem]?.solo);
+  const changed = anySolo || stems.some((stem) => mix[stem]?.muted);
+  const toggleClass = (on: boolean) => `h-7 px-2 text-xs rounded-md border ${on ? "bg-white/25 text-white border-white/60" : "text-white/70 border-white/20"}`;
+  return (
+    <div className="space-y-2 w-full" data-testid="practice-stems">
+      <div className="flex items-center gap-2">
+        <AudioLines className="w-4 h-4 shrink-0 text-white/60" aria-hidden />
+        <span className="text-xs flex-1 text-white/60">Practice</span>
+        {loading && <Loader2 className="w-4 h-4 animate-spin text-white/60" aria-label="Loading stems" />}
+        {changed && (
+          <Button size="sm" variant="ghost" className="h-7 text-xs text-white/70" onClick={practice.reset} data-testid="button-practice-reset">
+            Full mix
+          </Button>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-1.5">
+        {stems.includes("vocals") && (
+          <Button size="sm" variant="ghost" className={toggleClass(!!mix.vocals?.muted)} aria-pressed={!!mix.vocals?.muted} onClick={() => practice.toggleMute("vocals")} data-testid="button-practice-remove-vocals">
+            Remove vocals
+          </Button>
+        )}
+        {stems.includes("drums") && (
+          <Button size="sm" variant="ghost" className={toggleClass(!!mix.drums?.solo)} aria-pressed={!!mix.drums?.solo} onClick={() => practice.toggleSolo("drums")} data-testid="button-practice-isolate-drums">
+            Isolate drums
+          </Button>
+        )}
+        <span className="text-[10px] uppercase tracking-wider text-white/50 ml-1">Mute</span>
+        {stems.filter((stem) => stem !== "vocals").map((stem) => (
+          <Button
+            key={stem}
+            size="sm"
+            variant="ghost"
+            className={`${toggleClass(!!mix[stem]?.muted)} capitalize`}
+            disabled={anySolo}
+            aria-pressed={!!mix[stem]?.muted}
+            onClick={() => practice.toggleMute(stem)}
+            data-testid={`button-practice-mute-${stem}`}
+          >
+            <span className="w-2 h-2 rounded-full mr-1" style={{ background: STEM_COLORS[stem] }} aria-hidden />
+            {stem}
+          </Button>
+        ))}
+      </div>
+      {error && <p className="text-[10px] text-red-300" role="alert" data-testid="text-practice-error">{error}</p>}
     </div>
   );
 }
 
+/** Loop handles dragged within this distance of a transient or silence edge jump onto it. */
+const LOOP_SNAP_PX = 8;
+
 function HiddenModeControls({
   isPlaying,
   isMuted,
@@ -2026,6 +2489,14 @@ function HiddenModeControls({
   onClearLoopStart,
   onClearLoopEnd,
   title,
+  waveform,
+  cuePoints,
+  onJumpToCue,
+  playbackRate,
+  onPlaybackRateChange,
+  pitchSemitones,
+  onPitchChange,
+  practice,
 }: {
   isPlaying: boolean;
   isMuted: boolean;
@@ -2046,6 +2517,15 @@ function HiddenModeControls({
   onClearLoopStart: () => void;
   onClearLoopEnd: () => void;
   title: string;
+  /** Drawn behind the scrubber when available; loop handles snap to its transients and silences. */
+  waveform: WaveformAnalysis | null;
+  cuePoints: CuePoint[];
+  onJumpToCue: (cue: CuePoint) => void;
+  playbackRate: number;
+  onPlaybackRateChange: (rate: number) => void;
+  pitchSemitones: number;
+  onPitchChange: (semitones: number) => void;
+  practice: PracticeStems;
 }) {
   const scrubBarRef = useRef<HTMLDivElement>(null);
   const draggingRef = useRef<{ handle: "start" | "end"; pointerId: number } | null>(null);
@@ -2062,7 +2542,11 @@ function HiddenModeControls({
       if (!scrubBarRef.current || !duration || !draggingRef.current) return;
       const rect = scrubBarRef.current.getBoundingClientRect();
       const percent = Math.max(0, Math.min(100, ((e.clientX - rect.left) / rect.width) * 100));
-      const seconds = (percent / 100) * duration;
+      let seconds = (percent / 100) * duration;
+      // Holding Alt places the handle freely.
+      if (waveform && !e.altKey) {
+        seconds = snapToWaveform(waveform, seconds, (LOOP_SNAP_PX / rect.width) * duration);
+      }
       if (draggingRef.current.handle === "start") {
         const endSec = loopEndSeconds > loopStartSeconds ? loopEndSeconds : duration;
         onLoopStartChange(Math.min(seconds, Math.max(0, endSec - 0.01)));
@@ -2070,7 +2554,7 @@ function HiddenModeControls({
         onLoopEndChange(Math.max(seconds, loopStartSeconds + 0.01));
       }
     },
-    [duration, loopStartSeconds, loopEndSeconds, onLoopStartChange, onLoopEndChange]
+    [duration, loopStartSeconds, loopEndSeconds, onLoopStartChange, onLoopEndChange, waveform]
   );
 
   const handleLoopHandlePointerUp = useCallback((e: React.PointerEvent) => {
@@ -2113,7 +2597,16 @@ function HiddenModeControls({
             <span className="text-white/70 text-xs font-medium">{formatTime(currentTime)}</span>
             <span className="text-white/70 text-xs font-medium">{formatTime(duration)}</span>
           </div>
-          <div className="relative w-full" ref={scrubBarRef}>
+          <CueMarkers cues={cuePoints} duration={duration} onJump={onJumpToCue} />
+          <div className={`relative w-full ${waveform ? "py-4" : ""}`} ref={scrubBarRef}>
+            {waveform && duration > 0 && (
+              <WaveformCanvas
+                peaks={waveform.peaks}
+                progress={scrubPercent / 100}
+                className="absolute inset-0 pointer-events-none z-0"
+                data-testid="waveform-scrubber"
+              />
+            )}
             {isLooping && duration > 0 && (
               <div
                 className="absolute top-1/2 -translate-y-1/2 h-2 bg-white/20 rounded-full pointer-events-none z-0"
@@ -2212,6 +2705,12 @@ function HiddenModeControls({
           </Button>
         </div>
 
+        <div className="space-y-2">
+          <PlaybackRateControl value={playbackRate} onChange={onPlaybackRateChange} variant="overlay" testId="hidden-playback-rate" />
+          <PitchControl value={pitchSemitones} onChange={onPitchChange} variant="overlay" testId="hidden-pitch" />
+          {practice.stems.length > 0 && <PracticeStemsControl practice={practice} />}
+        </div>
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-start w-full">
           <div className="flex flex-col items-center gap-2 justify-self-start">
             {isLooping && (
@@ -2323,7 +2822,7 @@ function HiddenModeControls({
 const LAUNCH_MODAL_SLIDE_MS = 500;
 const VISIT_MODAL_CLOSE_THRESHOLD = 70; // sheet top % - when released past this, close and release
 
-function QRShareModal({ shareUrl, onClose }: { shareUrl: string; onClose: () => void }) {
+function QRShareModal({ shareUrl, embedUrl, onClose }: { shareUrl: string; embedUrl: string; onClose: () => void }) {
   const [sheetY, setSheetY] = useState(10);
   const [isDragging, setIsDragging] = useState(false);
   const [hasEntered, setHasEntered] = useState(false);
@@ -2380,6 +2879,11 @@ function QRShareModal({ shareUrl, onClose }: { shareUrl: string; onClose: () =>
     if (shareUrl) navigator.clipboard.writeText(shareUrl).catch(() => {});
   }, [shareUrl]);
 
+  const embedCode = `<iframe src="${embedUrl}" width="100%" height="600" style="border:0" allow="autoplay; fullscreen"></iframe>`;
+  const handleCopyEmbed = useCallback(() => {
+    navigator.clipboard.writeText(embedCode).catch(() => {});
+  }, [embedCode]);
+
   return (
     <div className="fixed inset-0 z-50 bg-black/60" onClick={handleClose} data-testid="qr-modal-overlay" aria-label="QR Share modal">
       <div
@@ -2435,6 +2939,19 @@ function QRShareModal({ shareUrl, onClose }: { shareUrl: string; onClose: () =>
             >
               Copy Link
             </button>
+            <div className="w-full">
+              <div className="bg-muted rounded-md px-3 py-2 text-xs font-mono text-muted-foreground break-all" data-testid="qr-modal-embed-code">
+                {embedCode}
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={handleCopyEmbed}
+              className="w-full py-3 rounded-lg border font-semibold transition-colors hover:bg-muted"
+              data-testid="button-qr-copy-embed"
+            >
+              Copy Embed Code
+            </button>
           </div>
         </div>
       </div>
@@ -2442,7 +2959,7 @@ function QRShareModal({ shareUrl, onClose }: { shareUrl: string; onClose: () =>
   );
 }
 
-function VisitSiteModal({ url, width = 100, onClose }: { url: string; width?: number; onClose: () => void }) {
+function VisitSiteModal({ url, width = 100, onClose, onOpenExternal }: { url: string; width?: number; onClose: () => void; onOpenExternal?: () => void }) {
   const [sheetY, setSheetY] = useState(10);
   const [isDragging, setIsDragging] = useState(false);
   const [hasEntered, setHasEntered] = useState(false);
@@ -2531,7 +3048,7 @@ function VisitSiteModal({ url, width = 100, onClose }: { url: string; width?: nu
               href={url}
               target="_blank"
               rel="noopener noreferrer"
-              onClick={(e) => e.stopPropagation()}
+              onClick={(e) => { e.stopPropagation(); onOpenExternal?.(); }}
               className="w-8 h-8 rounded-full flex items-center justify-center bg-yellow-400 text-black hover:bg-yellow-500 shrink-0"
               aria-label="Open in new window"
               data-testid="link-visit-modal-new-window"
@@ -2556,7 +3073,8 @@ function VisitSiteModal({ url, width = 100, onClose }: { url: string; width?: nu
   );
 }
 
-function StemModal({ audioUrl, stemIframeRef, onLoad, onClose }: { audioUrl: string; stemIframeRef: React.MutableRefObject<HTMLIFrameElement | null>; onLoad: () => void; onClose: () => void }) {
+function StemModal({ audioUrl, stemIframeRef, onClose }: { audioUrl: string; stemIframeRef: React.MutableRefObject<HTMLIFrameElement | null>; onClose: () => void }) {
+  const site = useSite();
   const [sheetY, setSheetY] = useState(5);
   const [isDragging, setIsDragging] = useState(false);
   const [hasEntered, setHasEntered] = useState(false);
@@ -2646,11 +3164,10 @@ function StemModal({ audioUrl, stemIframeRef, onLoad, onClose }: { audioUrl: str
         </div>
         <iframe
           ref={stemIframeRef}
-          src="/stem.html"
+          src={stemPageUrl(site)}
           className="flex-1 w-full border-0"
           title="StemSplit - AI Audio Separation"
           allow="autoplay; microphone"
-          onLoad={onLoad}
           data-testid="stem-modal-iframe"
         />
       </div>
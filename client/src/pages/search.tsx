@@ -1,14 +1,20 @@
 import { useState, useCallback, useRef, useEffect } from "react";
-import { Play, Pause, Volume2, VolumeX, SkipBack, SkipForward, Search, X, Link, Clock, Repeat, Loader2, ListPlus, Trash2, ListMusic, ExternalLink } from "lucide-react";
+import { Play, Pause, Volume2, VolumeX, SkipBack, SkipForward, Search, X, Link, Clock, Repeat, Loader2, ListPlus, ExternalLink } from "lucide-react";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { PlaylistManager } from "@/components/ui/playlist-manager";
 import { Slider } from "@/components/ui/slider";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { playlistApiUrl, playlistsQueryKey } from "@/lib/playlists";
+import { sitePath, useSite } from "@/lib/sites";
+import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import type { PlaylistItem } from "@shared/schema";
+import { hasRole, siteRole } from "@shared/permissions";
+import type { PlaylistBatchResult, PlaylistItem } from "@shared/schema";
 
 declare global {
   interface Window {
@@ -48,6 +54,8 @@ interface SearchYTPlayer {
   getCurrentTime: () => number;
   getDuration: () => number;
   seekTo: (seconds: number, allowSeekAhead: boolean) => void;
+  setPlaybackRate: (suggestedRate: number) => void;
+  getPlaybackRate: () => number;
   cueVideoById: (videoId: string) => void;
   loadVideoById: (videoId: string) => void;
   destroy: () => void;
@@ -65,6 +73,7 @@ interface SearchResult {
 const DEFAULT_VIDEO_ID = "Gai7-HR2YZk";
 const SEARCH_URLS_KEY = "search-youtube-urls";
 const VIEW_URLS_KEY = "view-youtube-urls";
+const PLAYLIST_KEY_PREFIX = "search-playlist-";
 const MAX_HISTORY = 20;
 
 function loadUrlHistory(key: string): string[] {
@@ -163,64 +172,80 @@ export default function SearchPage() {
   const isLoopingRef = useRef(isLooping);
 
   const { toast } = useToast();
-
-  const { data: playlist = [], isLoading: playlistLoading } = useQuery<PlaylistItem[]>({
-    queryKey: ["/api/playlist"],
+  const site = useSite();
+  const { user } = useAuth();
+  const canEdit = hasRole(siteRole(user, site), "editor");
+  const [playlistId, setPlaylistId] = useState<number | null>(() => {
+    const stored = Number(localStorage.getItem(PLAYLIST_KEY_PREFIX + site));
+    return stored > 0 ? stored : null;
   });
+  const [selectedResults, setSelectedResults] = useState<Set<string>>(new Set());
+
+  const handlePlaylistChange = useCallback((id: number) => {
+    setPlaylistId(id);
+    localStorage.setItem(PLAYLIST_KEY_PREFIX + site, String(id));
+  }, [site]);
 
   const addToPlaylist = useMutation({
-    mutationFn: async (result: SearchResult) => {
-      const resp = await apiRequest("POST", "/api/playlist", {
-        videoId: result.videoId,
-        title: result.title,
-        thumbnail: result.thumbnail,
-        channel: result.channel,
-        duration: result.duration,
+    mutationFn: async (results: SearchResult[]) => {
+      if (playlistId === null) throw new Error("No playlist selected");
+      const resp = await apiRequest("POST", `${playlistApiUrl(site, playlistId)}/items`, {
+        items: results.map((result) => ({
+          videoId: result.videoId,
+          title: result.title,
+          thumbnail: result.thumbnail,
+          channel: result.channel,
+          duration: result.duration,
+        })),
       });
-      return resp.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/playlist"] });
-      toast({ title: "Saved to playlist" });
+      return resp.json() as Promise<PlaylistBatchResult>;
     },
-    onError: (err: Error) => {
-      if (err.message.includes("409")) {
+    onSuccess: ({ added, skipped }) => {
+      queryClient.invalidateQueries({ queryKey: playlistsQueryKey(site) });
+      setSelectedResults(new Set());
+      if (added.length === 0) {
         toast({ title: "Already in playlist", variant: "destructive" });
       } else {
-        toast({ title: "Failed to save", variant: "destructive" });
+        toast({
+          title: added.length === 1 ? "Saved to playlist" : `Saved ${added.length} videos`,
+          description: skipped.length > 0 ? `${skipped.length} already in the playlist` : undefined,
+        });
       }
     },
-  });
-
-  const removeFromPlaylist = useMutation({
-    mutationFn: async (id: number) => {
-      await apiRequest("DELETE", `/api/playlist/${id}`);
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/playlist"] });
-      toast({ title: "Removed from playlist" });
-    },
-    onError: () => {
-      toast({ title: "Failed to remove", variant: "destructive" });
+    onError: (err: Error) => {
+      toast({ title: "Failed to save", description: apiErrorMessage(err), variant: "destructive" });
     },
   });
 
   const handleSaveToPlaylist = useCallback(() => {
     const currentResult = searchResults.find((r) => r.videoId === videoId);
     if (currentResult) {
-      addToPlaylist.mutate(currentResult);
+      addToPlaylist.mutate([currentResult]);
     } else if (videoId) {
-      addToPlaylist.mutate({
+      addToPlaylist.mutate([{
         videoId,
         title: nowPlayingTitle || `Video ${videoId}`,
         thumbnail: `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`,
         channel: "",
         duration: "",
         views: "",
-      });
+      }]);
     }
   }, [searchResults, videoId, nowPlayingTitle, addToPlaylist]);
 
+  const handleSaveSelected = useCallback(() => {
+    addToPlaylist.mutate(searchResults.filter((r) => selectedResults.has(r.videoId)));
+  }, [searchResults, selectedResults, addToPlaylist]);
+
+  const toggleResultSelected = useCallback((videoId: string, checked: boolean) => {
+    setSelectedResults((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(videoId);
+      else next.delete(videoId);
+      return next;
+    });
+  }, []);
+
   const handlePlayFromPlaylist = useCallback((item: PlaylistItem) => {
     const url = `https://www.youtube.com/watch?v=${item.videoId}`;
     setVideoUrl(url);
@@ -233,8 +258,8 @@ export default function SearchPage() {
   const handleExportToView = useCallback(() => {
     if (!videoUrl.trim()) return;
     saveUrlToHistory(VIEW_URLS_KEY, videoUrl);
-    navigate("/view/config");
-  }, [videoUrl, navigate]);
+    navigate(`~${sitePath(site, "/view/config")}`);
+  }, [videoUrl, navigate, site]);
 
   useEffect(() => {
     if (videoUrl.trim() && urlHistory.length === 0) {
@@ -368,6 +393,7 @@ export default function SearchPage() {
       if (!resp.ok) throw new Error("Search failed");
       const data = await resp.json();
       setSearchResults(data.results || []);
+      setSelectedResults(new Set());
     } catch {
       setSearchError("Search failed. Please try again.");
       setSearchResults([]);
@@ -460,12 +486,24 @@ export default function SearchPage() {
           size="sm"
           variant="secondary"
           onClick={handleSaveToPlaylist}
-          disabled={!videoId || addToPlaylist.isPending}
+          disabled={!canEdit || !videoId || playlistId === null || addToPlaylist.isPending}
           data-testid="save-to-playlist-button"
         >
           {addToPlaylist.isPending ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <ListPlus className="w-4 h-4 mr-1" />}
           Save
         </Button>
+        {canEdit && selectedResults.size > 0 && (
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={handleSaveSelected}
+            disabled={playlistId === null || addToPlaylist.isPending}
+            data-testid="save-selected-to-playlist-button"
+          >
+            <ListPlus className="w-4 h-4 mr-1" />
+            Save {selectedResults.size} selected
+          </Button>
+        )}
         <Button
           size="sm"
           variant="outline"
@@ -508,6 +546,16 @@ export default function SearchPage() {
               onClick={() => handleSelectResult(result)}
               data-testid={`search-result-${result.videoId}`}
             >
+              {canEdit && (
+                <Checkbox
+                  checked={selectedResults.has(result.videoId)}
+                  onCheckedChange={(checked) => toggleResultSelected(result.videoId, checked === true)}
+                  onClick={(e) => e.stopPropagation()}
+                  className="self-center"
+                  aria-label={`Select ${result.title}`}
+                  data-testid={`checkbox-search-result-${result.videoId}`}
+                />
+              )}
               <div className="relative shrink-0 w-28 sm:w-40 aspect-video rounded-md overflow-hidden bg-muted">
                 {result.thumbnail && (
                   <img
@@ -531,58 +579,15 @@ export default function SearchPage() {
             </div>
           ))}
 
-          {playlist.length > 0 && (
-            <div className="mt-4 pt-4 border-t space-y-2" data-testid="playlist-section">
-              <Label className="text-xs font-medium flex items-center gap-1 text-muted-foreground">
-                <ListMusic className="w-3 h-3" />
-                Playlist ({playlist.length})
-              </Label>
-              {playlist.map((item) => (
-                <div
-                  key={item.id}
-                  className={`flex gap-3 p-2 rounded-md cursor-pointer hover-elevate group ${item.videoId === videoId ? "bg-primary/10 ring-1 ring-primary/30" : ""}`}
-                  onClick={() => handlePlayFromPlaylist(item)}
-                  data-testid={`playlist-item-${item.id}`}
-                >
-                  <div className="relative shrink-0 w-24 aspect-video rounded-md overflow-hidden bg-muted">
-                    {item.thumbnail && (
-                      <img
-                        src={item.thumbnail}
-                        alt={item.title}
-                        className="w-full h-full object-cover"
-                        loading="lazy"
-                      />
-                    )}
-                    {item.duration && (
-                      <span className="absolute bottom-1 right-1 bg-black/80 text-white text-[10px] px-1 py-0.5 rounded">
-                        {item.duration}
-                      </span>
-                    )}
-                  </div>
-                  <div className="flex-1 min-w-0 space-y-0.5">
-                    <p className="text-sm font-medium leading-tight line-clamp-2" data-testid={`playlist-item-title-${item.id}`}>{item.title}</p>
-                    {item.channel && <p className="text-xs text-muted-foreground">{item.channel}</p>}
-                  </div>
-                  <Button
-                    size="icon"
-                    variant="ghost"
-                    className="shrink-0 invisible group-hover:visible self-center"
-                    onClick={(e) => { e.stopPropagation(); removeFromPlaylist.mutate(item.id); }}
-                    aria-label="Remove from playlist"
-                    data-testid={`playlist-remove-${item.id}`}
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </Button>
-                </div>
-              ))}
-            </div>
-          )}
-
-          {playlistLoading && (
-            <div className="flex items-center justify-center py-4">
-              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
-            </div>
-          )}
+          <div className="mt-4 pt-4 border-t">
+            <PlaylistManager
+              playlistId={playlistId}
+              onPlaylistChange={handlePlaylistChange}
+              activeVideoId={videoId}
+              onPlay={handlePlayFromPlaylist}
+              readOnly={!canEdit}
+            />
+          </div>
         </div>
 
         <div className="flex flex-col shrink-0 lg:shrink lg:w-1/2 lg:min-h-0 border-t lg:border-t-0 lg:border-l">
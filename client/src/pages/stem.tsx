@@ -1,13 +1,439 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { AudioLines, Headphones, Link2, Loader2, Pause, Play, Upload, VolumeX } from "lucide-react";
+import { DEFAULT_STEM_MIX, MAX_STEM_GAIN, STEM_MODELS, type StemJob, type StemMix, type StemModel, type StemName } from "@shared/schema";
+import { apiErrorMessage } from "@/lib/queryClient";
+import { useSite } from "@/lib/sites";
+import { StemEngine } from "@/lib/stem-engine";
+import { postStemReady, readStemPageMessage } from "@/lib/stem-messages";
+import { findStemJob, linkStemJobSource, queueStemSeparation, sha256Hex, STEM_COLORS, STEM_MODEL_LABELS, stemFileUrl, watchStemJob } from "@/lib/stems";
+import { cn } from "@/lib/utils";
+import { useWaveform } from "@/hooks/use-waveform";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Slider } from "@/components/ui/slider";
+import { StemMixdownPanel } from "@/components/ui/stem-mixdown-panel";
+import { WaveformCanvas } from "@/components/ui/waveform-canvas";
+
+function formatTime(seconds: number): string {
+  if (!isFinite(seconds) || seconds < 0) return "0:00";
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+interface SeparationStatus {
+  label: string;
+  /** 0 to 1. */
+  progress: number;
+}
+
+function describeJob(job: StemJob): SeparationStatus {
+  if (job.status === "queued") {
+    return { label: job.error ? `Retrying soon after an error: ${job.error}` : "Waiting for the separation queue...", progress: 0 };
+  }
+  if (job.status === "running") {
+    return { label: `Running ${STEM_MODEL_LABELS[job.model as StemModel]?.name ?? job.model}... ${Math.floor(job.progress * 100)}%`, progress: job.progress };
+  }
+  return { label: "Loading stems...", progress: 1 };
+}
+
+function separationError(err: unknown): string {
+  if (err instanceof Error && /^40[13]:/.test(err.message)) return "Sign in as an editor to separate new tracks";
+  return apiErrorMessage(err);
+}
+
+function StemTrackRow({
+  url,
+  name,
+  mix,
+  progress,
+  onMixChange,
+  onSeek,
+}: {
+  url: string;
+  name: StemName;
+  mix: StemMix;
+  progress: number;
+  onMixChange: (mix: Partial<StemMix>) => void;
+  onSeek: (fraction: number) => void;
+}) {
+  const waveform = useWaveform(url);
+  const color = STEM_COLORS[name];
+  return (
+    <div className="rounded-lg border border-white/10 bg-white/5 p-3 space-y-2" style={{ borderLeftColor: color, borderLeftWidth: 3 }} data-testid={`stem-track-${name}`}>
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-semibold uppercase tracking-wider" style={{ color }}>{name}</span>
+        <div className="flex gap-1">
+          <Button
+            size="sm"
+            variant={mix.solo ? "default" : "outline"}
+            className="h-7 px-2 text-xs"
+            onClick={() => onMixChange({ solo: !mix.solo })}
+            aria-pressed={mix.solo}
+            data-testid={`button-stem-solo-${name}`}
+          >
+            <Headphones className="w-3 h-3 mr-1" />
+            Solo
+          </Button>
+          <Button
+            size="sm"
+            variant={mix.muted ? "destructive" : "outline"}
+            className="h-7 px-2 text-xs"
+            onClick={() => onMixChange({ muted: !mix.muted })}
+            aria-pressed={mix.muted}
+            data-testid={`button-stem-mute-${name}`}
+          >
+            <VolumeX className="w-3 h-3 mr-1" />
+            Mute
+          </Button>
+        </div>
+      </div>
+      <div
+        className="relative h-12 cursor-pointer rounded bg-black/30"
+        onPointerDown={(e) => {
+          const rect = e.currentTarget.getBoundingClientRect();
+          onSeek(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+        }}
+        data-testid={`stem-waveform-${name}`}
+      >
+        {waveform ? (
+          <WaveformCanvas peaks={waveform.peaks} progress={progress} playedColor={color} color={`${color}55`} />
+        ) : (
+          <div className="absolute inset-y-0 left-0 rounded" style={{ width: `${progress * 100}%`, background: `${color}33` }} />
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="flex items-center gap-2">
+          <Label className="w-8 shrink-0 text-[10px] text-white/60">VOL</Label>
+          <Slider
+            value={[mix.gain]}
+            onValueChange={(v) => onMixChange({ gain: v[0] })}
+            min={0}
+            max={MAX_STEM_GAIN}
+            step={0.01}
+            aria-label={`${name} volume`}
+            data-testid={`slider-stem-gain-${name}`}
+          />
+          <span className="w-10 shrink-0 text-right text-[10px] tabular-nums text-white/60">{Math.round(mix.gain * 100)}%</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Label className="w-8 shrink-0 text-[10px] text-white/60">PAN</Label>
+          <Slider
+            value={[mix.pan]}
+            onValueChange={(v) => onMixChange({ pan: v[0] })}
+            min={-1}
+            max={1}
+            step={0.01}
+            aria-label={`${name} pan`}
+            data-testid={`slider-stem-pan-${name}`}
+          />
+          <button
+            type="button"
+            className="w-10 shrink-0 text-right text-[10px] tabular-nums text-white/60"
+            onClick={() => onMixChange({ pan: 0 })}
+            title="Centre"
+          >
+            {mix.pan === 0 ? "C" : `${mix.pan < 0 ? "L" : "R"}${Math.round(Math.abs(mix.pan) * 100)}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Separates a track into stems on the server and mixes them. Players open it
+ * in an iframe and send the track they are playing once it says it is ready;
+ * see `stem-messages.ts`.
+ */
 export default function StemPage() {
+  const site = useSite();
+  const [file, setFile] = useState<File | null>(null);
+  const [urlDraft, setUrlDraft] = useState("");
+  /** The URL `file` was loaded from, linked to its stems so /play can find them. */
+  const [sourceUrl, setSourceUrl] = useState<string | null>(null);
+  const [loadingUrl, setLoadingUrl] = useState(false);
+  const [model, setModel] = useState<StemModel>("htdemucs");
+  const [status, setStatus] = useState<SeparationStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [job, setJob] = useState<StemJob | null>(null);
+  const [mixes, setMixes] = useState<Partial<Record<StemName, StemMix>>>({});
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [dragging, setDragging] = useState(false);
+
+  const engineRef = useRef<StemEngine | null>(null);
+  const engine = () => (engineRef.current ??= new StemEngine());
+  const abortRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => () => {
+    abortRef.current?.abort();
+    engineRef.current?.close();
+  }, []);
+
+  const chooseFile = (chosen: File) => {
+    setFile(chosen);
+    setSourceUrl(null);
+    setUrlDraft("");
+    setError(null);
+  };
+
+  const loadFromUrl = useCallback(async (url: string) => {
+    const trimmed = url.trim();
+    if (!trimmed) return;
+    setUrlDraft(trimmed);
+    setLoadingUrl(true);
+    setError(null);
+    try {
+      const response = await fetch(trimmed, { credentials: "include" });
+      if (!response.ok) throw new Error(`Failed to load file: ${response.status} ${response.statusText}`);
+      const blob = await response.blob();
+      const name = decodeURIComponent(new URL(trimmed, window.location.href).pathname.split("/").pop() || "") || "remote-audio";
+      setFile(new File([blob], name, { type: blob.type }));
+      setSourceUrl(trimmed);
+    } catch (err) {
+      setError(`Failed to load from URL: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setLoadingUrl(false);
+    }
+  }, []);
+
+  // The player that opened this page sends its track once the listener is up.
+  const loadFromUrlRef = useRef(loadFromUrl);
+  loadFromUrlRef.current = loadFromUrl;
+  useEffect(() => {
+    const onMessage = (event: MessageEvent) => {
+      const message = readStemPageMessage(event);
+      if (message) loadFromUrlRef.current(message.url);
+    };
+    window.addEventListener("message", onMessage);
+    if (window.parent !== window) postStemReady(window.parent);
+    return () => window.removeEventListener("message", onMessage);
+  }, []);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = 0;
+    const tick = () => {
+      setCurrentTime(engine().currentTime);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
+
+  const separate = async () => {
+    if (!file) return;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    engine().pause();
+    setIsPlaying(false);
+    setError(null);
+    try {
+      setStatus({ label: "Reading audio file...", progress: 0 });
+      const sha256 = await sha256Hex(file);
+      // The same track separated with the same model before comes straight back.
+      let queued = await findStemJob(site, sha256, model);
+      if (!queued || queued.status === "failed") {
+        queued = await queueStemSeparation(site, file, model, (percent) => setStatus({ label: `Uploading... ${percent}%`, progress: 0 }));
+      }
+      if (sourceUrl && queued.sourceUrl !== sourceUrl) {
+        // Only editors can link; visitors still get the stems, /play just won't offer them for this URL.
+        const unlinked = queued;
+        queued = await linkStemJobSource(site, unlinked.id, sourceUrl).catch(() => unlinked);
+      }
+      const done = await watchStemJob(site, queued, (update) => setStatus(describeJob(update)), controller.signal);
+
+      const buffers = new Map<StemName, AudioBuffer>();
+      await Promise.all(done.stems.map(async (stem) => {
+        const response = await fetch(stemFileUrl(site, done.id, stem), { credentials: "include" });
+        if (!response.ok) throw new Error(`Failed to load ${stem}: ${response.status} ${response.statusText}`);
+        buffers.set(stem, await engine().decode(await response.arrayBuffer()));
+      }));
+      if (controller.signal.aborted) return;
+      engine().setStems(buffers);
+      engine().onEnded = () => {
+        setIsPlaying(false);
+        setCurrentTime(0);
+      };
+      setMixes((previous) => Object.fromEntries(done.stems.map((stem) => [stem, previous[stem] ?? DEFAULT_STEM_MIX])));
+      setJob(done);
+      setDuration(engine().duration);
+      setCurrentTime(0);
+      setStatus(null);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setError(separationError(err));
+      setStatus(null);
+    }
+  };
+
+  const togglePlayback = async () => {
+    if (engine().isPlaying) {
+      engine().pause();
+      setIsPlaying(false);
+    } else {
+      await engine().play();
+      setIsPlaying(engine().isPlaying);
+    }
+  };
+
+  const seek = (seconds: number) => {
+    engine().seek(seconds);
+    setCurrentTime(seconds);
+  };
+
+  const changeMix = (stem: StemName, change: Partial<StemMix>) => {
+    engine().setMix(stem, change);
+    setMixes((previous) => ({ ...previous, [stem]: { ...(previous[stem] ?? DEFAULT_STEM_MIX), ...change } }));
+  };
+
+  const progress = duration > 0 ? currentTime / duration : 0;
+  const busy = status !== null;
+
   return (
-    <div className="w-full h-screen" data-testid="stem-page">
-      <iframe
-        src="/stem.html"
-        className="w-full h-full border-0"
-        title="StemSplit - AI Audio Separation"
-        allow="autoplay; microphone"
-        data-testid="stem-iframe"
-      />
+    <div className="dark min-h-screen w-full bg-[#0a0a0f] text-foreground" data-testid="stem-page">
+      <div className="max-w-3xl mx-auto p-4 sm:p-6 space-y-5">
+        <div className="flex items-center gap-2 pl-10 sm:pl-0">
+          <AudioLines className="w-6 h-6 text-pink-500" />
+          <h1 className="text-2xl font-semibold tracking-wide">Stem Splitter</h1>
+        </div>
+
+        {error && (
+          <div className="rounded-md border border-destructive/50 bg-destructive/10 px-3 py-2 text-sm text-red-300" role="alert" data-testid="text-stem-error">
+            {error}
+          </div>
+        )}
+
+        <div
+          className={cn(
+            "rounded-lg border-2 border-dashed p-6 text-center cursor-pointer transition-colors",
+            dragging ? "border-pink-500 bg-pink-500/10" : "border-white/15 hover:border-white/30",
+          )}
+          onClick={() => fileInputRef.current?.click()}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setDragging(false);
+            const dropped = e.dataTransfer.files[0];
+            if (dropped) chooseFile(dropped);
+          }}
+          data-testid="stem-drop-zone"
+        >
+          <Upload className="w-6 h-6 mx-auto mb-2 text-white/60" />
+          <p className="text-sm">{file ? `Selected: ${file.name}` : "Drop an audio or video file here"}</p>
+          <p className="text-xs text-white/50 mt-1">or click to browse: MP3, WAV, M4A, MP4 and more</p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="audio/*,video/*"
+            className="hidden"
+            onChange={(e) => {
+              const chosen = e.target.files?.[0];
+              if (chosen) chooseFile(chosen);
+              e.target.value = "";
+            }}
+            data-testid="input-stem-file"
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="stem-url" className="text-xs text-white/60">Or load from a URL</Label>
+          <div className="flex gap-2">
+            <Input
+              id="stem-url"
+              value={urlDraft}
+              onChange={(e) => setUrlDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") loadFromUrl(urlDraft);
+              }}
+              placeholder="https://example.com/audio.mp3"
+              data-testid="input-stem-url"
+            />
+            <Button variant="outline" onClick={() => loadFromUrl(urlDraft)} disabled={loadingUrl || !urlDraft.trim()} data-testid="button-stem-load-url">
+              {loadingUrl ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />}
+              <span className="ml-1">Load</span>
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs text-white/60">Separation model</Label>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {STEM_MODELS.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setModel(option)}
+                className={cn(
+                  "rounded-md border px-3 py-2 text-left text-sm transition-colors",
+                  model === option ? "border-pink-500 bg-pink-500/10" : "border-white/15 hover:border-white/30",
+                )}
+                aria-pressed={model === option}
+                data-testid={`button-stem-model-${option}`}
+              >
+                <div>{STEM_MODEL_LABELS[option].name}</div>
+                <div className="text-[10px] text-white/50">{STEM_MODEL_LABELS[option].hint}</div>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <Button className="w-full" onClick={separate} disabled={!file || busy || loadingUrl} data-testid="button-stem-process">
+          {busy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Separate stems
+        </Button>
+
+        {status && (
+          <div className="space-y-2" data-testid="stem-status">
+            <p className="text-sm text-white/80">{status.label}</p>
+            <Progress value={status.progress * 100} className="h-2" />
+          </div>
+        )}
+
+        {job && (
+          <div className="space-y-3" data-testid="stem-player">
+            <div className="flex items-center gap-3">
+              <Button size="icon" onClick={togglePlayback} aria-label={isPlaying ? "Pause" : "Play"} data-testid="button-stem-play">
+                {isPlaying ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+              </Button>
+              <span className="w-10 text-xs tabular-nums text-white/60">{formatTime(currentTime)}</span>
+              <Slider
+                value={[currentTime]}
+                onValueChange={(v) => seek(v[0])}
+                min={0}
+                max={duration || 1}
+                step={0.01}
+                className="flex-1"
+                aria-label="Position"
+                data-testid="slider-stem-seek"
+              />
+              <span className="w-10 text-xs tabular-nums text-white/60 text-right">{formatTime(duration)}</span>
+            </div>
+            {job.stems.map((stem) => (
+              <StemTrackRow
+                key={stem}
+                url={stemFileUrl(site, job.id, stem)}
+                name={stem}
+                mix={mixes[stem] ?? DEFAULT_STEM_MIX}
+                progress={progress}
+                onMixChange={(change) => changeMix(stem, change)}
+                onSeek={(fraction) => seek(fraction * duration)}
+              />
+            ))}
+            <StemMixdownPanel jobId={job.id} sourceName={job.sourceName} mix={mixes} />
+          </div>
+        )}
+      </div>
     </div>
   );
 }
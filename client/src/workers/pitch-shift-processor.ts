@@ -0,0 +1,86 @@
+/**
+ * AudioWorklet that shifts pitch without changing speed. Two read heads sweep
+ * a short delay line at the pitch ratio and are crossfaded with Hann windows
+ * half a grain apart, so each head fades out before it wraps around.
+ * Loaded with Vite's `?worker&url` so it is bundled like any other module.
+ */
+
+// The AudioWorklet global scope is not part of TypeScript's DOM typings.
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processor: new () => AudioWorkletProcessor): void;
+
+interface AudioParamDescriptor {
+  name: string;
+  defaultValue: number;
+  minValue: number;
+  maxValue: number;
+  automationRate: "a-rate" | "k-rate";
+}
+
+/** Grain length; shorter smears transients less, longer keeps low notes steadier. */
+const GRAIN_SECONDS = 0.06;
+
+class PitchShiftProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors(): AudioParamDescriptor[] {
+    return [{ name: "pitchRatio", defaultValue: 1, minValue: 0.25, maxValue: 4, automationRate: "k-rate" }];
+  }
+
+  private readonly grain = Math.round(GRAIN_SECONDS * sampleRate);
+  private readonly size: number;
+  private buffers: Float32Array[] = [];
+  private write = 0;
+  /** Position of the first head within its grain, 0 to 1; the second head is half a grain further on. */
+  private phase = 0;
+
+  constructor() {
+    super();
+    let size = 1;
+    while (size < this.grain * 2) size *= 2;
+    this.size = size;
+  }
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>): boolean {
+    const input = inputs[0];
+    const output = outputs[0];
+    const ratio = parameters.pitchRatio[0];
+    while (this.buffers.length < output.length) this.buffers.push(new Float32Array(this.size));
+
+    const mask = this.size - 1;
+    // The delay shrinks as the heads read faster than the writer (higher pitch) and grows when they read slower.
+    const step = (1 - ratio) / this.grain;
+    const frames = output[0]?.length ?? 0;
+    let phase = this.phase;
+    for (let i = 0; i < frames; i++) {
+      const write = (this.write + i) & mask;
+      const phase2 = (phase + 0.5) % 1;
+      const gain1 = Math.sin(Math.PI * phase) ** 2;
+      const gain2 = 1 - gain1;
+      for (let c = 0; c < output.length; c++) {
+        const buffer = this.buffers[c];
+        buffer[write] = input[c]?.[i] ?? input[0]?.[i] ?? 0;
+        output[c][i] = gain1 * read(buffer, write - phase * this.grain, mask) + gain2 * read(buffer, write - phase2 * this.grain, mask);
+      }
+      phase += step;
+      phase -= Math.floor(phase);
+    }
+    this.phase = phase;
+    this.write = (this.write + frames) & mask;
+    return true;
+  }
+}
+
+/** Linear interpolation between the two samples around a fractional position. */
+function read(buffer: Float32Array, position: number, mask: number): number {
+  const floor = Math.floor(position);
+  const frac = position - floor;
+  const a = buffer[floor & mask];
+  const b = buffer[(floor + 1) & mask];
+  return a + (b - a) * frac;
+}
+
+registerProcessor("pitch-shift", PitchShiftProcessor);
+
+export {};
@@ -0,0 +1,108 @@
+/**
+ * Turns decoded audio into what the scrubber draws and snaps to. Runs off the
+ * main thread because a long song is millions of samples; decoding itself has
+ * to happen on the page, since workers have no AudioContext.
+ */
+import type { WaveformAnalysis, WaveformRequest } from "@/lib/waveform";
+
+/** Analysis hop; transients and silence edges land on this grid. */
+const HOP_SECONDS = 0.005;
+const SILENCE_DB = -48;
+const MIN_SILENCE_SECONDS = 0.2;
+/** A transient is a jump of this much over the level just before it... */
+const ONSET_RISE_DB = 8;
+/** ...measured over this window... */
+const ONSET_HISTORY_SECONDS = 0.05;
+/** ...at a level that is clearly audible, and not straight after another one. */
+const ONSET_MIN_DB = -40;
+const MIN_ONSET_GAP_SECONDS = 0.08;
+
+function downmix(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) return channels[0];
+  const mono = new Float32Array(channels[0].length);
+  for (const data of channels) {
+    for (let i = 0; i < mono.length; i++) mono[i] += data[i] / channels.length;
+  }
+  return mono;
+}
+
+function peaksOf(samples: Float32Array, buckets: number): number[] {
+  const size = Math.max(1, Math.ceil(samples.length / buckets));
+  const peaks: number[] = [];
+  for (let start = 0; start < samples.length; start += size) {
+    let max = 0;
+    const end = Math.min(samples.length, start + size);
+    for (let i = start; i < end; i++) {
+      const v = Math.abs(samples[i]);
+      if (v > max) max = v;
+    }
+    peaks.push(max);
+  }
+  const loudest = Math.max(...peaks, 1e-6);
+  return peaks.map((p) => p / loudest);
+}
+
+/** Level of each hop in dBFS. */
+function frameLevels(samples: Float32Array, hop: number): number[] {
+  const levels: number[] = [];
+  for (let start = 0; start < samples.length; start += hop) {
+    const end = Math.min(samples.length, start + hop);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+    levels.push(10 * Math.log10(sum / Math.max(1, end - start) + 1e-12));
+  }
+  return levels;
+}
+
+function silenceEdges(levels: number[], hopSeconds: number): number[] {
+  const edges: number[] = [];
+  const minFrames = Math.ceil(MIN_SILENCE_SECONDS / hopSeconds);
+  let runStart = -1;
+  for (let i = 0; i <= levels.length; i++) {
+    const silent = i < levels.length && levels[i] < SILENCE_DB;
+    if (silent && runStart < 0) runStart = i;
+    if (!silent && runStart >= 0) {
+      if (i - runStart >= minFrames) {
+        // Where sound stops and where it starts again; the ends of the file are not edges.
+        if (runStart > 0) edges.push(runStart * hopSeconds);
+        if (i < levels.length) edges.push(i * hopSeconds);
+      }
+      runStart = -1;
+    }
+  }
+  return edges;
+}
+
+function transients(levels: number[], hopSeconds: number): number[] {
+  const history = Math.max(1, Math.round(ONSET_HISTORY_SECONDS / hopSeconds));
+  const found: number[] = [];
+  let last = -Infinity;
+  for (let i = history; i < levels.length; i++) {
+    let before = 0;
+    for (let j = i - history; j < i; j++) before += levels[j];
+    before /= history;
+    const at = i * hopSeconds;
+    if (levels[i] > ONSET_MIN_DB && levels[i] - before > ONSET_RISE_DB && at - last >= MIN_ONSET_GAP_SECONDS) {
+      found.push(at);
+      last = at;
+    }
+  }
+  return found;
+}
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<WaveformRequest>) => {
+  const { channels, sampleRate, buckets } = event.data;
+  const samples = downmix(channels);
+  const hop = Math.max(1, Math.round(sampleRate * HOP_SECONDS));
+  const hopSeconds = hop / sampleRate;
+  const levels = frameLevels(samples, hop);
+  const result: WaveformAnalysis = {
+    duration: samples.length / sampleRate,
+    peaks: peaksOf(samples, buckets),
+    transients: transients(levels, hopSeconds),
+    silenceEdges: silenceEdges(levels, hopSeconds),
+  };
+  ctx.postMessage(result);
+};
@@ -0,0 +1,236 @@
+import type { Express, RequestHandler } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { DEFAULT_SITE, insertUserSchema, type PublicUser, type SessionUser, type User as SchemaUser } from "@shared/schema";
+import { hasRole, USER_ROLES, type UserRole } from "@shared/permissions";
+import { pool, storage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface User extends SchemaUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const storedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return storedBuf.length === suppliedBuf.length && timingSafeEqual(storedBuf, suppliedBuf);
+}
+
+export function toPublicUser(user: SchemaUser): PublicUser {
+  const { password: _password, ...rest } = user;
+  return rest;
+}
+
+async function toSessionUser(user: SchemaUser): Promise<SessionUser> {
+  return { ...toPublicUser(user), sites: await storage.listUserSites(user.id) };
+}
+
+function sessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn("SESSION_SECRET is not set; using a random secret, sessions will not survive a restart");
+  return randomBytes(32).toString("hex");
+}
+
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (req.isAuthenticated()) return next();
+  res.status(401).json({ error: "Authentication required" });
+};
+
+/**
+ * On per-site routes, where `res.locals.site` is set, non-admins must also
+ * belong to that site: an editor of one site cannot write to another.
+ * Every account belongs to the default site, which the unprefixed `/api`
+ * routes serve.
+ */
+export function requireRole(role: UserRole): RequestHandler {
+  return async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ error: "Authentication required" });
+    if (!hasRole(req.user.role, role)) return res.status(403).json({ error: `Requires the ${role} role` });
+    const site: string | undefined = res.locals.site;
+    if (site === undefined || site === DEFAULT_SITE || hasRole(req.user.role, "admin")) return next();
+    try {
+      if (!(await storage.isSiteMember(site, req.user.id))) {
+        return res.status(403).json({ error: "Not a member of this site" });
+      }
+      next();
+    } catch (err) {
+      next(err);
+    }
+  };
+}
+
+const requireEditor = requireRole("editor");
+
+/** Lets reads through so public pages keep working, but requires an editor for anything that changes data. */
+export const requireAuthForWrites: RequestHandler = (req, res, next) => {
+  if (req.method === "GET" || req.method === "HEAD") return next();
+  requireEditor(req, res, next);
+};
+
+const credentialsSchema = insertUserSchema.extend({
+  username: z.string().trim().min(3).max(64),
+  password: z.string().min(8).max(256),
+  role: z.enum(USER_ROLES).default("viewer"),
+});
+
+export function setupAuth(app: Express) {
+  const PgSession = connectPg(session);
+
+  app.set("trust proxy", 1);
+  app.use(
+    session({
+      store: new PgSession({ pool, createTableIfMissing: true }),
+      secret: sessionSecret(),
+      resave: false,
+      saveUninitialized: false,
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        maxAge: 7 * 24 * 60 * 60 * 1000,
+      },
+    }),
+  );
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (err) {
+        return done(err);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ?? false);
+    } catch (err) {
+      done(err);
+    }
+  });
+
+  app.get("/api/auth/setup", async (_req, res) => {
+    try {
+      const count = await storage.countUsers();
+      res.json({ needsSetup: count === 0 });
+    } catch (err) {
+      console.error("Failed to check auth setup:", err);
+      res.status(500).json({ error: "Failed to check setup" });
+    }
+  });
+
+  // Only the very first account can be created without being signed in, and
+  // it always becomes an admin; after that, admins add accounts.
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const count = await storage.countUsers();
+      if (count > 0 && !(req.isAuthenticated() && hasRole(req.user.role, "admin"))) {
+        return res.status(403).json({ error: "Registration is closed" });
+      }
+      const parsed = credentialsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error.issues });
+      }
+      if (await storage.getUserByUsername(parsed.data.username)) {
+        return res.status(409).json({ error: "Username already exists" });
+      }
+      const user = await storage.createUser({
+        username: parsed.data.username,
+        password: await hashPassword(parsed.data.password),
+        role: count === 0 ? "admin" : parsed.data.role,
+      });
+      if (req.isAuthenticated()) return res.status(201).json(toPublicUser(user));
+      req.login(user, (err) => {
+        if (err) return next(err);
+        toSessionUser(user).then((signedIn) => res.status(201).json(signedIn), next);
+      });
+    } catch (err) {
+      console.error("Failed to register user:", err);
+      res.status(500).json({ error: "Failed to register" });
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: SchemaUser | false) => {
+      if (err) return next(err);
+      if (!user) return res.status(401).json({ error: "Invalid username or password" });
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        toSessionUser(user).then((signedIn) => res.json(signedIn), next);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.sendStatus(204);
+    });
+  });
+
+  app.get("/api/user", async (req, res) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ error: "Not signed in" });
+    try {
+      res.json(await toSessionUser(req.user));
+    } catch (err) {
+      console.error("Failed to get user:", err);
+      res.status(500).json({ error: "Failed to get user" });
+    }
+  });
+
+  app.get("/api/users", requireRole("admin"), async (_req, res) => {
+    try {
+      const all = await storage.listUsers();
+      res.json(all.map(toPublicUser));
+    } catch (err) {
+      console.error("Failed to list users:", err);
+      res.status(500).json({ error: "Failed to list users" });
+    }
+  });
+
+  app.patch("/api/users/:id/role", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = z.object({ role: z.enum(USER_ROLES) }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error.issues });
+      }
+      if (req.params.id === req.user!.id) {
+        return res.status(400).json({ error: "You cannot change your own role" });
+      }
+      const updated = await storage.updateUserRole(String(req.params.id), parsed.data.role);
+      if (!updated) return res.status(404).json({ error: "User not found" });
+      res.json(toPublicUser(updated));
+    } catch (err) {
+      console.error("Failed to update user role:", err);
+      res.status(500).json({ error: "Failed to update role" });
+    }
+  });
+}
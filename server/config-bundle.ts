@@ -0,0 +1,108 @@
+import { z } from "zod";
+import {
+  CONFIG_BUNDLE_FORMAT,
+  migrateSettings,
+  routeSettingsSchemas,
+  type ConfigBundle,
+  type ConfigBundleDiff,
+  type FieldChange,
+  type RouteSettings,
+  type SettingsRoute,
+} from "@shared/schema";
+import { rangesOverlap } from "@shared/breakpoints";
+
+export function buildConfigBundle(route: string, profile: string, rows: RouteSettings[]): ConfigBundle {
+  return {
+    format: CONFIG_BUNDLE_FORMAT,
+    bundleVersion: 1,
+    route,
+    profile,
+    exportedAt: new Date().toISOString(),
+    globalUrls: (rows[0]?.globalUrls ?? {}) as Record<string, unknown>,
+    layouts: rows.map((row) => ({
+      width: row.width,
+      minWidth: row.minWidth,
+      maxWidth: row.maxWidth,
+      settings: row.settings as Record<string, unknown>,
+    })),
+  };
+}
+
+/**
+ * Checks a bundle against the route's settings schemas, migrating older layouts
+ * first. Returns the normalized bundle, or the issues that make it unusable.
+ */
+export function validateConfigBundle(
+  route: SettingsRoute,
+  bundle: ConfigBundle,
+): { bundle: ConfigBundle; issues: z.ZodIssue[] } {
+  const schemas = routeSettingsSchemas[route];
+  const issues: z.ZodIssue[] = [];
+  if (bundle.route !== route) {
+    issues.push({ code: z.ZodIssueCode.custom, path: ["route"], message: `Bundle is for /${bundle.route}, not /${route}` });
+  }
+
+  const globalUrls = schemas.globalUrls.safeParse(bundle.globalUrls);
+  if (!globalUrls.success) {
+    issues.push(...globalUrls.error.issues.map((issue) => ({ ...issue, path: ["globalUrls", ...issue.path] })));
+  }
+
+  const layouts = bundle.layouts.map((layout, i) => {
+    const settings = schemas.settings.safeParse(migrateSettings(layout.settings));
+    if (!settings.success) {
+      issues.push(...settings.error.issues.map((issue) => ({ ...issue, path: ["layouts", i, "settings", ...issue.path] })));
+      return layout;
+    }
+    return { ...layout, settings: settings.data };
+  });
+
+  bundle.layouts.forEach((a, i) => {
+    bundle.layouts.slice(i + 1).forEach((b) => {
+      if (rangesOverlap(a, b)) {
+        issues.push({ code: z.ZodIssueCode.custom, path: ["layouts", i], message: `Range of the ${a.width}px layout overlaps the ${b.width}px layout` });
+      }
+    });
+  });
+
+  return {
+    bundle: { ...bundle, globalUrls: globalUrls.success ? globalUrls.data : bundle.globalUrls, layouts },
+    issues,
+  };
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function diffRecords(before: Record<string, unknown>, after: Record<string, unknown>, ignore: string[] = []): FieldChange[] {
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter((field) => !ignore.includes(field))
+    .sort();
+  return fields
+    .filter((field) => !sameValue(before[field], after[field]))
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+}
+
+export function diffConfigBundle(rows: RouteSettings[], bundle: ConfigBundle): ConfigBundleDiff {
+  const current = new Map(rows.map((row) => [row.width, row]));
+  const incoming = new Map(bundle.layouts.map((layout) => [layout.width, layout]));
+  const widths = Array.from(new Set([...Array.from(current.keys()), ...Array.from(incoming.keys())])).sort((a, b) => a - b);
+
+  const layouts = widths.map((width): ConfigBundleDiff["layouts"][number] => {
+    const row = current.get(width);
+    const layout = incoming.get(width);
+    if (!row) return { width, status: "added", changes: [] };
+    if (!layout) return { width, status: "removed", changes: [] };
+    const changes = diffRecords(
+      { minWidth: row.minWidth, maxWidth: row.maxWidth, ...(row.settings as Record<string, unknown>) },
+      { minWidth: layout.minWidth, maxWidth: layout.maxWidth, ...layout.settings },
+      ["schemaVersion"],
+    );
+    return { width, status: changes.length > 0 ? "changed" : "unchanged", changes };
+  });
+
+  return {
+    globalUrls: diffRecords((rows[0]?.globalUrls ?? {}) as Record<string, unknown>, bundle.globalUrls),
+    layouts,
+  };
+}
@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
+import { mediaJobWorker } from "./media-jobs";
+import { stemJobWorker } from "./stem-jobs";
 import { createServer } from "http";
 
 const app = express();
@@ -61,6 +63,8 @@ app.use((req, res, next) => {
 
 (async () => {
   await registerRoutes(httpServer, app);
+  mediaJobWorker.start().catch((err) => console.error("Failed to start media job worker:", err));
+  stemJobWorker.start().catch((err) => console.error("Failed to start stem job worker:", err));
 
   app.use((err: any, _req: Request, res: Response, next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -0,0 +1,52 @@
+import type { MediaBandwidthRow } from "@shared/schema";
+import { storage } from "./storage";
+import type { MediaTransfer } from "./media-stream";
+
+const FLUSH_INTERVAL_MS = 30_000;
+
+interface PendingCounts extends MediaBandwidthRow {
+  site: string;
+}
+
+/**
+ * Media requests arrive many times per second while a file is scrubbed, so
+ * transfers are summed in memory per file and day and written in one upsert
+ * per site every half minute rather than once per request.
+ */
+class MediaBandwidthRecorder {
+  private pending = new Map<string, PendingCounts>();
+  private timer: NodeJS.Timeout | null = null;
+
+  record(site: string, assetId: number, { bytes, ranged }: MediaTransfer) {
+    const day = new Date().toISOString().slice(0, 10);
+    const key = `${site}:${assetId}:${day}`;
+    const counts = this.pending.get(key) ?? { site, assetId, day, bytesServed: 0, requests: 0, rangeRequests: 0 };
+    counts.bytesServed += bytes;
+    counts.requests += 1;
+    if (ranged) counts.rangeRequests += 1;
+    this.pending.set(key, counts);
+    if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), FLUSH_INTERVAL_MS);
+      this.timer.unref();
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    const bySite = new Map<string, MediaBandwidthRow[]>();
+    this.pending.forEach(({ site, ...row }) => {
+      bySite.set(site, [...(bySite.get(site) ?? []), row]);
+    });
+    this.pending.clear();
+    const writes: Promise<void>[] = [];
+    bySite.forEach((rows, site) => {
+      writes.push(storage.forSite(site).recordMediaBandwidth(rows).catch((err) => {
+        console.error("Failed to record media bandwidth:", err);
+      }));
+    });
+    await Promise.all(writes);
+  }
+}
+
+export const mediaBandwidth = new MediaBandwidthRecorder();
@@ -0,0 +1,84 @@
+import { mkdir, readdir, rm, stat } from "fs/promises";
+import path from "path";
+import { MAX_MEDIA_JOB_ATTEMPTS, type MediaJob, type MediaOutput } from "@shared/schema";
+import { storage } from "./storage";
+import { JOB_WORK_DIR, mediaOutputPrefix, mediaStore } from "./media-store";
+import { transcodeMedia } from "./media-transcode";
+
+const POLL_INTERVAL_MS = 5000;
+/** Wait before the second and third attempts. */
+const RETRY_DELAYS_MS = [60_000, 5 * 60_000];
+
+/**
+ * Works through queued transcoding jobs one at a time in this process, since
+ * each ffmpeg run already keeps the CPU busy. Jobs live in the database, so
+ * the queue survives restarts; a failed attempt is queued again after a delay
+ * until it runs out of attempts.
+ */
+class MediaJobWorker {
+  private busy = false;
+  private timer: NodeJS.Timeout | null = null;
+
+  async start() {
+    const requeued = await storage.requeueRunningMediaJobs();
+    if (requeued > 0) console.log(`Requeued ${requeued} media job(s) interrupted by a restart`);
+    this.timer = setInterval(() => this.wake(), POLL_INTERVAL_MS);
+    this.timer.unref();
+    this.wake();
+  }
+
+  /** Starts on due jobs now rather than at the next poll; does nothing while a run is going. */
+  wake() {
+    if (this.busy) return;
+    this.busy = true;
+    this.drain()
+      .catch((err) => console.error("Media job worker failed:", err))
+      .finally(() => {
+        this.busy = false;
+      });
+  }
+
+  private async drain() {
+    for (let job = await storage.claimMediaJob(); job; job = await storage.claimMediaJob()) {
+      await this.run(job);
+    }
+  }
+
+  private async run(job: MediaJob) {
+    const workDir = path.join(JOB_WORK_DIR, String(job.id));
+    try {
+      // A deleted upload takes its jobs with it, so there is nothing left to do.
+      const asset = await storage.forSite(job.site).getMediaAsset(job.assetId);
+      if (!asset) return;
+      await rm(workDir, { recursive: true, force: true });
+      await mkdir(workDir, { recursive: true });
+      const result = await transcodeMedia(job.output as MediaOutput, asset, await mediaStore.localPath(asset.storageKey), workDir);
+
+      const folder = `${mediaOutputPrefix(asset.storageKey)}/${job.output}`;
+      await mediaStore.removeAll(folder);
+      let sizeBytes = 0;
+      for (const file of await readdir(workDir)) {
+        const filePath = path.join(workDir, file);
+        sizeBytes += (await stat(filePath)).size;
+        await mediaStore.put(`${folder}/${file}`, filePath);
+      }
+      const saved = await storage.completeMediaJob(job.id, {
+        outputKey: `${folder}/${result.main}`,
+        outputMimeType: result.mimeType,
+        outputSizeBytes: sizeBytes,
+      });
+      if (!saved) await mediaStore.removeAll(folder);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`Media job ${job.id} (${job.output}) failed:`, message);
+      const retryAt = job.attempts < MAX_MEDIA_JOB_ATTEMPTS
+        ? new Date(Date.now() + RETRY_DELAYS_MS[Math.min(job.attempts, RETRY_DELAYS_MS.length) - 1])
+        : null;
+      await storage.failMediaJob(job.id, message, retryAt);
+    } finally {
+      await rm(workDir, { recursive: true, force: true }).catch(() => {});
+    }
+  }
+}
+
+export const mediaJobWorker = new MediaJobWorker();
@@ -0,0 +1,88 @@
+import { execFile } from "child_process";
+import type { MediaMetadata } from "@shared/schema";
+
+const FFPROBE = process.env.FFPROBE_PATH || "ffprobe";
+const PROBE_TIMEOUT_MS = 30_000;
+
+export interface MediaProbe {
+  durationSeconds: number | null;
+  width: number | null;
+  height: number | null;
+  metadata: MediaMetadata;
+}
+
+interface FfprobeStream {
+  codec_type?: string;
+  codec_name?: string;
+  width?: number;
+  height?: number;
+  sample_rate?: string;
+  channels?: number;
+}
+
+interface FfprobeOutput {
+  streams?: FfprobeStream[];
+  format?: {
+    format_name?: string;
+    duration?: string;
+    bit_rate?: string;
+    tags?: Record<string, string>;
+  };
+}
+
+function positiveNumber(value: string | number | undefined): number | null {
+  const n = Number(value);
+  return isFinite(n) && n > 0 ? n : null;
+}
+
+function parseProbeOutput(output: FfprobeOutput): MediaProbe {
+  const streams = output.streams ?? [];
+  const picture = streams.find((s) => s.codec_type === "video" && s.width && s.height);
+  const sound = streams.find((s) => s.codec_type === "audio");
+  const codecs = streams.map((s) => s.codec_name).filter((c): c is string => Boolean(c));
+  const metadata: MediaMetadata = {};
+  if (output.format?.format_name) metadata.format = output.format.format_name;
+  if (codecs.length > 0) metadata.codecs = Array.from(new Set(codecs));
+  const bitRate = positiveNumber(output.format?.bit_rate);
+  if (bitRate) metadata.bitRate = bitRate;
+  const sampleRate = positiveNumber(sound?.sample_rate);
+  if (sampleRate) metadata.sampleRate = sampleRate;
+  if (sound?.channels) metadata.channels = sound.channels;
+  if (output.format?.tags && Object.keys(output.format.tags).length > 0) {
+    metadata.tags = Object.fromEntries(
+      Object.entries(output.format.tags).map(([key, value]) => [key.toLowerCase(), String(value).slice(0, 500)]),
+    );
+  }
+  return {
+    durationSeconds: positiveNumber(output.format?.duration),
+    width: picture?.width ?? null,
+    height: picture?.height ?? null,
+    metadata,
+  };
+}
+
+let warnedMissing = false;
+
+/** Reads duration, dimensions and tags with ffprobe; null when ffprobe is unavailable or cannot read the file. */
+export function probeMedia(filePath: string): Promise<MediaProbe | null> {
+  const args = ["-v", "error", "-print_format", "json", "-show_format", "-show_streams", filePath];
+  return new Promise((resolve) => {
+    execFile(FFPROBE, args, { timeout: PROBE_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024 }, (err, stdout) => {
+      if (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+          if (!warnedMissing) console.warn(`${FFPROBE} not found; uploads are stored without duration or metadata`);
+          warnedMissing = true;
+        } else {
+          console.error("Failed to probe media:", err.message);
+        }
+        return resolve(null);
+      }
+      try {
+        resolve(parseProbeOutput(JSON.parse(stdout)));
+      } catch (parseErr) {
+        console.error("Failed to parse ffprobe output:", parseErr);
+        resolve(null);
+      }
+    });
+  });
+}
@@ -0,0 +1,84 @@
+import { open } from "fs/promises";
+
+/** File formats told apart by their first bytes; one format can hold several MIME types. */
+type Container = "mpeg-audio" | "wav" | "flac" | "ogg" | "matroska" | "iso-bmff" | "avif" | "jpeg" | "png" | "gif" | "webp";
+
+/** The container each accepted MIME type must really be; covers every type in `MEDIA_MIME_TYPES`. */
+const CONTAINER_FOR_TYPE: Record<string, Container> = {
+  // MP3 and ADTS AAC are both bare frame streams with the same sync word.
+  "audio/mpeg": "mpeg-audio",
+  "audio/aac": "mpeg-audio",
+  "audio/mp4": "iso-bmff",
+  "audio/x-m4a": "iso-bmff",
+  "audio/wav": "wav",
+  "audio/x-wav": "wav",
+  "audio/wave": "wav",
+  "audio/flac": "flac",
+  "audio/x-flac": "flac",
+  "audio/ogg": "ogg",
+  "audio/opus": "ogg",
+  "audio/webm": "matroska",
+  "video/mp4": "iso-bmff",
+  "video/quicktime": "iso-bmff",
+  "video/webm": "matroska",
+  "video/ogg": "ogg",
+  "video/x-matroska": "matroska",
+  "image/jpeg": "jpeg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/avif": "avif",
+};
+
+const HEADER_BYTES = 64;
+
+function ascii(bytes: Buffer, offset: number, length: number): string {
+  return bytes.toString("latin1", offset, offset + length);
+}
+
+function detectContainer(bytes: Buffer): Container | null {
+  if (bytes.length < 12) return null;
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WAVE") return "wav";
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WEBP") return "webp";
+  if (ascii(bytes, 0, 4) === "fLaC") return "flac";
+  if (ascii(bytes, 0, 4) === "OggS") return "ogg";
+  if (bytes.readUInt32BE(0) === 0x1a45dfa3) return "matroska";
+  if (ascii(bytes, 4, 4) === "ftyp") {
+    // The major brand and the compatible brands after it; AVIF files may list theirs only as compatible.
+    const brands = ascii(bytes, 8, Math.min(bytes.readUInt32BE(0), bytes.length) - 8);
+    return /avi[fs]/.test(brands) ? "avif" : "iso-bmff";
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "jpeg";
+  if (bytes.readUInt32BE(0) === 0x89504e47 && bytes.readUInt32BE(4) === 0x0d0a1a0a) return "png";
+  if (ascii(bytes, 0, 6) === "GIF87a" || ascii(bytes, 0, 6) === "GIF89a") return "gif";
+  // Frame sync: eleven set bits, which start both MP3 and ADTS frames.
+  if (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0) return "mpeg-audio";
+  return null;
+}
+
+/**
+ * Whether the file's first bytes are the container its MIME type claims.
+ * The type comes from the browser and decides how the file is served, so
+ * it is checked before an upload is accepted. An ID3 tag in front of the
+ * audio is skipped.
+ */
+export async function contentMatchesType(filePath: string, mimeType: string): Promise<boolean> {
+  const expected = CONTAINER_FOR_TYPE[mimeType];
+  if (!expected) return false;
+  const file = await open(filePath, "r");
+  try {
+    const header = Buffer.alloc(HEADER_BYTES);
+    const { bytesRead } = await file.read(header, 0, HEADER_BYTES, 0);
+    let bytes = header.subarray(0, bytesRead);
+    if (bytes.length >= 10 && ascii(bytes, 0, 3) === "ID3") {
+      // The tag size is four 7-bit bytes, not counting the 10-byte header.
+      const tagSize = ((bytes[6] & 0x7f) << 21) | ((bytes[7] & 0x7f) << 14) | ((bytes[8] & 0x7f) << 7) | (bytes[9] & 0x7f);
+      const afterTag = Buffer.alloc(HEADER_BYTES);
+      const next = await file.read(afterTag, 0, HEADER_BYTES, 10 + tagSize);
+      bytes = afterTag.subarray(0, next.bytesRead);
+    }
+    return detectContainer(bytes) === expected;
+  } finally {
+    await file.close();
+  }
+}
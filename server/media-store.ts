@@ -0,0 +1,140 @@
+import fs from "fs";
+import { mkdir, rename, copyFile, unlink, stat, rm } from "fs/promises";
+import path from "path";
+import { createHash, randomUUID } from "crypto";
+
+/** Root of the local media store; uploads are staged in a subdirectory so moving them in is a rename. */
+export const MEDIA_ROOT = path.resolve(process.env.MEDIA_ROOT || "media");
+export const UPLOAD_STAGING_DIR = path.join(MEDIA_ROOT, ".uploads");
+/** Scratch space for transcoding jobs, on the same disk so finished outputs move in with a rename. */
+export const JOB_WORK_DIR = path.join(MEDIA_ROOT, ".jobs");
+
+export interface MediaFileStat {
+  size: number;
+  modifiedAt: Date;
+}
+
+/** Where uploaded media bytes live. Keys are opaque, slash-separated and chosen by the caller. */
+export interface MediaStore {
+  /** Moves a finished upload from `sourcePath` into the store. */
+  put(key: string, sourcePath: string): Promise<void>;
+  /** Reads the whole file, or the inclusive byte range when given. */
+  createReadStream(key: string, range?: { start: number; end: number }): fs.ReadStream;
+  stat(key: string): Promise<MediaFileStat | null>;
+  /** A path on this machine that command-line tools such as ffmpeg can read the file from. */
+  localPath(key: string): Promise<string>;
+  remove(key: string): Promise<void>;
+  /** Removes every file whose key starts with `prefix` followed by a slash. */
+  removeAll(prefix: string): Promise<void>;
+}
+
+export class LocalDiskMediaStore implements MediaStore {
+  constructor(private readonly root: string) {}
+
+  private resolve(key: string): string {
+    const resolved = path.resolve(this.root, key);
+    if (!resolved.startsWith(this.root + path.sep)) throw new Error(`Invalid media key: ${key}`);
+    return resolved;
+  }
+
+  async put(key: string, sourcePath: string): Promise<void> {
+    const target = this.resolve(key);
+    await mkdir(path.dirname(target), { recursive: true });
+    try {
+      await rename(sourcePath, target);
+    } catch (err) {
+      // Staging on another filesystem: fall back to copying.
+      if ((err as NodeJS.ErrnoException).code !== "EXDEV") throw err;
+      await copyFile(sourcePath, target);
+      await unlink(sourcePath);
+    }
+  }
+
+  createReadStream(key: string, range?: { start: number; end: number }): fs.ReadStream {
+    return fs.createReadStream(this.resolve(key), range);
+  }
+
+  async stat(key: string): Promise<MediaFileStat | null> {
+    try {
+      const info = await stat(this.resolve(key));
+      return { size: info.size, modifiedAt: info.mtime };
+    } catch {
+      return null;
+    }
+  }
+
+  async localPath(key: string): Promise<string> {
+    return this.resolve(key);
+  }
+
+  async remove(key: string): Promise<void> {
+    await unlink(this.resolve(key)).catch((err: NodeJS.ErrnoException) => {
+      if (err.code !== "ENOENT") throw err;
+    });
+  }
+
+  async removeAll(prefix: string): Promise<void> {
+    await rm(this.resolve(prefix), { recursive: true, force: true });
+  }
+}
+
+const MIME_TYPES: Record<string, string> = {
+  ".mp3": "audio/mpeg",
+  ".m4a": "audio/mp4",
+  ".aac": "audio/aac",
+  ".wav": "audio/wav",
+  ".flac": "audio/flac",
+  ".ogg": "audio/ogg",
+  ".oga": "audio/ogg",
+  ".opus": "audio/ogg",
+  ".weba": "audio/webm",
+  ".mp4": "video/mp4",
+  ".m4v": "video/mp4",
+  ".mov": "video/quicktime",
+  ".webm": "video/webm",
+  ".ogv": "video/ogg",
+  ".mkv": "video/x-matroska",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".avif": "image/avif",
+  ".svg": "image/svg+xml",
+  ".m3u8": "application/vnd.apple.mpegurl",
+  ".ts": "video/mp2t",
+};
+
+/**
+ * The type to store and serve a file as. Browsers often send a generic or
+ * empty type for less common formats, so those fall back to the extension.
+ */
+export function resolveMimeType(reported: string | undefined, fileName: string): string {
+  const type = (reported ?? "").split(";")[0].trim().toLowerCase();
+  if (type && type !== "application/octet-stream") return type;
+  return MIME_TYPES[path.extname(fileName).toLowerCase()] ?? "application/octet-stream";
+}
+
+/** A fresh key for an upload, grouped by site and keeping a sanitized extension for content sniffing. */
+export function newMediaKey(site: string, originalName: string): string {
+  const ext = path.extname(originalName).toLowerCase().replace(/[^a-z0-9.]/g, "").slice(0, 10);
+  return `${site}/${randomUUID()}${ext}`;
+}
+
+/** Hex SHA-256 of a file on disk, read as a stream so large uploads stay out of memory. */
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash("sha256");
+    fs.createReadStream(filePath)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("error", reject)
+      .on("end", () => resolve(hash.digest("hex")));
+  });
+}
+
+/** Key prefix under which the web-safe copies of an upload are stored, next to the upload itself. */
+export function mediaOutputPrefix(storageKey: string): string {
+  return `${storageKey.slice(0, storageKey.length - path.extname(storageKey).length)}-outputs`;
+}
+
+export const mediaStore: MediaStore = new LocalDiskMediaStore(MEDIA_ROOT);
@@ -0,0 +1,110 @@
+import { createHash } from "crypto";
+import type { Request, Response } from "express";
+import { mediaKindForMime } from "@shared/schema";
+import type { MediaFileStat, MediaStore } from "./media-store";
+
+/** Stored files never change: a new upload or output always gets a new key. */
+const CACHE_CONTROL = "public, max-age=31536000, immutable";
+
+/** HLS playlists and segments are made by the transcoder, never uploaded, so they are safe to serve inline too. */
+const HLS_TYPES = ["application/vnd.apple.mpegurl", "video/mp2t"];
+
+function servedInline(mimeType: string): boolean {
+  return mediaKindForMime(mimeType) !== null || HLS_TYPES.includes(mimeType);
+}
+
+/**
+ * Stored files come from the app's own origin, so a browser must never run
+ * one as a page: no type sniffing, and a document that is opened anyway gets
+ * no scripts, styles or subresources.
+ */
+export function setStoredFileHeaders(res: Response) {
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  res.setHeader("Content-Security-Policy", "default-src 'none'; sandbox");
+}
+
+export interface MediaFileRequest {
+  store: MediaStore;
+  key: string;
+  mimeType: string;
+  file: MediaFileStat;
+  /** For URLs that may start serving a different file later; defaults to caching for a year. */
+  cacheControl?: string;
+}
+
+export interface MediaTransfer {
+  bytes: number;
+  ranged: boolean;
+}
+
+function etagFor(key: string, file: MediaFileStat): string {
+  const hash = createHash("sha1").update(`${key}:${file.size}:${file.modifiedAt.getTime()}`).digest("base64url");
+  return `"${hash}"`;
+}
+
+/** A stale If-Range validator means the client's partial copy is outdated, so it gets the whole file. */
+function rangeStillValid(req: Request, etag: string, file: MediaFileStat): boolean {
+  const ifRange = req.get("If-Range");
+  if (!ifRange) return true;
+  if (ifRange.startsWith('"') || ifRange.startsWith("W/")) return ifRange === etag;
+  const since = Date.parse(ifRange);
+  return !isNaN(since) && Math.floor(file.modifiedAt.getTime() / 1000) <= Math.floor(since / 1000);
+}
+
+/**
+ * Sends a stored media file with byte-range support so <audio> and <video>
+ * can seek without downloading everything before the playhead. Answers
+ * conditional requests with 304, serves a single range as 206 and an
+ * unsatisfiable one as 416; a multi-range request gets the whole file.
+ * `onFinished` is told how many body bytes went out once the response closes.
+ */
+export function sendMediaFile(req: Request, res: Response, { store, key, mimeType, file, cacheControl = CACHE_CONTROL }: MediaFileRequest, onFinished: (transfer: MediaTransfer) => void) {
+  const etag = etagFor(key, file);
+  setStoredFileHeaders(res);
+  res.setHeader("Accept-Ranges", "bytes");
+  res.setHeader("Cache-Control", cacheControl);
+  res.setHeader("ETag", etag);
+  res.setHeader("Last-Modified", file.modifiedAt.toUTCString());
+  res.setHeader("Content-Type", mimeType);
+  // Files stored before uploads were checked may be of any type; those are only ever downloaded.
+  if (!servedInline(mimeType)) res.setHeader("Content-Disposition", "attachment");
+
+  // Express compares If-None-Match / If-Modified-Since against the headers set above.
+  if (req.fresh) return res.status(304).end();
+
+  let start = 0;
+  let end = file.size - 1;
+  let ranged = false;
+  if (req.headers.range && rangeStillValid(req, etag, file)) {
+    const ranges = req.range(file.size, { combine: true });
+    if (ranges === -1) {
+      res.setHeader("Content-Range", `bytes */${file.size}`);
+      return res.status(416).end();
+    }
+    if (ranges !== undefined && ranges !== -2 && ranges.type === "bytes" && ranges.length === 1) {
+      ({ start, end } = ranges[0]);
+      ranged = true;
+      res.status(206);
+      res.setHeader("Content-Range", `bytes ${start}-${end}/${file.size}`);
+    }
+  }
+
+  res.setHeader("Content-Length", String(end - start + 1));
+  if (req.method === "HEAD" || file.size === 0) return res.end();
+
+  let bytes = 0;
+  const stream = store.createReadStream(key, { start, end });
+  stream.on("data", (chunk) => {
+    bytes += chunk.length;
+  });
+  stream.on("error", (err) => {
+    console.error("Failed to stream media:", err);
+    res.destroy(err);
+  });
+  // Seeking aborts the previous request; stop reading as soon as the client hangs up.
+  res.on("close", () => {
+    stream.destroy();
+    onFinished({ bytes, ranged });
+  });
+  stream.pipe(res);
+}
@@ -0,0 +1,114 @@
+import { execFile } from "child_process";
+import { writeFile } from "fs/promises";
+import path from "path";
+import type { MediaAsset, MediaOutput } from "@shared/schema";
+import { probeMedia } from "./media-probe";
+
+const FFMPEG = process.env.FFMPEG_PATH || "ffmpeg";
+const TRANSCODE_TIMEOUT_MS = 2 * 60 * 60 * 1000;
+
+/** Renditions offered to HLS players; rungs taller than the upload are skipped. */
+const HLS_LADDER = [
+  { height: 1080, videoKbps: 5000 },
+  { height: 720, videoKbps: 2800 },
+  { height: 480, videoKbps: 1400 },
+  { height: 360, videoKbps: 800 },
+];
+const HLS_AUDIO_KBPS = 128;
+const HLS_SEGMENT_SECONDS = 6;
+
+export interface TranscodeResult {
+  /** File in the work directory that the output is addressed by; any others sit beside it. */
+  main: string;
+  mimeType: string;
+}
+
+export function runFfmpeg(args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const fullArgs = ["-hide_banner", "-nostdin", "-v", "error", "-y", ...args];
+    execFile(FFMPEG, fullArgs, { timeout: TRANSCODE_TIMEOUT_MS, maxBuffer: 1024 * 1024 }, (err, _stdout, stderr) => {
+      if (!err) return resolve();
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return reject(new Error(`${FFMPEG} is not installed`));
+      // ffmpeg puts the reason on its last lines of output.
+      const reason = stderr.trim().split("\n").slice(-3).join(" ") || err.message;
+      reject(new Error(reason.slice(0, 500)));
+    });
+  });
+}
+
+const H264 = ["-c:v", "libx264", "-preset", "veryfast", "-pix_fmt", "yuv420p", "-profile:v", "high"];
+// Keyframes every two seconds so HLS segments and seeking line up regardless of frame rate.
+const KEYFRAMES = ["-force_key_frames", "expr:gte(t,n_forced*2)"];
+
+async function transcodeHls(asset: MediaAsset, input: string, workDir: string): Promise<TranscodeResult> {
+  // ffprobe may have been missing or failed when the file was uploaded, so ask again before sizing the ladder.
+  const height = asset.height ?? (await probeMedia(input))?.height ?? null;
+  // With the height still unknown, only the lowest rung is made rather than upscaling a small upload.
+  let rungs = HLS_LADDER.slice(-1);
+  if (height !== null) {
+    rungs = HLS_LADDER.filter((rung) => rung.height <= height);
+    if (rungs.length === 0) {
+      // Smaller than the lowest rung: one rendition at the upload's own size.
+      rungs = [{ height: height - (height % 2), videoKbps: HLS_LADDER[HLS_LADDER.length - 1].videoKbps }];
+    }
+  }
+  const variants: string[] = [];
+  for (const rung of rungs) {
+    const name = `${rung.height}p`;
+    await runFfmpeg([
+      "-i", input,
+      "-map", "0:v:0", "-map", "0:a:0?",
+      "-vf", `scale=-2:${rung.height}`,
+      ...H264, ...KEYFRAMES,
+      "-b:v", `${rung.videoKbps}k`, "-maxrate", `${Math.round(rung.videoKbps * 1.07)}k`, "-bufsize", `${rung.videoKbps * 2}k`,
+      "-c:a", "aac", "-b:a", `${HLS_AUDIO_KBPS}k`, "-ac", "2",
+      "-f", "hls", "-hls_time", String(HLS_SEGMENT_SECONDS), "-hls_playlist_type", "vod",
+      "-hls_segment_filename", path.join(workDir, `${name}_%04d.ts`),
+      path.join(workDir, `${name}.m3u8`),
+    ]);
+    // Read the real size back: rotated phone videos come out portrait.
+    const probe = await probeMedia(path.join(workDir, `${name}_0000.ts`));
+    const resolution = probe?.width && probe.height ? `,RESOLUTION=${probe.width}x${probe.height}` : "";
+    const bandwidth = (rung.videoKbps + HLS_AUDIO_KBPS) * 1000;
+    variants.push(`#EXT-X-STREAM-INF:BANDWIDTH=${bandwidth}${resolution}\n${name}.m3u8`);
+  }
+  await writeFile(path.join(workDir, "master.m3u8"), ["#EXTM3U", "#EXT-X-VERSION:3", ...variants, ""].join("\n"));
+  return { main: "master.m3u8", mimeType: "application/vnd.apple.mpegurl" };
+}
+
+/** Writes one web-safe output of `asset` (read from `input`) into the empty directory `workDir`. */
+export async function transcodeMedia(output: MediaOutput, asset: MediaAsset, input: string, workDir: string): Promise<TranscodeResult> {
+  switch (output) {
+    case "web":
+      if (asset.kind === "video") {
+        await runFfmpeg([
+          "-i", input,
+          "-map", "0:v:0", "-map", "0:a:0?",
+          // H.264 needs even dimensions.
+          "-vf", "scale=trunc(iw/2)*2:trunc(ih/2)*2",
+          ...H264, ...KEYFRAMES, "-crf", "23",
+          "-c:a", "aac", "-b:a", "160k", "-ac", "2",
+          "-movflags", "+faststart",
+          path.join(workDir, "web.mp4"),
+        ]);
+        return { main: "web.mp4", mimeType: "video/mp4" };
+      }
+      await runFfmpeg(["-i", input, "-vn", "-c:a", "aac", "-b:a", "192k", "-movflags", "+faststart", path.join(workDir, "web.m4a")]);
+      return { main: "web.m4a", mimeType: "audio/mp4" };
+    case "opus":
+      await runFfmpeg(["-i", input, "-vn", "-c:a", "libopus", "-b:a", "128k", path.join(workDir, "audio.webm")]);
+      return { main: "audio.webm", mimeType: "audio/webm" };
+    case "poster": {
+      // A frame a little way in; the first one is often black.
+      const at = asset.durationSeconds ? Math.min(asset.durationSeconds * 0.1, 5) : 0;
+      await runFfmpeg([
+        "-ss", at.toFixed(2), "-i", input,
+        "-frames:v", "1", "-vf", "scale='min(1280,iw)':-2", "-q:v", "3",
+        path.join(workDir, "poster.jpg"),
+      ]);
+      return { main: "poster.jpg", mimeType: "image/jpeg" };
+    }
+    case "hls":
+      return transcodeHls(asset, input, workDir);
+  }
+}
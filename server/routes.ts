@@ -1,9 +1,31 @@
-import type { Express } from "express";
+import { Router, type Express, type Request, type RequestHandler, type Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertPlaylistItemSchema } from "@shared/schema";
+import { mkdir, rm, stat, unlink } from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import multer from "multer";
+import { storage, type ISiteStorage } from "./storage";
+import { requireAuthForWrites, requireRole, setupAuth, toPublicUser } from "./auth";
+import { insertPlaylistItemSchema, insertPlaylistSchema, playlistItemsBatchSchema, playlistItemIdsSchema, playlistOrderSchema, movePlaylistItemsSchema, insertAudioQueueSchema, updateAudioQueueSchema, audioQueueItemsBatchSchema, insertCuePointSchema, updateCuePointSchema, mediaUrlSchema, MAX_CAPTION_BYTES, mediaKindSchema, mediaKindForMime, MAX_MEDIA_UPLOAD_BYTES, MEDIA_OUTPUTS_FOR_KIND, type MediaAsset, type MediaKind, type MediaAssetWithJobs, profileNameSchema, breakpointRangeSchema, routeSettingsSchemas, isSettingsRoute, type SettingsRoute, migrateSettings, configBundleSchema, insertSiteSchema, analyticsBatchSchema, insertExperimentSchema, updateExperimentSchema, type Experiment, type ExperimentVariant, type ExperimentResults, insertSettingsScheduleSchema, type RouteSchedules, stemModelSchema, stemJobLookupSchema, stemJobSourceSchema, stemMixdownSchema, effectiveStemGains, STEM_NAMES, type StemJob, DEFAULT_PROFILE, DEFAULT_SITE, DEFAULT_SITE_URLS } from "@shared/schema";
+import { rangesOverlap } from "@shared/breakpoints";
+import { detectCaptionFormat, parseCaptions } from "@shared/captions";
+import { summarizeVariants } from "@shared/experiments";
+import { activeOccurrence, NEXT_SWITCH_HEADER, nextSwitch, scheduleSwitches } from "@shared/schedule";
+import { forbiddenGlobalUrlChanges } from "@shared/permissions";
+import { buildConfigBundle, diffConfigBundle, validateConfigBundle } from "./config-bundle";
+import { hashFile, JOB_WORK_DIR, mediaOutputPrefix, mediaStore, newMediaKey, resolveMimeType, UPLOAD_STAGING_DIR } from "./media-store";
+import { sendMediaFile, setStoredFileHeaders } from "./media-stream";
+import { mediaBandwidth } from "./media-bandwidth";
+import { mediaJobWorker } from "./media-jobs";
+import { stemJobWorker } from "./stem-jobs";
+import { MIXDOWN_MIME_TYPES, mixdownFileName, mixdownStems } from "./stem-mixdown";
+import { probeMedia } from "./media-probe";
+import { contentMatchesType } from "./media-sniff";
 import { z } from "zod";
 
+/** How often an open stem event stream checks its job for changes. */
+const STEM_EVENT_INTERVAL_MS = 1000;
+
 interface YouTubeSearchResult {
   videoId: string;
   title: string;
@@ -17,9 +39,135 @@ export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
-  app.get("/api/playlist", async (_req, res) => {
+  setupAuth(app);
+
+  const resolveSite: RequestHandler = async (req, res, next) => {
+    try {
+      const slug = String(req.params.site);
+      if (slug !== DEFAULT_SITE && !(await storage.getSite(slug))) {
+        return res.status(404).json({ error: "Site not found" });
+      }
+      res.locals.site = slug;
+      res.locals.siteStorage = storage.forSite(slug);
+      next();
+    } catch (err) {
+      next(err);
+    }
+  };
+
+  const siteStorage = (res: Response): ISiteStorage => res.locals.siteStorage;
+
+  app.get("/api/sites", requireRole("admin"), async (_req, res) => {
+    try {
+      res.json(await storage.listSites());
+    } catch (err) {
+      console.error("Failed to list sites:", err);
+      res.status(500).json({ error: "Failed to list sites" });
+    }
+  });
+
+  app.post("/api/sites", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = insertSiteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error.issues });
+      }
+      if (parsed.data.slug === DEFAULT_SITE || await storage.getSite(parsed.data.slug)) {
+        return res.status(409).json({ error: "Site already exists" });
+      }
+      const site = await storage.createSite(parsed.data);
+      res.status(201).json(site);
+    } catch (err) {
+      console.error("Failed to create site:", err);
+      res.status(500).json({ error: "Failed to create site" });
+    }
+  });
+
+  app.get("/api/sites/:site", async (req, res) => {
+    try {
+      const site = await storage.getSite(req.params.site);
+      if (site) return res.json(site);
+      if (req.params.site === DEFAULT_SITE) {
+        return res.json({ slug: DEFAULT_SITE, name: "Default", defaultUrls: DEFAULT_SITE_URLS });
+      }
+      res.status(404).json({ error: "Site not found" });
+    } catch (err) {
+      console.error("Failed to get site:", err);
+      res.status(500).json({ error: "Failed to get site" });
+    }
+  });
+
+  app.patch("/api/sites/:site", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = insertSiteSchema.omit({ slug: true }).partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error.issues });
+      }
+      const slug = String(req.params.site);
+      const existing = await storage.getSite(slug);
+      if (!existing && slug === DEFAULT_SITE) {
+        const created = await storage.createSite({ slug, name: "Default", defaultUrls: DEFAULT_SITE_URLS, ...parsed.data });
+        return res.json(created);
+      }
+      if (!existing) return res.status(404).json({ error: "Site not found" });
+      const updated = await storage.updateSite(slug, parsed.data);
+      res.json(updated);
+    } catch (err) {
+      console.error("Failed to update site:", err);
+      res.status(500).json({ error: "Failed to update site" });
+    }
+  });
+
+  const siteExists = async (slug: string) => slug === DEFAULT_SITE || (await storage.getSite(slug)) !== undefined;
+
+  app.get("/api/sites/:site/members", requireRole("admin"), async (req, res) => {
+    try {
+      const slug = String(req.params.site);
+      if (!(await siteExists(slug))) return res.status(404).json({ error: "Site not found" });
+      const members = await storage.listSiteMembers(slug);
+      res.json(members.map(toPublicUser));
+    } catch (err) {
+      console.error("Failed to list site members:", err);
+      res.status(500).json({ error: "Failed to list site members" });
+    }
+  });
+
+  app.put("/api/sites/:site/members/:userId", requireRole("admin"), async (req, res) => {
+    try {
+      const site = String(req.params.site);
+      const userId = String(req.params.userId);
+      if (!(await siteExists(site))) return res.status(404).json({ error: "Site not found" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(404).json({ error: "User not found" });
+      await storage.addSiteMember(site, userId);
+      res.json(toPublicUser(user));
+    } catch (err) {
+      console.error("Failed to add site member:", err);
+      res.status(500).json({ error: "Failed to add site member" });
+    }
+  });
+
+  app.delete("/api/sites/:site/members/:userId", requireRole("admin"), async (req, res) => {
     try {
-      const items = await storage.getPlaylistItems();
+      await storage.removeSiteMember(String(req.params.site), String(req.params.userId));
+      res.json({ success: true });
+    } catch (err) {
+      console.error("Failed to remove site member:", err);
+      res.status(500).json({ error: "Failed to remove site member" });
+    }
+  });
+
+  // Playlist and route settings endpoints are served both at /api (the default
+  // site) and at /api/sites/:site, so every tenant gets the same API surface.
+  const siteApi = Router({ mergeParams: true });
+  siteApi.use(["/playlist", "/playlists", "/audio-queues", "/cue-points", "/captions", "/media", "/stems", "/route-settings"], requireAuthForWrites);
+  siteApi.use(["/analytics", "/experiments"], requireRole("editor"));
+
+  // The original single-list endpoints keep working against the site's default playlist.
+  siteApi.get("/playlist", async (_req, res) => {
+    try {
+      const playlist = await siteStorage(res).getDefaultPlaylist();
+      const items = await siteStorage(res).getPlaylistItems(playlist.id);
       res.json(items);
     } catch (err) {
       console.error("Failed to get playlist:", err);
@@ -27,29 +175,31 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/playlist", async (req, res) => {
+  siteApi.post("/playlist", async (req, res) => {
     try {
       const parsed = insertPlaylistItemSchema.safeParse(req.body);
       if (!parsed.success) {
         return res.status(400).json({ error: "Invalid data", details: parsed.error.issues });
       }
-      const existing = await storage.getPlaylistItemByVideoId(parsed.data.videoId);
+      const playlist = await siteStorage(res).getDefaultPlaylist();
+      const existing = await siteStorage(res).getPlaylistItemByVideoId(playlist.id, parsed.data.videoId);
       if (existing) {
         return res.status(409).json({ error: "Already in playlist", item: existing });
       }
-      const item = await storage.addPlaylistItem(parsed.data);
-      res.status(201).json(item);
+      const { added } = await siteStorage(res).addPlaylistItems(playlist.id, [parsed.data]);
+      res.status(201).json(added[0]);
     } catch (err) {
       console.error("Failed to add to playlist:", err);
       res.status(500).json({ error: "Failed to add to playlist" });
     }
   });
 
-  app.delete("/api/playlist/:id", async (req, res) => {
+  siteApi.delete("/playlist/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id, 10);
       if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
-      await storage.removePlaylistItem(id);
+      const playlist = await siteStorage(res).getDefaultPlaylist();
+      await siteStorage(res).removePlaylistItems(playlist.id, [id]);
       res.json({ success: true });
     } catch (err) {
       console.error("Failed to remove from playlist:", err);
@@ -57,41 +207,1277 @@ export async function registerRoutes(
     }
   });
 
-  const saveSettingsSchema = z.object({
-    route: z.string(),
-    width: z.number().int().positive(),
-    settings: z.record(z.unknown()),
-    globalUrls: z.record(z.unknown()),
+  siteApi.get("/playlists", async (_req, res) => {
+    try {
+      res.json(await siteStorage(res).listPlaylists());
+    } catch (err) {
+      console.error("Failed to list playlists:", err);
+      res.status(500).json({ error: "Failed to list playlists" });
+    }
   });
 
-  app.post("/api/route-settings", async (req, res) => {
+  siteApi.post("/playlists", async (req, res) => {
     try {
-      const parsed = saveSettingsSchema.safeParse(req.body);
+      const parsed = insertPlaylistSchema.safeParse(req.body);
       if (!parsed.success) {
         return res.status(400).json({ error: "Invalid data", details: parsed.error.issues });
       }
-      const saved = await storage.saveRouteSettings(parsed.data);
-      res.json(saved);
+      const playlist = await siteStorage(res).createPlaylist(parsed.data, req.user?.id ?? null);
+      res.status(201).json(playlist);
     } catch (err) {
-      console.error("Failed to save route settings:", err);
-      res.status(500).json({ error: "Failed to save settings" });
+      console.error("Failed to create playlist:", err);
+      res.status(500).json({ error: "Failed to create playlist" });
     }
   });
 
-  app.get("/api/route-settings/:route", async (req, res) => {
+  siteApi.patch("/playlists/:id", async (req, res) => {
     try {
-      const route = req.params.route;
-      const width = parseInt(req.query.width as string, 10);
-      if (isNaN(width)) return res.status(400).json({ error: "width query param required" });
-      const settings = await storage.getRouteSettings(route, width);
-      if (!settings) return res.json(null);
-      res.json(settings);
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      const parsed = insertPlaylistSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error.issues });
+      }
+      const updated = await siteStorage(res).renamePlaylist(id, parsed.data.name);
+      if (!updated) return res.status(404).json({ error: "Playlist not found" });
+      res.json(updated);
     } catch (err) {
-      console.error("Failed to get route settings:", err);
-      res.status(500).json({ error: "Failed to get settings" });
+      console.error("Failed to rename playlist:", err);
+      res.status(500).json({ error: "Failed to rename playlist" });
+    }
+  });
+
+  siteApi.delete("/playlists/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      const fallback = await siteStorage(res).getDefaultPlaylist();
+      if (fallback.id === id) {
+        return res.status(409).json({ error: "The default playlist cannot be deleted" });
+      }
+      await siteStorage(res).deletePlaylist(id);
+      res.json({ success: true });
+    } catch (err) {
+      console.error("Failed to delete playlist:", err);
+      res.status(500).json({ error: "Failed to delete playlist" });
+    }
+  });
+
+  siteApi.get("/playlists/:id/items", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      if (!await siteStorage(res).getPlaylist(id)) return res.status(404).json({ error: "Playlist not found" });
+      res.json(await siteStorage(res).getPlaylistItems(id));
+    } catch (err) {
+      console.error("Failed to get playlist items:", err);
+      res.status(500).json({ error: "Failed to get playlist items" });
+    }
+  });
+
+  siteApi.post("/playlists/:id/items", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      const parsed = playlistItemsBatchSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error.issues });
+      }
+      if (!await siteStorage(res).getPlaylist(id)) return res.status(404).json({ error: "Playlist not found" });
+      const result = await siteStorage(res).addPlaylistItems(id, parsed.data.items);
+      res.status(201).json(result);
+    } catch (err) {
+      console.error("Failed to add playlist items:", err);
+      res.status(500).json({ error: "Failed to add playlist items" });
+    }
+  });
+
+  siteApi.delete("/playlists/:id/items", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      const parsed = playlistItemIdsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error.issues });
+      }
+      await siteStorage(res).removePlaylistItems(id, parsed.data.ids);
+      res.json({ success: true });
+    } catch (err) {
+      console.error("Failed to remove playlist items:", err);
+      res.status(500).json({ error: "Failed to remove playlist items" });
+    }
+  });
+
+  siteApi.put("/playlists/:id/order", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      const parsed = playlistOrderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error.issues });
+      }
+      if (!await siteStorage(res).getPlaylist(id)) return res.status(404).json({ error: "Playlist not found" });
+      if (!await siteStorage(res).reorderPlaylist(id, parsed.data.ids)) {
+        return res.status(409).json({ error: "The order must list every item of the playlist exactly once" });
+      }
+      res.json(await siteStorage(res).getPlaylistItems(id));
+    } catch (err) {
+      console.error("Failed to reorder playlist:", err);
+      res.status(500).json({ error: "Failed to reorder playlist" });
+    }
+  });
+
+  siteApi.post("/playlists/:id/items/move", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      const parsed = movePlaylistItemsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error.issues });
+      }
+      if (parsed.data.targetPlaylistId === id) {
+        return res.status(400).json({ error: "Items are already in this playlist" });
+      }
+      const [source, target] = await Promise.all([
+        siteStorage(res).getPlaylist(id),
+        siteStorage(res).getPlaylist(parsed.data.targetPlaylistId),
+      ]);
+      if (!source || !target) return res.status(404).json({ error: "Playlist not found" });
+      const moved = await siteStorage(res).movePlaylistItems(id, parsed.data.ids, target.id);
+      res.json({ moved });
+    } catch (err) {
+      console.error("Failed to move playlist items:", err);
+      res.status(500).json({ error: "Failed to move playlist items" });
+    }
+  });
+
+  siteApi.get("/audio-queues", async (_req, res) => {
+    try {
+      res.json(await siteStorage(res).listAudioQueues());
+    } catch (err) {
+      console.error("Failed to list audio queues:", err);
+      res.status(500).json({ error: "Failed to list audio queues" });
+    }
+  });
+
+  siteApi.post("/audio-queues", async (req, res) => {
+    try {
+      const parsed = insertAudioQueueSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error.issues });
+      }
+      res.status(201).json(await siteStorage(res).createAudioQueue(parsed.data));
+    } catch (err) {
+      console.error("Failed to create audio queue:", err);
+      res.status(500).json({ error: "Failed to create audio queue" });
+    }
+  });
+
+  // Returns the queue with its tracks so the player needs a single request.
+  siteApi.get("/audio-queues/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      const queue = await siteStorage(res).getAudioQueue(id);
+      if (!queue) return res.status(404).json({ error: "Audio queue not found" });
+      res.json({ ...queue, items: await siteStorage(res).getAudioQueueItems(id) });
+    } catch (err) {
+      console.error("Failed to get audio queue:", err);
+      res.status(500).json({ error: "Failed to get audio queue" });
+    }
+  });
+
+  siteApi.patch("/audio-queues/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      const parsed = updateAudioQueueSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error.issues });
+      }
+      const updated = await siteStorage(res).updateAudioQueue(id, parsed.data);
+      if (!updated) return res.status(404).json({ error: "Audio queue not found" });
+      res.json(updated);
+    } catch (err) {
+      console.error("Failed to update audio queue:", err);
+      res.status(500).json({ error: "Failed to update audio queue" });
+    }
+  });
+
+  siteApi.delete("/audio-queues/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      await siteStorage(res).deleteAudioQueue(id);
+      res.json({ success: true });
+    } catch (err) {
+      console.error("Failed to delete audio queue:", err);
+      res.status(500).json({ error: "Failed to delete audio queue" });
+    }
+  });
+
+  siteApi.post("/audio-queues/:id/items", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      const parsed = audioQueueItemsBatchSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error.issues });
+      }
+      if (!await siteStorage(res).getAudioQueue(id)) return res.status(404).json({ error: "Audio queue not found" });
+      res.status(201).json(await siteStorage(res).addAudioQueueItems(id, parsed.data.items));
+    } catch (err) {
+      console.error("Failed to add audio queue items:", err);
+      res.status(500).json({ error: "Failed to add audio queue items" });
+    }
+  });
+
+  siteApi.delete("/audio-queues/:id/items", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      const parsed = playlistItemIdsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error.issues });
+      }
+      await siteStorage(res).removeAudioQueueItems(id, parsed.data.ids);
+      res.json({ success: true });
+    } catch (err) {
+      console.error("Failed to remove audio queue items:", err);
+      res.status(500).json({ error: "Failed to remove audio queue items" });
+    }
+  });
+
+  siteApi.put("/audio-queues/:id/order", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      const parsed = playlistOrderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error.issues });
+      }
+      if (!await siteStorage(res).getAudioQueue(id)) return res.status(404).json({ error: "Audio queue not found" });
+      if (!await siteStorage(res).reorderAudioQueue(id, parsed.data.ids)) {
+        return res.status(409).json({ error: "The order must list every track of the queue exactly once" });
+      }
+      res.json(await siteStorage(res).getAudioQueueItems(id));
+    } catch (err) {
+      console.error("Failed to reorder audio queue:", err);
+      res.status(500).json({ error: "Failed to reorder audio queue" });
+    }
+  });
+
+  siteApi.get("/cue-points", async (req, res) => {
+    try {
+      const query = z.object({ mediaUrl: z.string().min(1).max(2048) }).safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid data", details: query.error.issues });
+      }
+      res.json(await siteStorage(res).listCuePoints(query.data.mediaUrl));
+    } catch (err) {
+      console.error("Failed to list cue points:", err);
+      res.status(500).json({ error: "Failed to list cue points" });
+    }
+  });
+
+  siteApi.post("/cue-points", async (req, res) => {
+    try {
+      const parsed = insertCuePointSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error.issues });
+      }
+      res.status(201).json(await siteStorage(res).createCuePoint(parsed.data));
+    } catch (err) {
+      console.error("Failed to create cue point:", err);
+      res.status(500).json({ error: "Failed to create cue point" });
+    }
+  });
+
+  siteApi.patch("/cue-points/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      const parsed = updateCuePointSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error.issues });
+      }
+      const existing = await siteStorage(res).getCuePoint(id);
+      if (!existing) return res.status(404).json({ error: "Cue point not found" });
+      // Moving only one edge of a region must still leave the end after the start.
+      const { startSeconds = existing.startSeconds, endSeconds = existing.endSeconds } = parsed.data;
+      if (endSeconds !== null && endSeconds <= startSeconds) {
+        return res.status(400).json({ error: "End must be after start" });
+      }
+      res.json(await siteStorage(res).updateCuePoint(id, parsed.data));
+    } catch (err) {
+      console.error("Failed to update cue point:", err);
+      res.status(500).json({ error: "Failed to update cue point" });
+    }
+  });
+
+  siteApi.delete("/cue-points/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      await siteStorage(res).deleteCuePoint(id);
+      res.json({ success: true });
+    } catch (err) {
+      console.error("Failed to delete cue point:", err);
+      res.status(500).json({ error: "Failed to delete cue point" });
     }
   });
 
+  const receiveFile = (upload: multer.Multer): RequestHandler => (req, res, next) => {
+    upload.single("file")(req, res, (err: unknown) => {
+      if (err instanceof multer.MulterError) {
+        const status = err.code === "LIMIT_FILE_SIZE" ? 413 : 400;
+        return res.status(status).json({ error: err.code === "LIMIT_FILE_SIZE" ? "File is too large" : err.message });
+      }
+      if (err) return next(err);
+      next();
+    });
+  };
+  const receiveUpload = receiveFile(multer({ dest: UPLOAD_STAGING_DIR, limits: { fileSize: MAX_MEDIA_UPLOAD_BYTES, files: 1 } }));
+  // Caption files are small text, kept in memory and cut off at their own limit rather than the media one.
+  const receiveCaptionFile = receiveFile(multer({ storage: multer.memoryStorage(), limits: { fileSize: MAX_CAPTION_BYTES, files: 1 } }));
+
+  siteApi.get("/captions", async (req, res) => {
+    try {
+      const query = z.object({ mediaUrl: z.string().min(1).max(2048) }).safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid data", details: query.error.issues });
+      }
+      const track = await siteStorage(res).getCaptionTrack(query.data.mediaUrl);
+      if (!track) return res.status(404).json({ error: "No captions for this track" });
+      res.json(track);
+    } catch (err) {
+      console.error("Failed to get captions:", err);
+      res.status(500).json({ error: "Failed to get captions" });
+    }
+  });
+
+  // Attaches an uploaded WebVTT or LRC file to the track at `mediaUrl`, replacing its captions.
+  siteApi.put("/captions", receiveCaptionFile, async (req, res) => {
+    const file = req.file;
+    try {
+      if (!file) return res.status(400).json({ error: "No file uploaded" });
+      const mediaUrl = mediaUrlSchema.safeParse(req.body?.mediaUrl);
+      if (!mediaUrl.success) {
+        return res.status(400).json({ error: "Invalid data", details: mediaUrl.error.issues });
+      }
+      const content = file.buffer.toString("utf8");
+      const format = detectCaptionFormat(file.originalname, content);
+      if (!format) return res.status(415).json({ error: "Only WebVTT (.vtt) and LRC (.lrc) files can be attached" });
+      const cues = parseCaptions(format, content);
+      if (cues.length === 0) return res.status(400).json({ error: "No timed lines found in the file" });
+      res.json(await siteStorage(res).saveCaptionTrack({
+        mediaUrl: mediaUrl.data,
+        format,
+        fileName: file.originalname.slice(0, 255),
+        content,
+        cueCount: cues.length,
+      }));
+    } catch (err) {
+      console.error("Failed to attach captions:", err);
+      res.status(500).json({ error: "Failed to attach captions" });
+    }
+  });
+
+  siteApi.delete("/captions/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      await siteStorage(res).deleteCaptionTrack(id);
+      res.json({ success: true });
+    } catch (err) {
+      console.error("Failed to remove captions:", err);
+      res.status(500).json({ error: "Failed to remove captions" });
+    }
+  });
+
+  const withJobs = async (res: Response, assets: MediaAsset[]): Promise<MediaAssetWithJobs[]> => {
+    const jobs = await siteStorage(res).listMediaJobs(assets.map((asset) => asset.id));
+    return assets.map((asset) => ({ ...asset, jobs: jobs.filter((job) => job.assetId === asset.id) }));
+  };
+
+  /** Streams one stored file of `asset`, counting the bytes towards its bandwidth. */
+  const serveMediaFile = async (req: Request, res: Response, asset: MediaAsset, key: string, mimeType: string, cacheControl?: string) => {
+    const file = await mediaStore.stat(key);
+    if (!file) return res.status(404).json({ error: "Media file is missing" });
+    const site = siteStorage(res).site;
+    sendMediaFile(req, res, { store: mediaStore, key, mimeType, file, cacheControl }, (transfer) => mediaBandwidth.record(site, asset.id, transfer));
+  };
+
+  /** Moves a finished file at `filePath` into the library and queues its transcoding jobs. */
+  const addToLibrary = async (req: Request, res: Response, filePath: string, originalName: string, mimeType: string, kind: MediaKind, sizeBytes: number): Promise<MediaAssetWithJobs> => {
+    const probe = await probeMedia(filePath);
+    const storageKey = newMediaKey(siteStorage(res).site, originalName);
+    await mediaStore.put(storageKey, filePath);
+    const asset = await siteStorage(res).createMediaAsset({
+      kind,
+      storageKey,
+      originalName: originalName.slice(0, 255),
+      mimeType,
+      sizeBytes,
+      durationSeconds: probe?.durationSeconds ?? null,
+      width: probe?.width ?? null,
+      height: probe?.height ?? null,
+      metadata: probe?.metadata ?? {},
+      uploadedBy: req.user?.id ?? null,
+    });
+    const jobs = await siteStorage(res).createMediaJobs(asset.id, MEDIA_OUTPUTS_FOR_KIND[kind]);
+    if (jobs.length > 0) mediaJobWorker.wake();
+    return { ...asset, jobs };
+  };
+
+  siteApi.get("/media", async (req, res) => {
+    try {
+      const kind = req.query.kind === undefined ? undefined : mediaKindSchema.safeParse(req.query.kind);
+      if (kind && !kind.success) return res.status(400).json({ error: "Invalid kind" });
+      res.json(await withJobs(res, await siteStorage(res).listMediaAssets(kind?.data)));
+    } catch (err) {
+      console.error("Failed to list media:", err);
+      res.status(500).json({ error: "Failed to list media" });
+    }
+  });
+
+  siteApi.post("/media", receiveUpload, async (req, res) => {
+    const file = req.file;
+    try {
+      if (!file) return res.status(400).json({ error: "No file uploaded" });
+      const mimeType = resolveMimeType(file.mimetype, file.originalname);
+      const kind = mediaKindForMime(mimeType);
+      if (!kind) {
+        await unlink(file.path);
+        return res.status(415).json({ error: "Only audio, video and image files can be uploaded" });
+      }
+      if (!(await contentMatchesType(file.path, mimeType))) {
+        await unlink(file.path);
+        return res.status(415).json({ error: `The file is not a valid ${mimeType} file` });
+      }
+      res.status(201).json(await addToLibrary(req, res, file.path, file.originalname, mimeType, kind, file.size));
+    } catch (err) {
+      if (file) await unlink(file.path).catch(() => {});
+      console.error("Failed to upload media:", err);
+      res.status(500).json({ error: "Failed to upload media" });
+    }
+  });
+
+  // Per-file totals for the last `days` days, busiest first; registered before /media/:id so "bandwidth" is not read as an id.
+  siteApi.get("/media/bandwidth", requireRole("editor"), async (req, res) => {
+    try {
+      const query = z.object({ days: z.coerce.number().int().min(1).max(365).default(30) }).safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid data", details: query.error.issues });
+      }
+      res.json(await siteStorage(res).getMediaBandwidth(query.data.days));
+    } catch (err) {
+      console.error("Failed to get media bandwidth:", err);
+      res.status(500).json({ error: "Failed to get media bandwidth" });
+    }
+  });
+
+  siteApi.get("/media/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      const asset = await siteStorage(res).getMediaAsset(id);
+      if (!asset) return res.status(404).json({ error: "Media not found" });
+      const [withOutputs] = await withJobs(res, [asset]);
+      res.json(withOutputs);
+    } catch (err) {
+      console.error("Failed to get media:", err);
+      res.status(500).json({ error: "Failed to get media" });
+    }
+  });
+
+  siteApi.get("/media/:id/file", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      const asset = await siteStorage(res).getMediaAsset(id);
+      if (!asset) return res.status(404).json({ error: "Media not found" });
+      await serveMediaFile(req, res, asset, asset.storageKey, resolveMimeType(asset.mimeType, asset.originalName));
+    } catch (err) {
+      console.error("Failed to serve media:", err);
+      res.status(500).json({ error: "Failed to serve media" });
+    }
+  });
+
+  // What players should load: the web-safe copy once it is ready, the upload as it is until then.
+  siteApi.get("/media/:id/playback", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      const asset = await siteStorage(res).getMediaAsset(id);
+      if (!asset) return res.status(404).json({ error: "Media not found" });
+      const web = await siteStorage(res).getMediaJob(id, "web");
+      // Revalidated on every load, since the file behind this URL changes when the copy is ready.
+      if (web?.status === "done" && web.outputKey && web.outputMimeType) {
+        return await serveMediaFile(req, res, asset, web.outputKey, web.outputMimeType, "no-cache");
+      }
+      await serveMediaFile(req, res, asset, asset.storageKey, resolveMimeType(asset.mimeType, asset.originalName), "no-cache");
+    } catch (err) {
+      console.error("Failed to serve media:", err);
+      res.status(500).json({ error: "Failed to serve media" });
+    }
+  });
+
+  siteApi.get("/media/:id/outputs/:output", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      const output = z.enum(["web", "opus", "poster"]).safeParse(req.params.output);
+      if (!output.success) return res.status(400).json({ error: "Invalid output" });
+      const asset = await siteStorage(res).getMediaAsset(id);
+      if (!asset) return res.status(404).json({ error: "Media not found" });
+      const job = await siteStorage(res).getMediaJob(id, output.data);
+      if (job?.status !== "done" || !job.outputKey || !job.outputMimeType) {
+        return res.status(404).json({ error: "Output is not ready" });
+      }
+      await serveMediaFile(req, res, asset, job.outputKey, job.outputMimeType);
+    } catch (err) {
+      console.error("Failed to serve media:", err);
+      res.status(500).json({ error: "Failed to serve media" });
+    }
+  });
+
+  // The master playlist is /media/:id/hls/master.m3u8; the variant playlists and segments it lists resolve beside it.
+  siteApi.get("/media/:id/hls/:file", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      if (!/^[\w-]+\.(m3u8|ts)$/.test(req.params.file)) return res.status(400).json({ error: "Invalid file" });
+      const asset = await siteStorage(res).getMediaAsset(id);
+      if (!asset) return res.status(404).json({ error: "Media not found" });
+      const job = await siteStorage(res).getMediaJob(id, "hls");
+      if (job?.status !== "done" || !job.outputKey) return res.status(404).json({ error: "Output is not ready" });
+      const key = `${job.outputKey.slice(0, job.outputKey.lastIndexOf("/"))}/${req.params.file}`;
+      await serveMediaFile(req, res, asset, key, resolveMimeType(undefined, req.params.file));
+    } catch (err) {
+      console.error("Failed to serve media:", err);
+      res.status(500).json({ error: "Failed to serve media" });
+    }
+  });
+
+  siteApi.post("/media/:id/jobs/:jobId/retry", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const jobId = parseInt(req.params.jobId, 10);
+      if (isNaN(id) || isNaN(jobId)) return res.status(400).json({ error: "Invalid id" });
+      const job = await siteStorage(res).retryMediaJob(id, jobId);
+      if (!job) return res.status(404).json({ error: "No failed job to retry" });
+      mediaJobWorker.wake();
+      res.json(job);
+    } catch (err) {
+      console.error("Failed to retry media job:", err);
+      res.status(500).json({ error: "Failed to retry media job" });
+    }
+  });
+
+  siteApi.delete("/media/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      const deleted = await siteStorage(res).deleteMediaAsset(id);
+      if (deleted) {
+        await mediaStore.remove(deleted.storageKey);
+        await mediaStore.removeAll(mediaOutputPrefix(deleted.storageKey));
+      }
+      res.json({ success: true });
+    } catch (err) {
+      console.error("Failed to delete media:", err);
+      res.status(500).json({ error: "Failed to delete media" });
+    }
+  });
+
+  // Finds an earlier separation of the same track, so players can skip the upload and the wait.
+  siteApi.get("/stems", async (req, res) => {
+    try {
+      const query = stemJobLookupSchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid data", details: query.error.issues });
+      }
+      const job = "sourceUrl" in query.data
+        ? await siteStorage(res).findStemJobForUrl(query.data.sourceUrl)
+        : await siteStorage(res).findStemJob(query.data.sha256, query.data.model);
+      if (!job) return res.status(404).json({ error: "No stems for this track" });
+      res.json(job);
+    } catch (err) {
+      console.error("Failed to find stems:", err);
+      res.status(500).json({ error: "Failed to find stems" });
+    }
+  });
+
+  // Queues a separation of the uploaded track; a track already separated with the model returns that job instead.
+  siteApi.post("/stems", receiveUpload, async (req, res) => {
+    const file = req.file;
+    try {
+      if (!file) return res.status(400).json({ error: "No file uploaded" });
+      const model = stemModelSchema.safeParse(req.body?.model);
+      if (!model.success) {
+        await unlink(file.path);
+        return res.status(400).json({ error: "Invalid data", details: model.error.issues });
+      }
+      const mimeType = resolveMimeType(file.mimetype, file.originalname);
+      const kind = mediaKindForMime(mimeType);
+      if ((kind !== "audio" && kind !== "video") || !(await contentMatchesType(file.path, mimeType))) {
+        await unlink(file.path);
+        return res.status(415).json({ error: "Only audio and video files can be separated" });
+      }
+
+      const sourceSha256 = await hashFile(file.path);
+      const reuse = async (job: StemJob) => {
+        await unlink(file.path).catch(() => {});
+        const retried = job.status === "failed" ? await siteStorage(res).retryStemJob(job.id) : undefined;
+        if (retried) stemJobWorker.wake();
+        return res.json(retried ?? job);
+      };
+      const existing = await siteStorage(res).findStemJob(sourceSha256, model.data);
+      if (existing) return await reuse(existing);
+
+      const storagePrefix = `${siteStorage(res).site}/stems/${randomUUID()}`;
+      const ext = path.extname(file.originalname).toLowerCase().replace(/[^a-z0-9.]/g, "").slice(0, 10);
+      const sourceKey = `${storagePrefix}/source${ext}`;
+      await mediaStore.put(sourceKey, file.path);
+      const job = await siteStorage(res).createStemJob({
+        model: model.data,
+        sourceSha256,
+        sourceName: file.originalname.slice(0, 255),
+        storagePrefix,
+        sourceKey,
+      });
+      if (!job) {
+        // Lost a race with an identical upload; keep the other one.
+        await mediaStore.removeAll(storagePrefix);
+        const other = await siteStorage(res).findStemJob(sourceSha256, model.data);
+        return other ? res.json(other) : res.status(409).json({ error: "Stem job was replaced, try again" });
+      }
+      stemJobWorker.wake();
+      res.status(201).json(job);
+    } catch (err) {
+      if (file) await unlink(file.path).catch(() => {});
+      console.error("Failed to queue stem separation:", err);
+      res.status(500).json({ error: "Failed to queue stem separation" });
+    }
+  });
+
+  siteApi.get("/stems/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      const job = await siteStorage(res).getStemJob(id);
+      if (!job) return res.status(404).json({ error: "Stem job not found" });
+      res.json(job);
+    } catch (err) {
+      console.error("Failed to get stem job:", err);
+      res.status(500).json({ error: "Failed to get stem job" });
+    }
+  });
+
+  // Links the separation to the audio URL its track was loaded from, so /play can practise with its stems.
+  siteApi.patch("/stems/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      const parsed = stemJobSourceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error.issues });
+      }
+      const existing = await siteStorage(res).getStemJob(id);
+      if (!existing) return res.status(404).json({ error: "Stem job not found" });
+      res.json(await siteStorage(res).linkStemJobSource(id, parsed.data.sourceUrl));
+    } catch (err) {
+      console.error("Failed to link stem job:", err);
+      res.status(500).json({ error: "Failed to link stem job" });
+    }
+  });
+
+  // Server-sent events with the job as JSON whenever it changes, ending once it is done or has failed for good.
+  siteApi.get("/stems/:id/events", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      const site = siteStorage(res);
+      if (!(await site.getStemJob(id))) return res.status(404).json({ error: "Stem job not found" });
+
+      res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" });
+      let last = "";
+      let idleTicks = 0;
+      let closed = false;
+      const stop = () => {
+        closed = true;
+        clearInterval(timer);
+      };
+      const tick = async () => {
+        const job = await site.getStemJob(id);
+        if (closed) return;
+        if (!job) {
+          stop();
+          return res.end();
+        }
+        const data = JSON.stringify(job);
+        if (data !== last) {
+          last = data;
+          idleTicks = 0;
+          res.write(`data: ${data}\n\n`);
+        } else if (++idleTicks % 15 === 0) {
+          // A comment now and then keeps proxies from closing the stream while the job waits in the queue.
+          res.write(": waiting\n\n");
+        }
+        if (job.status === "done" || job.status === "failed") {
+          stop();
+          res.end();
+        }
+      };
+      // Once the stream is open, a failed tick (the first one included) must also stop the polling.
+      const fail = (err: unknown) => {
+        console.error("Failed to stream stem job:", err);
+        stop();
+        res.end();
+      };
+      const timer = setInterval(() => {
+        tick().catch(fail);
+      }, STEM_EVENT_INTERVAL_MS);
+      req.on("close", stop);
+      await tick().catch(fail);
+    } catch (err) {
+      console.error("Failed to stream stem job:", err);
+      if (!res.headersSent) res.status(500).json({ error: "Failed to stream stem job" });
+      else res.end();
+    }
+  });
+
+  // Renders the stems at the player's mix into one file, sent back as a download or added to the media library.
+  siteApi.post("/stems/:id/mixdown", async (req, res) => {
+    const workDir = path.join(JOB_WORK_DIR, `mixdown-${randomUUID()}`);
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      const parsed = stemMixdownSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error.issues });
+      }
+      const job = await siteStorage(res).getStemJob(id);
+      if (!job) return res.status(404).json({ error: "Stem job not found" });
+      if (job.status !== "done") return res.status(409).json({ error: "Stems are not ready" });
+      const { format, mix, saveToLibrary, name } = parsed.data;
+      const gains = effectiveStemGains(job.stems, mix);
+      if (!job.stems.some((stem) => (gains[stem] ?? 0) > 0)) return res.status(400).json({ error: "Every stem is muted" });
+
+      await mkdir(workDir, { recursive: true });
+      const fileName = mixdownFileName(job, format, name);
+      const outputPath = path.join(workDir, `mixdown.${format}`);
+      await mixdownStems(job, mix, format, outputPath);
+      if (saveToLibrary) {
+        const { size } = await stat(outputPath);
+        return res.status(201).json(await addToLibrary(req, res, outputPath, fileName, MIXDOWN_MIME_TYPES[format], "audio", size));
+      }
+      setStoredFileHeaders(res);
+      await new Promise<void>((resolve, reject) => res.download(outputPath, fileName, (err) => (err ? reject(err) : resolve())));
+    } catch (err) {
+      console.error("Failed to mix down stems:", err);
+      if (!res.headersSent) res.status(500).json({ error: "Failed to mix down stems" });
+    } finally {
+      await rm(workDir, { recursive: true, force: true }).catch(() => {});
+    }
+  });
+
+  siteApi.get("/stems/:id/:stem", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      const stem = z.enum(STEM_NAMES).safeParse(req.params.stem);
+      if (!stem.success) return res.status(400).json({ error: "Invalid stem" });
+      const job = await siteStorage(res).getStemJob(id);
+      if (!job) return res.status(404).json({ error: "Stem job not found" });
+      if (job.status !== "done" || !job.stems.includes(stem.data)) return res.status(404).json({ error: "Stem is not ready" });
+      const key = `${job.storagePrefix}/${stem.data}.mp3`;
+      const file = await mediaStore.stat(key);
+      if (!file) return res.status(404).json({ error: "Stem file is missing" });
+      sendMediaFile(req, res, { store: mediaStore, key, mimeType: "audio/mpeg", file }, () => {});
+    } catch (err) {
+      console.error("Failed to serve stem:", err);
+      res.status(500).json({ error: "Failed to serve stem" });
+    }
+  });
+
+  // Compares against the profile being written, or the default profile for a
+  // new one, so editors cannot introduce links by starting a fresh profile.
+  const currentGlobalUrls = async (res: Response, route: string, profile: string) => {
+    const current = (await siteStorage(res).getAllRouteSettings(route, profile))[0]
+      ?? (await siteStorage(res).getAllRouteSettings(route, DEFAULT_PROFILE))[0];
+    return current ? (current.globalUrls as Record<string, unknown>) : null;
+  };
+
+  const findForbiddenChanges = async (
+    req: Request,
+    res: Response,
+    route: string,
+    profile: string,
+    globalUrls: Record<string, unknown>,
+  ): Promise<string[]> => {
+    return forbiddenGlobalUrlChanges(req.user?.role, await currentGlobalUrls(res, route, profile), globalUrls);
+  };
+
+  const forbiddenResponse = (fields: string[]) => ({
+    error: `Only admins can change ${fields.join(", ")}`,
+    fields,
+  });
+
+  const saveSettingsSchema = z.object({
+    route: z.string().refine(isSettingsRoute, "Unknown route"),
+    profile: profileNameSchema.default(DEFAULT_PROFILE),
+    width: z.number().int().positive(),
+    settings: z.record(z.unknown()),
+    globalUrls: z.record(z.unknown()),
+  });
+
+  siteApi.post("/route-settings", async (req, res) => {
+    try {
+      const parsed = saveSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error.issues });
+      }
+      const schemas = routeSettingsSchemas[parsed.data.route as SettingsRoute];
+      const settings = schemas.settings.safeParse(migrateSettings(parsed.data.settings));
+      if (!settings.success) {
+        return res.status(400).json({ error: "Invalid settings", details: settings.error.issues });
+      }
+      const globalUrls = schemas.globalUrls.safeParse(parsed.data.globalUrls);
+      if (!globalUrls.success) {
+        return res.status(400).json({ error: "Invalid global URLs", details: globalUrls.error.issues });
+      }
+      const forbidden = await findForbiddenChanges(req, res, parsed.data.route, parsed.data.profile, globalUrls.data);
+      if (forbidden.length > 0) return res.status(403).json(forbiddenResponse(forbidden));
+      const saved = await siteStorage(res).saveRouteSettings({
+        ...parsed.data,
+        settings: settings.data,
+        globalUrls: globalUrls.data,
+      });
+      res.json(saved);
+    } catch (err) {
+      console.error("Failed to save route settings:", err);
+      res.status(500).json({ error: "Failed to save settings" });
+    }
+  });
+
+  // Without an explicit profile the scheduled profile that is active right now
+  // is served, falling back to the default profile. The time of the next
+  // scheduled change is sent along so open pages can reload when it happens.
+  siteApi.get("/route-settings/:route", async (req, res) => {
+    try {
+      const route = req.params.route;
+      const width = parseInt(req.query.width as string, 10);
+      if (isNaN(width)) return res.status(400).json({ error: "width query param required" });
+      if (req.query.profile === undefined) {
+        const schedules = await siteStorage(res).listSchedules(route);
+        const now = new Date();
+        const next = nextSwitch(schedules, now);
+        if (next) res.set(NEXT_SWITCH_HEADER, next.toISOString());
+        const active = activeOccurrence(schedules, now);
+        const scheduled = active && await siteStorage(res).getRouteSettings(route, width, active.profile);
+        if (scheduled) return res.json(scheduled);
+      }
+      const profile = profileNameSchema.safeParse(req.query.profile ?? DEFAULT_PROFILE);
+      if (!profile.success) return res.status(400).json({ error: "Invalid profile" });
+      const settings = await siteStorage(res).getRouteSettings(route, width, profile.data);
+      if (!settings) return res.json(null);
+      res.json(settings);
+    } catch (err) {
+      console.error("Failed to get route settings:", err);
+      res.status(500).json({ error: "Failed to get settings" });
+    }
+  });
+
+  siteApi.get("/route-settings/:route/profiles", async (req, res) => {
+    try {
+      const profiles = await siteStorage(res).listRouteProfiles(req.params.route);
+      res.json(profiles);
+    } catch (err) {
+      console.error("Failed to list profiles:", err);
+      res.status(500).json({ error: "Failed to list profiles" });
+    }
+  });
+
+  const SCHEDULE_LOOKAHEAD_DAYS = 62;
+
+  siteApi.get("/route-settings/:route/schedules", async (req, res) => {
+    try {
+      const schedules = await siteStorage(res).listSchedules(req.params.route);
+      const now = new Date();
+      const horizon = new Date(now.getTime() + SCHEDULE_LOOKAHEAD_DAYS * 24 * 60 * 60 * 1000);
+      const body: RouteSchedules = {
+        schedules,
+        activeScheduleId: activeOccurrence(schedules, now)?.scheduleId ?? null,
+        upcoming: scheduleSwitches(schedules, now, horizon).map((s) => ({ ...s, at: s.at.toISOString() })),
+      };
+      res.json(body);
+    } catch (err) {
+      console.error("Failed to list schedules:", err);
+      res.status(500).json({ error: "Failed to list schedules" });
+    }
+  });
+
+  siteApi.post("/route-settings/:route/schedules", async (req, res) => {
+    try {
+      const route = req.params.route;
+      if (!isSettingsRoute(route)) return res.status(400).json({ error: "Unknown route" });
+      const parsed = insertSettingsScheduleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error.issues });
+      }
+      const rows = await siteStorage(res).getAllRouteSettings(route, parsed.data.profile);
+      if (rows.length === 0) return res.status(404).json({ error: "Profile has no saved settings" });
+      const schedule = await siteStorage(res).createSchedule(route, parsed.data);
+      res.status(201).json(schedule);
+    } catch (err) {
+      console.error("Failed to create schedule:", err);
+      res.status(500).json({ error: "Failed to create schedule" });
+    }
+  });
+
+  siteApi.delete("/route-settings/:route/schedules/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      await siteStorage(res).deleteSchedule(req.params.route, id);
+      res.json({ success: true });
+    } catch (err) {
+      console.error("Failed to delete schedule:", err);
+      res.status(500).json({ error: "Failed to delete schedule" });
+    }
+  });
+
+  const profileTargetSchema = z.object({ name: profileNameSchema });
+
+  siteApi.post("/route-settings/:route/profiles/:profile/rename", async (req, res) => {
+    try {
+      const { route, profile } = req.params;
+      const parsed = profileTargetSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error.issues });
+      }
+      // /view and /play fall back to the default profile, so it must keep its name.
+      if (profile === DEFAULT_PROFILE) {
+        return res.status(400).json({ error: "The default profile cannot be renamed" });
+      }
+      const result = await siteStorage(res).renameRouteProfile(route, profile, parsed.data.name);
+      if (result === "not_found") return res.status(404).json({ error: "Profile not found" });
+      if (result === "exists") return res.status(409).json({ error: "Profile already exists" });
+      res.json({ success: true, name: parsed.data.name });
+    } catch (err) {
+      console.error("Failed to rename profile:", err);
+      res.status(500).json({ error: "Failed to rename profile" });
+    }
+  });
+
+  siteApi.post("/route-settings/:route/profiles/:profile/duplicate", async (req, res) => {
+    try {
+      const { route, profile } = req.params;
+      const parsed = profileTargetSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error.issues });
+      }
+      const result = await siteStorage(res).duplicateRouteProfile(route, profile, parsed.data.name);
+      if (result === "not_found") return res.status(404).json({ error: "Profile not found" });
+      if (result === "exists") return res.status(409).json({ error: "Profile already exists" });
+      res.status(201).json({ success: true, name: parsed.data.name });
+    } catch (err) {
+      console.error("Failed to duplicate profile:", err);
+      res.status(500).json({ error: "Failed to duplicate profile" });
+    }
+  });
+
+  siteApi.get("/route-settings/:route/profiles/:profile/versions", async (req, res) => {
+    try {
+      const versions = await siteStorage(res).getRouteSettingsVersions(req.params.route, req.params.profile);
+      res.json(versions);
+    } catch (err) {
+      console.error("Failed to get profile versions:", err);
+      res.status(500).json({ error: "Failed to get versions" });
+    }
+  });
+
+  siteApi.post("/route-settings/:route/profiles/:profile/rollback", async (req, res) => {
+    try {
+      const parsed = z.object({ versionId: z.number().int().positive() }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error.issues });
+      }
+      const { route, profile } = req.params;
+      const version = (await siteStorage(res).getRouteSettingsVersions(route, profile)).find((v) => v.id === parsed.data.versionId);
+      if (!version) return res.status(404).json({ error: "Version not found" });
+      const forbidden = await findForbiddenChanges(req, res, route, profile, version.globalUrls as Record<string, unknown>);
+      if (forbidden.length > 0) return res.status(403).json(forbiddenResponse(forbidden));
+      const restored = await siteStorage(res).rollbackRouteSettings(route, profile, version.id);
+      if (!restored) return res.status(404).json({ error: "Version not found" });
+      res.json(restored);
+    } catch (err) {
+      console.error("Failed to roll back profile:", err);
+      res.status(500).json({ error: "Failed to roll back" });
+    }
+  });
+
+  siteApi.get("/route-settings/:route/profiles/:profile/breakpoints", async (req, res) => {
+    try {
+      const rows = await siteStorage(res).getAllRouteSettings(req.params.route, req.params.profile);
+      res.json(rows);
+    } catch (err) {
+      console.error("Failed to list breakpoints:", err);
+      res.status(500).json({ error: "Failed to list breakpoints" });
+    }
+  });
+
+  siteApi.patch("/route-settings/:route/profiles/:profile/breakpoints/:width", async (req, res) => {
+    try {
+      const { route, profile } = req.params;
+      const width = parseInt(req.params.width, 10);
+      if (isNaN(width)) return res.status(400).json({ error: "Invalid width" });
+      const parsed = breakpointRangeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error.issues });
+      }
+      const rows = await siteStorage(res).getAllRouteSettings(route, profile);
+      const conflict = rows.find((row) => row.width !== width && rangesOverlap(row, { width, ...parsed.data }));
+      if (conflict) {
+        return res.status(409).json({ error: `Range overlaps the ${conflict.width}px layout` });
+      }
+      const updated = await siteStorage(res).updateRouteBreakpoint(route, profile, width, parsed.data);
+      if (!updated) return res.status(404).json({ error: "Layout not found" });
+      res.json(updated);
+    } catch (err) {
+      console.error("Failed to update breakpoint:", err);
+      res.status(500).json({ error: "Failed to update breakpoint" });
+    }
+  });
+
+  siteApi.get("/route-settings/:route/profiles/:profile/export", async (req, res) => {
+    try {
+      const { route, profile } = req.params;
+      const rows = await siteStorage(res).getAllRouteSettings(route, profile);
+      if (rows.length === 0) return res.status(404).json({ error: "Profile not found" });
+      res.setHeader("Content-Disposition", `attachment; filename="${route}-${profile}.json"`);
+      res.json(buildConfigBundle(route, profile, rows));
+    } catch (err) {
+      console.error("Failed to export configuration:", err);
+      res.status(500).json({ error: "Failed to export configuration" });
+    }
+  });
+
+  const parseImportRequest = (route: string, body: unknown) => {
+    if (!isSettingsRoute(route)) {
+      return { error: { error: "Unknown route" } } as const;
+    }
+    const parsed = configBundleSchema.safeParse(body);
+    if (!parsed.success) {
+      return { error: { error: "Invalid bundle", details: parsed.error.issues } } as const;
+    }
+    const { bundle, issues } = validateConfigBundle(route, parsed.data);
+    if (issues.length > 0) {
+      return { error: { error: "Invalid bundle", details: issues } } as const;
+    }
+    return { bundle } as const;
+  };
+
+  siteApi.post("/route-settings/:route/profiles/:profile/import/preview", async (req, res) => {
+    try {
+      const { route, profile } = req.params;
+      const result = parseImportRequest(route, req.body);
+      if (result.error) return res.status(400).json(result.error);
+      const rows = await siteStorage(res).getAllRouteSettings(route, profile);
+      res.json(diffConfigBundle(rows, result.bundle));
+    } catch (err) {
+      console.error("Failed to preview import:", err);
+      res.status(500).json({ error: "Failed to preview import" });
+    }
+  });
+
+  siteApi.post("/route-settings/:route/profiles/:profile/import", async (req, res) => {
+    try {
+      const { route, profile } = req.params;
+      if (!profileNameSchema.safeParse(profile).success) {
+        return res.status(400).json({ error: "Invalid profile" });
+      }
+      const result = parseImportRequest(route, req.body);
+      if (result.error) return res.status(400).json(result.error);
+      const forbidden = await findForbiddenChanges(req, res, route, profile, result.bundle.globalUrls);
+      if (forbidden.length > 0) return res.status(403).json(forbiddenResponse(forbidden));
+      const rows = await siteStorage(res).importRouteProfile(route, profile, result.bundle);
+      res.json(rows);
+    } catch (err) {
+      console.error("Failed to import configuration:", err);
+      res.status(500).json({ error: "Failed to import configuration" });
+    }
+  });
+
+  siteApi.post("/events", async (req, res) => {
+    try {
+      const parsed = analyticsBatchSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error.issues });
+      }
+      await siteStorage(res).recordAnalyticsEvents(parsed.data.events);
+      res.sendStatus(204);
+    } catch (err) {
+      console.error("Failed to record events:", err);
+      res.status(500).json({ error: "Failed to record events" });
+    }
+  });
+
+  siteApi.get("/analytics/:route", async (req, res) => {
+    try {
+      const query = z.object({
+        profile: profileNameSchema.optional(),
+        days: z.coerce.number().int().min(1).max(365).default(30),
+      }).safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid data", details: query.error.issues });
+      }
+      const summary = await siteStorage(res).getAnalyticsSummary(req.params.route, query.data.profile, query.data.days);
+      res.json(summary);
+    } catch (err) {
+      console.error("Failed to get analytics:", err);
+      res.status(500).json({ error: "Failed to get analytics" });
+    }
+  });
+
+  siteApi.get("/route-settings/:route/experiment", async (req, res) => {
+    try {
+      const profile = profileNameSchema.safeParse(req.query.profile ?? DEFAULT_PROFILE);
+      if (!profile.success) return res.status(400).json({ error: "Invalid profile" });
+      const experiment = await siteStorage(res).getRunningExperiment(req.params.route, profile.data);
+      res.json(experiment ?? null);
+    } catch (err) {
+      console.error("Failed to get running experiment:", err);
+      res.status(500).json({ error: "Failed to get experiment" });
+    }
+  });
+
+  // Variant overrides must be valid settings for the route, and only admins may
+  // point a variant's links somewhere other than the profile (or the variant it replaces) does.
+  const checkVariants = async (
+    req: Request,
+    res: Response,
+    experiment: Pick<Experiment, "route" | "profile"> & { variants: ExperimentVariant[] },
+    previous?: ExperimentVariant[],
+  ): Promise<{ status: number; body: object } | null> => {
+    if (!isSettingsRoute(experiment.route)) return { status: 400, body: { error: "Unknown route" } };
+    const schemas = routeSettingsSchemas[experiment.route];
+    for (const variant of experiment.variants) {
+      const settings = schemas.settings.partial().safeParse(variant.settings);
+      const globalUrls = schemas.globalUrls.partial().safeParse(variant.globalUrls);
+      if (!settings.success || !globalUrls.success) {
+        const issues = [...(settings.error?.issues ?? []), ...(globalUrls.error?.issues ?? [])];
+        return { status: 400, body: { error: `Invalid settings in variant ${variant.key}`, details: issues } };
+      }
+    }
+    const base = (await currentGlobalUrls(res, experiment.route, experiment.profile)) ?? {};
+    const forbidden = new Set<string>();
+    for (const variant of experiment.variants) {
+      const before = { ...base, ...previous?.find((v) => v.key === variant.key)?.globalUrls };
+      forbiddenGlobalUrlChanges(req.user?.role, before, { ...base, ...variant.globalUrls }).forEach((field) => forbidden.add(field));
+    }
+    if (forbidden.size > 0) return { status: 403, body: forbiddenResponse(Array.from(forbidden)) };
+    return null;
+  };
+
+  const hasOtherRunning = async (res: Response, experiment: Pick<Experiment, "id" | "route" | "profile">) => {
+    const running = await siteStorage(res).getRunningExperiment(experiment.route, experiment.profile);
+    return running !== undefined && running.id !== experiment.id;
+  };
+
+  siteApi.get("/experiments", async (req, res) => {
+    try {
+      const query = z.object({ route: z.string(), profile: profileNameSchema.optional() }).safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid data", details: query.error.issues });
+      }
+      res.json(await siteStorage(res).listExperiments(query.data.route, query.data.profile));
+    } catch (err) {
+      console.error("Failed to list experiments:", err);
+      res.status(500).json({ error: "Failed to list experiments" });
+    }
+  });
+
+  siteApi.post("/experiments", async (req, res) => {
+    try {
+      const parsed = insertExperimentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error.issues });
+      }
+      const problem = await checkVariants(req, res, parsed.data);
+      if (problem) return res.status(problem.status).json(problem.body);
+      if (parsed.data.status === "running" && await hasOtherRunning(res, { id: 0, ...parsed.data })) {
+        return res.status(409).json({ error: "Another experiment is already running for this profile" });
+      }
+      const experiment = await siteStorage(res).createExperiment(parsed.data);
+      res.status(201).json(experiment);
+    } catch (err) {
+      console.error("Failed to create experiment:", err);
+      res.status(500).json({ error: "Failed to create experiment" });
+    }
+  });
+
+  siteApi.patch("/experiments/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      const parsed = updateExperimentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid data", details: parsed.error.issues });
+      }
+      const existing = await siteStorage(res).getExperiment(id);
+      if (!existing) return res.status(404).json({ error: "Experiment not found" });
+      if (parsed.data.variants) {
+        const problem = await checkVariants(req, res, { ...existing, variants: parsed.data.variants }, existing.variants);
+        if (problem) return res.status(problem.status).json(problem.body);
+      }
+      if (parsed.data.status === "running" && await hasOtherRunning(res, existing)) {
+        return res.status(409).json({ error: "Another experiment is already running for this profile" });
+      }
+      const updated = await siteStorage(res).updateExperiment(id, parsed.data);
+      res.json(updated);
+    } catch (err) {
+      console.error("Failed to update experiment:", err);
+      res.status(500).json({ error: "Failed to update experiment" });
+    }
+  });
+
+  siteApi.delete("/experiments/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      await siteStorage(res).deleteExperiment(id);
+      res.json({ success: true });
+    } catch (err) {
+      console.error("Failed to delete experiment:", err);
+      res.status(500).json({ error: "Failed to delete experiment" });
+    }
+  });
+
+  siteApi.get("/experiments/:id/results", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      const experiment = await siteStorage(res).getExperiment(id);
+      if (!experiment) return res.status(404).json({ error: "Experiment not found" });
+      const counts = await siteStorage(res).getExperimentCounts(id);
+      const results: ExperimentResults = { experiment, variants: summarizeVariants(experiment.variants, counts) };
+      res.json(results);
+    } catch (err) {
+      console.error("Failed to get experiment results:", err);
+      res.status(500).json({ error: "Failed to get experiment results" });
+    }
+  });
+
+  app.use("/api/sites/:site", resolveSite, siteApi);
+  app.use("/api", (_req, res, next) => {
+    res.locals.site = DEFAULT_SITE;
+    res.locals.siteStorage = storage.forSite(DEFAULT_SITE);
+    next();
+  }, siteApi);
+
   app.get("/api/youtube-search", async (req, res) => {
     const query = req.query.q as string;
     if (!query || !query.trim()) {
@@ -0,0 +1,79 @@
+import { mkdir, rm } from "fs/promises";
+import path from "path";
+import { MAX_MEDIA_JOB_ATTEMPTS, type StemJob, type StemModel } from "@shared/schema";
+import { storage } from "./storage";
+import { JOB_WORK_DIR, mediaStore } from "./media-store";
+import { separateStems } from "./stem-separation";
+
+const POLL_INTERVAL_MS = 5000;
+/** Wait before the second and third attempts. */
+const RETRY_DELAYS_MS = [60_000, 5 * 60_000];
+/** Progress is written at most this often, which is also how often the event stream can see it change. */
+const PROGRESS_WRITE_MS = 1000;
+
+/**
+ * Runs queued stem separations one at a time, like the media job worker:
+ * a Demucs run takes every core for minutes, so two at once would only make
+ * both slower. Progress is saved on the job row as the run goes, for the
+ * stem player's event stream to pick up.
+ */
+class StemJobWorker {
+  private busy = false;
+  private timer: NodeJS.Timeout | null = null;
+
+  async start() {
+    const requeued = await storage.requeueRunningStemJobs();
+    if (requeued > 0) console.log(`Requeued ${requeued} stem job(s) interrupted by a restart`);
+    this.timer = setInterval(() => this.wake(), POLL_INTERVAL_MS);
+    this.timer.unref();
+    this.wake();
+  }
+
+  /** Starts on due jobs now rather than at the next poll; does nothing while a run is going. */
+  wake() {
+    if (this.busy) return;
+    this.busy = true;
+    this.drain()
+      .catch((err) => console.error("Stem job worker failed:", err))
+      .finally(() => {
+        this.busy = false;
+      });
+  }
+
+  private async drain() {
+    for (let job = await storage.claimStemJob(); job; job = await storage.claimStemJob()) {
+      await this.run(job);
+    }
+  }
+
+  private async run(job: StemJob) {
+    const workDir = path.join(JOB_WORK_DIR, `stems-${job.id}`);
+    let lastWrite = 0;
+    const reportProgress = (progress: number) => {
+      if (Date.now() - lastWrite < PROGRESS_WRITE_MS) return;
+      lastWrite = Date.now();
+      storage.setStemJobProgress(job.id, progress).catch((err) => console.error(`Failed to save stem job ${job.id} progress:`, err));
+    };
+    try {
+      await rm(workDir, { recursive: true, force: true });
+      await mkdir(workDir, { recursive: true });
+      const input = await mediaStore.localPath(job.sourceKey);
+      const { dir, stems } = await separateStems(job.model as StemModel, input, workDir, reportProgress);
+      for (const stem of stems) {
+        await mediaStore.put(`${job.storagePrefix}/${stem}.mp3`, path.join(dir, `${stem}.mp3`));
+      }
+      await storage.completeStemJob(job.id, stems);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`Stem job ${job.id} (${job.model}) failed:`, message);
+      const retryAt = job.attempts < MAX_MEDIA_JOB_ATTEMPTS
+        ? new Date(Date.now() + RETRY_DELAYS_MS[Math.min(job.attempts, RETRY_DELAYS_MS.length) - 1])
+        : null;
+      await storage.failStemJob(job.id, message, retryAt);
+    } finally {
+      await rm(workDir, { recursive: true, force: true }).catch(() => {});
+    }
+  }
+}
+
+export const stemJobWorker = new StemJobWorker();
@@ -0,0 +1,66 @@
+import path from "path";
+import { effectiveStemGains, type MixdownFormat, type StemJob, type StemMix, type StemName } from "@shared/schema";
+import { mediaStore } from "./media-store";
+import { runFfmpeg } from "./media-transcode";
+
+const MIXDOWN_MP3_KBPS = 256;
+
+const FORMAT_CODECS: Record<MixdownFormat, string[]> = {
+  wav: ["-c:a", "pcm_s16le"],
+  mp3: ["-c:a", "libmp3lame", "-b:a", `${MIXDOWN_MP3_KBPS}k`],
+};
+
+export const MIXDOWN_MIME_TYPES: Record<MixdownFormat, string> = {
+  wav: "audio/wav",
+  mp3: "audio/mpeg",
+};
+
+/**
+ * ffmpeg `pan` for a stereo stem placed at `pan`, matching the Web Audio
+ * StereoPannerNode the stem page plays through: panning left folds the right
+ * channel into the left one with an equal-power curve, and the other way round.
+ */
+function panFilter(pan: number): string {
+  const x = pan <= 0 ? pan + 1 : pan;
+  const left = Math.cos((x * Math.PI) / 2).toFixed(6);
+  const right = Math.sin((x * Math.PI) / 2).toFixed(6);
+  return pan <= 0
+    ? `pan=stereo|c0=c0+${left}*c1|c1=${right}*c1`
+    : `pan=stereo|c0=${left}*c0|c1=c1+${right}*c0`;
+}
+
+/**
+ * Renders the finished `job`'s stems at `mix` into one stereo file at
+ * `outputPath`. Stems that end up silent are left out; throws when that
+ * is all of them.
+ */
+export async function mixdownStems(job: StemJob, mix: Partial<Record<StemName, StemMix>>, format: MixdownFormat, outputPath: string): Promise<void> {
+  const gains = effectiveStemGains(job.stems, mix);
+  const audible = job.stems.filter((stem) => (gains[stem] ?? 0) > 0);
+  if (audible.length === 0) throw new Error("Every stem is muted");
+
+  const inputs: string[] = [];
+  const chains: string[] = [];
+  for (let index = 0; index < audible.length; index++) {
+    const stem = audible[index];
+    inputs.push("-i", await mediaStore.localPath(`${job.storagePrefix}/${stem}.mp3`));
+    chains.push(`[${index}:a]aformat=sample_fmts=fltp:channel_layouts=stereo,volume=${gains[stem]},${panFilter(mix[stem]?.pan ?? 0)}[s${index}]`);
+  }
+  // normalize=0 sums the stems as they are, the way the page's graph does, instead of scaling each one down.
+  const labels = audible.map((_, index) => `[s${index}]`).join("");
+  chains.push(`${labels}amix=inputs=${audible.length}:duration=longest:normalize=0[mix]`);
+
+  await runFfmpeg([
+    ...inputs,
+    "-filter_complex", chains.join(";"),
+    "-map", "[mix]",
+    ...FORMAT_CODECS[format],
+    outputPath,
+  ]);
+}
+
+/** File name for a mixdown download or library entry, from the requested name or the separated track's. */
+export function mixdownFileName(job: StemJob, format: MixdownFormat, name?: string): string {
+  const base = name ?? `${path.parse(job.sourceName).name} (mix)`;
+  return `${base.replace(/[\\/:*?"<>|]+/g, "_")}.${format}`;
+}
@@ -0,0 +1,79 @@
+import { spawn } from "child_process";
+import { readdir } from "fs/promises";
+import path from "path";
+import { STEM_NAMES, type StemModel, type StemName } from "@shared/schema";
+
+const DEMUCS = process.env.DEMUCS_PATH || "demucs";
+const SEPARATION_TIMEOUT_MS = 2 * 60 * 60 * 1000;
+const STEM_MP3_KBPS = 256;
+
+/** Bags of models run each member in turn, and Demucs shows a fresh progress bar for every one. */
+const MODEL_PASSES: Record<StemModel, number> = {
+  htdemucs: 1,
+  htdemucs_ft: 4,
+  htdemucs_6s: 1,
+  mdx_extra: 4,
+};
+
+/** tqdm's "45%|████▌     | 87.75/175.5 [00:10<00:10, 8.1seconds/s]". */
+const PROGRESS_PATTERN = /(\d{1,3})%\|/;
+
+/**
+ * Splits `input` into stems with Demucs on the CPU, writing `<stem>.mp3` files
+ * to `<workDir>/<model>/`. `onProgress` gets 0 to 1 across all passes of the
+ * model, read from the progress bars Demucs prints to stderr.
+ */
+export function separateStems(model: StemModel, input: string, workDir: string, onProgress: (progress: number) => void): Promise<{ dir: string; stems: StemName[] }> {
+  const args = [
+    "-d", "cpu",
+    "-n", model,
+    "--mp3", "--mp3-bitrate", String(STEM_MP3_KBPS),
+    "-o", workDir,
+    "--filename", "{stem}.{ext}",
+    input,
+  ];
+  const passes = MODEL_PASSES[model];
+  return new Promise((resolve, reject) => {
+    const child = spawn(DEMUCS, args, { stdio: ["ignore", "ignore", "pipe"] });
+    const timer = setTimeout(() => child.kill("SIGKILL"), SEPARATION_TIMEOUT_MS);
+    let tail = "";
+    let pass = 0;
+    let lastPercent = 0;
+
+    child.stderr.setEncoding("utf8");
+    child.stderr.on("data", (chunk: string) => {
+      tail = (tail + chunk).slice(-4000);
+      for (const match of Array.from(chunk.matchAll(new RegExp(PROGRESS_PATTERN, "g")))) {
+        const percent = Math.min(100, Number(match[1]));
+        // The bar starting over means the next model in the bag has begun.
+        if (percent < lastPercent) pass = Math.min(pass + 1, passes - 1);
+        lastPercent = percent;
+        onProgress((pass + percent / 100) / passes);
+      }
+    });
+
+    child.on("error", (err: NodeJS.ErrnoException) => {
+      clearTimeout(timer);
+      reject(err.code === "ENOENT" ? new Error(`${DEMUCS} is not installed`) : err);
+    });
+
+    child.on("close", async (code, signal) => {
+      clearTimeout(timer);
+      if (code !== 0) {
+        if (signal === "SIGKILL") return reject(new Error("Stem separation timed out"));
+        // Demucs ends with a Python traceback or its own message; the last lines say what went wrong.
+        const lines = tail.split(/[\r\n]+/).map((line) => line.trim()).filter((line) => line && !PROGRESS_PATTERN.test(line));
+        return reject(new Error((lines.slice(-3).join(" ") || `${DEMUCS} exited with code ${code}`).slice(0, 500)));
+      }
+      try {
+        const dir = path.join(workDir, model);
+        const files = new Set(await readdir(dir));
+        const stems = STEM_NAMES.filter((stem) => files.has(`${stem}.mp3`));
+        if (stems.length === 0) return reject(new Error("Demucs wrote no stems"));
+        resolve({ dir, stems });
+      } catch (err) {
+        reject(err);
+      }
+    });
+  });
+}
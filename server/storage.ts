@@ -1,25 +1,915 @@
-import { type User, type InsertUser, type PlaylistItem, type InsertPlaylistItem, type RouteSettings, type InsertRouteSettings, users, playlistItems, routeSettings } from "@shared/schema";
+import { type User, type InsertUser, type Site, type InsertSite, type Playlist, type PlaylistSummary, type InsertPlaylist, type PlaylistItem, type InsertPlaylistItem, type PlaylistBatchResult, type AudioQueue, type AudioQueueSummary, type AudioQueueItem, type InsertAudioQueue, type UpdateAudioQueue, type InsertAudioQueueItem, type CuePoint, type InsertCuePoint, type UpdateCuePoint, type CaptionTrack, type InsertCaptionTrack, type MediaAsset, type InsertMediaAsset, type MediaKind, type MediaBandwidthRow, type MediaBandwidthSummary, type MediaJob, type MediaJobResult, type MediaOutput, type StemJob, type InsertStemJob, type StemModel, type StemName, type RouteSettings, type InsertRouteSettings, type RouteSettingsVersion, type RouteProfileSummary, type BreakpointRangeInput, type ConfigBundle, type InsertAnalyticsEvent, type AnalyticsSummary, type AnalyticsCounts, type Experiment, type InsertExperiment, type UpdateExperiment, type VariantCounts, type SettingsSchedule, type InsertSettingsSchedule, DEFAULT_PLAYLIST_NAME, DEFAULT_PROFILE, emptyAnalyticsCounts, isAnalyticsEventType, migrateSettings, users, sites, siteMembers, playlists, playlistItems, audioQueues, audioQueueItems, cuePoints, captionTracks, mediaAssets, mediaBandwidth, mediaJobs, stemJobs, routeSettings, routeSettingsVersions, analyticsEvents, experiments, settingsSchedules } from "@shared/schema";
+import { resolveBreakpoint } from "@shared/breakpoints";
 import { drizzle } from "drizzle-orm/node-postgres";
-import { eq, desc, and, asc, sql } from "drizzle-orm";
+import { eq, desc, and, asc, gte, lte, inArray, isNull, sql } from "drizzle-orm";
 import pg from "pg";
 
-const pool = new pg.Pool({
+export const pool = new pg.Pool({
   connectionString: process.env.DATABASE_URL,
 });
 
 export const db = drizzle(pool);
 
+/** `db` or a transaction opened on it. */
+type DbExecutor = Pick<typeof db, "select" | "insert" | "update" | "delete" | "execute">;
+
+/** Outcome of renaming or duplicating a profile; the target name must be free. */
+export type ProfileChangeResult = "done" | "not_found" | "exists";
+
+function isUniqueViolation(err: unknown): boolean {
+  return typeof err === "object" && err !== null && (err as { code?: unknown }).code === "23505";
+}
+
+function withCurrentSchema(row: RouteSettings): RouteSettings {
+  return { ...row, settings: migrateSettings(row.settings) };
+}
+
+function addCount(target: AnalyticsCounts, type: string, amount: number) {
+  if (isAnalyticsEventType(type)) target[type] += Number(amount);
+}
+
+/** Playlist, route settings and analytics data, always read and written for a single site. */
+export interface ISiteStorage {
+  readonly site: string;
+  listPlaylists(): Promise<PlaylistSummary[]>;
+  getPlaylist(id: number): Promise<Playlist | undefined>;
+  getDefaultPlaylist(): Promise<Playlist>;
+  createPlaylist(data: InsertPlaylist, ownerId: string | null): Promise<Playlist>;
+  renamePlaylist(id: number, name: string): Promise<Playlist | undefined>;
+  deletePlaylist(id: number): Promise<void>;
+  getPlaylistItems(playlistId: number): Promise<PlaylistItem[]>;
+  getPlaylistItemByVideoId(playlistId: number, videoId: string): Promise<PlaylistItem | undefined>;
+  addPlaylistItems(playlistId: number, items: InsertPlaylistItem[]): Promise<PlaylistBatchResult>;
+  removePlaylistItems(playlistId: number, ids: number[]): Promise<void>;
+  reorderPlaylist(playlistId: number, ids: number[]): Promise<boolean>;
+  movePlaylistItems(playlistId: number, ids: number[], targetPlaylistId: number): Promise<number>;
+  listAudioQueues(): Promise<AudioQueueSummary[]>;
+  getAudioQueue(id: number): Promise<AudioQueue | undefined>;
+  createAudioQueue(data: InsertAudioQueue): Promise<AudioQueue>;
+  updateAudioQueue(id: number, data: UpdateAudioQueue): Promise<AudioQueue | undefined>;
+  deleteAudioQueue(id: number): Promise<void>;
+  getAudioQueueItems(queueId: number): Promise<AudioQueueItem[]>;
+  addAudioQueueItems(queueId: number, items: InsertAudioQueueItem[]): Promise<AudioQueueItem[]>;
+  removeAudioQueueItems(queueId: number, ids: number[]): Promise<void>;
+  reorderAudioQueue(queueId: number, ids: number[]): Promise<boolean>;
+  listCuePoints(mediaUrl: string): Promise<CuePoint[]>;
+  getCuePoint(id: number): Promise<CuePoint | undefined>;
+  createCuePoint(data: InsertCuePoint): Promise<CuePoint>;
+  updateCuePoint(id: number, data: UpdateCuePoint): Promise<CuePoint | undefined>;
+  deleteCuePoint(id: number): Promise<void>;
+  getCaptionTrack(mediaUrl: string): Promise<CaptionTrack | undefined>;
+  saveCaptionTrack(data: InsertCaptionTrack): Promise<CaptionTrack>;
+  deleteCaptionTrack(id: number): Promise<void>;
+  listMediaAssets(kind?: MediaKind): Promise<MediaAsset[]>;
+  getMediaAsset(id: number): Promise<MediaAsset | undefined>;
+  createMediaAsset(data: InsertMediaAsset): Promise<MediaAsset>;
+  deleteMediaAsset(id: number): Promise<MediaAsset | undefined>;
+  recordMediaBandwidth(rows: MediaBandwidthRow[]): Promise<void>;
+  getMediaBandwidth(days: number): Promise<MediaBandwidthSummary[]>;
+  createMediaJobs(assetId: number, outputs: MediaOutput[]): Promise<MediaJob[]>;
+  listMediaJobs(assetIds: number[]): Promise<MediaJob[]>;
+  getMediaJob(assetId: number, output: MediaOutput): Promise<MediaJob | undefined>;
+  retryMediaJob(assetId: number, jobId: number): Promise<MediaJob | undefined>;
+  findStemJob(sourceSha256: string, model: StemModel): Promise<StemJob | undefined>;
+  findStemJobForUrl(sourceUrl: string): Promise<StemJob | undefined>;
+  getStemJob(id: number): Promise<StemJob | undefined>;
+  createStemJob(data: InsertStemJob): Promise<StemJob | undefined>;
+  retryStemJob(id: number): Promise<StemJob | undefined>;
+  linkStemJobSource(id: number, sourceUrl: string): Promise<StemJob | undefined>;
+  saveRouteSettings(data: InsertRouteSettings, note?: string): Promise<RouteSettings>;
+  getRouteSettings(route: string, width: number, profile?: string): Promise<RouteSettings | undefined>;
+  getAllRouteSettings(route: string, profile?: string): Promise<RouteSettings[]>;
+  updateRouteBreakpoint(route: string, profile: string, width: number, range: BreakpointRangeInput): Promise<RouteSettings | undefined>;
+  importRouteProfile(route: string, profile: string, bundle: ConfigBundle): Promise<RouteSettings[]>;
+  listRouteProfiles(route: string): Promise<RouteProfileSummary[]>;
+  renameRouteProfile(route: string, from: string, to: string): Promise<ProfileChangeResult>;
+  duplicateRouteProfile(route: string, from: string, to: string): Promise<ProfileChangeResult>;
+  getRouteSettingsVersions(route: string, profile: string): Promise<RouteSettingsVersion[]>;
+  rollbackRouteSettings(route: string, profile: string, versionId: number): Promise<RouteSettings | undefined>;
+  recordAnalyticsEvents(events: InsertAnalyticsEvent[]): Promise<void>;
+  getAnalyticsSummary(route: string, profile: string | undefined, days: number): Promise<AnalyticsSummary>;
+  listExperiments(route: string, profile?: string): Promise<Experiment[]>;
+  getExperiment(id: number): Promise<Experiment | undefined>;
+  getRunningExperiment(route: string, profile: string): Promise<Experiment | undefined>;
+  createExperiment(data: InsertExperiment): Promise<Experiment>;
+  updateExperiment(id: number, data: UpdateExperiment): Promise<Experiment | undefined>;
+  deleteExperiment(id: number): Promise<void>;
+  getExperimentCounts(id: number): Promise<Record<string, VariantCounts>>;
+  listSchedules(route: string): Promise<SettingsSchedule[]>;
+  createSchedule(route: string, data: InsertSettingsSchedule): Promise<SettingsSchedule>;
+  deleteSchedule(route: string, id: number): Promise<void>;
+}
+
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  getPlaylistItems(): Promise<PlaylistItem[]>;
-  addPlaylistItem(item: InsertPlaylistItem): Promise<PlaylistItem>;
-  removePlaylistItem(id: number): Promise<void>;
-  getPlaylistItemByVideoId(videoId: string): Promise<PlaylistItem | undefined>;
-  saveRouteSettings(data: InsertRouteSettings): Promise<RouteSettings>;
-  getRouteSettings(route: string, width: number): Promise<RouteSettings | undefined>;
-  getAllRouteSettings(route: string): Promise<RouteSettings[]>;
+  countUsers(): Promise<number>;
+  listUsers(): Promise<User[]>;
+  updateUserRole(id: string, role: string): Promise<User | undefined>;
+  listSites(): Promise<Site[]>;
+  getSite(slug: string): Promise<Site | undefined>;
+  createSite(site: InsertSite): Promise<Site>;
+  updateSite(slug: string, data: Partial<Omit<InsertSite, "slug">>): Promise<Site | undefined>;
+  listSiteMembers(site: string): Promise<User[]>;
+  listUserSites(userId: string): Promise<string[]>;
+  isSiteMember(site: string, userId: string): Promise<boolean>;
+  addSiteMember(site: string, userId: string): Promise<void>;
+  removeSiteMember(site: string, userId: string): Promise<void>;
+  forSite(site: string): ISiteStorage;
+  claimMediaJob(): Promise<MediaJob | undefined>;
+  completeMediaJob(id: number, result: MediaJobResult): Promise<boolean>;
+  failMediaJob(id: number, error: string, retryAt: Date | null): Promise<void>;
+  requeueRunningMediaJobs(): Promise<number>;
+  claimStemJob(): Promise<StemJob | undefined>;
+  setStemJobProgress(id: number, progress: number): Promise<void>;
+  completeStemJob(id: number, stems: StemName[]): Promise<void>;
+  failStemJob(id: number, error: string, retryAt: Date | null): Promise<void>;
+  requeueRunningStemJobs(): Promise<number>;
+}
+
+export class SiteStorage implements ISiteStorage {
+  constructor(readonly site: string) {}
+
+  private playlistMatch(id: number) {
+    return and(eq(playlists.site, this.site), eq(playlists.id, id));
+  }
+
+  private itemMatch(playlistId: number) {
+    return and(eq(playlistItems.site, this.site), eq(playlistItems.playlistId, playlistId));
+  }
+
+  async listPlaylists(): Promise<PlaylistSummary[]> {
+    await this.getDefaultPlaylist();
+    const itemCount = sql<number>`count(${playlistItems.id})`;
+    const rows = await db.select({ playlist: playlists, itemCount })
+      .from(playlists)
+      .leftJoin(playlistItems, eq(playlistItems.playlistId, playlists.id))
+      .where(eq(playlists.site, this.site))
+      .groupBy(playlists.id)
+      .orderBy(asc(playlists.id));
+    return rows.map((row) => ({ ...row.playlist, itemCount: Number(row.itemCount) }));
+  }
+
+  async getPlaylist(id: number): Promise<Playlist | undefined> {
+    const [playlist] = await db.select().from(playlists).where(this.playlistMatch(id));
+    return playlist;
+  }
+
+  /** The site's oldest playlist, created on first use along with any items saved before playlists existed. */
+  async getDefaultPlaylist(): Promise<Playlist> {
+    const [existing] = await db.select().from(playlists)
+      .where(eq(playlists.site, this.site))
+      .orderBy(asc(playlists.id))
+      .limit(1);
+    if (existing) return existing;
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(playlists).values({ site: this.site, name: DEFAULT_PLAYLIST_NAME }).returning();
+      const orphans = await tx.select({ id: playlistItems.id }).from(playlistItems)
+        .where(and(eq(playlistItems.site, this.site), isNull(playlistItems.playlistId)))
+        .orderBy(desc(playlistItems.addedAt));
+      for (let position = 0; position < orphans.length; position++) {
+        await tx.update(playlistItems)
+          .set({ playlistId: created.id, position })
+          .where(eq(playlistItems.id, orphans[position].id));
+      }
+      return created;
+    });
+  }
+
+  async createPlaylist(data: InsertPlaylist, ownerId: string | null): Promise<Playlist> {
+    await this.getDefaultPlaylist();
+    const [created] = await db.insert(playlists).values({ ...data, ownerId, site: this.site }).returning();
+    return created;
+  }
+
+  async renamePlaylist(id: number, name: string): Promise<Playlist | undefined> {
+    const [updated] = await db.update(playlists).set({ name }).where(this.playlistMatch(id)).returning();
+    return updated;
+  }
+
+  async deletePlaylist(id: number): Promise<void> {
+    await db.delete(playlists).where(this.playlistMatch(id));
+  }
+
+  async getPlaylistItems(playlistId: number): Promise<PlaylistItem[]> {
+    return db.select().from(playlistItems)
+      .where(this.itemMatch(playlistId))
+      .orderBy(asc(playlistItems.position), asc(playlistItems.id));
+  }
+
+  async getPlaylistItemByVideoId(playlistId: number, videoId: string): Promise<PlaylistItem | undefined> {
+    const [item] = await db.select().from(playlistItems)
+      .where(and(this.itemMatch(playlistId), eq(playlistItems.videoId, videoId)));
+    return item;
+  }
+
+  private async nextPosition(playlistId: number): Promise<number> {
+    const [row] = await db.select({ max: sql<number | null>`max(${playlistItems.position})` })
+      .from(playlistItems)
+      .where(this.itemMatch(playlistId));
+    return row?.max === null || row?.max === undefined ? 0 : Number(row.max) + 1;
+  }
+
+  async addPlaylistItems(playlistId: number, items: InsertPlaylistItem[]): Promise<PlaylistBatchResult> {
+    const existing = new Set((await this.getPlaylistItems(playlistId)).map((item) => item.videoId));
+    const fresh: InsertPlaylistItem[] = [];
+    const skipped: string[] = [];
+    for (const item of items) {
+      if (existing.has(item.videoId)) {
+        skipped.push(item.videoId);
+      } else {
+        existing.add(item.videoId);
+        fresh.push(item);
+      }
+    }
+    if (fresh.length === 0) return { added: [], skipped };
+    const start = await this.nextPosition(playlistId);
+    const added = await db.insert(playlistItems)
+      .values(fresh.map((item, i) => ({ ...item, playlistId, position: start + i, site: this.site })))
+      .returning();
+    return { added, skipped };
+  }
+
+  async removePlaylistItems(playlistId: number, ids: number[]): Promise<void> {
+    await db.delete(playlistItems).where(and(this.itemMatch(playlistId), inArray(playlistItems.id, ids)));
+  }
+
+  /** Rewrites positions to follow `ids`; returns false unless `ids` lists every item exactly once. */
+  async reorderPlaylist(playlistId: number, ids: number[]): Promise<boolean> {
+    const current = await this.getPlaylistItems(playlistId);
+    const wanted = new Set(ids);
+    if (wanted.size !== ids.length || ids.length !== current.length || current.some((item) => !wanted.has(item.id))) {
+      return false;
+    }
+    await db.transaction(async (tx) => {
+      for (let position = 0; position < ids.length; position++) {
+        await tx.update(playlistItems)
+          .set({ position })
+          .where(and(this.itemMatch(playlistId), eq(playlistItems.id, ids[position])));
+      }
+    });
+    return true;
+  }
+
+  /**
+   * Appends the items to the target playlist in their current order. Items whose
+   * video the target already holds are dropped from the source instead.
+   */
+  async movePlaylistItems(playlistId: number, ids: number[], targetPlaylistId: number): Promise<number> {
+    const wanted = new Set(ids);
+    const moving = (await this.getPlaylistItems(playlistId)).filter((item) => wanted.has(item.id));
+    const inTarget = new Set((await this.getPlaylistItems(targetPlaylistId)).map((item) => item.videoId));
+    const start = await this.nextPosition(targetPlaylistId);
+    await db.transaction(async (tx) => {
+      let position = start;
+      for (const item of moving) {
+        if (inTarget.has(item.videoId)) {
+          await tx.delete(playlistItems).where(eq(playlistItems.id, item.id));
+        } else {
+          inTarget.add(item.videoId);
+          await tx.update(playlistItems)
+            .set({ playlistId: targetPlaylistId, position: position++ })
+            .where(eq(playlistItems.id, item.id));
+        }
+      }
+    });
+    return moving.length;
+  }
+
+  private audioQueueMatch(id: number) {
+    return and(eq(audioQueues.site, this.site), eq(audioQueues.id, id));
+  }
+
+  private audioItemMatch(queueId: number) {
+    return and(eq(audioQueueItems.site, this.site), eq(audioQueueItems.queueId, queueId));
+  }
+
+  async listAudioQueues(): Promise<AudioQueueSummary[]> {
+    const itemCount = sql<number>`count(${audioQueueItems.id})`;
+    const rows = await db.select({ queue: audioQueues, itemCount })
+      .from(audioQueues)
+      .leftJoin(audioQueueItems, eq(audioQueueItems.queueId, audioQueues.id))
+      .where(eq(audioQueues.site, this.site))
+      .groupBy(audioQueues.id)
+      .orderBy(asc(audioQueues.id));
+    return rows.map((row) => ({ ...row.queue, itemCount: Number(row.itemCount) }));
+  }
+
+  async getAudioQueue(id: number): Promise<AudioQueue | undefined> {
+    const [queue] = await db.select().from(audioQueues).where(this.audioQueueMatch(id));
+    return queue;
+  }
+
+  async createAudioQueue(data: InsertAudioQueue): Promise<AudioQueue> {
+    const [created] = await db.insert(audioQueues).values({ ...data, site: this.site }).returning();
+    return created;
+  }
+
+  async updateAudioQueue(id: number, data: UpdateAudioQueue): Promise<AudioQueue | undefined> {
+    if (Object.keys(data).length === 0) return this.getAudioQueue(id);
+    const [updated] = await db.update(audioQueues).set(data).where(this.audioQueueMatch(id)).returning();
+    return updated;
+  }
+
+  async deleteAudioQueue(id: number): Promise<void> {
+    await db.delete(audioQueues).where(this.audioQueueMatch(id));
+  }
+
+  async getAudioQueueItems(queueId: number): Promise<AudioQueueItem[]> {
+    return db.select().from(audioQueueItems)
+      .where(this.audioItemMatch(queueId))
+      .orderBy(asc(audioQueueItems.position), asc(audioQueueItems.id));
+  }
+
+  /** Appends the tracks in order; unlike playlists, a queue may hold the same URL more than once. */
+  async addAudioQueueItems(queueId: number, items: InsertAudioQueueItem[]): Promise<AudioQueueItem[]> {
+    const [row] = await db.select({ max: sql<number | null>`max(${audioQueueItems.position})` })
+      .from(audioQueueItems)
+      .where(this.audioItemMatch(queueId));
+    const start = row?.max === null || row?.max === undefined ? 0 : Number(row.max) + 1;
+    return db.insert(audioQueueItems)
+      .values(items.map((item, i) => ({ ...item, queueId, position: start + i, site: this.site })))
+      .returning();
+  }
+
+  async removeAudioQueueItems(queueId: number, ids: number[]): Promise<void> {
+    await db.delete(audioQueueItems).where(and(this.audioItemMatch(queueId), inArray(audioQueueItems.id, ids)));
+  }
+
+  /** Rewrites positions to follow `ids`; returns false unless `ids` lists every track exactly once. */
+  async reorderAudioQueue(queueId: number, ids: number[]): Promise<boolean> {
+    const current = await this.getAudioQueueItems(queueId);
+    const wanted = new Set(ids);
+    if (wanted.size !== ids.length || ids.length !== current.length || current.some((item) => !wanted.has(item.id))) {
+      return false;
+    }
+    await db.transaction(async (tx) => {
+      for (let position = 0; position < ids.length; position++) {
+        await tx.update(audioQueueItems)
+          .set({ position })
+          .where(and(this.audioItemMatch(queueId), eq(audioQueueItems.id, ids[position])));
+      }
+    });
+    return true;
+  }
+
+  private cuePointMatch(id: number) {
+    return and(eq(cuePoints.site, this.site), eq(cuePoints.id, id));
+  }
+
+  async listCuePoints(mediaUrl: string): Promise<CuePoint[]> {
+    return db.select().from(cuePoints)
+      .where(and(eq(cuePoints.site, this.site), eq(cuePoints.mediaUrl, mediaUrl)))
+      .orderBy(asc(cuePoints.startSeconds), asc(cuePoints.id));
+  }
+
+  async getCuePoint(id: number): Promise<CuePoint | undefined> {
+    const [cue] = await db.select().from(cuePoints).where(this.cuePointMatch(id));
+    return cue;
+  }
+
+  async createCuePoint(data: InsertCuePoint): Promise<CuePoint> {
+    const [created] = await db.insert(cuePoints).values({ ...data, site: this.site }).returning();
+    return created;
+  }
+
+  async updateCuePoint(id: number, data: UpdateCuePoint): Promise<CuePoint | undefined> {
+    if (Object.keys(data).length === 0) return this.getCuePoint(id);
+    const [updated] = await db.update(cuePoints).set(data).where(this.cuePointMatch(id)).returning();
+    return updated;
+  }
+
+  async deleteCuePoint(id: number): Promise<void> {
+    await db.delete(cuePoints).where(this.cuePointMatch(id));
+  }
+
+  async getCaptionTrack(mediaUrl: string): Promise<CaptionTrack | undefined> {
+    const [track] = await db.select().from(captionTracks)
+      .where(and(eq(captionTracks.site, this.site), eq(captionTracks.mediaUrl, mediaUrl)));
+    return track;
+  }
+
+  /** Attaches the captions to their media URL, replacing any the track had. */
+  async saveCaptionTrack(data: InsertCaptionTrack): Promise<CaptionTrack> {
+    const [track] = await db.insert(captionTracks).values({ ...data, site: this.site }).onConflictDoUpdate({
+      target: [captionTracks.site, captionTracks.mediaUrl],
+      set: { format: data.format, fileName: data.fileName, content: data.content, cueCount: data.cueCount, updatedAt: new Date() },
+    }).returning();
+    return track;
+  }
+
+  async deleteCaptionTrack(id: number): Promise<void> {
+    await db.delete(captionTracks).where(and(eq(captionTracks.site, this.site), eq(captionTracks.id, id)));
+  }
+
+  private mediaMatch(id: number) {
+    return and(eq(mediaAssets.site, this.site), eq(mediaAssets.id, id));
+  }
+
+  async listMediaAssets(kind?: MediaKind): Promise<MediaAsset[]> {
+    return db.select().from(mediaAssets)
+      .where(and(
+        eq(mediaAssets.site, this.site),
+        kind === undefined ? undefined : eq(mediaAssets.kind, kind),
+      ))
+      .orderBy(desc(mediaAssets.createdAt), desc(mediaAssets.id));
+  }
+
+  async getMediaAsset(id: number): Promise<MediaAsset | undefined> {
+    const [asset] = await db.select().from(mediaAssets).where(this.mediaMatch(id));
+    return asset;
+  }
+
+  async createMediaAsset(data: InsertMediaAsset): Promise<MediaAsset> {
+    const [created] = await db.insert(mediaAssets).values({ ...data, site: this.site }).returning();
+    return created;
+  }
+
+  /** Deletes the row and returns it, so the caller can remove the stored file. */
+  async deleteMediaAsset(id: number): Promise<MediaAsset | undefined> {
+    const [deleted] = await db.delete(mediaAssets).where(this.mediaMatch(id)).returning();
+    return deleted;
+  }
+
+  /** Adds to the day's counters; rows for files deleted since the counts were buffered are dropped. */
+  async recordMediaBandwidth(rows: MediaBandwidthRow[]): Promise<void> {
+    if (rows.length === 0) return;
+    const existing = await db.select({ id: mediaAssets.id }).from(mediaAssets)
+      .where(and(eq(mediaAssets.site, this.site), inArray(mediaAssets.id, rows.map((row) => row.assetId))));
+    const known = new Set(existing.map((asset) => asset.id));
+    const values = rows.filter((row) => known.has(row.assetId)).map((row) => ({ ...row, site: this.site }));
+    if (values.length === 0) return;
+    await db.insert(mediaBandwidth).values(values).onConflictDoUpdate({
+      target: [mediaBandwidth.assetId, mediaBandwidth.day],
+      set: {
+        bytesServed: sql`${mediaBandwidth.bytesServed} + excluded.bytes_served`,
+        requests: sql`${mediaBandwidth.requests} + excluded.requests`,
+        rangeRequests: sql`${mediaBandwidth.rangeRequests} + excluded.range_requests`,
+      },
+    });
+  }
+
+  async getMediaBandwidth(days: number): Promise<MediaBandwidthSummary[]> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const bytesServed = sql<number>`sum(${mediaBandwidth.bytesServed})`;
+    const rows = await db.select({
+      assetId: mediaBandwidth.assetId,
+      bytesServed,
+      requests: sql<number>`sum(${mediaBandwidth.requests})`,
+      rangeRequests: sql<number>`sum(${mediaBandwidth.rangeRequests})`,
+    }).from(mediaBandwidth)
+      .where(and(eq(mediaBandwidth.site, this.site), gte(mediaBandwidth.day, since)))
+      .groupBy(mediaBandwidth.assetId)
+      .orderBy(desc(bytesServed));
+    return rows.map((row) => ({
+      assetId: row.assetId,
+      bytesServed: Number(row.bytesServed),
+      requests: Number(row.requests),
+      rangeRequests: Number(row.rangeRequests),
+    }));
+  }
+
+  async createMediaJobs(assetId: number, outputs: MediaOutput[]): Promise<MediaJob[]> {
+    if (outputs.length === 0) return [];
+    return db.insert(mediaJobs).values(outputs.map((output) => ({ site: this.site, assetId, output }))).returning();
+  }
+
+  async listMediaJobs(assetIds: number[]): Promise<MediaJob[]> {
+    if (assetIds.length === 0) return [];
+    return db.select().from(mediaJobs)
+      .where(and(eq(mediaJobs.site, this.site), inArray(mediaJobs.assetId, assetIds)))
+      .orderBy(asc(mediaJobs.id));
+  }
+
+  async getMediaJob(assetId: number, output: MediaOutput): Promise<MediaJob | undefined> {
+    const [job] = await db.select().from(mediaJobs)
+      .where(and(eq(mediaJobs.site, this.site), eq(mediaJobs.assetId, assetId), eq(mediaJobs.output, output)));
+    return job;
+  }
+
+  /** Queues a failed job again with a fresh set of attempts; undefined when it is not failed. */
+  async retryMediaJob(assetId: number, jobId: number): Promise<MediaJob | undefined> {
+    const [job] = await db.update(mediaJobs)
+      .set({ status: "queued", attempts: 0, error: null, runAfter: new Date(), startedAt: null, finishedAt: null })
+      .where(and(eq(mediaJobs.site, this.site), eq(mediaJobs.assetId, assetId), eq(mediaJobs.id, jobId), eq(mediaJobs.status, "failed")))
+      .returning();
+    return job;
+  }
+
+  private stemJobMatch(id: number) {
+    return and(eq(stemJobs.site, this.site), eq(stemJobs.id, id));
+  }
+
+  async findStemJob(sourceSha256: string, model: StemModel): Promise<StemJob | undefined> {
+    const [job] = await db.select().from(stemJobs)
+      .where(and(eq(stemJobs.site, this.site), eq(stemJobs.sourceSha256, sourceSha256), eq(stemJobs.model, model)));
+    return job;
+  }
+
+  async findStemJobForUrl(sourceUrl: string): Promise<StemJob | undefined> {
+    const [job] = await db.select().from(stemJobs)
+      .where(and(eq(stemJobs.site, this.site), eq(stemJobs.sourceUrl, sourceUrl)));
+    return job;
+  }
+
+  async getStemJob(id: number): Promise<StemJob | undefined> {
+    const [job] = await db.select().from(stemJobs).where(this.stemJobMatch(id));
+    return job;
+  }
+
+  /** Undefined when the track already has a job for this model, e.g. from a concurrent request. */
+  async createStemJob(data: InsertStemJob): Promise<StemJob | undefined> {
+    const [job] = await db.insert(stemJobs).values({ ...data, site: this.site }).onConflictDoNothing().returning();
+    return job;
+  }
+
+  /** Queues a failed job again with a fresh set of attempts; undefined when it is not failed. */
+  async retryStemJob(id: number): Promise<StemJob | undefined> {
+    const [job] = await db.update(stemJobs)
+      .set({ status: "queued", progress: 0, attempts: 0, error: null, runAfter: new Date(), startedAt: null, finishedAt: null })
+      .where(and(this.stemJobMatch(id), eq(stemJobs.status, "failed")))
+      .returning();
+    return job;
+  }
+
+  /** Points `sourceUrl` at this job, unlinking whichever job had it, so a URL always has one set of stems. */
+  async linkStemJobSource(id: number, sourceUrl: string): Promise<StemJob | undefined> {
+    return db.transaction(async (tx) => {
+      await tx.update(stemJobs)
+        .set({ sourceUrl: null })
+        .where(and(eq(stemJobs.site, this.site), eq(stemJobs.sourceUrl, sourceUrl)));
+      const [job] = await tx.update(stemJobs).set({ sourceUrl }).where(this.stemJobMatch(id)).returning();
+      return job;
+    });
+  }
+
+  private routeMatch(route: string, profile?: string) {
+    return and(
+      eq(routeSettings.site, this.site),
+      eq(routeSettings.route, route),
+      profile === undefined ? undefined : eq(routeSettings.profile, profile),
+    );
+  }
+
+  private versionMatch(route: string, profile?: string) {
+    return and(
+      eq(routeSettingsVersions.site, this.site),
+      eq(routeSettingsVersions.route, route),
+      profile === undefined ? undefined : eq(routeSettingsVersions.profile, profile),
+    );
+  }
+
+  async saveRouteSettings(data: InsertRouteSettings, note?: string): Promise<RouteSettings> {
+    return this.writeRouteSettings(db, data, note);
+  }
+
+  /** Upserts one width of a profile; a new row keeps `minWidth`/`maxWidth` from `data`, an existing one keeps its own. */
+  private async writeRouteSettings(executor: DbExecutor, data: InsertRouteSettings, note?: string): Promise<RouteSettings> {
+    const profile = data.profile ?? DEFAULT_PROFILE;
+    const [result] = await executor.insert(routeSettings)
+      .values({ ...data, profile, site: this.site })
+      .onConflictDoUpdate({
+        target: [routeSettings.site, routeSettings.route, routeSettings.profile, routeSettings.width],
+        set: { settings: data.settings, globalUrls: data.globalUrls, updatedAt: new Date() },
+      })
+      .returning();
+    await executor.update(routeSettings)
+      .set({ globalUrls: data.globalUrls })
+      .where(this.routeMatch(data.route, profile));
+    await this.recordVersion(executor, result, note);
+    return result;
+  }
+
+  private async recordVersion(executor: DbExecutor, row: RouteSettings, note?: string): Promise<void> {
+    const [{ latest }] = await executor
+      .select({ latest: sql<number>`coalesce(max(${routeSettingsVersions.version}), 0)` })
+      .from(routeSettingsVersions)
+      .where(and(this.versionMatch(row.route, row.profile), eq(routeSettingsVersions.width, row.width)));
+    await executor.insert(routeSettingsVersions).values({
+      site: this.site,
+      route: row.route,
+      profile: row.profile,
+      width: row.width,
+      version: Number(latest) + 1,
+      settings: row.settings,
+      globalUrls: row.globalUrls,
+      note: note ?? null,
+    });
+  }
+
+  async getRouteSettings(route: string, width: number, profile: string = DEFAULT_PROFILE): Promise<RouteSettings | undefined> {
+    const all = await db.select().from(routeSettings).where(this.routeMatch(route, profile));
+    const match = resolveBreakpoint(all, width);
+    return match && withCurrentSchema(match);
+  }
+
+  async getAllRouteSettings(route: string, profile: string = DEFAULT_PROFILE): Promise<RouteSettings[]> {
+    const rows = await db.select().from(routeSettings)
+      .where(this.routeMatch(route, profile))
+      .orderBy(asc(routeSettings.width));
+    return rows.map(withCurrentSchema);
+  }
+
+  async updateRouteBreakpoint(route: string, profile: string, width: number, range: BreakpointRangeInput): Promise<RouteSettings | undefined> {
+    return this.writeRouteBreakpoint(db, route, profile, width, range);
+  }
+
+  private async writeRouteBreakpoint(executor: DbExecutor, route: string, profile: string, width: number, range: BreakpointRangeInput): Promise<RouteSettings | undefined> {
+    const [updated] = await executor.update(routeSettings)
+      .set({ minWidth: range.minWidth, maxWidth: range.maxWidth, updatedAt: new Date() })
+      .where(and(this.routeMatch(route, profile), eq(routeSettings.width, width)))
+      .returning();
+    return updated;
+  }
+
+  /** Replaces the profile's layouts with the bundle's; a failure part way leaves the profile as it was. */
+  async importRouteProfile(route: string, profile: string, bundle: ConfigBundle): Promise<RouteSettings[]> {
+    const incoming = new Set(bundle.layouts.map((layout) => layout.width));
+    await db.transaction(async (tx) => {
+      await tx.delete(routeSettings).where(and(
+        this.routeMatch(route, profile),
+        sql`${routeSettings.width} not in (${sql.join(Array.from(incoming).map((w) => sql`${w}`), sql`, `)})`,
+      ));
+      for (const layout of bundle.layouts) {
+        await this.writeRouteSettings(
+          tx,
+          {
+            route,
+            profile,
+            width: layout.width,
+            settings: layout.settings as InsertRouteSettings["settings"],
+            globalUrls: bundle.globalUrls as InsertRouteSettings["globalUrls"],
+          },
+          `Imported from ${bundle.profile} (${bundle.exportedAt})`,
+        );
+        await this.writeRouteBreakpoint(tx, route, profile, layout.width, { minWidth: layout.minWidth, maxWidth: layout.maxWidth });
+      }
+    });
+    return this.getAllRouteSettings(route, profile);
+  }
+
+  async listRouteProfiles(route: string): Promise<RouteProfileSummary[]> {
+    const rows = await db.select().from(routeSettings)
+      .where(this.routeMatch(route))
+      .orderBy(asc(routeSettings.profile), asc(routeSettings.width));
+    const counts = await db
+      .select({ profile: routeSettingsVersions.profile, count: sql<number>`count(*)` })
+      .from(routeSettingsVersions)
+      .where(this.versionMatch(route))
+      .groupBy(routeSettingsVersions.profile);
+    const versionCounts = new Map(counts.map((c) => [c.profile, Number(c.count)]));
+    const summaries = new Map<string, RouteProfileSummary>();
+    for (const row of rows) {
+      const summary = summaries.get(row.profile);
+      if (summary) {
+        summary.widths.push(row.width);
+        if (row.updatedAt.toISOString() > summary.updatedAt) summary.updatedAt = row.updatedAt.toISOString();
+      } else {
+        summaries.set(row.profile, {
+          name: row.profile,
+          widths: [row.width],
+          versionCount: versionCounts.get(row.profile) ?? 0,
+          updatedAt: row.updatedAt.toISOString(),
+        });
+      }
+    }
+    return Array.from(summaries.values());
+  }
+
+  /**
+   * Holds a per-route lock until the transaction ends, so two renames or
+   * duplicates cannot both find a name free and then write into it.
+   */
+  private async lockRouteProfiles(tx: DbExecutor, route: string): Promise<void> {
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`route-profiles:${this.site}:${route}`}))`);
+  }
+
+  private async profileChangeBlocker(tx: DbExecutor, route: string, from: string, to: string): Promise<ProfileChangeResult | null> {
+    const rows = await tx.select({ profile: routeSettings.profile }).from(routeSettings)
+      .where(and(this.routeMatch(route), inArray(routeSettings.profile, [from, to])));
+    if (!rows.some((row) => row.profile === from)) return "not_found";
+    if (rows.some((row) => row.profile === to)) return "exists";
+    return null;
+  }
+
+  /** Runs a profile change under the route lock; a target created by a plain save in the meantime still ends as "exists". */
+  private async changeRouteProfile(route: string, from: string, to: string, change: (tx: DbExecutor) => Promise<void>): Promise<ProfileChangeResult> {
+    try {
+      return await db.transaction(async (tx) => {
+        await this.lockRouteProfiles(tx, route);
+        const blocker = await this.profileChangeBlocker(tx, route, from, to);
+        if (blocker) return blocker;
+        await change(tx);
+        return "done";
+      });
+    } catch (err) {
+      if (isUniqueViolation(err)) return "exists";
+      throw err;
+    }
+  }
+
+  async renameRouteProfile(route: string, from: string, to: string): Promise<ProfileChangeResult> {
+    return this.changeRouteProfile(route, from, to, async (tx) => {
+      await tx.update(routeSettings)
+        .set({ profile: to })
+        .where(this.routeMatch(route, from));
+      await tx.update(routeSettingsVersions)
+        .set({ profile: to })
+        .where(this.versionMatch(route, from));
+      await tx.update(settingsSchedules)
+        .set({ profile: to })
+        .where(and(this.scheduleMatch(route), eq(settingsSchedules.profile, from)));
+      await tx.update(experiments)
+        .set({ profile: to, updatedAt: new Date() })
+        .where(this.profileExperimentsMatch(route, from));
+      // A running experiment left under the old name would stop assigning variants; roll back rather than strand it.
+      const [stranded] = await tx.select({ id: experiments.id }).from(experiments)
+        .where(this.profileExperimentsMatch(route, from))
+        .limit(1);
+      if (stranded) throw new Error(`Experiment ${stranded.id} was not moved from profile ${from} to ${to}`);
+    });
+  }
+
+  async duplicateRouteProfile(route: string, from: string, to: string): Promise<ProfileChangeResult> {
+    return this.changeRouteProfile(route, from, to, async (tx) => {
+      const rows = await tx.select().from(routeSettings)
+        .where(this.routeMatch(route, from))
+        .orderBy(asc(routeSettings.width));
+      for (const row of rows.map(withCurrentSchema)) {
+        await this.writeRouteSettings(
+          tx,
+          {
+            route,
+            profile: to,
+            width: row.width,
+            minWidth: row.minWidth,
+            maxWidth: row.maxWidth,
+            settings: row.settings as InsertRouteSettings["settings"],
+            globalUrls: row.globalUrls as InsertRouteSettings["globalUrls"],
+          },
+          `Duplicated from ${from}`,
+        );
+      }
+    });
+  }
+
+  async getRouteSettingsVersions(route: string, profile: string): Promise<RouteSettingsVersion[]> {
+    return db.select().from(routeSettingsVersions)
+      .where(this.versionMatch(route, profile))
+      .orderBy(desc(routeSettingsVersions.createdAt), desc(routeSettingsVersions.id));
+  }
+
+  async rollbackRouteSettings(route: string, profile: string, versionId: number): Promise<RouteSettings | undefined> {
+    const [version] = await db.select().from(routeSettingsVersions)
+      .where(and(this.versionMatch(route, profile), eq(routeSettingsVersions.id, versionId)));
+    if (!version) return undefined;
+    return this.saveRouteSettings(
+      { route, profile, width: version.width, settings: migrateSettings(version.settings) as InsertRouteSettings["settings"], globalUrls: version.globalUrls as InsertRouteSettings["globalUrls"] },
+      `Restored v${version.version}`,
+    );
+  }
+
+  async recordAnalyticsEvents(events: InsertAnalyticsEvent[]): Promise<void> {
+    await db.insert(analyticsEvents).values(events.map((event) => ({ ...event, site: this.site })));
+  }
+
+  async getAnalyticsSummary(route: string, profile: string | undefined, days: number): Promise<AnalyticsSummary> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const match = and(
+      eq(analyticsEvents.site, this.site),
+      eq(analyticsEvents.route, route),
+      profile === undefined ? undefined : eq(analyticsEvents.profile, profile),
+      gte(analyticsEvents.createdAt, since),
+    );
+    // watch_time rows carry seconds in `value`; every other event counts once.
+    const amount = sql<number>`sum(${analyticsEvents.value})`;
+    const day = sql<string>`to_char(date_trunc('day', ${analyticsEvents.createdAt}), 'YYYY-MM-DD')`;
+
+    const [byDay, byProfile, [{ sessions }]] = await Promise.all([
+      db.select({ day, type: analyticsEvents.type, amount }).from(analyticsEvents)
+        .where(match).groupBy(day, analyticsEvents.type).orderBy(day),
+      db.select({ profile: analyticsEvents.profile, type: analyticsEvents.type, amount }).from(analyticsEvents)
+        .where(match).groupBy(analyticsEvents.profile, analyticsEvents.type).orderBy(analyticsEvents.profile),
+      db.select({ sessions: sql<number>`count(distinct ${analyticsEvents.sessionId})` }).from(analyticsEvents).where(match),
+    ]);
+
+    const totals = emptyAnalyticsCounts();
+    const daily = new Map<string, AnalyticsSummary["daily"][number]>();
+    for (const row of byDay) {
+      if (!daily.has(row.day)) daily.set(row.day, { date: row.day, ...emptyAnalyticsCounts() });
+      addCount(daily.get(row.day)!, row.type, row.amount);
+      addCount(totals, row.type, row.amount);
+    }
+    const profiles = new Map<string, AnalyticsSummary["profiles"][number]>();
+    for (const row of byProfile) {
+      if (!profiles.has(row.profile)) profiles.set(row.profile, { profile: row.profile, ...emptyAnalyticsCounts() });
+      addCount(profiles.get(row.profile)!, row.type, row.amount);
+    }
+
+    return {
+      route,
+      profile: profile ?? null,
+      days,
+      totals,
+      sessions: Number(sessions),
+      daily: Array.from(daily.values()),
+      profiles: Array.from(profiles.values()),
+    };
+  }
+
+  private experimentMatch(id: number) {
+    return and(eq(experiments.site, this.site), eq(experiments.id, id));
+  }
+
+  private profileExperimentsMatch(route: string, profile: string) {
+    return and(eq(experiments.site, this.site), eq(experiments.route, route), eq(experiments.profile, profile));
+  }
+
+  async listExperiments(route: string, profile?: string): Promise<Experiment[]> {
+    return db.select().from(experiments)
+      .where(and(
+        eq(experiments.site, this.site),
+        eq(experiments.route, route),
+        profile === undefined ? undefined : eq(experiments.profile, profile),
+      ))
+      .orderBy(desc(experiments.createdAt));
+  }
+
+  async getExperiment(id: number): Promise<Experiment | undefined> {
+    const [experiment] = await db.select().from(experiments).where(this.experimentMatch(id));
+    return experiment;
+  }
+
+  async getRunningExperiment(route: string, profile: string): Promise<Experiment | undefined> {
+    const [experiment] = await db.select().from(experiments)
+      .where(and(
+        eq(experiments.site, this.site),
+        eq(experiments.route, route),
+        eq(experiments.profile, profile),
+        eq(experiments.status, "running"),
+      ))
+      .orderBy(desc(experiments.updatedAt))
+      .limit(1);
+    return experiment;
+  }
+
+  async createExperiment(data: InsertExperiment): Promise<Experiment> {
+    const [created] = await db.insert(experiments).values({ ...data, site: this.site }).returning();
+    return created;
+  }
+
+  async updateExperiment(id: number, data: UpdateExperiment): Promise<Experiment | undefined> {
+    const [updated] = await db.update(experiments)
+      .set({ ...data, updatedAt: new Date() })
+      .where(this.experimentMatch(id))
+      .returning();
+    return updated;
+  }
+
+  async deleteExperiment(id: number): Promise<void> {
+    await db.delete(experiments).where(this.experimentMatch(id));
+  }
+
+  async getExperimentCounts(id: number): Promise<Record<string, VariantCounts>> {
+    const sessions = sql<number>`count(distinct ${analyticsEvents.sessionId})`;
+    const rows = await db.select({ variant: analyticsEvents.variant, type: analyticsEvents.type, sessions })
+      .from(analyticsEvents)
+      .where(and(
+        eq(analyticsEvents.site, this.site),
+        eq(analyticsEvents.experimentId, id),
+        inArray(analyticsEvents.type, ["impression", "visit_open", "visit_through"]),
+      ))
+      .groupBy(analyticsEvents.variant, analyticsEvents.type);
+    const counts: Record<string, VariantCounts> = {};
+    for (const row of rows) {
+      if (!row.variant) continue;
+      const entry = counts[row.variant] ??= { impressions: 0, clicks: 0, conversions: 0 };
+      if (row.type === "impression") entry.impressions = Number(row.sessions);
+      else if (row.type === "visit_open") entry.clicks = Number(row.sessions);
+      else entry.conversions = Number(row.sessions);
+    }
+    return counts;
+  }
+
+  private scheduleMatch(route: string) {
+    return and(eq(settingsSchedules.site, this.site), eq(settingsSchedules.route, route));
+  }
+
+  async listSchedules(route: string): Promise<SettingsSchedule[]> {
+    return db.select().from(settingsSchedules)
+      .where(this.scheduleMatch(route))
+      .orderBy(asc(settingsSchedules.startsAt));
+  }
+
+  async createSchedule(route: string, data: InsertSettingsSchedule): Promise<SettingsSchedule> {
+    const [created] = await db.insert(settingsSchedules).values({ ...data, route, site: this.site }).returning();
+    return created;
+  }
+
+  async deleteSchedule(route: string, id: number): Promise<void> {
+    await db.delete(settingsSchedules).where(and(this.scheduleMatch(route), eq(settingsSchedules.id, id)));
+  }
 }
 
 export class DatabaseStorage implements IStorage {
@@ -38,61 +928,151 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async getPlaylistItems(): Promise<PlaylistItem[]> {
-    return db.select().from(playlistItems).orderBy(desc(playlistItems.addedAt));
+  async countUsers(): Promise<number> {
+    const [{ count }] = await db.select({ count: sql<number>`count(*)` }).from(users);
+    return Number(count);
+  }
+
+  async listUsers(): Promise<User[]> {
+    return db.select().from(users).orderBy(asc(users.username));
+  }
+
+  async updateUserRole(id: string, role: string): Promise<User | undefined> {
+    const [user] = await db.update(users).set({ role }).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async listSites(): Promise<Site[]> {
+    return db.select().from(sites).orderBy(asc(sites.slug));
+  }
+
+  async getSite(slug: string): Promise<Site | undefined> {
+    const [site] = await db.select().from(sites).where(eq(sites.slug, slug));
+    return site;
   }
 
-  async addPlaylistItem(item: InsertPlaylistItem): Promise<PlaylistItem> {
-    const [created] = await db.insert(playlistItems).values(item).returning();
+  async createSite(site: InsertSite): Promise<Site> {
+    const [created] = await db.insert(sites).values(site).returning();
     return created;
   }
 
-  async removePlaylistItem(id: number): Promise<void> {
-    await db.delete(playlistItems).where(eq(playlistItems.id, id));
+  async updateSite(slug: string, data: Partial<Omit<InsertSite, "slug">>): Promise<Site | undefined> {
+    const [updated] = await db.update(sites).set(data).where(eq(sites.slug, slug)).returning();
+    return updated;
   }
 
-  async getPlaylistItemByVideoId(videoId: string): Promise<PlaylistItem | undefined> {
-    const [item] = await db.select().from(playlistItems).where(eq(playlistItems.videoId, videoId));
-    return item;
+  async listSiteMembers(site: string): Promise<User[]> {
+    const rows = await db.select({ user: users }).from(siteMembers)
+      .innerJoin(users, eq(siteMembers.userId, users.id))
+      .where(eq(siteMembers.site, site))
+      .orderBy(asc(users.username));
+    return rows.map((row) => row.user);
   }
 
-  async saveRouteSettings(data: InsertRouteSettings): Promise<RouteSettings> {
-    const existing = await db.select().from(routeSettings)
-      .where(and(eq(routeSettings.route, data.route), eq(routeSettings.width, data.width)));
-    let result: RouteSettings;
-    if (existing.length > 0) {
-      const [updated] = await db.update(routeSettings)
-        .set({ settings: data.settings, globalUrls: data.globalUrls })
-        .where(and(eq(routeSettings.route, data.route), eq(routeSettings.width, data.width)))
-        .returning();
-      result = updated;
-    } else {
-      const [created] = await db.insert(routeSettings).values(data).returning();
-      result = created;
-    }
-    await db.update(routeSettings)
-      .set({ globalUrls: data.globalUrls })
-      .where(and(eq(routeSettings.route, data.route)));
-    return result;
+  async listUserSites(userId: string): Promise<string[]> {
+    const rows = await db.select({ site: siteMembers.site }).from(siteMembers)
+      .where(eq(siteMembers.userId, userId))
+      .orderBy(asc(siteMembers.site));
+    return rows.map((row) => row.site);
   }
 
-  async getRouteSettings(route: string, width: number): Promise<RouteSettings | undefined> {
-    const all = await db.select().from(routeSettings).where(eq(routeSettings.route, route));
-    if (all.length === 0) return undefined;
-    let closest = all[0];
-    let minDiff = Math.abs(all[0].width - width);
-    for (const row of all) {
-      const diff = Math.abs(row.width - width);
-      if (diff < minDiff) {
-        minDiff = diff;
-        closest = row;
-      }
-    }
-    return closest;
+  async isSiteMember(site: string, userId: string): Promise<boolean> {
+    const [row] = await db.select({ id: siteMembers.id }).from(siteMembers)
+      .where(and(eq(siteMembers.site, site), eq(siteMembers.userId, userId)));
+    return row !== undefined;
+  }
+
+  async addSiteMember(site: string, userId: string): Promise<void> {
+    await db.insert(siteMembers).values({ site, userId }).onConflictDoNothing();
+  }
+
+  async removeSiteMember(site: string, userId: string): Promise<void> {
+    await db.delete(siteMembers).where(and(eq(siteMembers.site, site), eq(siteMembers.userId, userId)));
+  }
+
+  forSite(site: string): ISiteStorage {
+    return new SiteStorage(site);
+  }
+
+  /** Marks the next due job as running and returns it; SKIP LOCKED keeps two workers from taking the same job. */
+  async claimMediaJob(): Promise<MediaJob | undefined> {
+    const next = db.select({ id: mediaJobs.id }).from(mediaJobs)
+      .where(and(eq(mediaJobs.status, "queued"), lte(mediaJobs.runAfter, new Date())))
+      .orderBy(asc(mediaJobs.runAfter), asc(mediaJobs.id))
+      .limit(1)
+      .for("update", { skipLocked: true });
+    const [job] = await db.update(mediaJobs)
+      .set({ status: "running", startedAt: new Date(), attempts: sql`${mediaJobs.attempts} + 1` })
+      .where(inArray(mediaJobs.id, next))
+      .returning();
+    return job;
+  }
+
+  /** False when the job is gone because its upload was deleted while it ran. */
+  async completeMediaJob(id: number, result: MediaJobResult): Promise<boolean> {
+    const [job] = await db.update(mediaJobs)
+      .set({ ...result, status: "done", error: null, finishedAt: new Date() })
+      .where(eq(mediaJobs.id, id))
+      .returning({ id: mediaJobs.id });
+    return job !== undefined;
+  }
+
+  /** Queues the job again at `retryAt`, or leaves it failed when that is null. */
+  async failMediaJob(id: number, error: string, retryAt: Date | null): Promise<void> {
+    await db.update(mediaJobs)
+      .set(retryAt
+        ? { status: "queued", error, runAfter: retryAt }
+        : { status: "failed", error, finishedAt: new Date() })
+      .where(eq(mediaJobs.id, id));
+  }
+
+  /** Jobs still marked running at startup were cut off by a restart; they go back in the queue. */
+  async requeueRunningMediaJobs(): Promise<number> {
+    const jobs = await db.update(mediaJobs)
+      .set({ status: "queued", runAfter: new Date() })
+      .where(eq(mediaJobs.status, "running"))
+      .returning({ id: mediaJobs.id });
+    return jobs.length;
+  }
+
+  async claimStemJob(): Promise<StemJob | undefined> {
+    const next = db.select({ id: stemJobs.id }).from(stemJobs)
+      .where(and(eq(stemJobs.status, "queued"), lte(stemJobs.runAfter, new Date())))
+      .orderBy(asc(stemJobs.runAfter), asc(stemJobs.id))
+      .limit(1)
+      .for("update", { skipLocked: true });
+    const [job] = await db.update(stemJobs)
+      .set({ status: "running", progress: 0, startedAt: new Date(), attempts: sql`${stemJobs.attempts} + 1` })
+      .where(inArray(stemJobs.id, next))
+      .returning();
+    return job;
+  }
+
+  async setStemJobProgress(id: number, progress: number): Promise<void> {
+    await db.update(stemJobs).set({ progress }).where(and(eq(stemJobs.id, id), eq(stemJobs.status, "running")));
+  }
+
+  async completeStemJob(id: number, stems: StemName[]): Promise<void> {
+    await db.update(stemJobs)
+      .set({ stems, status: "done", progress: 1, error: null, finishedAt: new Date() })
+      .where(eq(stemJobs.id, id));
+  }
+
+  /** Queues the job again at `retryAt`, or leaves it failed when that is null. */
+  async failStemJob(id: number, error: string, retryAt: Date | null): Promise<void> {
+    await db.update(stemJobs)
+      .set(retryAt
+        ? { status: "queued", error, runAfter: retryAt }
+        : { status: "failed", error, finishedAt: new Date() })
+      .where(eq(stemJobs.id, id));
   }
 
-  async getAllRouteSettings(route: string): Promise<RouteSettings[]> {
-    return db.select().from(routeSettings).where(eq(routeSettings.route, route)).orderBy(asc(routeSettings.width));
+  async requeueRunningStemJobs(): Promise<number> {
+    const jobs = await db.update(stemJobs)
+      .set({ status: "queued", runAfter: new Date() })
+      .where(eq(stemJobs.status, "running"))
+      .returning({ id: stemJobs.id });
+    return jobs.length;
   }
 }
 
@@ -0,0 +1,61 @@
+export interface BreakpointRange {
+  width: number;
+  minWidth: number | null;
+  maxWidth: number | null;
+}
+
+export function hasRange(bp: BreakpointRange): boolean {
+  return bp.minWidth !== null || bp.maxWidth !== null;
+}
+
+export function rangeContains(bp: BreakpointRange, width: number): boolean {
+  if (bp.minWidth !== null && width < bp.minWidth) return false;
+  if (bp.maxWidth !== null && width > bp.maxWidth) return false;
+  return true;
+}
+
+export function rangesOverlap(a: BreakpointRange, b: BreakpointRange): boolean {
+  if (!hasRange(a) || !hasRange(b)) return false;
+  const aMin = a.minWidth ?? -Infinity;
+  const aMax = a.maxWidth ?? Infinity;
+  const bMin = b.minWidth ?? -Infinity;
+  const bMax = b.maxWidth ?? Infinity;
+  return aMin <= bMax && bMin <= aMax;
+}
+
+/** Clamps a width into the layout's range, used to preview a layout at a width it will actually match. */
+export function previewWidth(bp: BreakpointRange): number {
+  let width = bp.width;
+  if (bp.minWidth !== null) width = Math.max(width, bp.minWidth);
+  if (bp.maxWidth !== null) width = Math.min(width, bp.maxWidth);
+  return width;
+}
+
+export function formatRange(bp: BreakpointRange): string {
+  if (!hasRange(bp)) return "closest match";
+  if (bp.minWidth === null) return `up to ${bp.maxWidth}px`;
+  if (bp.maxWidth === null) return `${bp.minWidth}px and up`;
+  return `${bp.minWidth}–${bp.maxWidth}px`;
+}
+
+/**
+ * Picks the layout for a viewport width. A layout whose explicit min/max range
+ * contains the width wins; otherwise the saved width nearest to the viewport is
+ * used, preferring layouts without a range since those have opted into proximity.
+ */
+export function resolveBreakpoint<T extends BreakpointRange>(rows: T[], width: number): T | undefined {
+  if (rows.length === 0) return undefined;
+  const ranged = rows.filter((row) => hasRange(row) && rangeContains(row, width));
+  const unranged = rows.filter((row) => !hasRange(row));
+  const pool = ranged.length > 0 ? ranged : unranged.length > 0 ? unranged : rows;
+  let closest = pool[0];
+  let minDiff = Math.abs(pool[0].width - width);
+  for (const row of pool) {
+    const diff = Math.abs(row.width - width);
+    if (diff < minDiff) {
+      minDiff = diff;
+      closest = row;
+    }
+  }
+  return closest;
+}
@@ -0,0 +1,142 @@
+/**
+ * Caption files the players can show over the media: WebVTT subtitles and
+ * LRC lyrics. Both are parsed into one list of timed lines, sorted by start,
+ * so the overlay only has to find the line at the current time.
+ */
+
+export const CAPTION_FORMATS = ["vtt", "lrc"] as const;
+export type CaptionFormat = (typeof CAPTION_FORMATS)[number];
+
+export interface CaptionCue {
+  start: number;
+  /** Infinity for a last LRC line, which has nothing after it to end it. */
+  end: number;
+  /** One or more lines, without markup. */
+  text: string;
+}
+
+/** A WebVTT timestamp; hours are optional. */
+const VTT_TIME = /(?:(\d+):)?(\d{2}):(\d{2})[.,](\d{3})/;
+const VTT_TIMING = new RegExp(`^\\s*${VTT_TIME.source}\\s+-->\\s+${VTT_TIME.source}`);
+/** `[mm:ss]`, `[mm:ss.xx]` or `[mm:ss.xxx]` at the start of an LRC line. */
+const LRC_TIME = /^\[(\d+):(\d{2})(?:[.:](\d{1,3}))?\]/;
+const LRC_OFFSET = /^\[offset:\s*([+-]?\d+)\s*\]/i;
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " ", lrm: "", rlm: "" };
+
+/** Reads the format from the file's extension, else from its first line. */
+export function detectCaptionFormat(fileName: string, content: string): CaptionFormat | null {
+  const ext = /\.([a-z]+)$/i.exec(fileName)?.[1]?.toLowerCase();
+  if (ext === "vtt" || ext === "lrc") return ext;
+  if (/^\uFEFF?WEBVTT/.test(content)) return "vtt";
+  return content.split(/\r?\n/).some((line) => LRC_TIME.test(line.trim())) ? "lrc" : null;
+}
+
+export function parseCaptions(format: CaptionFormat, content: string): CaptionCue[] {
+  const lines = content.replace(/^\uFEFF/, "").split(/\r\n|\r|\n/);
+  return format === "vtt" ? parseVtt(lines) : parseLrc(lines);
+}
+
+/** For each parsed cue list, the latest end among every cue up to and including each index. */
+const latestEndsCache = new WeakMap<CaptionCue[], number[]>();
+
+function latestEnds(cues: CaptionCue[]): number[] {
+  let ends = latestEndsCache.get(cues);
+  if (!ends) {
+    ends = [];
+    let latest = -Infinity;
+    for (const cue of cues) {
+      latest = Math.max(latest, cue.end);
+      ends.push(latest);
+    }
+    latestEndsCache.set(cues, ends);
+  }
+  return ends;
+}
+
+/** The cue showing at `time`; with overlapping cues, the one that started last. */
+export function activeCaption(cues: CaptionCue[], time: number): CaptionCue | undefined {
+  let low = 0;
+  let high = cues.length;
+  // First cue starting after `time`; the candidates are all before it.
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (cues[mid].start <= time) low = mid + 1;
+    else high = mid;
+  }
+  const ends = latestEnds(cues);
+  // Once nothing up to `index` ends after `time`, no earlier cue can still be showing, however long it is.
+  for (let index = low - 1; index >= 0 && time < ends[index]; index--) {
+    if (time < cues[index].end) return cues[index];
+  }
+  return undefined;
+}
+
+function vttSeconds(hours: string | undefined, minutes: string, seconds: string, millis: string): number {
+  return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(millis) / 1000;
+}
+
+/** Drops voice, class and timestamp tags and decodes the entities WebVTT allows. */
+function plainText(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, "")
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, name: string) => {
+      if (name[0] === "#") {
+        const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+        // Past U+10FFFF there is no character, and fromCodePoint would throw.
+        return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+      }
+      return ENTITIES[name.toLowerCase()] ?? match;
+    })
+    .trim();
+}
+
+function parseVtt(lines: string[]): CaptionCue[] {
+  const cues: CaptionCue[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    // Cue identifiers, NOTE, STYLE and REGION blocks never hold a timing line, so only timings start a cue.
+    const timing = VTT_TIMING.exec(lines[index]);
+    index++;
+    if (!timing) continue;
+    const text: string[] = [];
+    while (index < lines.length && lines[index].trim() !== "") text.push(lines[index++]);
+    const start = vttSeconds(timing[1], timing[2], timing[3], timing[4]);
+    const end = vttSeconds(timing[5], timing[6], timing[7], timing[8]);
+    const body = plainText(text.join("\n"));
+    if (body && end > start) cues.push({ start, end, text: body });
+  }
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+function parseLrc(lines: string[]): CaptionCue[] {
+  let offset = 0;
+  const stamped: Array<{ start: number; text: string }> = [];
+  for (const raw of lines) {
+    let line = raw.trim();
+    const offsetTag = LRC_OFFSET.exec(line);
+    // A positive offset makes the lyrics come sooner.
+    if (offsetTag) offset = Number(offsetTag[1]) / 1000;
+    const starts: number[] = [];
+    let time: RegExpExecArray | null;
+    while ((time = LRC_TIME.exec(line))) {
+      const fraction = time[3] ? Number(time[3]) / 10 ** time[3].length : 0;
+      starts.push(Number(time[1]) * 60 + Number(time[2]) + fraction);
+      line = line.slice(time[0].length);
+    }
+    // Word timings from enhanced LRC (`<mm:ss.xx>`) are dropped with the other markup.
+    const text = plainText(line);
+    for (const start of starts) stamped.push({ start, text });
+  }
+  stamped.sort((a, b) => a.start - b.start);
+
+  const cues: CaptionCue[] = [];
+  for (let index = 0; index < stamped.length; index++) {
+    const { start, text } = stamped[index];
+    // Blank lines only end the line before them, e.g. for an instrumental break.
+    if (!text) continue;
+    const next = stamped[index + 1];
+    cues.push({ start: Math.max(0, start - offset), end: next ? Math.max(0, next.start - offset) : Infinity, text });
+  }
+  return cues.filter((cue) => cue.end > cue.start);
+}
@@ -0,0 +1,105 @@
+import { migrateSettings, SETTINGS_SCHEMA_VERSION, type ExperimentVariant, type VariantCounts, type VariantResult } from "./schema";
+
+/** Significance level used for the "significant" readout. */
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+/** FNV-1a, used to spread visitors over variants without storing anything on the server. */
+function hash(input: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Picks a variant for a visitor in proportion to the variant weights. The same
+ * visitor always gets the same variant as long as the weights don't change.
+ */
+export function assignVariant<V extends Pick<ExperimentVariant, "key" | "weight">>(
+  visitorId: string,
+  experimentId: number,
+  variants: V[],
+): V | undefined {
+  const total = variants.reduce((sum, v) => sum + Math.max(0, v.weight), 0);
+  if (total <= 0) return undefined;
+  let point = hash(`${experimentId}:${visitorId}`) % total;
+  for (const variant of variants) {
+    const weight = Math.max(0, variant.weight);
+    if (point < weight) return variant;
+    point -= weight;
+  }
+  return undefined;
+}
+
+/** Standard normal CDF (Abramowitz and Stegun 7.1.26, accurate to about 1e-7). */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/** Two-sided p-value of a pooled two-proportion z-test; null when either side has no trials. */
+export function twoProportionPValue(successesA: number, trialsA: number, successesB: number, trialsB: number): number | null {
+  if (trialsA <= 0 || trialsB <= 0) return null;
+  const pooled = (successesA + successesB) / (trialsA + trialsB);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / trialsA + 1 / trialsB));
+  if (se === 0) return 1;
+  const z = (successesB / trialsB - successesA / trialsA) / se;
+  return 2 * (1 - normalCdf(Math.abs(z)));
+}
+
+function rate(part: number, whole: number): number {
+  return whole > 0 ? part / whole : 0;
+}
+
+function lift(control: number, value: number): number | null {
+  return control > 0 ? (value - control) / control : null;
+}
+
+/** Turns raw per-variant counts into rates, lifts and p-values against the first variant. */
+export function summarizeVariants(
+  variants: Array<Pick<ExperimentVariant, "key" | "name" | "weight">>,
+  counts: Record<string, VariantCounts>,
+): VariantResult[] {
+  const empty: VariantCounts = { impressions: 0, clicks: 0, conversions: 0 };
+  const control = counts[variants[0]?.key] ?? empty;
+  return variants.map((variant, index) => {
+    const c = counts[variant.key] ?? empty;
+    const isControl = index === 0;
+    return {
+      key: variant.key,
+      name: variant.name,
+      weight: variant.weight,
+      ...c,
+      clickRate: rate(c.clicks, c.impressions),
+      conversionRate: rate(c.conversions, c.impressions),
+      clickLift: isControl ? null : lift(rate(control.clicks, control.impressions), rate(c.clicks, c.impressions)),
+      clickPValue: isControl ? null : twoProportionPValue(control.clicks, control.impressions, c.clicks, c.impressions),
+      conversionLift: isControl ? null : lift(rate(control.conversions, control.impressions), rate(c.conversions, c.impressions)),
+      conversionPValue: isControl ? null : twoProportionPValue(control.conversions, control.impressions, c.conversions, c.impressions),
+    };
+  });
+}
+
+/** Fields of `current` that differ from `base`, i.e. the overrides a variant needs to reproduce `current`. */
+export function settingsOverrides(base: Record<string, unknown>, current: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(current).filter(([key, value]) => JSON.stringify(base[key]) !== JSON.stringify(value)),
+  );
+}
+
+/** Layers a variant's overrides on top of a saved layout; pass an empty row to get just the overrides. */
+export function withVariant(
+  row: { settings: unknown; globalUrls: unknown },
+  variant: Pick<ExperimentVariant, "settings" | "globalUrls">,
+): { settings: Record<string, unknown>; globalUrls: Record<string, unknown> } {
+  const globalUrls = row.globalUrls && typeof row.globalUrls === "object" ? (row.globalUrls as Record<string, unknown>) : {};
+  return {
+    settings: { ...migrateSettings(row.settings), ...variant.settings, schemaVersion: SETTINGS_SCHEMA_VERSION },
+    globalUrls: { ...globalUrls, ...variant.globalUrls },
+  };
+}
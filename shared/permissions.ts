@@ -0,0 +1,56 @@
+import { DEFAULT_SITE } from "./schema";
+
+export const USER_ROLES = ["viewer", "editor", "admin"] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+/** Roles are ordered: every role can do what the roles before it can. */
+export function hasRole(role: string | null | undefined, required: UserRole): boolean {
+  const rank = USER_ROLES.indexOf(role as UserRole);
+  return rank >= 0 && rank >= USER_ROLES.indexOf(required);
+}
+
+/**
+ * The role a user has on one site: admins keep theirs everywhere, everyone
+ * else on the default site and the sites they are members of.
+ */
+export function siteRole(user: { role: string; sites: readonly string[] } | null | undefined, site: string): string | null {
+  if (!user) return null;
+  return hasRole(user.role, "admin") || site === DEFAULT_SITE || user.sites.includes(site) ? user.role : null;
+}
+
+export type SettingsFieldGroup = "layout" | "media" | "links";
+
+/**
+ * Which role may change each group of route settings. `layout` covers every
+ * field in `settings`; the other groups are keys of `globalUrls`. Links decide
+ * where visitors are sent, so only admins may change them.
+ */
+export const SETTINGS_FIELD_GROUPS: Record<SettingsFieldGroup, { role: UserRole; fields: readonly string[] | "*" }> = {
+  layout: { role: "editor", fields: "*" },
+  media: { role: "editor", fields: ["videoUrl", "mp4Url", "hlsUrl", "audioUrl", "ctaImageUrl", "imageUrl"] },
+  links: { role: "admin", fields: ["buttonUrl", "iframe1Url", "iframe2Url"] },
+};
+
+export const ADMIN_ONLY_GLOBAL_URLS = SETTINGS_FIELD_GROUPS.links.fields as readonly string[];
+
+export function canEditGlobalUrl(role: string | null | undefined, field: string): boolean {
+  const group = (Object.keys(SETTINGS_FIELD_GROUPS) as SettingsFieldGroup[]).find((key) => {
+    const fields = SETTINGS_FIELD_GROUPS[key].fields;
+    return key !== "layout" && fields !== "*" && fields.includes(field);
+  });
+  return hasRole(role, group ? SETTINGS_FIELD_GROUPS[group].role : "admin");
+}
+
+/** Lists the `globalUrls` keys that differ between two versions and that `role` is not allowed to change. */
+export function forbiddenGlobalUrlChanges(
+  role: string | null | undefined,
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown>,
+): string[] {
+  const keys = Array.from(new Set([...Object.keys(before ?? {}), ...Object.keys(after)]));
+  return keys.filter((key) => {
+    if (canEditGlobalUrl(role, key)) return false;
+    if (before === null) return Boolean(after[key]);
+    return (before[key] ?? "") !== (after[key] ?? "");
+  });
+}
@@ -0,0 +1,138 @@
+/**
+ * Time-windowed activation of settings profiles. Windows are stored as local
+ * wall-clock times ("YYYY-MM-DDTHH:mm") plus an IANA timezone, so a promo that
+ * runs 09:00–17:00 in New York keeps doing so across daylight-saving changes.
+ */
+
+/** Response header carrying the next time the scheduled profile may change. */
+export const NEXT_SWITCH_HEADER = "X-Settings-Next-Switch";
+
+export const SCHEDULE_RECURRENCES = ["none", "daily", "weekly"] as const;
+export type ScheduleRecurrence = (typeof SCHEDULE_RECURRENCES)[number];
+
+export interface ScheduleWindow {
+  id: number;
+  profile: string;
+  startsAt: string;
+  endsAt: string;
+  timezone: string;
+  recurrence: string;
+  /** Last local date ("YYYY-MM-DD") a recurring window may start on; null repeats forever. */
+  until: string | null;
+}
+
+export interface ScheduleOccurrence {
+  scheduleId: number;
+  profile: string;
+  start: Date;
+  end: Date;
+}
+
+export interface ScheduleSwitch {
+  at: Date;
+  scheduleId: number;
+  profile: string;
+  kind: "start" | "end";
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_OCCURRENCES = 1000;
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/;
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isLocalDateTime(value: string): boolean {
+  return LOCAL_DATE_TIME.test(value) && !isNaN(Date.parse(`${value}:00Z`));
+}
+
+/** Milliseconds the timezone is ahead of UTC at the given instant. */
+function timezoneOffset(instant: number, timezone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/** Converts a local wall-clock time in `timezone`, shifted by `dayOffset` calendar days, to an instant. */
+export function zonedTimeToUtc(local: string, timezone: string, dayOffset = 0): Date {
+  const match = LOCAL_DATE_TIME.exec(local);
+  if (!match) throw new Error(`Invalid local date-time: ${local}`);
+  const [, y, mo, d, h, mi] = match.map(Number);
+  const wallClock = Date.UTC(y, mo - 1, d + dayOffset, h, mi);
+  // Two passes settle on the right offset even when the guess lands across a DST change.
+  let instant = wallClock - timezoneOffset(wallClock, timezone);
+  instant = wallClock - timezoneOffset(instant, timezone);
+  return new Date(instant);
+}
+
+function periodDays(recurrence: string): number {
+  if (recurrence === "daily") return 1;
+  if (recurrence === "weekly") return 7;
+  return 0;
+}
+
+/** Every occurrence of a window that overlaps [from, to). */
+export function occurrencesBetween(window: ScheduleWindow, from: Date, to: Date): ScheduleOccurrence[] {
+  const period = periodDays(window.recurrence);
+  const first = zonedTimeToUtc(window.startsAt, window.timezone);
+  const firstEnd = zonedTimeToUtc(window.endsAt, window.timezone);
+  const make = (start: Date, end: Date): ScheduleOccurrence => ({ scheduleId: window.id, profile: window.profile, start, end });
+
+  if (period === 0) {
+    return first < to && firstEnd > from ? [make(first, firstEnd)] : [];
+  }
+
+  const durationDays = Math.ceil((firstEnd.getTime() - first.getTime()) / DAY_MS);
+  const untilEnd = window.until ? zonedTimeToUtc(`${window.until}T23:59`, window.timezone) : null;
+  // Start a little before `from` so windows that began earlier but are still open are included.
+  let step = Math.max(0, Math.floor((from.getTime() - first.getTime()) / (period * DAY_MS)) - Math.ceil(durationDays / period) - 1);
+  const result: ScheduleOccurrence[] = [];
+  for (let i = 0; i < MAX_OCCURRENCES; i++, step++) {
+    const start = zonedTimeToUtc(window.startsAt, window.timezone, step * period);
+    if (start >= to || (untilEnd && start > untilEnd)) break;
+    const end = zonedTimeToUtc(window.endsAt, window.timezone, step * period);
+    if (end > from) result.push(make(start, end));
+  }
+  return result;
+}
+
+/** The window active at `now`; when several overlap, the one that started most recently wins. */
+export function activeOccurrence(windows: ScheduleWindow[], now: Date): ScheduleOccurrence | undefined {
+  const soon = new Date(now.getTime() + 1);
+  return windows
+    .flatMap((w) => occurrencesBetween(w, now, soon))
+    .filter((o) => o.start <= now && now < o.end)
+    .sort((a, b) => b.start.getTime() - a.start.getTime() || b.scheduleId - a.scheduleId)[0];
+}
+
+/** Starts and ends of every occurrence within [from, to), in time order. */
+export function scheduleSwitches(windows: ScheduleWindow[], from: Date, to: Date): ScheduleSwitch[] {
+  const switches: ScheduleSwitch[] = [];
+  for (const o of windows.flatMap((w) => occurrencesBetween(w, from, to))) {
+    if (o.start >= from && o.start < to) switches.push({ at: o.start, scheduleId: o.scheduleId, profile: o.profile, kind: "start" });
+    if (o.end >= from && o.end < to) switches.push({ at: o.end, scheduleId: o.scheduleId, profile: o.profile, kind: "end" });
+  }
+  return switches.sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+/** The next time the active profile may change, looking ahead `days` days. */
+export function nextSwitch(windows: ScheduleWindow[], now: Date, days = 31): Date | undefined {
+  const after = new Date(now.getTime() + 1);
+  return scheduleSwitches(windows, after, new Date(now.getTime() + days * DAY_MS))[0]?.at;
+}
@@ -1,24 +1,103 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, serial, timestamp, integer, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, serial, timestamp, integer, jsonb, real, boolean, bigint, unique, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isLocalDateTime, isValidTimezone, SCHEDULE_RECURRENCES } from "./schedule";
+import type { CaptionFormat } from "./captions";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role").notNull().default("viewer"),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+  role: true,
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "password">;
+
+export const DEFAULT_SITE = "default";
+
+/** Default URLs of the default site, used until an admin saves its own. */
+export const DEFAULT_SITE_URLS: Record<string, string> = {
+  buttonUrl: "https://rodbiz.digiucard.com/portfolio",
+};
+
+export const siteSlugSchema = z
+  .string()
+  .trim()
+  .min(2)
+  .max(48)
+  .regex(/^[a-z0-9][a-z0-9-]*$/, "Use lowercase letters, numbers and dashes only");
+
+export const sites = pgTable("sites", {
+  id: serial("id").primaryKey(),
+  slug: text("slug").notNull().unique(),
+  name: text("name").notNull(),
+  defaultUrls: jsonb("default_urls").notNull().default({}),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertSiteSchema = createInsertSchema(sites)
+  .omit({ id: true, createdAt: true })
+  .extend({
+    slug: siteSlugSchema,
+    name: z.string().trim().min(1).max(120),
+    defaultUrls: z.record(z.string()).default({}),
+  });
+
+export type InsertSite = z.infer<typeof insertSiteSchema>;
+export type Site = typeof sites.$inferSelect;
+
+/**
+ * Sites other than the default one that a user belongs to. Admins work on
+ * every site; editors and viewers have their role on the default site and
+ * on the sites listed here.
+ */
+export const siteMembers = pgTable("site_members", {
+  id: serial("id").primaryKey(),
+  site: text("site").notNull(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [unique("site_members_site_user").on(table.site, table.userId)]);
+
+export type SiteMember = typeof siteMembers.$inferSelect;
+
+/** The signed-in user as `/api/user` returns it. */
+export type SessionUser = PublicUser & { sites: string[] };
+
+/** Name of the list created for a site that has none, including the one legacy /api/playlist uses. */
+export const DEFAULT_PLAYLIST_NAME = "Playlist";
+
+export const playlists = pgTable("playlists", {
+  id: serial("id").primaryKey(),
+  site: text("site").notNull().default(DEFAULT_SITE),
+  name: text("name").notNull(),
+  ownerId: varchar("owner_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertPlaylistSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+});
+
+export type InsertPlaylist = z.infer<typeof insertPlaylistSchema>;
+export type Playlist = typeof playlists.$inferSelect;
+export type PlaylistSummary = Playlist & { itemCount: number };
 
 export const playlistItems = pgTable("playlist_items", {
   id: serial("id").primaryKey(),
+  site: text("site").notNull().default(DEFAULT_SITE),
+  // Null only for items saved before named playlists existed; they are
+  // adopted by the site's first playlist when it is created.
+  playlistId: integer("playlist_id").references(() => playlists.id, { onDelete: "cascade" }),
+  position: integer("position").notNull().default(0),
   videoId: text("video_id").notNull(),
   title: text("title").notNull(),
   thumbnail: text("thumbnail").notNull().default(""),
@@ -29,23 +108,934 @@ export const playlistItems = pgTable("playlist_items", {
 
 export const insertPlaylistItemSchema = createInsertSchema(playlistItems).omit({
   id: true,
+  site: true,
+  playlistId: true,
+  position: true,
   addedAt: true,
 });
 
 export type InsertPlaylistItem = z.infer<typeof insertPlaylistItemSchema>;
 export type PlaylistItem = typeof playlistItems.$inferSelect;
 
+export const playlistItemsBatchSchema = z.object({
+  items: z.array(insertPlaylistItemSchema).min(1).max(100),
+});
+
+export const playlistItemIdsSchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1).max(500),
+});
+
+/** Every item id of the playlist, in the new order. */
+export const playlistOrderSchema = z.object({
+  ids: z.array(z.number().int().positive()).max(1000),
+});
+
+export const movePlaylistItemsSchema = playlistItemIdsSchema.extend({
+  targetPlaylistId: z.number().int().positive(),
+});
+
+export interface PlaylistBatchResult {
+  added: PlaylistItem[];
+  /** Video ids left out because the playlist already contains them. */
+  skipped: string[];
+}
+
+export const MAX_CROSSFADE_SECONDS = 12;
+
+/** Audio tracks played back to back on /play, with the transition options the player applies between them. */
+export const audioQueues = pgTable("audio_queues", {
+  id: serial("id").primaryKey(),
+  site: text("site").notNull().default(DEFAULT_SITE),
+  name: text("name").notNull(),
+  crossfadeSeconds: real("crossfade_seconds").notNull().default(0),
+  /** Starts the next track as the current one ends instead of waiting for it to stop; only used without crossfade. */
+  gapless: boolean("gapless").notNull().default(true),
+  normalize: boolean("normalize").notNull().default(true),
+  loop: boolean("loop").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertAudioQueueSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  crossfadeSeconds: z.number().min(0).max(MAX_CROSSFADE_SECONDS).default(0),
+  gapless: z.boolean().default(true),
+  normalize: z.boolean().default(true),
+  loop: z.boolean().default(true),
+});
+
+export const updateAudioQueueSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  crossfadeSeconds: z.number().min(0).max(MAX_CROSSFADE_SECONDS),
+  gapless: z.boolean(),
+  normalize: z.boolean(),
+  loop: z.boolean(),
+}).partial();
+
+export type InsertAudioQueue = z.infer<typeof insertAudioQueueSchema>;
+export type UpdateAudioQueue = z.infer<typeof updateAudioQueueSchema>;
+export type AudioQueue = typeof audioQueues.$inferSelect;
+export type AudioQueueSummary = AudioQueue & { itemCount: number };
+
+export const audioQueueItems = pgTable("audio_queue_items", {
+  id: serial("id").primaryKey(),
+  site: text("site").notNull().default(DEFAULT_SITE),
+  queueId: integer("queue_id").notNull().references(() => audioQueues.id, { onDelete: "cascade" }),
+  position: integer("position").notNull().default(0),
+  url: text("url").notNull(),
+  title: text("title").notNull().default(""),
+  /** Gated loudness in dBFS measured when the track was added; null when the file could not be analyzed. */
+  loudnessDb: real("loudness_db"),
+  addedAt: timestamp("added_at").notNull().defaultNow(),
+});
+
+/** An absolute URL or a same-origin path such as a media library file (`/api/media/1/file`). */
+export const mediaUrlSchema = z.string().trim().max(2048).refine((value) => {
+  if (value.startsWith("/")) return !value.startsWith("//");
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}, "Use a full URL or a path starting with /");
+
+export const insertAudioQueueItemSchema = z.object({
+  url: mediaUrlSchema,
+  title: z.string().trim().max(200).default(""),
+  loudnessDb: z.number().finite().min(-120).max(20).nullable().default(null),
+});
+
+export const audioQueueItemsBatchSchema = z.object({
+  items: z.array(insertAudioQueueItemSchema).min(1).max(100),
+});
+
+export type InsertAudioQueueItem = z.infer<typeof insertAudioQueueItemSchema>;
+export type AudioQueueItem = typeof audioQueueItems.$inferSelect;
+export type AudioQueueWithItems = AudioQueue & { items: AudioQueueItem[] };
+
+/**
+ * Named cue points and loop regions on a track, shared by everyone on the
+ * site. Keyed by the media URL (for YouTube, the watch URL) so they come back
+ * whenever that track is loaded again.
+ */
+export const cuePoints = pgTable("cue_points", {
+  id: serial("id").primaryKey(),
+  site: text("site").notNull().default(DEFAULT_SITE),
+  mediaUrl: text("media_url").notNull(),
+  name: text("name").notNull(),
+  startSeconds: real("start_seconds").notNull(),
+  /** Set for a loop region; null for a single cue point. */
+  endSeconds: real("end_seconds"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [index("cue_points_site_media_url_idx").on(table.site, table.mediaUrl)]);
+
+const cueTimesSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  startSeconds: z.number().finite().min(0),
+  endSeconds: z.number().finite().min(0).nullable(),
+});
+
+const cueRegionIsOrdered = (cue: { startSeconds?: number; endSeconds?: number | null }) =>
+  cue.endSeconds == null || cue.startSeconds === undefined || cue.endSeconds > cue.startSeconds;
+
+export const insertCuePointSchema = cueTimesSchema.extend({
+  mediaUrl: mediaUrlSchema,
+  endSeconds: cueTimesSchema.shape.endSeconds.default(null),
+}).refine(cueRegionIsOrdered, { message: "End must be after start", path: ["endSeconds"] });
+
+export const updateCuePointSchema = cueTimesSchema.partial()
+  .refine(cueRegionIsOrdered, { message: "End must be after start", path: ["endSeconds"] });
+
+export type InsertCuePoint = z.infer<typeof insertCuePointSchema>;
+export type UpdateCuePoint = z.infer<typeof updateCuePointSchema>;
+export type CuePoint = typeof cuePoints.$inferSelect;
+
+/** Caption files are small text; this is far more than a feature film's subtitles. */
+export const MAX_CAPTION_BYTES = 1024 * 1024;
+
+/**
+ * The WebVTT or LRC file attached to a track, keyed by media URL like cue
+ * points. Each track has at most one; attaching another replaces it.
+ */
+export const captionTracks = pgTable("caption_tracks", {
+  id: serial("id").primaryKey(),
+  site: text("site").notNull().default(DEFAULT_SITE),
+  mediaUrl: text("media_url").notNull(),
+  format: text("format").$type<CaptionFormat>().notNull(),
+  fileName: text("file_name").notNull(),
+  content: text("content").notNull(),
+  cueCount: integer("cue_count").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [unique("caption_tracks_site_media_url").on(table.site, table.mediaUrl)]);
+
+export type CaptionTrack = typeof captionTracks.$inferSelect;
+export type InsertCaptionTrack = Pick<typeof captionTracks.$inferInsert, "mediaUrl" | "format" | "fileName" | "content" | "cueCount">;
+
+export const DEFAULT_PROFILE = "default";
+
+export const profileNameSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(64)
+  .regex(/^[a-z0-9][a-z0-9_-]*$/i, "Use letters, numbers, dashes and underscores only");
+
 export const routeSettings = pgTable("route_settings", {
   id: serial("id").primaryKey(),
+  site: text("site").notNull().default(DEFAULT_SITE),
   route: text("route").notNull(),
+  profile: text("profile").notNull().default(DEFAULT_PROFILE),
   width: integer("width").notNull(),
+  minWidth: integer("min_width"),
+  maxWidth: integer("max_width"),
   settings: jsonb("settings").notNull(),
   globalUrls: jsonb("global_urls").notNull().default({}),
-});
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [unique("route_settings_site_route_profile_width").on(table.site, table.route, table.profile, table.width)]);
 
 export const insertRouteSettingsSchema = createInsertSchema(routeSettings).omit({
   id: true,
+  site: true,
+  updatedAt: true,
 });
 
 export type InsertRouteSettings = z.infer<typeof insertRouteSettingsSchema>;
 export type RouteSettings = typeof routeSettings.$inferSelect;
+
+export const breakpointRangeSchema = z
+  .object({
+    minWidth: z.number().int().nonnegative().nullable(),
+    maxWidth: z.number().int().positive().nullable(),
+  })
+  .refine((r) => r.minWidth === null || r.maxWidth === null || r.minWidth <= r.maxWidth, {
+    message: "minWidth must not exceed maxWidth",
+  });
+
+export type BreakpointRangeInput = z.infer<typeof breakpointRangeSchema>;
+
+export const routeSettingsVersions = pgTable("route_settings_versions", {
+  id: serial("id").primaryKey(),
+  site: text("site").notNull().default(DEFAULT_SITE),
+  route: text("route").notNull(),
+  profile: text("profile").notNull(),
+  width: integer("width").notNull(),
+  version: integer("version").notNull(),
+  settings: jsonb("settings").notNull(),
+  globalUrls: jsonb("global_urls").notNull().default({}),
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type RouteSettingsVersion = typeof routeSettingsVersions.$inferSelect;
+
+export interface RouteProfileSummary {
+  name: string;
+  widths: number[];
+  versionCount: number;
+  updatedAt: string;
+}
+
+export const SETTINGS_SCHEMA_VERSION = 6;
+
+export const containerShapeSchema = z.enum(["circle", "oval", "square", "rectangle"]);
+export type ContainerShape = z.infer<typeof containerShapeSchema>;
+
+/** Where /view plays video from: the YouTube player, a progressive MP4 file or an adaptive HLS (.m3u8) stream. */
+export const sourceModeSchema = z.enum(["youtube", "mp4", "hls"]);
+export type SourceMode = z.infer<typeof sourceModeSchema>;
+
+export const displayModeSchema = z.enum(["visualizer", "image"]);
+export type DisplayMode = z.infer<typeof displayModeSchema>;
+
+/** What happens when a playlist item ends: stop at the end of the list, replay the item, or wrap around. */
+export const repeatModeSchema = z.enum(["off", "one", "all"]);
+export type RepeatMode = z.infer<typeof repeatModeSchema>;
+
+/** Where captions sit inside the media container. */
+export const captionPositionSchema = z.enum(["top", "middle", "bottom"]);
+export type CaptionPosition = z.infer<typeof captionPositionSchema>;
+
+export const captionFontSchema = z.enum(["sans", "serif", "mono", "rounded"]);
+export type CaptionFont = z.infer<typeof captionFontSchema>;
+
+export const MIN_CAPTION_FONT_SIZE = 10;
+export const MAX_CAPTION_FONT_SIZE = 48;
+
+export const MIN_PLAYBACK_RATE = 0.25;
+export const MAX_PLAYBACK_RATE = 2;
+export const MAX_PITCH_SEMITONES = 12;
+
+const finite = z.number().finite();
+const sliderValue = z.array(finite).min(1);
+const zIndex = z.number().int();
+
+const baseSettingsSchema = z.object({
+  schemaVersion: z.literal(SETTINGS_SCHEMA_VERSION),
+  title: z.string(),
+  buttonLabel: z.string(),
+  buttonColor: z.string(),
+  buttonPosX: finite,
+  buttonPosY: finite,
+  buttonScale: sliderValue,
+  visitModalWidth: finite,
+  qrButtonPosY: finite,
+  qrButtonVisible: z.boolean(),
+  qrButtonColor: z.string(),
+  ctaAsButton: z.boolean(),
+  ctaX: finite,
+  ctaY: finite,
+  ctaScale: sliderValue,
+  ctaVisible: z.boolean(),
+  ctaFadeInSeconds: finite.nonnegative(),
+  ctaShape: containerShapeSchema,
+  ctaBorderColor: z.string(),
+  ctaBorderThickness: finite.nonnegative(),
+  ctaShadow3d: z.boolean(),
+  ctaGlow: z.boolean(),
+  volume: sliderValue,
+  isMuted: z.boolean(),
+  isLooping: z.boolean(),
+  loopStart: z.string(),
+  loopEnd: z.string(),
+  /** Speed multiplier; HTML media keep their pitch, YouTube rounds to the rates it supports. */
+  playbackRate: finite.min(MIN_PLAYBACK_RATE).max(MAX_PLAYBACK_RATE),
+  /** Shows the track's attached captions, if it has any, over the media. */
+  captionsVisible: z.boolean(),
+  captionPosition: captionPositionSchema,
+  captionFont: captionFontSchema,
+  /** In CSS pixels of the unscaled container. */
+  captionFontSize: finite.min(MIN_CAPTION_FONT_SIZE).max(MAX_CAPTION_FONT_SIZE),
+  captionColor: z.string(),
+  captionBgColor: z.string(),
+  captionBgOpacity: finite.min(0).max(1),
+  shape: containerShapeSchema,
+  containerRounded: z.boolean(),
+  scale: sliderValue,
+  containerPosX: finite,
+  containerPosY: finite,
+  containerWidth: sliderValue,
+  containerHeight: sliderValue,
+  lockViewportScrollY: z.boolean(),
+  lockViewportScrollX: z.boolean(),
+  mediaZIndex: zIndex,
+  bgColor: z.string(),
+  borderColor: z.string(),
+  containerVisible: z.boolean(),
+  iframe1PosX: finite,
+  iframe1PosY: finite,
+  iframe1Scale: sliderValue,
+  iframe1Width: sliderValue,
+  iframe1Height: sliderValue,
+  iframe1Visible: z.boolean(),
+  iframe1Rounded: z.boolean(),
+  lockIframe1ScrollY: z.boolean(),
+  lockIframe1ScrollX: z.boolean(),
+  iframe1ZIndex: zIndex,
+  iframe2PosX: finite,
+  iframe2PosY: finite,
+  iframe2Scale: sliderValue,
+  iframe2Width: sliderValue,
+  iframe2Height: sliderValue,
+  iframe2Visible: z.boolean(),
+  iframe2Rounded: z.boolean(),
+  lockIframe2ScrollY: z.boolean(),
+  lockIframe2ScrollX: z.boolean(),
+  iframe2ZIndex: zIndex,
+});
+
+export const viewSettingsSchema = baseSettingsSchema.extend({
+  sourceMode: sourceModeSchema,
+  /** Saved playlist to play through instead of the single YouTube URL; null plays `videoUrl`. */
+  playlistId: z.number().int().positive().nullable(),
+  shuffle: z.boolean(),
+  repeatMode: repeatModeSchema,
+  /** Rendition height to lock HLS playback to, e.g. 720; null lets the player adapt to the connection. */
+  hlsQuality: z.number().int().positive().nullable(),
+});
+
+export const playSettingsSchema = baseSettingsSchema.extend({
+  displayMode: displayModeSchema,
+  /** Saved audio queue to play instead of the single audio URL; null plays `audioUrl`. */
+  audioQueueId: z.number().int().positive().nullable(),
+  /** Pitch shift in semitones, applied in the audio graph independently of the speed. */
+  pitchSemitones: z.number().int().min(-MAX_PITCH_SEMITONES).max(MAX_PITCH_SEMITONES),
+});
+
+export type ViewSettings = z.infer<typeof viewSettingsSchema>;
+export type PlaySettings = z.infer<typeof playSettingsSchema>;
+
+export const viewGlobalUrlsSchema = z.object({
+  buttonUrl: z.string(),
+  videoUrl: z.string(),
+  mp4Url: z.string(),
+  // Added after the other URLs; defaulted so rows and bundles saved before HLS support still validate.
+  hlsUrl: z.string().default(""),
+  ctaImageUrl: z.string(),
+  iframe1Url: z.string(),
+  iframe2Url: z.string(),
+});
+
+export const playGlobalUrlsSchema = z.object({
+  buttonUrl: z.string(),
+  audioUrl: z.string(),
+  ctaImageUrl: z.string(),
+  imageUrl: z.string(),
+  iframe1Url: z.string(),
+  iframe2Url: z.string(),
+});
+
+export type ViewGlobalUrls = z.infer<typeof viewGlobalUrlsSchema>;
+export type PlayGlobalUrls = z.infer<typeof playGlobalUrlsSchema>;
+
+export const routeSettingsSchemas = {
+  view: { settings: viewSettingsSchema, globalUrls: viewGlobalUrlsSchema },
+  play: { settings: playSettingsSchema, globalUrls: playGlobalUrlsSchema },
+} as const;
+
+export type SettingsRoute = keyof typeof routeSettingsSchemas;
+
+export function isSettingsRoute(route: string): route is SettingsRoute {
+  return Object.prototype.hasOwnProperty.call(routeSettingsSchemas, route);
+}
+
+type SettingsRecord = Record<string, unknown>;
+
+const SLIDER_FIELDS = [
+  "buttonScale", "ctaScale", "volume", "scale", "containerWidth", "containerHeight",
+  "iframe1Scale", "iframe1Width", "iframe1Height", "iframe2Scale", "iframe2Width", "iframe2Height",
+];
+
+/**
+ * Each entry upgrades settings saved at version `index` to `index + 1`.
+ * Rows saved before versioning have no `schemaVersion` and count as version 0.
+ */
+const settingsMigrations: Array<(settings: SettingsRecord) => SettingsRecord> = [
+  (settings) => {
+    const next = { ...settings };
+    for (const field of SLIDER_FIELDS) {
+      if (typeof next[field] === "number") next[field] = [next[field]];
+    }
+    for (const field of ["loopStart", "loopEnd"]) {
+      if (typeof next[field] === "number") next[field] = String(next[field]);
+    }
+    return next;
+  },
+  // Playlist playback on /view; other routes drop these keys when parsed.
+  (settings) => ({ playlistId: null, shuffle: false, repeatMode: "off", ...settings }),
+  // Audio queue playback on /play.
+  (settings) => ({ audioQueueId: null, ...settings }),
+  // HLS source mode on /view.
+  (settings) => ({ hlsQuality: null, ...settings }),
+  // Playback speed on both routes and pitch shift on /play.
+  (settings) => ({ playbackRate: 1, pitchSemitones: 0, ...settings }),
+  // Caption overlay on both routes.
+  (settings) => ({
+    captionsVisible: true,
+    captionPosition: "bottom",
+    captionFont: "sans",
+    captionFontSize: 16,
+    captionColor: "#ffffff",
+    captionBgColor: "#000000",
+    captionBgOpacity: 0.6,
+    ...settings,
+  }),
+];
+
+export function migrateSettings(raw: unknown): SettingsRecord {
+  let settings: SettingsRecord = raw && typeof raw === "object" && !Array.isArray(raw) ? { ...(raw as SettingsRecord) } : {};
+  let version = typeof settings.schemaVersion === "number" ? settings.schemaVersion : 0;
+  while (version < SETTINGS_SCHEMA_VERSION) {
+    settings = settingsMigrations[version](settings);
+    version++;
+  }
+  return { ...settings, schemaVersion: version };
+}
+
+export interface ParsedSettings<T> {
+  value: Partial<T>;
+  /** Fields that were present but still invalid after migration; they are left out of `value`. */
+  dropped: string[];
+}
+
+function parsePartial(schema: z.AnyZodObject, raw: SettingsRecord): ParsedSettings<SettingsRecord> {
+  const partial = schema.partial();
+  const dropped = new Set<string>();
+  let input = raw;
+  for (;;) {
+    const result = partial.safeParse(input);
+    if (result.success) return { value: result.data, dropped: Array.from(dropped) };
+    const bad = new Set(result.error.issues.map((issue) => String(issue.path[0])));
+    bad.forEach((key) => dropped.add(key));
+    input = Object.fromEntries(Object.entries(input).filter(([key]) => !bad.has(key)));
+  }
+}
+
+export interface ParsedRouteSettings<R extends SettingsRoute> {
+  settings: ParsedSettings<z.infer<(typeof routeSettingsSchemas)[R]["settings"]>>;
+  globalUrls: ParsedSettings<z.infer<(typeof routeSettingsSchemas)[R]["globalUrls"]>>;
+}
+
+/** Migrates a stored row to the current schema version and keeps only fields that validate. */
+export function parseRouteSettings<R extends SettingsRoute>(
+  route: R,
+  data: { settings: unknown; globalUrls: unknown },
+): ParsedRouteSettings<R> {
+  const schemas = routeSettingsSchemas[route];
+  const globalUrls = data.globalUrls && typeof data.globalUrls === "object" ? (data.globalUrls as SettingsRecord) : {};
+  return {
+    settings: parsePartial(schemas.settings, migrateSettings(data.settings)),
+    globalUrls: parsePartial(schemas.globalUrls, globalUrls),
+  } as ParsedRouteSettings<R>;
+}
+
+export const CONFIG_BUNDLE_FORMAT = "video-button-player/config";
+
+export const configBundleSchema = z.object({
+  format: z.literal(CONFIG_BUNDLE_FORMAT),
+  bundleVersion: z.literal(1),
+  route: z.string(),
+  profile: z.string(),
+  exportedAt: z.string(),
+  globalUrls: z.record(z.unknown()),
+  layouts: z
+    .array(z.object({
+      width: z.number().int().positive(),
+      minWidth: z.number().int().nonnegative().nullable().default(null),
+      maxWidth: z.number().int().positive().nullable().default(null),
+      settings: z.record(z.unknown()),
+    }))
+    .min(1)
+    .refine((layouts) => new Set(layouts.map((l) => l.width)).size === layouts.length, {
+      message: "Layout widths must be unique",
+    }),
+});
+
+export type ConfigBundle = z.infer<typeof configBundleSchema>;
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ConfigBundleDiff {
+  globalUrls: FieldChange[];
+  layouts: Array<{
+    width: number;
+    status: "added" | "removed" | "changed" | "unchanged";
+    changes: FieldChange[];
+  }>;
+}
+
+export const ANALYTICS_EVENT_TYPES = [
+  "impression",
+  "visit_open",
+  "visit_through",
+  "cta_click",
+  "qr_open",
+  "play",
+  "pause",
+  "unmute",
+  "mute",
+  "watch_time",
+] as const;
+
+export const analyticsEventTypeSchema = z.enum(ANALYTICS_EVENT_TYPES);
+export type AnalyticsEventType = z.infer<typeof analyticsEventTypeSchema>;
+
+export function isAnalyticsEventType(type: string): type is AnalyticsEventType {
+  return (ANALYTICS_EVENT_TYPES as readonly string[]).includes(type);
+}
+
+export const analyticsEvents = pgTable("analytics_events", {
+  id: serial("id").primaryKey(),
+  site: text("site").notNull().default(DEFAULT_SITE),
+  route: text("route").notNull(),
+  profile: text("profile").notNull().default(DEFAULT_PROFILE),
+  type: text("type").notNull(),
+  /** Seconds watched for `watch_time` events, 1 for everything else. */
+  value: integer("value").notNull().default(1),
+  sessionId: text("session_id").notNull(),
+  experimentId: integer("experiment_id"),
+  variant: text("variant"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertAnalyticsEventSchema = createInsertSchema(analyticsEvents)
+  .omit({ id: true, site: true, createdAt: true })
+  .extend({
+    route: z.enum(["view", "play"]),
+    profile: profileNameSchema.default(DEFAULT_PROFILE),
+    type: analyticsEventTypeSchema,
+    value: z.number().int().min(0).max(24 * 60 * 60).default(1),
+    sessionId: z.string().min(1).max(64),
+    experimentId: z.number().int().positive().nullish(),
+    variant: z.string().max(32).nullish(),
+  });
+
+/** Events are posted in batches so the page can flush them with `navigator.sendBeacon` on unload. */
+export const analyticsBatchSchema = z.object({
+  events: z.array(insertAnalyticsEventSchema).min(1).max(100),
+});
+
+export type InsertAnalyticsEvent = z.infer<typeof insertAnalyticsEventSchema>;
+export type AnalyticsEvent = typeof analyticsEvents.$inferSelect;
+
+export type AnalyticsCounts = Record<AnalyticsEventType, number>;
+
+export interface AnalyticsSummary {
+  route: string;
+  profile: string | null;
+  days: number;
+  /** Event counts, except `watch_time` which is the total seconds watched. */
+  totals: AnalyticsCounts;
+  sessions: number;
+  daily: Array<{ date: string } & AnalyticsCounts>;
+  profiles: Array<{ profile: string } & AnalyticsCounts>;
+}
+
+export function emptyAnalyticsCounts(): AnalyticsCounts {
+  return Object.fromEntries(ANALYTICS_EVENT_TYPES.map((type) => [type, 0])) as AnalyticsCounts;
+}
+
+export const EXPERIMENT_STATUSES = ["draft", "running", "stopped"] as const;
+export type ExperimentStatus = (typeof EXPERIMENT_STATUSES)[number];
+
+export const experimentVariantSchema = z.object({
+  key: z.string().regex(/^[a-z0-9-]{1,32}$/, "Use lowercase letters, numbers and dashes only"),
+  name: z.string().trim().min(1).max(80),
+  weight: z.number().int().min(0).max(100),
+  /** Overrides layered on top of the profile's saved layout, in the payload `applySettings` consumes. */
+  settings: z.record(z.unknown()).default({}),
+  globalUrls: z.record(z.string()).default({}),
+});
+
+export type ExperimentVariant = z.infer<typeof experimentVariantSchema>;
+
+export const experimentVariantsSchema = z
+  .array(experimentVariantSchema)
+  .min(2, "An experiment needs at least two variants")
+  .max(6)
+  .refine((variants) => new Set(variants.map((v) => v.key)).size === variants.length, {
+    message: "Variant keys must be unique",
+  })
+  .refine((variants) => variants.some((v) => v.weight > 0), {
+    message: "At least one variant needs traffic",
+  });
+
+export const experiments = pgTable("experiments", {
+  id: serial("id").primaryKey(),
+  site: text("site").notNull().default(DEFAULT_SITE),
+  route: text("route").notNull(),
+  profile: text("profile").notNull().default(DEFAULT_PROFILE),
+  name: text("name").notNull(),
+  status: text("status").notNull().default("draft"),
+  variants: jsonb("variants").$type<ExperimentVariant[]>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertExperimentSchema = createInsertSchema(experiments)
+  .omit({ id: true, site: true, createdAt: true, updatedAt: true })
+  .extend({
+    route: z.enum(["view", "play"]),
+    profile: profileNameSchema.default(DEFAULT_PROFILE),
+    name: z.string().trim().min(1).max(120),
+    status: z.enum(EXPERIMENT_STATUSES).default("draft"),
+    variants: experimentVariantsSchema,
+  });
+
+export const updateExperimentSchema = insertExperimentSchema.pick({ name: true, status: true, variants: true }).partial();
+
+export type InsertExperiment = z.infer<typeof insertExperimentSchema>;
+export type UpdateExperiment = z.infer<typeof updateExperimentSchema>;
+export type Experiment = typeof experiments.$inferSelect;
+
+/** Distinct sessions per variant that saw it and that clicked or converted. */
+export interface VariantCounts {
+  impressions: number;
+  clicks: number;
+  conversions: number;
+}
+
+export interface VariantResult extends VariantCounts {
+  key: string;
+  name: string;
+  weight: number;
+  clickRate: number;
+  conversionRate: number;
+  /** Relative change of the click rate against the control (first) variant; null for the control. */
+  clickLift: number | null;
+  /** Two-sided p-value of the click rate against the control; null for the control or without data. */
+  clickPValue: number | null;
+  conversionLift: number | null;
+  conversionPValue: number | null;
+}
+
+export interface ExperimentResults {
+  experiment: Experiment;
+  variants: VariantResult[];
+}
+
+export const settingsSchedules = pgTable("settings_schedules", {
+  id: serial("id").primaryKey(),
+  site: text("site").notNull().default(DEFAULT_SITE),
+  route: text("route").notNull(),
+  profile: text("profile").notNull(),
+  /** Local wall-clock times ("YYYY-MM-DDTHH:mm") in `timezone`. */
+  startsAt: text("starts_at").notNull(),
+  endsAt: text("ends_at").notNull(),
+  timezone: text("timezone").notNull(),
+  recurrence: text("recurrence").notNull().default("none"),
+  until: text("until"),
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertSettingsScheduleSchema = createInsertSchema(settingsSchedules)
+  .omit({ id: true, site: true, route: true, createdAt: true })
+  .extend({
+    profile: profileNameSchema,
+    startsAt: z.string().refine(isLocalDateTime, "Use YYYY-MM-DDTHH:mm"),
+    endsAt: z.string().refine(isLocalDateTime, "Use YYYY-MM-DDTHH:mm"),
+    timezone: z.string().refine(isValidTimezone, "Unknown timezone"),
+    recurrence: z.enum(SCHEDULE_RECURRENCES).default("none"),
+    until: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").nullish(),
+    note: z.string().trim().max(200).nullish(),
+  })
+  .refine((s) => s.endsAt > s.startsAt, { message: "End must be after start", path: ["endsAt"] })
+  .refine((s) => s.recurrence === "none" || !s.until || s.until >= s.startsAt.slice(0, 10), {
+    message: "Repeat-until date must not be before the start",
+    path: ["until"],
+  });
+
+export type InsertSettingsSchedule = z.infer<typeof insertSettingsScheduleSchema>;
+export type SettingsSchedule = typeof settingsSchedules.$inferSelect;
+
+/** Response of the schedules endpoint: the windows plus their upcoming starts and ends. */
+export interface RouteSchedules {
+  schedules: SettingsSchedule[];
+  activeScheduleId: number | null;
+  upcoming: Array<{ at: string; scheduleId: number; profile: string; kind: "start" | "end" }>;
+}
+
+export const MEDIA_KINDS = ["audio", "video", "image"] as const;
+export const mediaKindSchema = z.enum(MEDIA_KINDS);
+export type MediaKind = z.infer<typeof mediaKindSchema>;
+
+export const MAX_MEDIA_UPLOAD_BYTES = 500 * 1024 * 1024;
+
+/**
+ * The only types the library accepts and serves inline. Images are raster
+ * formats only: SVG can carry script, and files are served from the app's origin.
+ */
+export const MEDIA_MIME_TYPES: Record<MediaKind, readonly string[]> = {
+  audio: ["audio/mpeg", "audio/aac", "audio/mp4", "audio/x-m4a", "audio/wav", "audio/x-wav", "audio/wave", "audio/flac", "audio/x-flac", "audio/ogg", "audio/opus", "audio/webm"],
+  video: ["video/mp4", "video/quicktime", "video/webm", "video/ogg", "video/x-matroska"],
+  image: ["image/jpeg", "image/png", "image/gif", "image/webp", "image/avif"],
+};
+
+export function mediaKindForMime(mimeType: string): MediaKind | null {
+  return MEDIA_KINDS.find((kind) => MEDIA_MIME_TYPES[kind].includes(mimeType)) ?? null;
+}
+
+/** What ffprobe reported about an upload; every field is optional because probing is best effort. */
+export interface MediaMetadata {
+  format?: string;
+  codecs?: string[];
+  bitRate?: number;
+  sampleRate?: number;
+  channels?: number;
+  /** Container tags such as title, artist and album. */
+  tags?: Record<string, string>;
+}
+
+/** Uploaded audio, video and images; the bytes live in the media store under `storageKey`. */
+export const mediaAssets = pgTable("media_assets", {
+  id: serial("id").primaryKey(),
+  site: text("site").notNull().default(DEFAULT_SITE),
+  kind: text("kind").notNull(),
+  storageKey: text("storage_key").notNull().unique(),
+  originalName: text("original_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  sizeBytes: integer("size_bytes").notNull(),
+  durationSeconds: real("duration_seconds"),
+  width: integer("width"),
+  height: integer("height"),
+  metadata: jsonb("metadata").$type<MediaMetadata>().notNull().default({}),
+  uploadedBy: varchar("uploaded_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type MediaAsset = typeof mediaAssets.$inferSelect;
+export type InsertMediaAsset = Omit<typeof mediaAssets.$inferInsert, "id" | "site" | "createdAt">;
+
+/**
+ * Web-safe copies made from an upload: `web` is H.264/AAC MP4 for video and
+ * AAC for audio, `opus` a smaller Opus/WebM copy of audio, `hls` an adaptive
+ * rendition ladder and `poster` a JPEG frame from the video.
+ */
+export const MEDIA_OUTPUTS = ["web", "opus", "hls", "poster"] as const;
+export type MediaOutput = (typeof MEDIA_OUTPUTS)[number];
+
+export const MEDIA_OUTPUTS_FOR_KIND: Record<MediaKind, MediaOutput[]> = {
+  audio: ["web", "opus"],
+  video: ["web", "hls", "poster"],
+  image: [],
+};
+
+export const MEDIA_JOB_STATUSES = ["queued", "running", "done", "failed"] as const;
+export type MediaJobStatus = (typeof MEDIA_JOB_STATUSES)[number];
+
+/** Attempts before a job is left as failed; each retry waits longer than the last. */
+export const MAX_MEDIA_JOB_ATTEMPTS = 3;
+
+/** One transcoding job per upload and output, run by the background worker. */
+export const mediaJobs = pgTable("media_jobs", {
+  id: serial("id").primaryKey(),
+  site: text("site").notNull().default(DEFAULT_SITE),
+  assetId: integer("asset_id").notNull().references(() => mediaAssets.id, { onDelete: "cascade" }),
+  output: text("output").notNull(),
+  status: text("status").notNull().default("queued"),
+  attempts: integer("attempts").notNull().default(0),
+  error: text("error"),
+  /** Queued jobs wait until this time, which is pushed back after a failed attempt. */
+  runAfter: timestamp("run_after").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+  /** Store key of the result; for HLS the master playlist, with the variants beside it. */
+  outputKey: text("output_key"),
+  outputMimeType: text("output_mime_type"),
+  outputSizeBytes: bigint("output_size_bytes", { mode: "number" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [unique("media_jobs_asset_output").on(table.assetId, table.output)]);
+
+export type MediaJob = typeof mediaJobs.$inferSelect;
+
+export interface MediaJobResult {
+  outputKey: string;
+  outputMimeType: string;
+  outputSizeBytes: number;
+}
+
+export type MediaAssetWithJobs = MediaAsset & { jobs: MediaJob[] };
+
+/** Bytes served per media file and UTC day, so heavy files can be spotted and moved to a CDN. */
+export const mediaBandwidth = pgTable("media_bandwidth", {
+  id: serial("id").primaryKey(),
+  site: text("site").notNull().default(DEFAULT_SITE),
+  assetId: integer("asset_id").notNull().references(() => mediaAssets.id, { onDelete: "cascade" }),
+  day: text("day").notNull(),
+  bytesServed: bigint("bytes_served", { mode: "number" }).notNull().default(0),
+  requests: integer("requests").notNull().default(0),
+  rangeRequests: integer("range_requests").notNull().default(0),
+}, (table) => [unique("media_bandwidth_asset_day").on(table.assetId, table.day)]);
+
+/** Counters for one file on one UTC day ("YYYY-MM-DD"); recording adds them to what is stored. */
+export interface MediaBandwidthRow {
+  assetId: number;
+  day: string;
+  bytesServed: number;
+  requests: number;
+  rangeRequests: number;
+}
+
+export type MediaBandwidthSummary = Omit<MediaBandwidthRow, "day">;
+
+/** Demucs models the stem separator offers; `htdemucs_6s` adds guitar and piano stems. */
+export const STEM_MODELS = ["htdemucs", "htdemucs_ft", "htdemucs_6s", "mdx_extra"] as const;
+export type StemModel = (typeof STEM_MODELS)[number];
+export const stemModelSchema = z.enum(STEM_MODELS);
+
+/** Every stem a model can produce, in the order the player lists them. */
+export const STEM_NAMES = ["vocals", "drums", "bass", "guitar", "piano", "other"] as const;
+export type StemName = (typeof STEM_NAMES)[number];
+
+/**
+ * One separation of an uploaded track with one model. The source and the
+ * stems live in the media store under `storagePrefix`; a track is identified
+ * by the SHA-256 of its bytes, so separating it again reuses the result.
+ * `sourceUrl` is the player audio URL the track was last separated from, which
+ * is how `/play` finds stems for the track it is playing.
+ */
+export const stemJobs = pgTable("stem_jobs", {
+  id: serial("id").primaryKey(),
+  site: text("site").notNull().default(DEFAULT_SITE),
+  model: text("model").notNull(),
+  sourceSha256: text("source_sha256").notNull(),
+  sourceName: text("source_name").notNull(),
+  storagePrefix: text("storage_prefix").notNull(),
+  sourceKey: text("source_key").notNull(),
+  sourceUrl: text("source_url"),
+  status: text("status").notNull().default("queued"),
+  /** 0 to 1 through the current attempt. */
+  progress: real("progress").notNull().default(0),
+  attempts: integer("attempts").notNull().default(0),
+  error: text("error"),
+  runAfter: timestamp("run_after").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+  /** Stems written by the finished job, each stored as `<storagePrefix>/<stem>.mp3`. */
+  stems: jsonb("stems").$type<StemName[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("stem_jobs_site_source_model").on(table.site, table.sourceSha256, table.model),
+  index("stem_jobs_site_source_url_idx").on(table.site, table.sourceUrl),
+]);
+
+export type StemJob = typeof stemJobs.$inferSelect;
+export type InsertStemJob = Pick<typeof stemJobs.$inferInsert, "model" | "sourceSha256" | "sourceName" | "storagePrefix" | "sourceKey">;
+
+/** Stem gains go a little past unity so a quiet stem can be brought up in the mix. */
+export const MAX_STEM_GAIN = 1.5;
+
+/** One stem's place in the mix; with any stem soloed, only soloed stems are heard. */
+export const stemMixSchema = z.object({
+  gain: z.number().min(0).max(MAX_STEM_GAIN),
+  /** -1 (left) to 1 (right), with the Web Audio stereo panner's equal-power law. */
+  pan: z.number().min(-1).max(1),
+  muted: z.boolean(),
+  solo: z.boolean(),
+});
+export type StemMix = z.infer<typeof stemMixSchema>;
+
+export const DEFAULT_STEM_MIX: StemMix = { gain: 1, pan: 0, muted: false, solo: false };
+
+/** The gain each stem is heard at once solo and mute are applied. */
+export function effectiveStemGains(stems: readonly StemName[], mix: Partial<Record<StemName, StemMix>>): Partial<Record<StemName, number>> {
+  const anySolo = stems.some((stem) => mix[stem]?.solo);
+  const gains: Partial<Record<StemName, number>> = {};
+  for (const stem of stems) {
+    const { gain, muted, solo } = mix[stem] ?? DEFAULT_STEM_MIX;
+    gains[stem] = (anySolo ? solo : !muted) ? gain : 0;
+  }
+  return gains;
+}
+
+export const MIXDOWN_FORMATS = ["wav", "mp3"] as const;
+export type MixdownFormat = (typeof MIXDOWN_FORMATS)[number];
+
+/** Renders a finished stem job; stems missing from `mix` play at their defaults. */
+export const stemMixdownSchema = z.object({
+  format: z.enum(MIXDOWN_FORMATS),
+  mix: z.record(z.enum(STEM_NAMES), stemMixSchema).default({}),
+  /** Adds the render to the site's media library instead of sending it back as a download. */
+  saveToLibrary: z.boolean().default(false),
+  name: z.string().trim().min(1).max(200).optional(),
+});
+export type StemMixdown = z.infer<typeof stemMixdownSchema>;
+
+/** An earlier separation, by the track's bytes and model or by the audio URL it was separated from. */
+export const stemJobLookupSchema = z.union([
+  z.object({
+    sha256: z.string().regex(/^[0-9a-f]{64}$/),
+    model: stemModelSchema,
+  }),
+  z.object({ sourceUrl: mediaUrlSchema }),
+]);
+
+/** Links a separation to the audio URL its track plays from, taking the link over from any other separation. */
+export const stemJobSourceSchema = z.object({
+  sourceUrl: mediaUrlSchema,
+});